@@ -0,0 +1,325 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Individual, IndividualOffspringSettings } from "../individual/individual";
+import { Progress, TerminationCriterion } from "./termination";
+import { Random, getRandom, withRandom } from "../random";
+import { ScalarizationMethod, weightedSum } from "../individual/multiobjective_optimization/scalarization";
+import { $Data } from "../util_types";
+import { AnyBlueprint } from "../individual/blueprint/blueprint_aliases";
+import { AnyGenotype } from "../individual/data";
+import { CrossoverMethod } from "../operators/crossover";
+import { EvaluationFunction } from "../individual/evaluation/evaluation_function";
+import { Group } from "../individual/group";
+import { MutationMethod } from "../operators/mutation";
+import { OperatorContextSettings } from "../operators/context";
+import { ReplacementMethod } from "../operators/replacement";
+import { SelectionMethod } from "../operators/selection";
+import { isPositiveInt } from "../util";
+import { nonDominatedSort } from "../individual/multiobjective_optimization/multiobjective_optimization";
+
+/**
+ *
+ */
+export type EngineListener<G extends AnyGenotype, P> = (progress: Progress, group: Group<Individual<G, P>>) => void;
+
+/**
+ *
+ */
+export interface AbstractEngineSettings<G extends AnyGenotype, P> {
+  blueprint: AnyBlueprint<G, P>;
+  evaluation: EvaluationFunction<G, P>;
+  selection: SelectionMethod<Individual<G, P>>;
+  crossover: CrossoverMethod<$Data<G>>;
+  mutation: MutationMethod<$Data<G>>;
+  termination: TerminationCriterion;
+  size: number;
+  parents?: number;
+  replacement?: ReplacementMethod<Individual<G, P>>;
+  target?: ScalarizationMethod<Individual<G, P>>;
+  crossoverSettings?: IndividualOffspringSettings<G, P>;
+  random?: Random;
+  operatorData?: Record<string, any>;
+  onGeneration?: EngineListener<G, P>;
+}
+
+/**
+ *
+ */
+export interface EngineResult<G extends AnyGenotype, P> {
+  group: Group<Individual<G, P>>;
+  best: Individual<G, P>[];
+  progress: Progress;
+}
+
+/**
+ *
+ */
+export abstract class AbstractEngine<G extends AnyGenotype, P> {
+  /**
+   *
+   */
+  public readonly blueprint: AnyBlueprint<G, P>;
+
+  /**
+   *
+   */
+  public readonly evaluation: EvaluationFunction<G, P>;
+
+  /**
+   *
+   */
+  public readonly selection: SelectionMethod<Individual<G, P>>;
+
+  /**
+   *
+   */
+  public readonly crossover: CrossoverMethod<$Data<G>>;
+
+  /**
+   *
+   */
+  public readonly mutation: MutationMethod<$Data<G>>;
+
+  /**
+   *
+   */
+  public readonly termination: TerminationCriterion;
+
+  /**
+   *
+   */
+  public readonly replacement: ReplacementMethod<Individual<G, P>>;
+
+  /**
+   *
+   */
+  public readonly target: ScalarizationMethod<Individual<G, P>>;
+
+  /**
+   *
+   */
+  public readonly size: number;
+
+  /**
+   *
+   */
+  public readonly parents: number;
+
+  /**
+   *
+   */
+  public readonly random?: Random;
+
+  /**
+   *
+   */
+  protected readonly crossoverSettings: IndividualOffspringSettings<G, P>;
+
+  /**
+   *
+   */
+  protected readonly listener?: EngineListener<G, P>;
+
+  /**
+   * User data passed to the operators as `context.data`.
+   */
+  protected readonly operatorData?: Record<string, any>;
+
+  /**
+   *
+   * @param settings
+   * @param replacement
+   */
+  protected constructor(
+    settings: AbstractEngineSettings<G, P>,
+    replacement: ReplacementMethod<Individual<G, P>>,
+  ) {
+    if (typeof settings !== "object" || settings === null) {
+      throw new TypeError();
+    }
+
+    const functions = [settings.evaluation, settings.selection, settings.crossover, settings.mutation, settings.termination];
+
+    if (functions.some((func) => typeof func !== "function")) {
+      throw new TypeError();
+    }
+
+    if (settings.blueprint === undefined || typeof settings.blueprint.create !== "function") {
+      throw new TypeError();
+    }
+
+    this.blueprint = settings.blueprint;
+    this.evaluation = settings.evaluation;
+    this.selection = settings.selection;
+    this.crossover = settings.crossover;
+    this.mutation = settings.mutation;
+    this.termination = settings.termination;
+    this.replacement = settings.replacement ?? replacement;
+    this.target = settings.target ?? weightedSum;
+    this.crossoverSettings = settings.crossoverSettings ?? {};
+    this.random = settings.random;
+    this.listener = settings.onGeneration;
+    this.operatorData = settings.operatorData;
+
+    this.size = settings.size;
+    this.parents = settings.parents ?? 2;
+
+    if (!isPositiveInt(this.size) || !isPositiveInt(this.parents)) {
+      throw new TypeError();
+    }
+  }
+
+  /**
+   *
+   */
+  public abstract run(): EngineResult<G, P>;
+
+  /**
+   *
+   */
+  public abstract runAsync(): Promise<EngineResult<G, P>>;
+
+  /**
+   *
+   * @param func
+   */
+  protected $scope<T>(func: () => T): T {
+    return withRandom(this.random ?? getRandom(), func);
+  }
+
+  /**
+   *
+   */
+  protected $create(): Individual<G, P>[] | Promise<Individual<G, P>[]> {
+    return this.$scope(() => this.blueprint.create(this.size)) as Individual<G, P>[] | Promise<Individual<G, P>[]>;
+  }
+
+  /**
+   *
+   */
+  protected $createSync(): Individual<G, P>[] {
+    const members = this.$create();
+
+    if (members instanceof Promise) {
+      throw new TypeError("run() cannot use an asynchronous blueprint, use runAsync() instead");
+    }
+
+    return members;
+  }
+
+  /**
+   *
+   */
+  protected $progress(): Progress {
+    return {
+      generation: 0,
+      evaluations: 0,
+      elapsed: 0,
+      best: -Infinity,
+      stagnation: 0,
+    };
+  }
+
+  /**
+   *
+   * @param individuals
+   * @param progress
+   */
+  protected $evaluate(individuals: Individual<G, P>[], progress: Progress): void {
+    this.$scope(() => {
+      for (const individual of individuals) {
+        if (individual.evaluate(this.evaluation) instanceof Promise) {
+          throw new TypeError("run() cannot use an asynchronous evaluation function, use runAsync() instead");
+        }
+
+        progress.evaluations += 1;
+      }
+    });
+  }
+
+  /**
+   *
+   * @param individuals
+   * @param progress
+   */
+  protected async $evaluateAsync(individuals: Individual<G, P>[], progress: Progress): Promise<void> {
+    const evaluations = this.$scope(() => individuals.map((individual) => individual.evaluate(this.evaluation)));
+    await Promise.all(evaluations);
+
+    progress.evaluations += individuals.length;
+  }
+
+  /**
+   * Context passed to the operators while breeding the next generation.
+   *
+   * @param progress
+   */
+  protected $context(progress: Progress): OperatorContextSettings {
+    const { generation, evaluations } = progress;
+    return { generation, evaluations, data: this.operatorData };
+  }
+
+  /**
+   *
+   * @param group
+   * @param progress
+   */
+  protected $child(group: Group<Individual<G, P>>, progress: Progress): Individual<G, P> {
+    return this.$scope(() => {
+      const context = this.$context(progress);
+      const parents = group.select(this.parents, this.selection, context);
+      const child = parents.child(this.crossover as any, this.crossoverSettings, context);
+
+      child.mutate(this.mutation, context);
+      return child;
+    });
+  }
+
+  /**
+   *
+   * @param group
+   * @param progress
+   * @param start
+   */
+  protected $record(group: Group<Individual<G, P>>, progress: Progress, start: number): void {
+    const value = group.members().reduce((acc, member) => Math.max(acc, this.target(member)), -Infinity);
+
+    if (value > progress.best) {
+      progress.best = value;
+      progress.stagnation = 0;
+    } else {
+      progress.stagnation += 1;
+    }
+
+    progress.elapsed = Date.now() - start;
+
+    if (this.listener !== undefined) {
+      this.listener(Object.assign({}, progress), group);
+    }
+  }
+
+  /**
+   *
+   * @param group
+   * @param progress
+   */
+  protected $result(group: Group<Individual<G, P>>, progress: Progress): EngineResult<G, P> {
+    const [front] = nonDominatedSort(group.members());
+    return { group, best: front, progress: Object.assign({}, progress) };
+  }
+}
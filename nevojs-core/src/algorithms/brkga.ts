@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { best, random } from "../operators/selection";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { Progress } from "./termination";
+import { RandomKey } from "../genotype/random_key/random_key";
+import { biasedUniform } from "../genotype/random_key/random_key_operators";
+import { generational } from "../operators/replacement";
+
+/**
+ * The `elite` and `mutants` fractions of the population are rounded to whole
+ * individuals, there is at least one elite individual.
+ */
+export interface BrkgaEngineSettings<P>
+  extends Omit<AbstractEngineSettings<RandomKey, P>, "selection" | "crossover" | "mutation" | "parents" | "replacement"> {
+  elite?: number;
+  mutants?: number;
+  bias?: number;
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && 1 >= value;
+}
+
+/**
+ * Biased random-key genetic algorithm. Every generation keeps the elite
+ * individuals, injects mutants created by the blueprint and fills the rest
+ * with children of an elite and a non-elite parent, which inherit the keys of
+ * the elite one with the `bias` probability.
+ */
+export class BrkgaEngine<P> extends AbstractEngine<RandomKey, P> {
+  /**
+   *
+   */
+  public readonly elite: number;
+
+  /**
+   *
+   */
+  public readonly mutants: number;
+
+  /**
+   *
+   */
+  public readonly bias: number;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: BrkgaEngineSettings<P>) {
+    const bias = settings?.bias ?? 0.7;
+    const elite = settings?.elite ?? 0.2;
+    const mutants = settings?.mutants ?? 0.1;
+
+    if (!isFraction(bias) || !isFraction(elite) || !isFraction(mutants)) {
+      throw new TypeError();
+    }
+
+    super({
+      ...settings,
+      selection: random(),
+      crossover: biasedUniform({ bias }),
+      mutation: (data) => data,
+    }, generational());
+
+    this.bias = bias;
+    this.elite = Math.max(1, Math.round(elite * this.size));
+    this.mutants = Math.round(mutants * this.size);
+
+    if (this.elite + this.mutants > this.size) {
+      throw new RangeError(`Expected the elite and the mutants to fit in the population of ${this.size} individuals`);
+    }
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<RandomKey, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = this.$createSync();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    this.$evaluate(members, progress);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const mutants = this.$mutants();
+
+      if (mutants instanceof Promise) {
+        throw new TypeError("run() cannot use an asynchronous blueprint, use runAsync() instead");
+      }
+
+      const elite = this.$elite(group);
+      const offspring = this.$breed(group, elite, progress).concat(mutants);
+
+      this.$evaluate(offspring, progress);
+      group.set(elite.members().concat(offspring));
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   */
+  public async runAsync(): Promise<EngineResult<RandomKey, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = await this.$create();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    await this.$evaluateAsync(members, progress);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const mutants = await this.$mutants();
+      const elite = this.$elite(group);
+      const offspring = this.$breed(group, elite, progress).concat(mutants);
+
+      await this.$evaluateAsync(offspring, progress);
+      group.set(elite.members().concat(offspring));
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   * @param group
+   */
+  protected $elite(group: Group<Individual<RandomKey, P>>): Group<Individual<RandomKey, P>> {
+    return group.select(this.elite, best(this.target));
+  }
+
+  /**
+   *
+   */
+  protected $mutants(): Individual<RandomKey, P>[] | Promise<Individual<RandomKey, P>[]> {
+    if (this.mutants === 0) {
+      return [];
+    }
+
+    return this.$scope(() => this.blueprint.create(this.mutants)) as Individual<RandomKey, P>[] | Promise<Individual<RandomKey, P>[]>;
+  }
+
+  /**
+   * Mates a random elite individual with a random non-elite one. If the whole
+   * population is elite, both parents are elite.
+   *
+   * @param group
+   * @param elite
+   * @param progress
+   */
+  protected $breed(
+    group: Group<Individual<RandomKey, P>>,
+    elite: Group<Individual<RandomKey, P>>,
+    progress: Progress,
+  ): Individual<RandomKey, P>[] {
+    return this.$scope(() => {
+      const context = this.$context(progress);
+      const others = group.length > elite.length ? group.except(elite) : group;
+      const amount = this.size - this.elite - this.mutants;
+
+      return Array.from({ length: amount }, () => {
+        const parent = elite.get(this.selection);
+        return parent.offspring([others.get(this.selection)], this.crossover, this.crossoverSettings, context)[0];
+      });
+    });
+  }
+}
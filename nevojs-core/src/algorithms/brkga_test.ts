@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { BrkgaEngine, BrkgaEngineSettings } from "./brkga";
+import { RandomKey, toPermutation } from "../genotype/random_key/random_key";
+import { blueprint, minimize } from "../creation";
+import { Individual } from "../individual/individual";
+import { Xoshiro128 } from "../random";
+import { generations } from "./termination";
+
+type Schedule = Individual<RandomKey, number[]>;
+
+const durations = [4, 1, 3, 2, 5, 1, 2, 3];
+
+// total completion time, minimized by the shortest jobs first
+function completion(individual: Schedule): number {
+  let time = 0;
+
+  return individual.phenotype.reduce((acc, job) => {
+    time += durations[job];
+    return acc + time;
+  }, 0);
+}
+
+function settingsFixture(settings: Partial<BrkgaEngineSettings<number[]>> = {}): BrkgaEngineSettings<number[]> {
+  return Object.assign({
+    blueprint: blueprint({
+      genotype: () => RandomKey.random(durations.length),
+      phenotype: toPermutation,
+    }),
+    evaluation: (individual: Schedule) => minimize(completion(individual)),
+    termination: generations(30),
+    size: 30,
+    random: new Xoshiro128(1),
+  }, settings);
+}
+
+describe("BrkgaEngine", () => {
+  describe("constructor", () => {
+    it("rounds the fractions to whole individuals", () => {
+      const engine = new BrkgaEngine(settingsFixture({ elite: 0.25, mutants: 0.15 }));
+
+      expect(engine.elite).toBe(8);
+      expect(engine.mutants).toBe(5);
+    });
+
+    it("throws a TypeError if a fraction is out of the [0, 1] range", () => {
+      expect(() => new BrkgaEngine(settingsFixture({ bias: 1.2 }))).toThrow(TypeError);
+      expect(() => new BrkgaEngine(settingsFixture({ elite: -0.1 }))).toThrow(TypeError);
+    });
+
+    it("throws a RangeError if the elite and the mutants exceed the population", () => {
+      expect(() => new BrkgaEngine(settingsFixture({ elite: 0.6, mutants: 0.5 }))).toThrow(RangeError);
+    });
+  });
+
+  describe("run", () => {
+    it("keeps the elite individuals", () => {
+      const values: number[] = [];
+
+      new BrkgaEngine(settingsFixture({
+        onGeneration: (progress, group) => {
+          values.push(Math.max(...group.members().map((member) => member.fitness()[0])));
+        },
+      })).run();
+
+      expect(values.every((value, i) => i === 0 || value >= values[i - 1])).toBe(true);
+    });
+
+    it("counts the evaluations of the children and the mutants", () => {
+      const result = new BrkgaEngine(settingsFixture({ termination: generations(4), elite: 0.2, mutants: 0.1 })).run();
+
+      expect(result.progress.evaluations).toBe(30 + 4 * (30 - 6));
+      expect(result.group.length).toBe(30);
+    });
+
+    it("finds the shortest processing time order", () => {
+      const result = new BrkgaEngine(settingsFixture({ termination: generations(60) })).run();
+      const [schedule] = result.best.map((member) => member.phenotype.map((job) => durations[job]));
+
+      expect(schedule).toEqual(durations.slice().sort((a, b) => a - b));
+    });
+
+    it("produces the same result for the same seed", () => {
+      const seeded = () => JSON.stringify(new BrkgaEngine(settingsFixture()).run().group.members().map((member) => member.serialize()));
+
+      expect(seeded()).toBe(seeded());
+    });
+  });
+
+  describe("runAsync", () => {
+    it("supports asynchronous blueprints", async () => {
+      const result = await new BrkgaEngine(settingsFixture({
+        blueprint: blueprint({
+          genotype: async () => RandomKey.random(durations.length),
+          phenotype: toPermutation,
+        }),
+        termination: generations(2),
+      })).runAsync();
+
+      expect(result.progress.generation).toBe(2);
+      expect(result.group.length).toBe(30);
+    });
+  });
+});
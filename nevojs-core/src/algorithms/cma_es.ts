@@ -0,0 +1,398 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { CmaEsConvergenceSettings, CmaEsState } from "./cma_es_state";
+import { RealData, RealGenotype, clamp, realInterval, realValues, reflect, withRealValues } from "../genotype/real_vector/real_vector";
+import { best, random } from "../operators/selection";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { Progress } from "./termination";
+import { getRandom } from "../random";
+import { isPositiveInt } from "../util";
+
+/**
+ * IPOP restarts with a doubled population size, BIPOP alternates those with
+ * restarts using small populations and step sizes.
+ */
+export type CmaEsRestartStrategy = "ipop" | "bipop";
+
+/**
+ * Points sampled outside of the bounds are either clipped, reflected at the
+ * bounds or sampled again (and clipped after 10 failed attempts).
+ */
+export type CmaEsBoundaryHandling = "clip" | "reflect" | "resample";
+
+/**
+ * The bounds apply to lists, real vectors use their own bounds. The initial
+ * mean is taken from an individual created by the blueprint unless given,
+ * restarts start from a new individual of the blueprint. Passing a `state`
+ * resumes a checkpointed run.
+ */
+export interface CmaEsEngineSettings<G extends RealGenotype, P>
+  extends Omit<AbstractEngineSettings<G, P>, "selection" | "crossover" | "mutation" | "parents" | "replacement">,
+  Partial<CmaEsConvergenceSettings> {
+  sigma?: number;
+  mean?: number[];
+  restarts?: CmaEsRestartStrategy;
+  maxRestarts?: number;
+  boundary?: CmaEsBoundaryHandling;
+  lower?: number | ArrayLike<number>;
+  upper?: number | ArrayLike<number>;
+  state?: CmaEsState;
+}
+
+/**
+ * Covariance matrix adaptation evolution strategy. Every generation samples
+ * a population from the search distribution and moves the distribution
+ * towards the better half of it, ranked by the `target`. The `size` is the
+ * population size of the first run, see {@link cmaPopulationSize}.
+ *
+ * The result holds the best individual found during the whole run.
+ */
+export class CmaEsEngine<G extends RealGenotype, P> extends AbstractEngine<G, P> {
+  /**
+   *
+   */
+  public readonly sigma: number;
+
+  /**
+   *
+   */
+  public readonly restarts?: CmaEsRestartStrategy;
+
+  /**
+   *
+   */
+  public readonly maxRestarts: number;
+
+  /**
+   *
+   */
+  public readonly boundary: CmaEsBoundaryHandling;
+
+  /**
+   *
+   */
+  protected readonly convergence: CmaEsConvergenceSettings;
+
+  /**
+   *
+   */
+  protected readonly mean?: number[];
+
+  /**
+   *
+   */
+  protected readonly lower: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected readonly upper: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected readonly checkpoint?: CmaEsState;
+
+  /**
+   *
+   */
+  protected _state?: CmaEsState;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: CmaEsEngineSettings<G, P>) {
+    super({
+      ...settings,
+      selection: random(),
+      crossover: (parents) => parents,
+      mutation: (data) => data,
+    }, (amount, population, offspring) => offspring);
+
+    this.sigma = settings.sigma ?? 1;
+    this.restarts = settings.restarts;
+    this.maxRestarts = settings.maxRestarts ?? 9;
+    this.boundary = settings.boundary ?? "clip";
+    this.convergence = { tolX: settings.tolX ?? 1e-12, tolFun: settings.tolFun ?? 1e-12 };
+    this.mean = settings.mean;
+    this.lower = settings.lower ?? -Infinity;
+    this.upper = settings.upper ?? Infinity;
+    this.checkpoint = settings.state;
+
+    if (typeof this.sigma !== "number" || !isFinite(this.sigma) || 0 >= this.sigma) {
+      throw new TypeError();
+    }
+
+    if (2 > this.size) {
+      throw new RangeError("CMA-ES requires a population of at least 2 individuals");
+    }
+
+    if (this.restarts !== undefined && this.restarts !== "ipop" && this.restarts !== "bipop") {
+      throw new TypeError(`invalid restart strategy ${this.restarts}`);
+    }
+
+    if (!["clip", "reflect", "resample"].includes(this.boundary)) {
+      throw new TypeError(`invalid boundary handling ${this.boundary}`);
+    }
+
+    if (this.maxRestarts !== 0 && !isPositiveInt(this.maxRestarts)) {
+      throw new TypeError();
+    }
+  }
+
+  /**
+   * The current search distribution, which can be checkpointed with
+   * `serialize()` and passed as the `state` setting to resume the run.
+   */
+  public get state(): CmaEsState | undefined {
+    return this._state;
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<G, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    let template = this.$template();
+
+    if (template instanceof Promise) {
+      throw new TypeError("run() cannot use an asynchronous blueprint, use runAsync() instead");
+    }
+
+    let state = this.$initial(template);
+    let group = new Group<Individual<G, P>>({ members: [], size: this.size, random: this.random });
+    let incumbent: Individual<G, P> | undefined;
+
+    while (!this.termination(progress)) {
+      const members = this.$sample(template, state);
+      this.$evaluate(members, progress);
+
+      group = new Group({ members, size: members.length, random: this.random });
+      incumbent = this.$update(state, group, incumbent);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+
+      if (state.converged(this.convergence, this.sigma)) {
+        if (this.restarts === undefined || state.restarts.count >= this.maxRestarts) {
+          break;
+        }
+
+        template = this.$template();
+
+        if (template instanceof Promise) {
+          throw new TypeError("run() cannot use an asynchronous blueprint, use runAsync() instead");
+        }
+
+        state = this.$restart(state, template);
+      }
+    }
+
+    return this.$incumbent(group, progress, incumbent);
+  }
+
+  /**
+   *
+   */
+  public async runAsync(): Promise<EngineResult<G, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    let template = await this.$template();
+    let state = this.$initial(template);
+    let group = new Group<Individual<G, P>>({ members: [], size: this.size, random: this.random });
+    let incumbent: Individual<G, P> | undefined;
+
+    while (!this.termination(progress)) {
+      const members = this.$sample(template, state);
+      await this.$evaluateAsync(members, progress);
+
+      group = new Group({ members, size: members.length, random: this.random });
+      incumbent = this.$update(state, group, incumbent);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+
+      if (state.converged(this.convergence, this.sigma)) {
+        if (this.restarts === undefined || state.restarts.count >= this.maxRestarts) {
+          break;
+        }
+
+        template = await this.$template();
+        state = this.$restart(state, template);
+      }
+    }
+
+    return this.$incumbent(group, progress, incumbent);
+  }
+
+  /**
+   * Creates the individual whose genotype is used to create the sampled
+   * individuals.
+   */
+  protected $template(): Individual<G, P> | Promise<Individual<G, P>> {
+    const members = this.$scope(() => this.blueprint.create(1)) as Individual<G, P>[] | Promise<Individual<G, P>[]>;
+
+    return members instanceof Promise
+      ? members.then(([member]) => member)
+      : members[0];
+  }
+
+  /**
+   * Copies the checkpoint if there is one, so that it can be resumed again.
+   *
+   * @param template
+   */
+  protected $initial(template: Individual<G, P>): CmaEsState {
+    if (this.checkpoint !== undefined) {
+      this._state = CmaEsState.deserialize(this.checkpoint.serialize());
+    } else {
+      const mean = this.mean ?? realValues(template.genotype.data());
+      this._state = CmaEsState.create(mean, this.sigma, this.size);
+    }
+
+    return this._state;
+  }
+
+  /**
+   * Starts a new run from the template, with the population size and the
+   * step size given by the restart strategy.
+   *
+   * @param state
+   * @param template
+   */
+  protected $restart(state: CmaEsState, template: Individual<G, P>): CmaEsState {
+    return this.$scope(() => {
+      const restarts = { ...state.restarts, count: state.restarts.count + 1 };
+      const evaluations = state.generation * state.size;
+
+      if (restarts.regime === "large") {
+        restarts.large += evaluations;
+      } else {
+        restarts.small += evaluations;
+      }
+
+      let size: number;
+      let sigma = this.sigma;
+
+      if (this.restarts === "ipop" || restarts.small >= restarts.large) {
+        restarts.regime = "large";
+        restarts.doublings += 1;
+        size = this.size * 2 ** restarts.doublings;
+      } else {
+        const u = getRandom().next();
+
+        restarts.regime = "small";
+        size = Math.max(this.size, Math.floor(this.size * (0.5 * 2 ** restarts.doublings) ** (u * u)));
+        sigma = this.sigma * 10 ** (-2 * u);
+      }
+
+      const mean = this.mean ?? realValues(template.genotype.data());
+
+      this._state = CmaEsState.create(mean, sigma, size, restarts);
+      return this._state;
+    });
+  }
+
+  /**
+   *
+   * @param template
+   * @param state
+   */
+  protected $sample(template: Individual<G, P>, state: CmaEsState): Individual<G, P>[] {
+    return this.$scope(() => {
+      const random = getRandom();
+      const data = template.genotype.data();
+
+      return Array.from({ length: state.size }, () => {
+        const values = this.$repair(data, state, state.sample(random));
+        const method = (parents: RealData[]) => [withRealValues(parents[0], values)];
+
+        return template.offspring([], method as any, this.crossoverSettings)[0];
+      });
+    });
+  }
+
+  /**
+   *
+   * @param data
+   * @param state
+   * @param values
+   */
+  protected $repair(data: RealData, state: CmaEsState, values: number[]): number[] {
+    const intervals = values.map((_, i) => realInterval(data, i, this.lower, this.upper));
+    const feasible = (point: number[]) => point.every((value, i) => value >= intervals[i].lower && intervals[i].upper >= value);
+
+    if (this.boundary === "resample") {
+      for (let attempt = 0; attempt < 10 && !feasible(values); attempt++) {
+        values = state.sample();
+      }
+    }
+
+    return values.map((value, i) => {
+      const { lower, upper } = intervals[i];
+
+      return this.boundary === "reflect"
+        ? reflect(value, lower, upper)
+        : clamp(value, lower, upper);
+    });
+  }
+
+  /**
+   * Updates the distribution with the ranked population and returns the best
+   * individual found so far.
+   *
+   * @param state
+   * @param group
+   * @param incumbent
+   */
+  protected $update(
+    state: CmaEsState,
+    group: Group<Individual<G, P>>,
+    incumbent?: Individual<G, P>,
+  ): Individual<G, P> {
+    const ranked = group.select(group.length, best(this.target)).members();
+
+    state.update(ranked.map((member) => realValues(member.genotype.data())));
+    state.record(this.target(ranked[0]));
+
+    return incumbent === undefined || this.target(ranked[0]) > this.target(incumbent)
+      ? ranked[0]
+      : incumbent;
+  }
+
+  /**
+   *
+   * @param group
+   * @param progress
+   * @param incumbent
+   */
+  protected $incumbent(
+    group: Group<Individual<G, P>>,
+    progress: Progress,
+    incumbent?: Individual<G, P>,
+  ): EngineResult<G, P> {
+    const front = incumbent === undefined ? [] : [incumbent];
+    return { group, best: front, progress: Object.assign({}, progress) };
+  }
+}
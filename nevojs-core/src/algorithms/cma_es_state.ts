@@ -0,0 +1,385 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Matrix, eigen, identity, multiply, norm, transpose } from "../linear_algebra";
+import { Random, getRandom } from "../random";
+import { deserialize, serialize } from "../serialization";
+import { isPositiveInt, randomGauss } from "../util";
+
+/**
+ * `"large"` for the initial run and the restarts with increasing population
+ * sizes, `"small"` for the restarts of BIPOP with small populations.
+ */
+export type CmaEsRegime = "large" | "small";
+
+/**
+ * Bookkeeping of the restart strategies: the number of restarts, how many
+ * times the population size doubled, the evaluations spent in the large and
+ * the small population regime and the regime of the current run.
+ */
+export interface CmaEsRestarts {
+  count: number;
+  doublings: number;
+  large: number;
+  small: number;
+  regime: CmaEsRegime;
+}
+
+/**
+ * `path` is the evolution path of the covariance matrix, `sigmaPath` the
+ * conjugate evolution path of the step size. `history` holds the best values
+ * of the recent generations.
+ */
+export interface CmaEsStateData {
+  mean: number[];
+  sigma: number;
+  covariance: Matrix;
+  path: number[];
+  sigmaPath: number[];
+  size: number;
+  generation: number;
+  history: number[];
+  restarts: CmaEsRestarts;
+}
+
+/**
+ *
+ */
+export type SerializedCmaEsState = CmaEsStateData;
+
+/**
+ *
+ */
+export interface CmaEsConvergenceSettings {
+  tolX: number;
+  tolFun: number;
+}
+
+/**
+ * The default population size of CMA-ES, `4 + floor(3 ln n)`.
+ *
+ * @param dimension
+ */
+export function cmaPopulationSize(dimension: number): number {
+  return 4 + Math.floor(3 * Math.log(dimension));
+}
+
+/**
+ * The search distribution of CMA-ES, a multivariate normal distribution with
+ * the mean `mean` and the covariance matrix `sigma^2 C`, along with the
+ * evolution paths.
+ */
+export class CmaEsState {
+  /**
+   *
+   * @param mean
+   * @param sigma
+   * @param size
+   * @param restarts
+   */
+  public static create(
+    mean: number[],
+    sigma: number,
+    size: number = cmaPopulationSize(mean.length),
+    restarts: CmaEsRestarts = { count: 0, doublings: 0, large: 0, small: 0, regime: "large" },
+  ): CmaEsState {
+    const n = mean.length;
+
+    return new CmaEsState({
+      mean: mean.slice(),
+      sigma,
+      covariance: identity(n),
+      path: new Array(n).fill(0),
+      sigmaPath: new Array(n).fill(0),
+      size,
+      generation: 0,
+      history: [],
+      restarts,
+    });
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: SerializedCmaEsState): CmaEsState {
+    return new CmaEsState(deserialize(serialized));
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static fromJSON(serialized: string): CmaEsState {
+    return CmaEsState.deserialize(JSON.parse(serialized));
+  }
+
+  /**
+   *
+   */
+  public readonly restarts: CmaEsRestarts;
+
+  private _mean: number[];
+  private _sigma: number;
+  private _covariance: Matrix;
+  private _path: number[];
+  private _sigmaPath: number[];
+  private _generation: number;
+  private readonly _history: number[];
+  private readonly _size: number;
+
+  private decomposition?: { basis: Matrix; scales: number[] };
+
+  private readonly mu: number;
+  private readonly weights: number[];
+  private readonly mueff: number;
+  private readonly cc: number;
+  private readonly cs: number;
+  private readonly c1: number;
+  private readonly cmu: number;
+  private readonly damps: number;
+  private readonly chiN: number;
+
+  /**
+   *
+   * @param data
+   */
+  public constructor(data: CmaEsStateData) {
+    const n = data.mean.length;
+
+    if (n === 0 || data.mean.some((value) => !isFinite(value))) {
+      throw new TypeError("invalid CMA-ES state: the mean has to be a non-empty vector of finite numbers");
+    }
+
+    if (!isFinite(data.sigma) || 0 >= data.sigma) {
+      throw new TypeError(`invalid CMA-ES state: step size ${data.sigma} is not a positive number`);
+    }
+
+    if (!isPositiveInt(data.size) || 2 > data.size) {
+      throw new TypeError(`invalid CMA-ES state: population size ${data.size} is smaller than 2`);
+    }
+
+    const vectors = [data.path, data.sigmaPath, ...data.covariance];
+
+    if (data.covariance.length !== n || vectors.some((vector) => vector.length !== n)) {
+      throw new TypeError(`invalid CMA-ES state: the paths and the covariance matrix do not match dimension ${n}`);
+    }
+
+    this._mean = data.mean.slice();
+    this._sigma = data.sigma;
+    this._covariance = data.covariance.map((row) => row.slice());
+    this._path = data.path.slice();
+    this._sigmaPath = data.sigmaPath.slice();
+    this._size = data.size;
+    this._generation = data.generation;
+    this._history = data.history.slice();
+    this.restarts = { ...data.restarts };
+
+    this.mu = Math.floor(this._size / 2);
+
+    const raw = Array.from({ length: this.mu }, (_, i) => Math.log((this._size + 1) / 2) - Math.log(i + 1));
+    const total = raw.reduce((acc, weight) => acc + weight, 0);
+
+    this.weights = raw.map((weight) => weight / total);
+    this.mueff = 1 / this.weights.reduce((acc, weight) => acc + weight * weight, 0);
+
+    this.cc = (4 + this.mueff / n) / (n + 4 + 2 * this.mueff / n);
+    this.cs = (this.mueff + 2) / (n + this.mueff + 5);
+    this.c1 = 2 / ((n + 1.3) ** 2 + this.mueff);
+    this.cmu = Math.min(1 - this.c1, 2 * (this.mueff - 2 + 1 / this.mueff) / ((n + 2) ** 2 + this.mueff));
+    this.damps = 1 + 2 * Math.max(0, Math.sqrt((this.mueff - 1) / (n + 1)) - 1) + this.cs;
+    this.chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n));
+  }
+
+  /**
+   *
+   */
+  public get dimension(): number {
+    return this._mean.length;
+  }
+
+  /**
+   *
+   */
+  public get size(): number {
+    return this._size;
+  }
+
+  /**
+   *
+   */
+  public get sigma(): number {
+    return this._sigma;
+  }
+
+  /**
+   *
+   */
+  public get generation(): number {
+    return this._generation;
+  }
+
+  /**
+   *
+   */
+  public mean(): number[] {
+    return this._mean.slice();
+  }
+
+  /**
+   *
+   */
+  public covariance(): Matrix {
+    return this._covariance.map((row) => row.slice());
+  }
+
+  /**
+   * Samples a point from the distribution.
+   *
+   * @param random
+   */
+  public sample(random: Random = getRandom()): number[] {
+    const { basis, scales } = this.$decompose();
+    const z = scales.map((scale) => scale * randomGauss(0, 1, random));
+    const y = multiply(basis, z);
+
+    return this._mean.map((value, i) => value + this._sigma * y[i]);
+  }
+
+  /**
+   * Moves the distribution towards the given points, ordered from the best
+   * one. Only the better half of the points is used.
+   *
+   * @param ranked
+   */
+  public update(ranked: number[][]): void {
+    const n = this.dimension;
+
+    if (this.mu > ranked.length || ranked.some((point) => point.length !== n)) {
+      throw new TypeError(`CMA-ES update requires at least ${this.mu} points of dimension ${n}`);
+    }
+
+    const { basis, scales } = this.$decompose();
+    const steps = ranked.slice(0, this.mu).map((point) => point.map((value, i) => (value - this._mean[i]) / this._sigma));
+    const step = this._mean.map((_, i) => steps.reduce((acc, y, k) => acc + this.weights[k] * y[i], 0));
+
+    this._mean = this._mean.map((value, i) => value + this._sigma * step[i]);
+
+    // C^(-1/2) y = B D^(-1) B^T y
+    const whitened = multiply(basis, multiply(transpose(basis), step).map((value, i) => value / Math.max(scales[i], 1e-150)));
+    const cs = Math.sqrt(this.cs * (2 - this.cs) * this.mueff);
+
+    this._sigmaPath = this._sigmaPath.map((value, i) => (1 - this.cs) * value + cs * whitened[i]);
+    this._generation += 1;
+
+    const length = norm(this._sigmaPath);
+    const threshold = (1.4 + 2 / (n + 1)) * this.chiN * Math.sqrt(1 - (1 - this.cs) ** (2 * this._generation));
+    const hsig = threshold > length ? 1 : 0;
+    const cc = Math.sqrt(this.cc * (2 - this.cc) * this.mueff);
+
+    this._path = this._path.map((value, i) => (1 - this.cc) * value + hsig * cc * step[i]);
+
+    const delta = (1 - hsig) * this.cc * (2 - this.cc);
+    const decay = 1 - this.c1 - this.cmu;
+
+    this._covariance = this._covariance.map((row, i) => row.map((value, j) => {
+      const rankOne = this._path[i] * this._path[j] + delta * value;
+      const rankMu = steps.reduce((acc, y, k) => acc + this.weights[k] * y[i] * y[j], 0);
+
+      return decay * value + this.c1 * rankOne + this.cmu * rankMu;
+    }));
+
+    this._sigma *= Math.exp((this.cs / this.damps) * (length / this.chiN - 1));
+    this.decomposition = undefined;
+  }
+
+  /**
+   * Remembers the best value of a generation.
+   *
+   * @param value
+   */
+  public record(value: number): void {
+    this._history.push(value);
+
+    if (this._history.length > this.$historyLength()) {
+      this._history.shift();
+    }
+  }
+
+  /**
+   * Whether the distribution stopped making progress: the step size shrank
+   * below `tolX` times the initial one, the recent best values are within
+   * `tolFun` of each other or the covariance matrix became ill-conditioned.
+   *
+   * @param settings
+   * @param sigma
+   */
+  public converged(settings: CmaEsConvergenceSettings, sigma: number): boolean {
+    const { scales } = this.$decompose();
+    const deviations = this._covariance.map((row, i) => Math.max(Math.sqrt(row[i]), Math.abs(this._path[i])));
+
+    if (settings.tolX * sigma > this._sigma * Math.max(...deviations)) {
+      return true;
+    }
+
+    const full = this._history.length === this.$historyLength();
+
+    if (full && settings.tolFun > Math.max(...this._history) - Math.min(...this._history)) {
+      return true;
+    }
+
+    const condition = (Math.max(...scales) / Math.min(...scales)) ** 2;
+    return !isFinite(condition) || condition > 1e14;
+  }
+
+  /**
+   *
+   */
+  public serialize(): SerializedCmaEsState {
+    return serialize({
+      mean: this.mean(),
+      sigma: this._sigma,
+      covariance: this.covariance(),
+      path: this._path.slice(),
+      sigmaPath: this._sigmaPath.slice(),
+      size: this._size,
+      generation: this._generation,
+      history: this._history.slice(),
+      restarts: { ...this.restarts },
+    });
+  }
+
+  /**
+   *
+   */
+  public toJSON(): string {
+    return JSON.stringify(this.serialize());
+  }
+
+  private $historyLength(): number {
+    return 10 + Math.ceil(30 * this.dimension / this._size);
+  }
+
+  private $decompose(): { basis: Matrix; scales: number[] } {
+    if (this.decomposition === undefined) {
+      const { values, vectors } = eigen(this._covariance);
+      this.decomposition = { basis: vectors, scales: values.map((value) => Math.sqrt(Math.max(value, 0))) };
+    }
+
+    return this.decomposition;
+  }
+}
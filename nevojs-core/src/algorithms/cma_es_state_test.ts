@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { CmaEsState, cmaPopulationSize } from "./cma_es_state";
+import { Xoshiro128 } from "../random";
+
+const sphere = (point: number[]) => point.reduce((acc, value) => acc + value * value, 0);
+
+function optimize(state: CmaEsState, generations: number, random = new Xoshiro128(1)): void {
+  for (let i = 0; i < generations; i++) {
+    const points = Array.from({ length: state.size }, () => state.sample(random));
+    state.update(points.sort((a, b) => sphere(a) - sphere(b)));
+  }
+}
+
+describe("cmaPopulationSize", () => {
+  it("grows logarithmically with the dimension", () => {
+    expect(cmaPopulationSize(2)).toBe(6);
+    expect(cmaPopulationSize(10)).toBe(10);
+    expect(cmaPopulationSize(100)).toBe(17);
+  });
+});
+
+describe("CmaEsState", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the state is inconsistent", () => {
+      const data = CmaEsState.create([0, 0], 1).serialize();
+
+      expect(() => new CmaEsState({ ...data, sigma: 0 })).toThrow(TypeError);
+      expect(() => new CmaEsState({ ...data, path: [0] })).toThrow("do not match dimension 2");
+      expect(() => new CmaEsState({ ...data, mean: [] })).toThrow(TypeError);
+      expect(() => new CmaEsState({ ...data, size: 1 })).toThrow(TypeError);
+    });
+  });
+
+  describe("sample", () => {
+    it("samples around the mean", () => {
+      const state = CmaEsState.create([5, -5], 0.1);
+      const random = new Xoshiro128(1);
+      const points = Array.from({ length: 1000 }, () => state.sample(random));
+
+      expect(points.reduce((acc, point) => acc + point[0], 0) / 1000).toBeCloseTo(5, 1);
+      expect(points.reduce((acc, point) => acc + point[1], 0) / 1000).toBeCloseTo(-5, 1);
+    });
+  });
+
+  describe("update", () => {
+    it("moves the mean towards the better points", () => {
+      const state = CmaEsState.create([0, 0], 1, 4);
+      state.update([[1, 1], [1, 1], [-1, -1], [-1, -1]]);
+
+      expect(state.mean()[0]).toBeCloseTo(1, 12);
+      expect(state.generation).toBe(1);
+    });
+
+    it("converges on the sphere function", () => {
+      const state = CmaEsState.create([3, -2, 1, 4], 1);
+      optimize(state, 150);
+
+      expect(sphere(state.mean())).toBeLessThan(1e-10);
+      expect(state.sigma).toBeLessThan(1e-4);
+    });
+
+    it("learns the shape of an ellipsoid", () => {
+      const ellipsoid = (point: number[]) => point[0] ** 2 + 1e4 * point[1] ** 2;
+      const state = CmaEsState.create([1, 1], 1);
+      const random = new Xoshiro128(2);
+
+      for (let i = 0; i < 150; i++) {
+        const points = Array.from({ length: state.size }, () => state.sample(random));
+        state.update(points.sort((a, b) => ellipsoid(a) - ellipsoid(b)));
+      }
+
+      const [[x], [, y]] = state.covariance();
+      expect(x / y).toBeGreaterThan(100);
+    });
+
+    it("throws a TypeError if there are not enough points", () => {
+      expect(() => CmaEsState.create([0, 0], 1, 6).update([[0, 0]])).toThrow(TypeError);
+    });
+  });
+
+  describe("converged", () => {
+    it("detects a collapsed step size and a flat history", () => {
+      const state = CmaEsState.create([0, 0], 1e-20);
+      expect(state.converged({ tolX: 1e-12, tolFun: 0 }, 1)).toBe(true);
+
+      const flat = CmaEsState.create([0, 0], 1);
+      expect(flat.converged({ tolX: 1e-12, tolFun: 1e-12 }, 1)).toBe(false);
+
+      for (let i = 0; i < 30; i++) {
+        flat.record(1);
+      }
+
+      expect(flat.converged({ tolX: 1e-12, tolFun: 1e-12 }, 1)).toBe(true);
+    });
+  });
+
+  describe("serialize", () => {
+    it("restores a state which continues identically", () => {
+      const state = CmaEsState.create([3, -2, 1], 1);
+      optimize(state, 20);
+
+      const restored = CmaEsState.fromJSON(state.toJSON());
+      expect(restored.serialize()).toEqual(state.serialize());
+
+      optimize(state, 10, new Xoshiro128(5));
+      optimize(restored, 10, new Xoshiro128(5));
+      expect(restored.mean()).toEqual(state.mean());
+    });
+  });
+});
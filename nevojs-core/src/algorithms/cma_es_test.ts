@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { CmaEsEngine, CmaEsEngineSettings } from "./cma_es";
+import { Xoshiro128, getRandom } from "../random";
+import { blueprint, minimize } from "../creation";
+import { generations, some } from "./termination";
+import { CmaEsState } from "./cma_es_state";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { RealVector } from "../genotype/real_vector/real_vector";
+
+type Point = Individual<List<number>, unknown>;
+
+const sphere = (values: number[]) => values.reduce((acc, value) => acc + value * value, 0);
+
+const rastrigin = (values: number[]) => values.reduce((acc, value) => acc + value * value - 10 * Math.cos(2 * Math.PI * value) + 10, 0);
+
+function settingsFixture(
+  settings: Partial<CmaEsEngineSettings<List<number>, unknown>> = {},
+): CmaEsEngineSettings<List<number>, unknown> {
+  return Object.assign({
+    blueprint: blueprint({ genotype: () => List.generate(4, () => getRandom().next() * 10 - 5) }),
+    evaluation: (individual: Point) => minimize(sphere(individual.genotype.data())),
+    termination: generations(200),
+    size: 8,
+    random: new Xoshiro128(1),
+  }, settings);
+}
+
+describe("CmaEsEngine", () => {
+  describe("constructor", () => {
+    it("throws if the settings are invalid", () => {
+      expect(() => new CmaEsEngine(settingsFixture({ sigma: 0 }))).toThrow(TypeError);
+      expect(() => new CmaEsEngine(settingsFixture({ size: 1 }))).toThrow(RangeError);
+      expect(() => new CmaEsEngine(settingsFixture({ restarts: "foo" as any }))).toThrow(TypeError);
+      expect(() => new CmaEsEngine(settingsFixture({ boundary: "foo" as any }))).toThrow(TypeError);
+    });
+  });
+
+  describe("run", () => {
+    it("minimizes the sphere function", () => {
+      const result = new CmaEsEngine(settingsFixture()).run();
+
+      expect(sphere(result.best[0].genotype.data())).toBeLessThan(1e-10);
+      expect(result.progress.evaluations).toBe(result.progress.generation * 8);
+    });
+
+    it("stops without restarts once the distribution converged", () => {
+      const result = new CmaEsEngine(settingsFixture({ termination: generations(10000) })).run();
+
+      expect(result.progress.generation).toBeLessThan(10000);
+    });
+
+    it("starts at the given mean", () => {
+      const engine = new CmaEsEngine(settingsFixture({ mean: [100, 100, 100, 100], sigma: 1e-3, termination: generations(1) }));
+      const result = engine.run();
+
+      result.group.members().forEach((member) => {
+        member.genotype.data().forEach((gene) => expect(gene).toBeCloseTo(100, 1));
+      });
+    });
+
+    it("reuses the individuals and the best selection of the population", () => {
+      const result = new CmaEsEngine(settingsFixture({ termination: generations(5) })).run();
+      const best = result.group.members().reduce((a, b) => a.fitness()[0] >= b.fitness()[0] ? a : b);
+
+      expect(result.group.members().every((member) => member instanceof Individual)).toBe(true);
+      expect(result.best[0].fitness()[0]).toBeGreaterThanOrEqual(best.fitness()[0]);
+    });
+
+    it("keeps the samples within the bounds", () => {
+      (["clip", "reflect", "resample"] as const).forEach((boundary) => {
+        const result = new CmaEsEngine(settingsFixture({
+          evaluation: (individual: Point) => minimize(sphere(individual.genotype.data().map((gene) => gene - 3))),
+          blueprint: blueprint({ genotype: () => List.generate(4, () => getRandom().next()) }),
+          termination: generations(100),
+          lower: 0,
+          upper: 1,
+          sigma: 0.5,
+          boundary,
+        })).run();
+
+        result.group.members().forEach((member) => {
+          member.genotype.data().forEach((gene) => {
+            expect(gene).toBeGreaterThanOrEqual(0);
+            expect(gene).toBeLessThanOrEqual(1);
+          });
+        });
+        result.best[0].genotype.data().forEach((gene) => expect(gene).toBeCloseTo(1, 3));
+      });
+    });
+
+    it("works on real vectors within their bounds", () => {
+      const result = new CmaEsEngine({
+        blueprint: blueprint({ genotype: () => RealVector.random(3, { lower: -2, upper: 2 }) }),
+        evaluation: (individual: Individual<RealVector, unknown>) => minimize(sphere(individual.genotype.values().map((value) => value + 5))),
+        termination: generations(100),
+        size: 6,
+        random: new Xoshiro128(3),
+      }).run();
+
+      result.best[0].genotype.values().forEach((value) => expect(value).toBeCloseTo(-2, 6));
+    });
+
+    it("increases the population size with IPOP restarts", () => {
+      const sizes = new Set<number>();
+
+      const engine = new CmaEsEngine(settingsFixture({
+        evaluation: (individual: Point) => minimize(rastrigin(individual.genotype.data())),
+        termination: generations(1500),
+        restarts: "ipop",
+        maxRestarts: 3,
+        tolFun: 1e-8,
+        sigma: 2,
+        onGeneration: (progress, group) => sizes.add(group.length),
+      }));
+
+      engine.run();
+
+      expect(Array.from(sizes)).toEqual([8, 16, 32, 64]);
+      expect(engine.state?.restarts.count).toBe(3);
+    });
+
+    it("alternates large and small populations with BIPOP restarts", () => {
+      const engine = new CmaEsEngine(settingsFixture({
+        evaluation: (individual: Point) => minimize(rastrigin(individual.genotype.data())),
+        termination: generations(3000),
+        restarts: "bipop",
+        maxRestarts: 6,
+        tolFun: 1e-8,
+        sigma: 2,
+      }));
+
+      engine.run();
+      const restarts = engine.state?.restarts;
+
+      expect(restarts?.count).toBe(6);
+      expect(restarts?.small).toBeGreaterThan(0);
+      expect(restarts?.large).toBeGreaterThan(0);
+    });
+
+    it("resumes from a checkpointed state", () => {
+      const checkpoints: string[] = [];
+
+      const engine = new CmaEsEngine(settingsFixture({
+        termination: generations(20),
+        onGeneration: (progress) => {
+          if (progress.generation === 10) {
+            checkpoints.push(engine.state?.toJSON() as string);
+          }
+        },
+      }));
+
+      engine.run();
+
+      const resumed = new CmaEsEngine(settingsFixture({ termination: generations(30), state: CmaEsState.fromJSON(checkpoints[0]) }));
+      const result = resumed.run();
+
+      expect(resumed.state?.generation).toBe(40);
+      expect(sphere(result.best[0].genotype.data())).toBeLessThan(1e-3);
+    });
+  });
+
+  describe("runAsync", () => {
+    it("supports asynchronous evaluation functions and blueprints", async () => {
+      const result = await new CmaEsEngine(settingsFixture({
+        blueprint: blueprint({ genotype: async () => List.generate(4, () => getRandom().next()) }),
+        evaluation: async (individual: Point) => minimize(sphere(individual.genotype.data())),
+        termination: some(generations(3)),
+      })).runAsync();
+
+      expect(result.progress.generation).toBe(3);
+      expect(result.progress.evaluations).toBe(24);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { DifferentialAdaptation, DifferentialSuccess, constant } from "../operators/differential_adaptation";
+import { DifferentialCrossover, DifferentialMutation, binomial, rand1 } from "../operators/differential";
+import { RealData, RealGenotype, realInterval, realValues, withRealValues } from "../genotype/real_vector/real_vector";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { Progress } from "./termination";
+import { getRandom } from "../random";
+import { oneToOne } from "../operators/replacement";
+import { random } from "../operators/selection";
+
+/**
+ * @deprecated Use `RealGenotype` instead.
+ */
+export type DifferentialGenotype = RealGenotype;
+
+/**
+ * The bounds apply to lists, real vectors use their own bounds. The
+ * `archive` is the maximum amount of replaced targets kept for the
+ * current-to-pbest strategy, as a fraction of the population size.
+ */
+export interface DifferentialEvolutionEngineSettings<G extends RealGenotype, P>
+  extends Omit<AbstractEngineSettings<G, P>, "selection" | "crossover" | "mutation" | "parents"> {
+  strategy?: DifferentialMutation;
+  recombination?: DifferentialCrossover;
+  adaptation?: DifferentialAdaptation;
+  archive?: number;
+  lower?: number | ArrayLike<number>;
+  upper?: number | ArrayLike<number>;
+}
+
+/**
+ * Differential evolution. Every member of the population is the target of a
+ * single trial vector, created from the donor of the `strategy` and the
+ * target by the `recombination`, and replaced by it if the trial vector is at
+ * least as good. The parameters of every trial vector are kept in the
+ * `scale` and `rate` entries of its state.
+ *
+ * Genes leaving the bounds are set halfway between the target and the
+ * exceeded bound.
+ */
+export class DifferentialEvolutionEngine<G extends RealGenotype, P> extends AbstractEngine<G, P> {
+  /**
+   *
+   */
+  public readonly strategy: DifferentialMutation;
+
+  /**
+   *
+   */
+  public readonly recombination: DifferentialCrossover;
+
+  /**
+   *
+   */
+  public readonly adaptation: DifferentialAdaptation;
+
+  /**
+   *
+   */
+  public readonly archive: number;
+
+  /**
+   *
+   */
+  protected readonly lower: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected readonly upper: number | ArrayLike<number>;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: DifferentialEvolutionEngineSettings<G, P>) {
+    super({
+      ...settings,
+      selection: random(),
+      crossover: (parents) => parents,
+      mutation: (data) => data,
+    }, oneToOne(settings?.target));
+
+    this.strategy = settings.strategy ?? rand1();
+    this.recombination = settings.recombination ?? binomial();
+    this.adaptation = settings.adaptation ?? constant();
+    this.archive = settings.archive ?? 1;
+    this.lower = settings.lower ?? -Infinity;
+    this.upper = settings.upper ?? Infinity;
+
+    if (typeof this.strategy !== "function" || typeof this.recombination !== "function") {
+      throw new TypeError();
+    }
+
+    if (typeof this.archive !== "number" || isNaN(this.archive) || 0 > this.archive) {
+      throw new TypeError();
+    }
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<G, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+    const archive: number[][] = [];
+
+    const members = this.$createSync();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    this.adaptation.reset();
+    this.$evaluate(members, progress);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const trials = this.$trials(group, archive, progress);
+
+      this.$evaluate(trials, progress);
+      this.$replace(group, trials, archive);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   */
+  public async runAsync(): Promise<EngineResult<G, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+    const archive: number[][] = [];
+
+    const members = await this.$create();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    this.adaptation.reset();
+    await this.$evaluateAsync(members, progress);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const trials = this.$trials(group, archive, progress);
+
+      await this.$evaluateAsync(trials, progress);
+      this.$replace(group, trials, archive);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   * Creates the trial vector of every member, in the order of the members.
+   *
+   * @param group
+   * @param archive
+   * @param progress
+   */
+  protected $trials(group: Group<Individual<G, P>>, archive: number[][], progress: Progress): Individual<G, P>[] {
+    return this.$scope(() => {
+      const context = this.$context(progress);
+      const random = getRandom();
+
+      const members = group.members();
+      const vectors = members.map((member) => realValues(member.genotype.data()));
+      const ranking = vectors.map((_, i) => i).sort((a, b) => this.target(members[b]) - this.target(members[a]));
+
+      return members.map((member, index) => {
+        const { scale, rate } = this.adaptation.sample(member, random);
+        const donor = this.strategy({ index, vectors, ranking, archive, scale, random });
+        const trial = this.recombination(vectors[index], donor, rate, random);
+
+        const method = (parents: RealData[]) => [
+          withRealValues(parents[0], this.$bound(parents[0], vectors[index], trial)),
+        ];
+
+        const [child] = member.offspring([], method as any, this.crossoverSettings, context);
+        child.state.bind({ scale: () => scale, rate: () => rate });
+
+        return child;
+      });
+    });
+  }
+
+  /**
+   *
+   * @param data
+   * @param target
+   * @param trial
+   */
+  protected $bound(data: RealData, target: number[], trial: number[]): number[] {
+    return trial.map((gene, i) => {
+      const { lower, upper } = realInterval(data, i, this.lower, this.upper);
+
+      if (lower > gene) {
+        return (lower + target[i]) / 2;
+      }
+
+      return gene > upper ? (upper + target[i]) / 2 : gene;
+    });
+  }
+
+  /**
+   * Replaces the targets, archives the replaced ones and passes the
+   * parameters of the successful trial vectors to the adaptation.
+   *
+   * @param group
+   * @param trials
+   * @param archive
+   */
+  protected $replace(group: Group<Individual<G, P>>, trials: Individual<G, P>[], archive: number[][]): void {
+    this.$scope(() => {
+      const members = group.members();
+      const survivors = this.replacement(this.size, members, trials);
+      const successes: DifferentialSuccess[] = [];
+
+      trials.forEach((trial, i) => {
+        if (!survivors.includes(trial)) {
+          return;
+        }
+
+        const { scale, rate } = trial.state.computeAll();
+        successes.push({ scale, rate, improvement: this.target(trial) - this.target(members[i]) });
+
+        if (!survivors.includes(members[i])) {
+          archive.push(realValues(members[i].genotype.data()));
+        }
+      });
+
+      const limit = Math.round(this.archive * this.size);
+      const random = getRandom();
+
+      while (archive.length > limit) {
+        archive.splice(Math.floor(random.next() * archive.length), 1);
+      }
+
+      this.adaptation.update(successes);
+      group.set(survivors);
+    });
+  }
+}
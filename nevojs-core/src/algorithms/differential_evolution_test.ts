@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { DifferentialEvolutionEngine, DifferentialEvolutionEngineSettings } from "./differential_evolution";
+import { Xoshiro128, getRandom } from "../random";
+import { blueprint, minimize } from "../creation";
+import { currentToPBest1, exponential } from "../operators/differential";
+import { jade, jde, shade } from "../operators/differential_adaptation";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { RealVector } from "../genotype/real_vector/real_vector";
+import { generations } from "./termination";
+
+type Point = Individual<List<number>, unknown>;
+
+const sphere = (values: number[]) => values.reduce((acc, value) => acc + value * value, 0);
+
+function settingsFixture(
+  settings: Partial<DifferentialEvolutionEngineSettings<List<number>, unknown>> = {},
+): DifferentialEvolutionEngineSettings<List<number>, unknown> {
+  return Object.assign({
+    blueprint: blueprint({ genotype: () => List.generate(5, () => getRandom().next() * 10 - 5) }),
+    evaluation: (individual: Point) => minimize(sphere(individual.genotype.data())),
+    termination: generations(100),
+    size: 20,
+    lower: -5,
+    upper: 5,
+    random: new Xoshiro128(1),
+  }, settings);
+}
+
+const bestValue = (engine: DifferentialEvolutionEngine<List<number>, unknown>) => {
+  const [best] = engine.run().best;
+  return sphere(best.genotype.data());
+};
+
+describe("DifferentialEvolutionEngine", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the settings are invalid", () => {
+      expect(() => new DifferentialEvolutionEngine(settingsFixture({ strategy: 1 as any }))).toThrow(TypeError);
+      expect(() => new DifferentialEvolutionEngine(settingsFixture({ archive: -1 }))).toThrow(TypeError);
+    });
+  });
+
+  describe("run", () => {
+    it("never replaces a target with a worse trial vector", () => {
+      const values: number[][] = [];
+
+      new DifferentialEvolutionEngine(settingsFixture({
+        termination: generations(20),
+        onGeneration: (progress, group) => values.push(group.members().map((member) => member.fitness()[0])),
+      })).run();
+
+      values.slice(1).forEach((generation, i) => {
+        generation.forEach((value, j) => expect(value).toBeGreaterThanOrEqual(values[i][j]));
+      });
+    });
+
+    it("counts a single evaluation per member and generation", () => {
+      const result = new DifferentialEvolutionEngine(settingsFixture({ termination: generations(3) })).run();
+
+      expect(result.progress.evaluations).toBe(20 * 4);
+      expect(result.group.length).toBe(20);
+    });
+
+    it("minimizes the sphere function", () => {
+      expect(bestValue(new DifferentialEvolutionEngine(settingsFixture()))).toBeLessThan(1e-3);
+      expect(bestValue(new DifferentialEvolutionEngine(settingsFixture({ recombination: exponential() })))).toBeLessThan(1);
+    });
+
+    it("minimizes the sphere function with adaptive parameters", () => {
+      [jde(), jade(), shade()].forEach((adaptation) => {
+        const engine = new DifferentialEvolutionEngine(settingsFixture({ adaptation, strategy: currentToPBest1({ p: 0.2 }) }));
+
+        expect(bestValue(engine)).toBeLessThan(1e-3);
+      });
+    });
+
+    it("keeps the parameters of the trial vectors in their state", () => {
+      const result = new DifferentialEvolutionEngine(settingsFixture({ termination: generations(5), adaptation: jde() })).run();
+      const replaced = result.group.members().filter((member) => member.state.computeAll().scale !== undefined);
+
+      expect(replaced.length).toBeGreaterThan(0);
+      replaced.forEach((member) => expect(member.state.compute("rate")).toBeLessThanOrEqual(1));
+    });
+
+    it("keeps the genes within the bounds", () => {
+      const result = new DifferentialEvolutionEngine(settingsFixture({
+        blueprint: blueprint({ genotype: () => List.generate(5, () => -getRandom().next() * 5) }),
+        evaluation: (individual: Point) => minimize(-individual.genotype.data()[0]),
+        termination: generations(30),
+        lower: -5,
+        upper: [1, 5, 5, 5, 5],
+      })).run();
+
+      result.group.members().forEach((member) => {
+        expect(member.genotype.data()[0]).toBeLessThanOrEqual(1);
+        expect(member.genotype.data()[0]).toBeGreaterThanOrEqual(-5);
+      });
+      expect(result.best[0].genotype.data()[0]).toBeCloseTo(1, 3);
+    });
+
+    it("works on real vectors", () => {
+      const engine = new DifferentialEvolutionEngine({
+        blueprint: blueprint({ genotype: () => RealVector.random(5, { lower: -5, upper: 5 }) }),
+        evaluation: (individual: Individual<RealVector, unknown>) => minimize(sphere(individual.genotype.values())),
+        termination: generations(100),
+        size: 20,
+        random: new Xoshiro128(2),
+      });
+
+      const [best] = engine.run().best;
+      expect(sphere(best.genotype.values())).toBeLessThan(1e-3);
+    });
+
+    it("produces the same result for the same seed", () => {
+      const seeded = () => JSON.stringify(new DifferentialEvolutionEngine(settingsFixture({ termination: generations(5) })).run().best[0].serialize());
+
+      expect(seeded()).toBe(seeded());
+    });
+  });
+
+  describe("runAsync", () => {
+    it("supports asynchronous evaluation functions", async () => {
+      const result = await new DifferentialEvolutionEngine(settingsFixture({
+        evaluation: async (individual: Point) => minimize(sphere(individual.genotype.data())),
+        termination: generations(2),
+      })).runAsync();
+
+      expect(result.progress.generation).toBe(2);
+      expect(result.progress.evaluations).toBe(60);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { AnyGenotype } from "../individual/data";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { Progress } from "./termination";
+import { best } from "../operators/selection";
+import { generational } from "../operators/replacement";
+import { isPositiveInt } from "../util";
+
+/**
+ *
+ */
+export interface EngineSettings<G extends AnyGenotype, P> extends AbstractEngineSettings<G, P> {
+  offspring?: number;
+  elitism?: number;
+}
+
+/**
+ *
+ */
+export class Engine<G extends AnyGenotype, P> extends AbstractEngine<G, P> {
+  /**
+   *
+   */
+  public readonly offspring: number;
+
+  /**
+   *
+   */
+  public readonly elitism: number;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: EngineSettings<G, P>) {
+    super(settings, generational());
+
+    this.elitism = settings.elitism ?? 0;
+    this.offspring = settings.offspring ?? this.size - this.elitism;
+
+    if (!Number.isInteger(this.elitism) || 0 > this.elitism || this.elitism >= this.size) {
+      throw new RangeError(`Expected elitism to be an integer in the [0, ${this.size}) range (${this.elitism} given)`);
+    }
+
+    if (!isPositiveInt(this.offspring)) {
+      throw new TypeError();
+    }
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<G, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = this.$createSync();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    this.$evaluate(members, progress);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const offspring = this.$breed(group, progress);
+
+      this.$evaluate(offspring, progress);
+      this.$replace(group, offspring);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   */
+  public async runAsync(): Promise<EngineResult<G, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = await this.$create();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    await this.$evaluateAsync(members, progress);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const offspring = this.$breed(group, progress);
+
+      await this.$evaluateAsync(offspring, progress);
+      this.$replace(group, offspring);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   * @param group
+   * @param progress
+   */
+  protected $breed(group: Group<Individual<G, P>>, progress: Progress): Individual<G, P>[] {
+    return this.$scope(() => {
+      const context = this.$context(progress);
+      const offspring: Individual<G, P>[] = [];
+
+      while (this.offspring > offspring.length) {
+        const parents = group.select(this.parents, this.selection, context);
+        offspring.push(...parents.offspring(this.crossover as any, this.crossoverSettings, context));
+      }
+
+      const children = offspring.slice(0, this.offspring);
+      children.forEach((child) => child.mutate(this.mutation, context));
+
+      return children;
+    });
+  }
+
+  /**
+   *
+   * @param group
+   * @param offspring
+   */
+  protected $replace(group: Group<Individual<G, P>>, offspring: Individual<G, P>[]): void {
+    this.$scope(() => {
+      const members = group.members();
+      const elites = this.elitism > 0
+        ? best(this.target)(this.elitism, members.slice())
+        : [];
+
+      const population = members.filter((member) => !elites.includes(member));
+      const survivors = this.replacement(this.size - elites.length, population, offspring);
+
+      group.set(elites.concat(survivors));
+    });
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Engine, EngineSettings } from "./engine";
+import { blueprint, maximize } from "../creation";
+import { fitness, generations, some } from "./termination";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { Xoshiro128 } from "../random";
+import { map } from "../operators/mutation";
+import { plus } from "../operators/replacement";
+import { sum } from "../util";
+import { tournament } from "../operators/selection";
+import { uniform } from "../operators/crossover";
+
+type OneMax = Individual<List<number>, undefined>;
+
+function settingsFixture(settings: Partial<EngineSettings<List<number>, undefined>> = {}): EngineSettings<List<number>, undefined> {
+  return Object.assign({
+    blueprint: blueprint({
+      genotype: () => List.generate(20, () => Math.round(Math.random())),
+    }),
+    evaluation: (individual: OneMax) => maximize(sum(individual.genotype.data())),
+    selection: tournament({ size: 2 }),
+    crossover: uniform(),
+    mutation: map((gene: number) => Number(!gene), { rate: 0.05 }),
+    termination: generations(10),
+    size: 20,
+  }, settings);
+}
+
+describe("Engine", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if any of the operators is not a function", () => {
+      ["evaluation", "selection", "crossover", "mutation", "termination"].forEach((key) => {
+        expect(() => new Engine(settingsFixture({ [key]: 1 }))).toThrow(TypeError);
+      });
+    });
+
+    it("throws a TypeError if the size is not a positive integer", () => {
+      [0, -1, 1.5, NaN, "10"].forEach((size: any) => {
+        expect(() => new Engine(settingsFixture({ size }))).toThrow(TypeError);
+      });
+    });
+
+    it("throws a RangeError if the elitism is not lower than the size", () => {
+      expect(() => new Engine(settingsFixture({ elitism: 20 }))).toThrow(RangeError);
+    });
+  });
+
+  describe("run", () => {
+    it("stops when the termination criterion fires", () => {
+      const result = new Engine(settingsFixture({ termination: generations(7) })).run();
+
+      expect(result.progress.generation).toBe(7);
+    });
+
+    it("counts the evaluations", () => {
+      const result = new Engine(settingsFixture({ termination: generations(5), size: 10, offspring: 6 })).run();
+
+      expect(result.progress.evaluations).toBe(10 + 5 * 6);
+    });
+
+    it("keeps the size of the population", () => {
+      const result = new Engine(settingsFixture({ offspring: 7 })).run();
+
+      expect(result.group.length).toBe(20);
+    });
+
+    it("returns the best individuals of the final group", () => {
+      const result = new Engine(settingsFixture()).run();
+      const top = Math.max(...result.group.members().map((member) => member.fitness()[0]));
+
+      expect(result.best.length).toBeGreaterThan(0);
+      expect(result.best.every((member) => member.fitness()[0] === top)).toBe(true);
+    });
+
+    it("never loses the best individual if elitism is enabled", () => {
+      const values: number[] = [];
+
+      new Engine(settingsFixture({
+        elitism: 1,
+        termination: generations(20),
+        onGeneration: (progress, group) => {
+          values.push(Math.max(...group.members().map((member) => member.fitness()[0])));
+        },
+      })).run();
+
+      expect(values.every((value, i) => i === 0 || value >= values[i - 1])).toBe(true);
+    });
+
+    it("stops once the target fitness is reached", () => {
+      const result = new Engine(settingsFixture({
+        replacement: plus(),
+        termination: some(fitness(20), generations(1000)),
+      })).run();
+
+      expect(result.progress.best).toBe(20);
+      expect(result.progress.generation).toBeLessThan(1000);
+    });
+
+    it("produces the same result for the same seed", () => {
+      const seeded = (seed: number) => {
+        const random = new Xoshiro128(seed);
+        const result = new Engine(settingsFixture({
+          random,
+          blueprint: blueprint({
+            genotype: () => List.generate(20, () => Math.round(random.next())),
+          }),
+        })).run();
+
+        return JSON.stringify(result.group.members().map((member) => member.serialize()));
+      };
+
+      expect(seeded(5)).toBe(seeded(5));
+    });
+
+    it("passes the progress and the operator data to the operators", () => {
+      const seen: number[] = [];
+
+      new Engine(settingsFixture({
+        mutation: (genes, context) => {
+          seen.push(context!.generation!);
+          expect(context!.data).toEqual({ rate: 0.1 });
+
+          return genes;
+        },
+        operatorData: { rate: 0.1 },
+        termination: generations(3),
+      })).run();
+
+      expect(Array.from(new Set(seen))).toEqual([0, 1, 2]);
+    });
+
+    it("throws a TypeError if the evaluation function is asynchronous", () => {
+      const engine = new Engine(settingsFixture({
+        evaluation: async (individual) => maximize(sum(individual.genotype.data())),
+      }));
+
+      expect(() => engine.run()).toThrow(TypeError);
+    });
+  });
+
+  describe("runAsync", () => {
+    it("supports asynchronous evaluation functions", async () => {
+      const result = await new Engine(settingsFixture({
+        evaluation: async (individual) => maximize(sum(individual.genotype.data())),
+        termination: generations(3),
+      })).runAsync();
+
+      expect(result.progress.generation).toBe(3);
+      expect(result.group.members().every((member) => member.objectives().length === 1)).toBe(true);
+    });
+
+    it("supports asynchronous blueprints", async () => {
+      const result = await new Engine(settingsFixture({
+        blueprint: blueprint({
+          genotype: async () => List.generate(20, () => Math.round(Math.random())),
+        }),
+        termination: generations(2),
+      })).runAsync();
+
+      expect(result.group.length).toBe(20);
+    });
+  });
+});
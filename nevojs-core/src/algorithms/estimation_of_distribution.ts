@@ -0,0 +1,246 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { BitString, BitStringData, bitStringData, bitValues } from "../genotype/bit_string/bit_string";
+import { DistributionModel, EdaStrategy } from "../operators/distribution_model";
+import { RealData, RealGenotype, clamp, realInterval, realValues, withRealValues } from "../genotype/real_vector/real_vector";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { Progress } from "./termination";
+import { best } from "../operators/selection";
+import { generational } from "../operators/replacement";
+import { getRandom } from "../random";
+import { isPositiveInt } from "../util";
+
+/**
+ * Genotypes which can be modelled, bit strings and real genes.
+ */
+export type EdaGenotype = BitString | RealGenotype;
+
+function isBitData(data: BitStringData | RealData): data is BitStringData {
+  return !Array.isArray(data) && "words" in data;
+}
+
+/**
+ * `selected` is the number of individuals selected to update the model, the
+ * number required by the strategy or half of the population by default. The
+ * bounds apply to lists of real genes, real vectors use their own bounds.
+ */
+export interface EdaEngineSettings<G extends EdaGenotype, P>
+  extends Omit<AbstractEngineSettings<G, P>, "selection" | "crossover" | "mutation" | "parents"> {
+  strategy: EdaStrategy;
+  selection?: AbstractEngineSettings<G, P>["selection"];
+  selected?: number;
+  lower?: number | ArrayLike<number>;
+  upper?: number | ArrayLike<number>;
+}
+
+/**
+ * Estimation of distribution algorithm. Every generation selects individuals
+ * of the population with the `selection` method (truncation selection of the
+ * best ones by default), updates the model created by the `strategy` with
+ * their genes ordered by the `target`, best first, and samples the offspring
+ * from the model. The offspring replace the population (see the
+ * `replacement` setting).
+ */
+export class EdaEngine<G extends EdaGenotype, P> extends AbstractEngine<G, P> {
+  /**
+   *
+   */
+  public readonly strategy: EdaStrategy;
+
+  /**
+   *
+   */
+  public readonly selected: number;
+
+  /**
+   *
+   */
+  protected readonly lower: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected readonly upper: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected _model?: DistributionModel;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: EdaEngineSettings<G, P>) {
+    super({
+      ...settings,
+      selection: settings.selection ?? best(settings.target),
+      crossover: (parents) => parents,
+      mutation: (data) => data,
+    }, generational());
+
+    this.strategy = settings.strategy;
+    this.selected = settings.selected ?? settings.strategy?.selected ?? Math.ceil(this.size / 2);
+    this.lower = settings.lower ?? -Infinity;
+    this.upper = settings.upper ?? Infinity;
+
+    if (typeof this.strategy !== "function") {
+      throw new TypeError();
+    }
+
+    if (!isPositiveInt(this.selected)) {
+      throw new TypeError();
+    }
+
+    if (this.strategy.selected !== undefined && this.selected !== this.strategy.selected) {
+      throw new RangeError(`the strategy requires ${this.strategy.selected} selected individuals, got ${this.selected}`);
+    }
+  }
+
+  /**
+   * The model of the current run.
+   */
+  public get model(): DistributionModel | undefined {
+    return this._model;
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<G, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = this.$createSync();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    this.$evaluate(members, progress);
+    this.$initial(members[0]);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const offspring = this.$sample(group, progress);
+
+      this.$evaluate(offspring, progress);
+      this.$replace(group, offspring);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   */
+  public async runAsync(): Promise<EngineResult<G, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = await this.$create();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    await this.$evaluateAsync(members, progress);
+    this.$initial(members[0]);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const offspring = this.$sample(group, progress);
+
+      await this.$evaluateAsync(offspring, progress);
+      this.$replace(group, offspring);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   * @param template
+   */
+  protected $initial(template: Individual<G, P>): DistributionModel {
+    const genes = isBitData(template.genotype.data() as BitStringData | RealData) ? "binary" : "real";
+
+    if (this.strategy.genes !== undefined && this.strategy.genes !== genes) {
+      throw new TypeError(`the strategy models ${this.strategy.genes} genes, but the genotype has ${genes} genes`);
+    }
+
+    this._model = this.strategy(this.$values(template).length);
+    return this._model;
+  }
+
+  /**
+   *
+   * @param individual
+   */
+  protected $values(individual: Individual<G, P>): number[] {
+    const data = individual.genotype.data() as BitStringData | RealData;
+    return isBitData(data) ? bitValues(data) : realValues(data);
+  }
+
+  /**
+   * Updates the model with the selected individuals and samples the
+   * offspring.
+   *
+   * @param group
+   * @param progress
+   */
+  protected $sample(group: Group<Individual<G, P>>, progress: Progress): Individual<G, P>[] {
+    return this.$scope(() => {
+      const model = this._model as DistributionModel;
+      const context = this.$context(progress);
+
+      const selected = group.select(this.selected, this.selection, context).members()
+        .sort((a, b) => this.target(b) - this.target(a));
+
+      model.update(selected.map((individual) => this.$values(individual)));
+
+      const random = getRandom();
+      const template = group.members()[0];
+      const data = template.genotype.data() as BitStringData | RealData;
+
+      return Array.from({ length: this.size }, () => {
+        const values = model.sample(random);
+
+        const child = isBitData(data)
+          ? bitStringData(values)
+          : withRealValues(data, values.map((value, i) => {
+            const { lower, upper } = realInterval(data, i, this.lower, this.upper);
+            return clamp(value, lower, upper);
+          }));
+
+        return template.offspring([], (() => [child]) as any, this.crossoverSettings, context)[0];
+      });
+    });
+  }
+
+  /**
+   *
+   * @param group
+   * @param offspring
+   */
+  protected $replace(group: Group<Individual<G, P>>, offspring: Individual<G, P>[]): void {
+    this.$scope(() => group.set(this.replacement(this.size, group.members(), offspring)));
+  }
+}
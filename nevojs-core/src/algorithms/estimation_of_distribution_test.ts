@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { EdaEngine, EdaEngineSettings } from "./estimation_of_distribution";
+import { GaussianModel, MarginalModel, cga, dependencyTree, gaussian, pbil, umda } from "../operators/distribution_model";
+import { Xoshiro128, getRandom } from "../random";
+import { blueprint, maximize, minimize } from "../creation";
+import { BitString } from "../genotype/bit_string/bit_string";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { RealVector } from "../genotype/real_vector/real_vector";
+import { generations } from "./termination";
+import { tournament } from "../operators/selection";
+
+type Bits = Individual<BitString, unknown>;
+
+function settingsFixture(
+  settings: Partial<EdaEngineSettings<BitString, unknown>> = {},
+): EdaEngineSettings<BitString, unknown> {
+  return Object.assign({
+    blueprint: blueprint({ genotype: () => BitString.random(20) }),
+    evaluation: (individual: Bits) => maximize(individual.genotype.popcount()),
+    termination: generations(50),
+    strategy: umda(),
+    size: 30,
+    random: new Xoshiro128(1),
+  }, settings);
+}
+
+describe("EdaEngine", () => {
+  describe("constructor", () => {
+    it("throws if the settings are invalid", () => {
+      expect(() => new EdaEngine(settingsFixture({ strategy: undefined }))).toThrow(TypeError);
+      expect(() => new EdaEngine(settingsFixture({ selected: 0 }))).toThrow(TypeError);
+    });
+
+    it("selects the number of individuals required by the strategy", () => {
+      expect(new EdaEngine(settingsFixture({ strategy: cga() })).selected).toBe(2);
+      expect(new EdaEngine(settingsFixture({ strategy: cga(), selected: 2 })).selected).toBe(2);
+      expect(() => new EdaEngine(settingsFixture({ strategy: cga(), selected: 15 }))).toThrow(RangeError);
+    });
+  });
+
+  describe("run", () => {
+    it("solves OneMax with the univariate models", () => {
+      [umda(), pbil({ learningRate: 0.2 }), dependencyTree()].forEach((strategy) => {
+        const result = new EdaEngine(settingsFixture({ strategy })).run();
+        expect(result.best[0].genotype.popcount()).toBe(20);
+      });
+    });
+
+    it("solves OneMax with the compact genetic algorithm", () => {
+      const engine = new EdaEngine(settingsFixture({ strategy: cga({ size: 20 }), size: 2, termination: generations(1000) }));
+      const result = engine.run();
+
+      expect(result.best[0].genotype.popcount()).toBe(20);
+      expect((engine.model as MarginalModel).probabilities().every((probability) => probability > 0.9)).toBe(true);
+    });
+
+    it("selects the individuals with the given selection method", () => {
+      const selection = jest.fn(tournament({ size: 2 }));
+      new EdaEngine(settingsFixture({ selection, selected: 10, termination: generations(3) })).run();
+
+      expect(selection).toHaveBeenCalledTimes(3);
+      expect(selection.mock.calls[0][0]).toBe(10);
+    });
+
+    it("exposes the serializable model", () => {
+      const engine = new EdaEngine(settingsFixture({ termination: generations(5) }));
+      engine.run();
+
+      const model = engine.model as MarginalModel;
+      expect(MarginalModel.fromJSON(model.toJSON()).probabilities()).toEqual(model.probabilities());
+    });
+
+    it("minimizes the sphere function with the Gaussian model", () => {
+      const engine = new EdaEngine({
+        blueprint: blueprint({ genotype: () => List.generate(3, () => getRandom().next() * 10 - 5) }),
+        evaluation: (individual: Individual<List<number>, unknown>) => {
+          return minimize(individual.genotype.data().reduce((acc, value) => acc + value * value, 0));
+        },
+        termination: generations(100),
+        strategy: gaussian(),
+        size: 50,
+        lower: -5,
+        upper: 5,
+        random: new Xoshiro128(2),
+      });
+
+      const result = engine.run();
+
+      result.best[0].genotype.data().forEach((value) => expect(Math.abs(value)).toBeLessThan(1e-3));
+      (engine.model as GaussianModel).deviation().forEach((value) => expect(value).toBeLessThan(1e-3));
+    });
+
+    it("keeps real vectors within their bounds", () => {
+      const result = new EdaEngine({
+        blueprint: blueprint({ genotype: () => RealVector.random(2, { lower: 0, upper: 1 }) }),
+        evaluation: (individual: Individual<RealVector, unknown>) => maximize(individual.genotype.values().reduce((a, b) => a + b, 0)),
+        termination: generations(30),
+        strategy: gaussian(),
+        size: 20,
+        random: new Xoshiro128(3),
+      }).run();
+
+      result.group.members().forEach((member) => {
+        member.genotype.values().forEach((value) => expect(value >= 0 && 1 >= value).toBe(true));
+      });
+    });
+
+    it("throws a TypeError if the strategy does not fit the genes", () => {
+      [umda(), pbil(), cga(), dependencyTree()].forEach((strategy) => {
+        const engine = new EdaEngine({
+          blueprint: blueprint({ genotype: () => List.generate(3, () => getRandom().next()) }),
+          evaluation: (individual: Individual<List<number>, unknown>) => maximize(individual.genotype.data()[0]),
+          termination: generations(5),
+          strategy,
+          size: 10,
+        });
+
+        expect(() => engine.run()).toThrow("the strategy models binary genes, but the genotype has real genes");
+      });
+
+      expect(() => new EdaEngine(settingsFixture({ strategy: gaussian() })).run()).toThrow("the strategy models real genes, but the genotype has binary genes");
+    });
+  });
+
+  describe("runAsync", () => {
+    it("supports asynchronous evaluation functions and blueprints", async () => {
+      const result = await new EdaEngine(settingsFixture({
+        blueprint: blueprint({ genotype: async () => BitString.random(20) }),
+        evaluation: async (individual: Bits) => maximize(individual.genotype.popcount()),
+      })).runAsync();
+
+      expect(result.progress.evaluations).toBe(30 * 51);
+      expect(result.best[0].genotype.popcount()).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { FitnessShaping, NesDistribution, NesStrategy, utilities, xnes } from "../operators/natural_evolution";
+import { RealData, RealGenotype, clamp, realInterval, realValues, withRealValues } from "../genotype/real_vector/real_vector";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { Progress } from "./termination";
+import { getRandom } from "../random";
+import { random } from "../operators/selection";
+import { randomGauss } from "../util";
+
+/**
+ * The bounds apply to lists, real vectors use their own bounds. The initial
+ * mean is taken from an individual created by the blueprint unless given.
+ */
+export interface NesEngineSettings<G extends RealGenotype, P>
+  extends Omit<AbstractEngineSettings<G, P>, "selection" | "crossover" | "mutation" | "parents" | "replacement"> {
+  strategy?: NesStrategy;
+  shaping?: FitnessShaping;
+  antithetic?: boolean;
+  mean?: number[];
+  lower?: number | ArrayLike<number>;
+  upper?: number | ArrayLike<number>;
+}
+
+/**
+ * Natural evolution strategies. Every generation perturbs the search
+ * distribution with `size` standard normal samples, mirrored in pairs when
+ * `antithetic` (the default, which requires an even `size`). The fitness of
+ * the sampled individuals is shaped into utilities and the distribution
+ * follows the resulting search gradient. The `strategy` defaults to
+ * {@link xnes}, the `shaping` to the rank-based {@link utilities}.
+ *
+ * Points outside of the bounds are clipped, the gradient is estimated from the
+ * original perturbations. The result holds the best individual found during
+ * the whole run.
+ */
+export class NesEngine<G extends RealGenotype, P> extends AbstractEngine<G, P> {
+  /**
+   *
+   */
+  public readonly strategy: NesStrategy;
+
+  /**
+   *
+   */
+  public readonly shaping: FitnessShaping;
+
+  /**
+   *
+   */
+  public readonly antithetic: boolean;
+
+  /**
+   *
+   */
+  protected readonly mean?: number[];
+
+  /**
+   *
+   */
+  protected readonly lower: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected readonly upper: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected _distribution?: NesDistribution;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: NesEngineSettings<G, P>) {
+    super({
+      ...settings,
+      selection: random(),
+      crossover: (parents) => parents,
+      mutation: (data) => data,
+    }, (amount, population, offspring) => offspring);
+
+    this.strategy = settings.strategy ?? xnes();
+    this.shaping = settings.shaping ?? utilities();
+    this.antithetic = settings.antithetic ?? true;
+    this.mean = settings.mean;
+    this.lower = settings.lower ?? -Infinity;
+    this.upper = settings.upper ?? Infinity;
+
+    if (typeof this.strategy !== "function" || typeof this.shaping !== "function" || typeof this.antithetic !== "boolean") {
+      throw new TypeError();
+    }
+
+    if (2 > this.size) {
+      throw new RangeError("NES requires a population of at least 2 individuals");
+    }
+
+    if (this.antithetic && this.size % 2 !== 0) {
+      throw new RangeError("antithetic sampling requires an even population size");
+    }
+  }
+
+  /**
+   * The search distribution of the current run.
+   */
+  public get distribution(): NesDistribution | undefined {
+    return this._distribution;
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<G, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const template = this.$template();
+
+    if (template instanceof Promise) {
+      throw new TypeError("run() cannot use an asynchronous blueprint, use runAsync() instead");
+    }
+
+    const distribution = this.$initial(template);
+    let group = new Group<Individual<G, P>>({ members: [], size: this.size, random: this.random });
+    let incumbent: Individual<G, P> | undefined;
+
+    while (!this.termination(progress)) {
+      const noises = this.$noise(distribution);
+      const members = this.$sample(template, distribution, noises);
+      this.$evaluate(members, progress);
+
+      group = new Group({ members, size: members.length, random: this.random });
+      incumbent = this.$update(distribution, group, noises, progress, incumbent);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$incumbent(group, progress, incumbent);
+  }
+
+  /**
+   * Evaluates the individuals of every generation concurrently.
+   */
+  public async runAsync(): Promise<EngineResult<G, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const template = await this.$template();
+    const distribution = this.$initial(template);
+    let group = new Group<Individual<G, P>>({ members: [], size: this.size, random: this.random });
+    let incumbent: Individual<G, P> | undefined;
+
+    while (!this.termination(progress)) {
+      const noises = this.$noise(distribution);
+      const members = this.$sample(template, distribution, noises);
+      await this.$evaluateAsync(members, progress);
+
+      group = new Group({ members, size: members.length, random: this.random });
+      incumbent = this.$update(distribution, group, noises, progress, incumbent);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$incumbent(group, progress, incumbent);
+  }
+
+  /**
+   * Creates the individual whose genotype is used to create the sampled
+   * individuals.
+   */
+  protected $template(): Individual<G, P> | Promise<Individual<G, P>> {
+    const members = this.$scope(() => this.blueprint.create(1)) as Individual<G, P>[] | Promise<Individual<G, P>[]>;
+
+    return members instanceof Promise
+      ? members.then(([member]) => member)
+      : members[0];
+  }
+
+  /**
+   *
+   * @param template
+   */
+  protected $initial(template: Individual<G, P>): NesDistribution {
+    const mean = this.mean ?? realValues(template.genotype.data());
+
+    this._distribution = this.strategy(mean);
+    return this._distribution;
+  }
+
+  /**
+   * Draws the standard normal perturbations, the second half mirrors the
+   * first one with antithetic sampling.
+   *
+   * @param distribution
+   */
+  protected $noise(distribution: NesDistribution): number[][] {
+    return this.$scope(() => {
+      const random = getRandom();
+      const draw = () => Array.from({ length: distribution.dimension }, () => randomGauss(0, 1, random));
+
+      if (!this.antithetic) {
+        return Array.from({ length: this.size }, draw);
+      }
+
+      const noises = Array.from({ length: this.size / 2 }, draw);
+      return noises.concat(noises.map((noise) => noise.map((value) => -value)));
+    });
+  }
+
+  /**
+   *
+   * @param template
+   * @param distribution
+   * @param noises
+   */
+  protected $sample(template: Individual<G, P>, distribution: NesDistribution, noises: number[][]): Individual<G, P>[] {
+    return this.$scope(() => {
+      const data = template.genotype.data();
+
+      return noises.map((noise) => {
+        const values = distribution.transform(noise).map((value, i) => {
+          const { lower, upper } = realInterval(data, i, this.lower, this.upper);
+          return clamp(value, lower, upper);
+        });
+
+        const method = (parents: RealData[]) => [withRealValues(parents[0], values)];
+        return template.offspring([], method as any, this.crossoverSettings)[0];
+      });
+    });
+  }
+
+  /**
+   * Moves the distribution along the search gradient and returns the best
+   * individual found so far.
+   *
+   * @param distribution
+   * @param group
+   * @param noises
+   * @param progress
+   * @param incumbent
+   */
+  protected $update(
+    distribution: NesDistribution,
+    group: Group<Individual<G, P>>,
+    noises: number[][],
+    progress: Progress,
+    incumbent?: Individual<G, P>,
+  ): Individual<G, P> {
+    const members = group.members();
+    const fitness = members.map((member) => this.target(member));
+    const context = { ...this.$context(progress), random: this.random ?? getRandom() };
+
+    distribution.update(noises, this.shaping(fitness), context);
+
+    const leader = members[fitness.indexOf(Math.max(...fitness))];
+
+    return incumbent === undefined || this.target(leader) > this.target(incumbent)
+      ? leader
+      : incumbent;
+  }
+
+  /**
+   *
+   * @param group
+   * @param progress
+   * @param incumbent
+   */
+  protected $incumbent(
+    group: Group<Individual<G, P>>,
+    progress: Progress,
+    incumbent?: Individual<G, P>,
+  ): EngineResult<G, P> {
+    const front = incumbent === undefined ? [] : [incumbent];
+    return { group, best: front, progress: Object.assign({}, progress) };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { NesEngine, NesEngineSettings } from "./natural_evolution_strategy";
+import { Xoshiro128, getRandom } from "../random";
+import { blueprint, minimize } from "../creation";
+import { centeredRanks, openai, snes } from "../operators/natural_evolution";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { RealVector } from "../genotype/real_vector/real_vector";
+import { adam } from "../operators/optimizer";
+import { generations } from "./termination";
+
+type Point = Individual<List<number>, unknown>;
+
+const sphere = (values: number[]) => values.reduce((acc, value) => acc + value * value, 0);
+
+function settingsFixture(
+  settings: Partial<NesEngineSettings<List<number>, unknown>> = {},
+): NesEngineSettings<List<number>, unknown> {
+  return Object.assign({
+    blueprint: blueprint({ genotype: () => List.generate(3, () => getRandom().next() * 10 - 5) }),
+    evaluation: (individual: Point) => minimize(sphere(individual.genotype.data())),
+    termination: generations(300),
+    size: 10,
+    random: new Xoshiro128(1),
+  }, settings);
+}
+
+describe("NesEngine", () => {
+  describe("constructor", () => {
+    it("throws if the settings are invalid", () => {
+      expect(() => new NesEngine(settingsFixture({ size: 1 }))).toThrow(RangeError);
+      expect(() => new NesEngine(settingsFixture({ size: 7 }))).toThrow(RangeError);
+      expect(() => new NesEngine(settingsFixture({ size: 7, antithetic: false }))).not.toThrow();
+      expect(() => new NesEngine(settingsFixture({ strategy: "foo" as any }))).toThrow(TypeError);
+    });
+  });
+
+  describe("run", () => {
+    it("minimizes the sphere function with xNES", () => {
+      const engine = new NesEngine(settingsFixture());
+      const result = engine.run();
+
+      expect(sphere(result.best[0].genotype.data())).toBeLessThan(1e-8);
+      expect(result.progress.evaluations).toBe(3000);
+      expect(sphere(engine.distribution!.mean())).toBeLessThan(1e-8);
+    });
+
+    it("minimizes the sphere function with SNES and without antithetic sampling", () => {
+      const result = new NesEngine(settingsFixture({ strategy: snes(), antithetic: false })).run();
+
+      expect(sphere(result.best[0].genotype.data())).toBeLessThan(1e-8);
+    });
+
+    it("minimizes the sphere function with OpenAI-ES", () => {
+      const engine = new NesEngine(settingsFixture({
+        strategy: openai({ sigma: 0.1, optimizer: adam({ learningRate: 0.05 }) }),
+        shaping: centeredRanks(),
+        mean: [3, 3, 3],
+      }));
+
+      engine.run();
+
+      expect(sphere(engine.distribution!.mean())).toBeLessThan(0.05);
+    });
+
+    it("samples mirrored pairs of individuals", () => {
+      const engine = new NesEngine(settingsFixture({ mean: [1, 2, 3], termination: generations(1) }));
+      const result = engine.run();
+      const members = result.group.members().map((member) => member.genotype.data());
+
+      members.slice(0, 5).forEach((values, k) => {
+        values.forEach((value, i) => expect(value + members[k + 5][i]).toBeCloseTo(2 * (i + 1), 10));
+      });
+    });
+
+    it("keeps the samples within the bounds", () => {
+      const result = new NesEngine(settingsFixture({
+        evaluation: (individual: Point) => minimize(sphere(individual.genotype.data().map((gene) => gene - 3))),
+        blueprint: blueprint({ genotype: () => List.generate(3, () => getRandom().next()) }),
+        termination: generations(100),
+        lower: 0,
+        upper: 1,
+      })).run();
+
+      result.group.members().forEach((member) => {
+        member.genotype.data().forEach((gene) => expect(gene >= 0 && 1 >= gene).toBe(true));
+      });
+      result.best[0].genotype.data().forEach((gene) => expect(gene).toBe(1));
+    });
+
+    it("works on real vectors within their bounds", () => {
+      const result = new NesEngine({
+        blueprint: blueprint({ genotype: () => RealVector.random(2, { lower: -2, upper: 2 }) }),
+        evaluation: (individual: Individual<RealVector, unknown>) => minimize(sphere(individual.genotype.values().map((value) => value + 5))),
+        termination: generations(100),
+        size: 6,
+        random: new Xoshiro128(3),
+      }).run();
+
+      expect(result.best[0].genotype.values()).toEqual([-2, -2]);
+    });
+
+    it("starts a new distribution on every run", () => {
+      const engine = new NesEngine(settingsFixture({ mean: [1, 1, 1], termination: generations(5) }));
+
+      engine.run();
+      const first = engine.distribution;
+      engine.run();
+
+      expect(engine.distribution).not.toBe(first);
+    });
+  });
+
+  describe("runAsync", () => {
+    it("evaluates the generations asynchronously", async () => {
+      const result = await new NesEngine(settingsFixture({
+        blueprint: blueprint({ genotype: async () => List.generate(3, () => getRandom().next()) }),
+        evaluation: async (individual: Point) => minimize(sphere(individual.genotype.data())),
+        termination: generations(200),
+      })).runAsync();
+
+      expect(result.progress.evaluations).toBe(2000);
+      expect(sphere(result.best[0].genotype.data())).toBeLessThan(1e-6);
+    });
+
+    it("draws the randomness of stochastic evaluations from the seeded random", async () => {
+      const optimize = async () => {
+        const result = await new NesEngine(settingsFixture({
+          evaluation: async (individual: Point) => {
+            const noise = getRandom().next();
+            return minimize(sphere(individual.genotype.data()) + noise);
+          },
+          termination: generations(20),
+        })).runAsync();
+
+        return result.best[0].genotype.data();
+      };
+
+      expect(await optimize()).toEqual(await optimize());
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { ParticleState, Topology, VelocityUpdate, globalBest, inertia } from "../operators/particle_swarm";
+import { RealData, RealGenotype, clamp, realInterval, realValues, reflect, withRealValues } from "../genotype/real_vector/real_vector";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { Progress } from "./termination";
+import { getRandom } from "../random";
+import { random } from "../operators/selection";
+
+/**
+ * Particles leaving the bounds are either clipped, clipped with the velocity
+ * of the violated dimensions set to zero (`"absorb"`) or reflected at the
+ * bounds with the velocity reversed.
+ */
+export type ParticleBoundaryHandling = "clip" | "absorb" | "reflect";
+
+/**
+ * The bounds apply to lists, real vectors use their own bounds. Every
+ * component of the velocity is clamped to `[-maxVelocity, maxVelocity]`.
+ */
+export interface ParticleSwarmEngineSettings<G extends RealGenotype, P>
+  extends Omit<AbstractEngineSettings<G, P>, "selection" | "crossover" | "mutation" | "parents" | "replacement"> {
+  velocity?: VelocityUpdate;
+  topology?: Topology;
+  maxVelocity?: number | ArrayLike<number>;
+  boundary?: ParticleBoundaryHandling;
+  lower?: number | ArrayLike<number>;
+  upper?: number | ArrayLike<number>;
+}
+
+/**
+ * Particle swarm optimization. The blueprint creates the initial swarm of
+ * `size` particles, whose velocity and personal best are kept in their
+ * state (see {@link ParticleState}). Every generation moves each particle
+ * towards its personal best and the best personal best of its neighbourhood
+ * given by the `topology`, the moved particles replace the previous ones.
+ *
+ * The initial velocities are `(U(lower, upper) - x) / 2` in the bounded
+ * dimensions and zero otherwise. The `velocity` update defaults to
+ * {@link inertia}, the `topology` to {@link globalBest} and the `boundary`
+ * handling to `"absorb"`. The result holds the best individual found during
+ * the whole run.
+ */
+export class ParticleSwarmEngine<G extends RealGenotype, P> extends AbstractEngine<G, P> {
+  /**
+   *
+   */
+  public readonly velocity: VelocityUpdate;
+
+  /**
+   *
+   */
+  public readonly topology: Topology;
+
+  /**
+   *
+   */
+  public readonly boundary: ParticleBoundaryHandling;
+
+  /**
+   *
+   */
+  protected readonly maxVelocity: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected readonly lower: number | ArrayLike<number>;
+
+  /**
+   *
+   */
+  protected readonly upper: number | ArrayLike<number>;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: ParticleSwarmEngineSettings<G, P>) {
+    super({
+      ...settings,
+      selection: random(),
+      crossover: (parents) => parents,
+      mutation: (data) => data,
+    }, (amount, population, offspring) => offspring);
+
+    this.velocity = settings.velocity ?? inertia();
+    this.topology = settings.topology ?? globalBest();
+    this.boundary = settings.boundary ?? "absorb";
+    this.maxVelocity = settings.maxVelocity ?? Infinity;
+    this.lower = settings.lower ?? -Infinity;
+    this.upper = settings.upper ?? Infinity;
+
+    if (typeof this.velocity !== "function" || typeof this.topology !== "function") {
+      throw new TypeError();
+    }
+
+    if (!["clip", "absorb", "reflect"].includes(this.boundary)) {
+      throw new TypeError(`invalid boundary handling ${this.boundary}`);
+    }
+
+    const limits = typeof this.maxVelocity === "number" ? [this.maxVelocity] : Array.from(this.maxVelocity);
+
+    if (limits.some((limit) => typeof limit !== "number" || !(limit > 0))) {
+      throw new TypeError("the maximum velocity has to be positive");
+    }
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<G, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    let particles = this.$createSync();
+    this.$evaluate(particles, progress);
+
+    let incumbent = this.$initialize(particles);
+    let group = new Group({ members: particles, size: this.size, random: this.random });
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      particles = this.$move(particles, progress);
+      this.$evaluate(particles, progress);
+
+      incumbent = this.$update(particles, incumbent);
+      group = new Group({ members: particles, size: this.size, random: this.random });
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$incumbent(group, progress, incumbent);
+  }
+
+  /**
+   *
+   */
+  public async runAsync(): Promise<EngineResult<G, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    let particles = await this.$create();
+    await this.$evaluateAsync(particles, progress);
+
+    let incumbent = this.$initialize(particles);
+    let group = new Group({ members: particles, size: this.size, random: this.random });
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      particles = this.$move(particles, progress);
+      await this.$evaluateAsync(particles, progress);
+
+      incumbent = this.$update(particles, incumbent);
+      group = new Group({ members: particles, size: this.size, random: this.random });
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$incumbent(group, progress, incumbent);
+  }
+
+  /**
+   * Binds the initial velocities and personal bests of the evaluated swarm
+   * and returns its best particle.
+   *
+   * @param particles
+   */
+  protected $initialize(particles: Individual<G, P>[]): Individual<G, P> {
+    this.$scope(() => {
+      const random = getRandom();
+
+      particles.forEach((particle) => {
+        const data = particle.genotype.data();
+        const position = realValues(data);
+        const bestValue = this.target(particle);
+
+        const velocity = position.map((value, i) => {
+          const { lower, upper } = realInterval(data, i, this.lower, this.upper);
+
+          return isFinite(lower) && isFinite(upper)
+            ? (lower + random.next() * (upper - lower) - value) / 2
+            : 0;
+        });
+
+        particle.state.bind({ velocity: () => velocity, best: () => position, bestValue: () => bestValue });
+      });
+    });
+
+    return particles.reduce((a, b) => this.target(b) > this.target(a) ? b : a);
+  }
+
+  /**
+   * Creates the moved particles, which inherit the state of the previous ones
+   * with the new velocity.
+   *
+   * @param particles
+   * @param progress
+   */
+  protected $move(particles: Individual<G, P>[], progress: Progress): Individual<G, P>[] {
+    return this.$scope(() => {
+      const random = getRandom();
+      const context = { ...this.$context(progress), random };
+      const neighbourhoods = this.topology(particles.length, random);
+      const states = particles.map((particle) => particle.state.computeAll() as ParticleState);
+
+      return particles.map((particle, i) => {
+        const data = particle.genotype.data();
+        const state = states[i];
+        const leader = neighbourhoods[i].reduce((a, b) => states[b].bestValue > states[a].bestValue ? b : a);
+
+        const position = realValues(data);
+        const velocity = this.velocity({ position, velocity: state.velocity, best: state.best, leader: states[leader].best }, context)
+          .map((value, j) => {
+            const limit = typeof this.maxVelocity === "number" ? this.maxVelocity : this.maxVelocity[j];
+            return clamp(value, -limit, limit);
+          });
+
+        const values = position.map((value, j) => {
+          const { lower, upper } = realInterval(data, j, this.lower, this.upper);
+          const moved = value + velocity[j];
+
+          if (lower > moved || moved > upper) {
+            if (this.boundary === "reflect") {
+              velocity[j] = -velocity[j];
+              return reflect(moved, lower, upper);
+            }
+
+            if (this.boundary === "absorb") {
+              velocity[j] = 0;
+            }
+          }
+
+          return clamp(moved, lower, upper);
+        });
+
+        const method = (parents: RealData[]) => [withRealValues(parents[0], values)];
+        const settings = {
+          ...this.crossoverSettings,
+          state: (parents: Individual<G, P>[]) => ({ ...parents[0].state.computeAll(), velocity }),
+        };
+
+        return particle.offspring([], method as any, settings, context)[0];
+      });
+    });
+  }
+
+  /**
+   * Updates the personal bests of the evaluated particles and returns the best
+   * individual found so far.
+   *
+   * @param particles
+   * @param incumbent
+   */
+  protected $update(particles: Individual<G, P>[], incumbent: Individual<G, P>): Individual<G, P> {
+    particles.forEach((particle) => {
+      const value = this.target(particle);
+
+      if (value > particle.state.compute("bestValue")) {
+        const position = realValues(particle.genotype.data());
+        particle.state.bind({ best: () => position, bestValue: () => value });
+      }
+
+      if (value > this.target(incumbent)) {
+        incumbent = particle;
+      }
+    });
+
+    return incumbent;
+  }
+
+  /**
+   *
+   * @param group
+   * @param progress
+   * @param incumbent
+   */
+  protected $incumbent(group: Group<Individual<G, P>>, progress: Progress, incumbent: Individual<G, P>): EngineResult<G, P> {
+    return { group, best: [incumbent], progress: Object.assign({}, progress) };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { ParticleSwarmEngine, ParticleSwarmEngineSettings } from "./particle_swarm";
+import { Xoshiro128, getRandom } from "../random";
+import { blueprint, minimize } from "../creation";
+import { constriction, inertia, ring, vonNeumann } from "../operators/particle_swarm";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { RealVector } from "../genotype/real_vector/real_vector";
+import { generations } from "./termination";
+import { linear } from "../operators/schedule";
+
+type Point = Individual<List<number>, unknown>;
+
+const sphere = (values: number[]) => values.reduce((acc, value) => acc + value * value, 0);
+
+function settingsFixture(
+  settings: Partial<ParticleSwarmEngineSettings<List<number>, unknown>> = {},
+): ParticleSwarmEngineSettings<List<number>, unknown> {
+  return Object.assign({
+    blueprint: blueprint({ genotype: () => List.generate(3, () => getRandom().next() * 10 - 5) }),
+    evaluation: (individual: Point) => minimize(sphere(individual.genotype.data())),
+    termination: generations(200),
+    size: 20,
+    lower: -5,
+    upper: 5,
+    random: new Xoshiro128(1),
+  }, settings);
+}
+
+describe("ParticleSwarmEngine", () => {
+  describe("constructor", () => {
+    it("throws if the settings are invalid", () => {
+      expect(() => new ParticleSwarmEngine(settingsFixture({ boundary: "foo" as any }))).toThrow(TypeError);
+      expect(() => new ParticleSwarmEngine(settingsFixture({ maxVelocity: 0 }))).toThrow(TypeError);
+      expect(() => new ParticleSwarmEngine(settingsFixture({ maxVelocity: [1, -1, 1] }))).toThrow(TypeError);
+      expect(() => new ParticleSwarmEngine(settingsFixture({ topology: "foo" as any }))).toThrow(TypeError);
+    });
+  });
+
+  describe("run", () => {
+    it("minimizes the sphere function with every topology and velocity update", () => {
+      [
+        {},
+        { topology: ring() },
+        { topology: vonNeumann(), velocity: constriction() },
+        { velocity: inertia({ inertia: linear(0.9, 0.4, 200) }) },
+      ].forEach((settings) => {
+        const result = new ParticleSwarmEngine(settingsFixture(settings)).run();
+        expect(sphere(result.best[0].genotype.data())).toBeLessThan(1e-6);
+      });
+    });
+
+    it("keeps the velocity and the personal best in the state of the particles", () => {
+      const result = new ParticleSwarmEngine(settingsFixture({ termination: generations(10) })).run();
+
+      expect(result.progress.evaluations).toBe(220);
+      result.group.members().forEach((member) => {
+        const { velocity, best, bestValue } = member.state.computeAll();
+
+        expect(velocity.length).toBe(3);
+        expect(bestValue).toBeGreaterThanOrEqual(-sphere(member.genotype.data()));
+        expect(bestValue).toBe(-sphere(best));
+      });
+    });
+
+    it("clamps the velocity", () => {
+      const result = new ParticleSwarmEngine(settingsFixture({ termination: generations(5), maxVelocity: [0.1, 0.2, 0.3] })).run();
+
+      result.group.members().forEach((member) => {
+        member.state.compute("velocity").forEach((value: number, i: number) => {
+          expect(Math.abs(value)).toBeLessThanOrEqual(0.1 * (i + 1) + 1e-12);
+        });
+      });
+    });
+
+    it("keeps the particles within the bounds", () => {
+      (["clip", "absorb", "reflect"] as const).forEach((boundary) => {
+        const result = new ParticleSwarmEngine(settingsFixture({
+          evaluation: (individual: Point) => minimize(sphere(individual.genotype.data().map((gene) => gene - 8))),
+          termination: generations(50),
+          boundary,
+        })).run();
+
+        result.group.members().forEach((member) => {
+          member.genotype.data().forEach((gene) => expect(gene >= -5 && 5 >= gene).toBe(true));
+        });
+        result.best[0].genotype.data().forEach((gene) => {
+          expect(gene).toBeCloseTo(5, boundary === "reflect" ? 1 : 12);
+        });
+      });
+    });
+
+    it("works on real vectors within their bounds", () => {
+      const result = new ParticleSwarmEngine({
+        blueprint: blueprint({ genotype: () => RealVector.random(2, { lower: -2, upper: 2 }) }),
+        evaluation: (individual: Individual<RealVector, unknown>) => minimize(sphere(individual.genotype.values().map((value) => value - 1))),
+        termination: generations(100),
+        size: 10,
+        random: new Xoshiro128(3),
+      }).run();
+
+      result.best[0].genotype.values().forEach((value) => expect(value).toBeCloseTo(1, 4));
+    });
+  });
+
+  describe("runAsync", () => {
+    it("supports asynchronous evaluation functions and blueprints", async () => {
+      const result = await new ParticleSwarmEngine(settingsFixture({
+        blueprint: blueprint({ genotype: async () => List.generate(3, () => getRandom().next()) }),
+        evaluation: async (individual: Point) => minimize(sphere(individual.genotype.data())),
+        termination: generations(100),
+      })).runAsync();
+
+      expect(result.progress.evaluations).toBe(2020);
+      expect(sphere(result.best[0].genotype.data())).toBeLessThan(1e-4);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractEngine, AbstractEngineSettings, EngineResult } from "./abstract_engine";
+import { AnyGenotype } from "../individual/data";
+import { Group } from "../individual/group";
+import { Individual } from "../individual/individual";
+import { isPositiveInt } from "../util";
+import { worst } from "../operators/replacement";
+
+/**
+ *
+ */
+export interface SteadyStateEngineSettings<G extends AnyGenotype, P> extends AbstractEngineSettings<G, P> {
+  concurrency?: number;
+}
+
+/**
+ * Breeds a single child at a time and inserts it into the population as soon
+ * as it is evaluated. Every insertion counts as one generation.
+ */
+export class SteadyStateEngine<G extends AnyGenotype, P> extends AbstractEngine<G, P> {
+  /**
+   *
+   */
+  public readonly concurrency: number;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: SteadyStateEngineSettings<G, P>) {
+    super(settings, worst(settings.target));
+
+    this.concurrency = settings.concurrency ?? 1;
+
+    if (!isPositiveInt(this.concurrency)) {
+      throw new TypeError();
+    }
+  }
+
+  /**
+   *
+   */
+  public run(): EngineResult<G, P> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = this.$createSync();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    this.$evaluate(members, progress);
+    this.$record(group, progress, start);
+
+    while (!this.termination(progress)) {
+      const child = this.$child(group, progress);
+
+      this.$evaluate([child], progress);
+      this.$insert(group, child);
+
+      progress.generation += 1;
+      this.$record(group, progress, start);
+    }
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   * Keeps up to `concurrency` evaluations in flight. Pending evaluations are
+   * counted against the termination criterion as if they had already finished,
+   * so no child is launched past an evaluation or generation budget.
+   */
+  public async runAsync(): Promise<EngineResult<G, P>> {
+    const start = Date.now();
+    const progress = this.$progress();
+
+    const members = await this.$create();
+    const group = new Group({ members, size: this.size, random: this.random });
+
+    await this.$evaluateAsync(members, progress);
+    this.$record(group, progress, start);
+
+    await new Promise<void>((resolve, reject) => {
+      let pending = 0;
+      let failed = false;
+
+      const fail = (error: unknown) => {
+        failed = true;
+        reject(error);
+      };
+
+      const exhausted = () => this.termination({
+        ...progress,
+        generation: progress.generation + pending,
+        evaluations: progress.evaluations + pending,
+      });
+
+      const launch = () => {
+        while (!failed && this.concurrency > pending && !exhausted()) {
+          const child = this.$child(group, progress);
+          pending += 1;
+
+          this.$evaluateAsync([child], progress)
+            .then(() => {
+              pending -= 1;
+
+              this.$insert(group, child);
+              progress.generation += 1;
+              this.$record(group, progress, start);
+
+              launch();
+            })
+            .catch(fail);
+        }
+
+        if (!failed && pending === 0) {
+          resolve();
+        }
+      };
+
+      launch();
+    });
+
+    return this.$result(group, progress);
+  }
+
+  /**
+   *
+   * @param group
+   * @param child
+   */
+  protected $insert(group: Group<Individual<G, P>>, child: Individual<G, P>): void {
+    this.$scope(() => {
+      group.set(this.replacement(this.size, group.members(), [child]));
+    });
+  }
+}
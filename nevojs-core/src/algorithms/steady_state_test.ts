@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { SteadyStateEngine, SteadyStateEngineSettings } from "./steady_state";
+import { blueprint, maximize } from "../creation";
+import { evaluations, generations } from "./termination";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { map } from "../operators/mutation";
+import { sum } from "../util";
+import { tournament } from "../operators/selection";
+import { uniform } from "../operators/crossover";
+
+type OneMax = Individual<List<number>, undefined>;
+
+function settingsFixture(
+  settings: Partial<SteadyStateEngineSettings<List<number>, undefined>> = {},
+): SteadyStateEngineSettings<List<number>, undefined> {
+  return Object.assign({
+    blueprint: blueprint({
+      genotype: () => List.generate(20, () => Math.round(Math.random())),
+    }),
+    evaluation: (individual: OneMax) => maximize(sum(individual.genotype.data())),
+    selection: tournament({ size: 2 }),
+    crossover: uniform(),
+    mutation: map((gene: number) => Number(!gene), { rate: 0.05 }),
+    termination: generations(50),
+    size: 10,
+  }, settings);
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("SteadyStateEngine", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the concurrency is not a positive integer", () => {
+      [0, -1, 1.5, NaN].forEach((concurrency) => {
+        expect(() => new SteadyStateEngine(settingsFixture({ concurrency }))).toThrow(TypeError);
+      });
+    });
+  });
+
+  describe("run", () => {
+    it("inserts one child per generation", () => {
+      const result = new SteadyStateEngine(settingsFixture({ termination: generations(30) })).run();
+
+      expect(result.progress.generation).toBe(30);
+      expect(result.progress.evaluations).toBe(10 + 30);
+      expect(result.group.length).toBe(10);
+    });
+
+    it("never loses the best individual when replacing the worst one", () => {
+      const values: number[] = [];
+
+      new SteadyStateEngine(settingsFixture({
+        onGeneration: (progress, group) => {
+          values.push(Math.max(...group.members().map((member) => member.fitness()[0])));
+        },
+      })).run();
+
+      expect(values.every((value, i) => i === 0 || value >= values[i - 1])).toBe(true);
+    });
+  });
+
+  describe("runAsync", () => {
+    it("keeps up to the given amount of evaluations in flight", async () => {
+      let pending = 0;
+      let peak = 0;
+
+      const evaluation = async (individual: OneMax) => {
+        pending += 1;
+        peak = Math.max(peak, pending);
+
+        await delay(Math.random() * 5);
+        pending -= 1;
+
+        return maximize(sum(individual.genotype.data()));
+      };
+
+      await new SteadyStateEngine(settingsFixture({
+        evaluation,
+        concurrency: 4,
+        size: 2,
+        termination: evaluations(30),
+      })).runAsync();
+
+      expect(peak).toBe(4);
+    });
+
+    it("inserts children as soon as they are evaluated", async () => {
+      const result = await new SteadyStateEngine(settingsFixture({
+        evaluation: async (individual) => {
+          await delay(Math.random() * 3);
+          return maximize(sum(individual.genotype.data()));
+        },
+        concurrency: 3,
+        termination: generations(20),
+      })).runAsync();
+
+      expect(result.group.length).toBe(10);
+      expect(result.progress.generation).toBe(20);
+      expect(result.progress.evaluations).toBe(30);
+    });
+
+    it("does not launch evaluations past the evaluation budget", async () => {
+      let calls = 0;
+
+      const result = await new SteadyStateEngine(settingsFixture({
+        evaluation: async (individual) => {
+          calls += 1;
+
+          await delay(Math.random() * 3);
+          return maximize(sum(individual.genotype.data()));
+        },
+        concurrency: 4,
+        termination: evaluations(25),
+      })).runAsync();
+
+      expect(calls).toBe(25);
+      expect(result.progress.evaluations).toBe(25);
+      expect(result.progress.generation).toBe(15);
+    });
+
+    it("rejects if the evaluation fails", async () => {
+      let calls = 0;
+
+      const engine = new SteadyStateEngine(settingsFixture({
+        evaluation: async (individual) => {
+          if (++calls > 10) {
+            throw new Error("evaluation failed");
+          }
+
+          return maximize(sum(individual.genotype.data()));
+        },
+      }));
+
+      await expect(engine.runAsync()).rejects.toThrow("evaluation failed");
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { isNumber, isPositiveInt } from "../util";
+
+/**
+ *
+ */
+export interface Progress {
+  generation: number;
+  evaluations: number;
+  elapsed: number;
+  best: number;
+  stagnation: number;
+}
+
+/**
+ *
+ */
+export type TerminationCriterion = (progress: Progress) => boolean;
+
+/**
+ *
+ * @param amount
+ * @category termination
+ */
+export function generations(amount: number): TerminationCriterion {
+  if (!isPositiveInt(amount)) {
+    throw new TypeError();
+  }
+
+  return (progress) => progress.generation >= amount;
+}
+
+/**
+ *
+ * @param amount
+ * @category termination
+ */
+export function evaluations(amount: number): TerminationCriterion {
+  if (!isPositiveInt(amount)) {
+    throw new TypeError();
+  }
+
+  return (progress) => progress.evaluations >= amount;
+}
+
+/**
+ *
+ * @param target
+ * @category termination
+ */
+export function fitness(target: number): TerminationCriterion {
+  if (!isNumber(target)) {
+    throw new TypeError();
+  }
+
+  return (progress) => progress.best >= target;
+}
+
+/**
+ *
+ * @param milliseconds
+ * @category termination
+ */
+export function time(milliseconds: number): TerminationCriterion {
+  if (!isNumber(milliseconds) || 0 > milliseconds) {
+    throw new TypeError();
+  }
+
+  return (progress) => progress.elapsed >= milliseconds;
+}
+
+/**
+ *
+ * @param amount
+ * @category termination
+ */
+export function stagnation(amount: number): TerminationCriterion {
+  if (!isPositiveInt(amount)) {
+    throw new TypeError();
+  }
+
+  return (progress) => progress.stagnation >= amount;
+}
+
+/**
+ *
+ * @param criteria
+ * @category termination
+ */
+export function some(...criteria: TerminationCriterion[]): TerminationCriterion {
+  if (criteria.length === 0 || criteria.some((criterion) => typeof criterion !== "function")) {
+    throw new TypeError();
+  }
+
+  return (progress) => criteria.some((criterion) => criterion(progress));
+}
+
+/**
+ *
+ * @param criteria
+ * @category termination
+ */
+export function every(...criteria: TerminationCriterion[]): TerminationCriterion {
+  if (criteria.length === 0 || criteria.some((criterion) => typeof criterion !== "function")) {
+    throw new TypeError();
+  }
+
+  return (progress) => criteria.every((criterion) => criterion(progress));
+}
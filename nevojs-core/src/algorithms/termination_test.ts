@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { Progress, evaluations, every, fitness, generations, some, stagnation, time } from "./termination";
+
+function progressFixture(data: Partial<Progress> = {}): Progress {
+  return Object.assign({
+    generation: 0,
+    evaluations: 0,
+    elapsed: 0,
+    best: -Infinity,
+    stagnation: 0,
+  }, data);
+}
+
+describe("generations", () => {
+  it("fires once the generation count is reached", () => {
+    const criterion = generations(10);
+
+    expect(criterion(progressFixture({ generation: 9 }))).toBe(false);
+    expect(criterion(progressFixture({ generation: 10 }))).toBe(true);
+  });
+
+  it("throws a TypeError if the amount is not a positive integer", () => {
+    fc.assert(fc.property(fc.anything(), (amount) => {
+      fc.pre(typeof amount !== "number" || 0 >= amount || amount % 1 !== 0 || isNaN(amount));
+
+      expect(() => generations(amount as number)).toThrow(TypeError);
+    }));
+  });
+});
+
+describe("evaluations", () => {
+  it("fires once the evaluation count is reached", () => {
+    const criterion = evaluations(100);
+
+    expect(criterion(progressFixture({ evaluations: 99 }))).toBe(false);
+    expect(criterion(progressFixture({ evaluations: 120 }))).toBe(true);
+  });
+});
+
+describe("fitness", () => {
+  it("fires once the best fitness reaches the target", () => {
+    const criterion = fitness(-5);
+
+    expect(criterion(progressFixture({ best: -5.5 }))).toBe(false);
+    expect(criterion(progressFixture({ best: -5 }))).toBe(true);
+  });
+});
+
+describe("time", () => {
+  it("fires once the time budget is used", () => {
+    const criterion = time(1000);
+
+    expect(criterion(progressFixture({ elapsed: 999 }))).toBe(false);
+    expect(criterion(progressFixture({ elapsed: 1000 }))).toBe(true);
+  });
+});
+
+describe("stagnation", () => {
+  it("fires after n generations without improvement", () => {
+    const criterion = stagnation(3);
+
+    expect(criterion(progressFixture({ stagnation: 2 }))).toBe(false);
+    expect(criterion(progressFixture({ stagnation: 3 }))).toBe(true);
+  });
+});
+
+describe("some", () => {
+  it("fires if any of the criteria fires", () => {
+    const criterion = some(generations(10), evaluations(100));
+
+    expect(criterion(progressFixture({ generation: 1, evaluations: 1 }))).toBe(false);
+    expect(criterion(progressFixture({ generation: 1, evaluations: 100 }))).toBe(true);
+  });
+
+  it("throws a TypeError if no criteria were passed", () => {
+    expect(() => some()).toThrow(TypeError);
+  });
+});
+
+describe("every", () => {
+  it("fires if all of the criteria fire", () => {
+    const criterion = every(generations(10), evaluations(100));
+
+    expect(criterion(progressFixture({ generation: 10, evaluations: 1 }))).toBe(false);
+    expect(criterion(progressFixture({ generation: 10, evaluations: 100 }))).toBe(true);
+  });
+});
@@ -17,12 +17,11 @@
 
 import { AnyIndividual, Individual, IndividualConstructorSettings } from "./individual/individual";
 import { Blueprint, BlueprintConstructorSettings } from "./individual/blueprint/blueprint";
-import { Group } from "./individual/group";
+import { Group, GroupConstructorSettings } from "./individual/group";
 import { AnyGenotype, UnresolvedGenotype } from "./individual/data";
 import { List } from "./genotype/list";
 import { Objective } from "./individual/evaluation/objective";
 import { ResolvedBlueprint } from "./individual/blueprint/blueprint_aliases";
-import { CollectionConstructorSettings } from "./collection";
 
 /**
  *
@@ -60,7 +59,7 @@ export function list<T>(data: T[]): List<T> {
  * @param data
  * @category creation
  */
-export function group<I extends AnyIndividual>(data: I[] | CollectionConstructorSettings<I> = {}): Group<I> {
+export function group<I extends AnyIndividual>(data: I[] | GroupConstructorSettings<I> = {}): Group<I> {
   if (Array.isArray(data)) {
     return new Group({ members: data });
   }
@@ -21,14 +21,109 @@ export { TournamentSelectionSettings, SelectionMethod, NSGA2Settings } from "./o
 export const selection = { best, random, rank, roulette, tournament, worst, NSGA2 };
 
 // mutation
-import { alternateGene, alternatePart, inversion, map, forEach, scramble, swap, bound, flip, gauss } from "./operators/mutation";
-export { MutationMethod, MutationBoundSettings, AlternatePartSettings, AlternateGeneSettings, IterativeMutationSettings, IterativeMutationCallback } from "./operators/mutation";
-export const mutation = { inversion, scramble, map, forEach, swap, alternateGene, alternatePart, bound, flip, gauss };
+import { alternateGene, alternatePart, inversion, map, forEach, scramble, swap, bound, flip, gauss, insertion, displacement, twoOpt, threeOpt, insertGene, deleteGene, duplicate, polynomial, nonUniform } from "./operators/mutation";
+export { MutationMethod, MutationBoundSettings, AlternatePartSettings, AlternateGeneSettings, IterativeMutationSettings, IterativeMutationCallback, VariableLengthMutationSettings, PolynomialMutationSettings, NonUniformMutationSettings, MutationContext } from "./operators/mutation";
+export const mutation = { inversion, scramble, map, forEach, swap, alternateGene, alternatePart, bound, flip, gauss, insertion, displacement, twoOpt, threeOpt, insertGene, deleteGene, duplicate, polynomial, nonUniform };
 
 // crossover
-import { blend, ordered, point, simulatedBinary, uniform } from "./operators/crossover";
-export { PointCrossoverSettings, CrossoverMethod, BlendCrossoverSettings, SimulatedBinaryCrossoverSettings, UniformCrossoverSettings } from "./operators/crossover";
-export const crossover = { point, uniform, ordered, blend, simulatedBinary };
+import { blend, cutAndSplice, cycle, edgeRecombination, homologous, messy, orderBased, ordered, partiallyMapped, point, simulatedBinary, uniform } from "./operators/crossover";
+export { PointCrossoverSettings, CrossoverMethod, BlendCrossoverSettings, SimulatedBinaryCrossoverSettings, UniformCrossoverSettings, CutAndSpliceSettings, MessyCrossoverSettings, HomologousCrossoverSettings, CrossoverContext } from "./operators/crossover";
+export const crossover = { point, uniform, ordered, blend, simulatedBinary, partiallyMapped, cycle, edgeRecombination, orderBased, cutAndSplice, messy, homologous };
+
+import { activeMutation as cgpActiveMutation, pointMutation as cgpPointMutation } from "./genotype/cgp/cgp_operators";
+import {
+  crossChromosomes as compositeCrossChromosomes,
+  mutateChromosomes as compositeMutateChromosomes,
+  swapChromosomes as compositeSwapChromosomes,
+} from "./genotype/composite/composite_operators";
+import { best1 as deBest1, binomial as deBinomial, currentToBest1 as deCurrentToBest1, currentToPBest1 as deCurrentToPBest1, exponential as deExponential, rand1 as deRand1, rand2 as deRand2 } from "./operators/differential";
+import { constant as deConstant, jade as deJade, jde as deJde, shade as deShade } from "./operators/differential_adaptation";
+import { additive as dominanceAdditive, evolvableDominance as dominanceEvolvable, dominanceMap } from "./genotype/diploid/dominance";
+import { cga as edaCga, dependencyTree as edaDependencyTree, gaussian as edaGaussian, pbil as edaPbil, umda as edaUmda } from "./operators/distribution_model";
+import { inheritStrategy as esInheritStrategy, selfAdaptive as esSelfAdaptive } from "./operators/self_adaptive";
+import { evaluations, every, fitness, generations, some, stagnation, time } from "./algorithms/termination";
+import { flip as flipBits, point as pointBits, uniform as uniformBits } from "./genotype/bit_string/bit_string_operators";
+import { generational, oldest, oneToOne, plus, tournament as tournamentReplacement, worst as worstReplacement } from "./operators/replacement";
+import {
+  codonMutation as grammarCodonMutation,
+  effectivePoint as grammarEffectivePoint,
+  subtreeCrossover as grammarSubtreeCrossover,
+} from "./genotype/grammar/grammar_operators";
+import { homologs, meiosis } from "./genotype/diploid/diploid_operators";
+import { macroMutation as linearMacroMutation, microMutation as linearMicroMutation, twoPoint as linearTwoPoint } from "./genotype/linear/linear_operators";
+import {
+  addConnection as neatAddConnection,
+  addNode as neatAddNode,
+  crossover as neatCrossover,
+  perturbWeights as neatPerturbWeights,
+  toggleEnable as neatToggleEnable,
+} from "./genotype/neat/neat_operators";
+import { centeredRanks as nesCenteredRanks, openai as nesOpenai, snes as nesSnes, utilities as nesUtilities, xnes as nesXnes } from "./operators/natural_evolution";
+import { adam as optimizerAdam, sgd as optimizerSgd } from "./operators/optimizer";
+import { constriction as psoConstriction, globalBest as psoGlobalBest, inertia as psoInertia, randomInformants as psoRandomInformants, ring as psoRing, vonNeumann as psoVonNeumann } from "./operators/particle_swarm";
+import { blend as realBlend, gauss as realGauss, polynomial as realPolynomial, simulatedBinary as realSimulatedBinary } from "./genotype/real_vector/real_vector_operators";
+import { cosine as scheduleCosine, custom as scheduleCustom, exponential as scheduleExponential, linear as scheduleLinear, piecewise as schedulePiecewise, step as scheduleStep } from "./operators/schedule";
+import {
+  subtreeCrossover as treeCrossover,
+  hoistMutation as treeHoist,
+  subtreeMutation as treeMutation,
+  pointMutation as treePoint,
+  shrinkMutation as treeShrink,
+} from "./genotype/tree/tree_operators";
+import { biasedUniform } from "./genotype/random_key/random_key_operators";
+
+// differential evolution
+export { DifferentialData, DifferentialContext, DifferentialMutation, DifferentialCrossover, CurrentToPBestSettings } from "./operators/differential";
+export { DifferentialParameters, DifferentialSuccess, DifferentialAdaptation, JdeSettings, JadeSettings, JadeAdaptation, ShadeSettings, ShadeAdaptation } from "./operators/differential_adaptation";
+export const de = { rand1: deRand1, rand2: deRand2, best1: deBest1, currentToBest1: deCurrentToBest1, currentToPBest1: deCurrentToPBest1, binomial: deBinomial, exponential: deExponential, constant: deConstant, jde: deJde, jade: deJade, shade: deShade };
+
+// estimation of distribution
+export { DistributionModel, EdaGenes, EdaStrategy, MarginalRule, MarginalModel, MarginalModelData, SerializedMarginalModel, GaussianModel, GaussianModelData, SerializedGaussianModel } from "./operators/distribution_model";
+export { DependencyTreeModel, DependencyTreeModelData, SerializedDependencyTreeModel, PbilSettings, CompactSettings } from "./operators/distribution_model";
+export const eda = { umda: edaUmda, pbil: edaPbil, cga: edaCga, gaussian: edaGaussian, dependencyTree: edaDependencyTree };
+
+// evolution strategies
+export { EvolutionStrategyState, StepSizeAdaptation, SelfAdaptiveMutationSettings } from "./operators/self_adaptive";
+export const es = { selfAdaptive: esSelfAdaptive, inheritStrategy: esInheritStrategy };
+
+// natural evolution strategies
+export { FitnessShaping, NesDistribution, NesStrategy, OpenAiEsSettings, SnesSettings, XnesSettings } from "./operators/natural_evolution";
+export const nes = { xnes: nesXnes, snes: nesSnes, openai: nesOpenai, utilities: nesUtilities, centeredRanks: nesCenteredRanks };
+
+// gradient optimizers
+export { GradientOptimizer, SgdSettings, AdamSettings } from "./operators/optimizer";
+export const optimizer = { sgd: optimizerSgd, adam: optimizerAdam };
+
+// particle swarm
+export { ParticleState, Particle, Topology, VelocityUpdate, RingTopologySettings, RandomTopologySettings, InertiaSettings, ConstrictionSettings } from "./operators/particle_swarm";
+export const pso = { global: psoGlobalBest, ring: psoRing, vonNeumann: psoVonNeumann, random: psoRandomInformants, inertia: psoInertia, constriction: psoConstriction };
+
+// operator context
+export { OperatorContext, OperatorContextSettings } from "./operators/context";
+
+// schedules
+export { Schedule, Scheduled, ScheduleFunction, ScheduleProgress, SchedulePoint, ScheduleSettings, ScheduleUnit } from "./operators/schedule";
+export const schedule = { linear: scheduleLinear, exponential: scheduleExponential, cosine: scheduleCosine, step: scheduleStep, piecewise: schedulePiecewise, custom: scheduleCustom };
+
+// replacement
+export { ReplacementMethod, TournamentReplacementSettings } from "./operators/replacement";
+export const replacement = { generational, plus, oldest, worst: worstReplacement, tournament: tournamentReplacement, oneToOne };
+
+// termination
+export { Progress, TerminationCriterion } from "./algorithms/termination";
+export const termination = { generations, evaluations, fitness, time, stagnation, some, every };
+
+// algorithms
+export { AbstractEngine, AbstractEngineSettings, EngineResult, EngineListener } from "./algorithms/abstract_engine";
+export { Engine, EngineSettings } from "./algorithms/engine";
+export { SteadyStateEngine, SteadyStateEngineSettings } from "./algorithms/steady_state";
+export { BrkgaEngine, BrkgaEngineSettings } from "./algorithms/brkga";
+export { DifferentialEvolutionEngine, DifferentialEvolutionEngineSettings, DifferentialGenotype } from "./algorithms/differential_evolution";
+export { CmaEsEngine, CmaEsEngineSettings, CmaEsRestartStrategy, CmaEsBoundaryHandling } from "./algorithms/cma_es";
+export { CmaEsState, CmaEsStateData, SerializedCmaEsState, CmaEsRestarts, CmaEsRegime, CmaEsConvergenceSettings, cmaPopulationSize } from "./algorithms/cma_es_state";
+export { NesEngine, NesEngineSettings } from "./algorithms/natural_evolution_strategy";
+export { ParticleSwarmEngine, ParticleSwarmEngineSettings, ParticleBoundaryHandling } from "./algorithms/particle_swarm";
+export { EdaEngine, EdaEngineSettings, EdaGenotype } from "./algorithms/estimation_of_distribution";
 
 // individual
 export { weightedSum, ScalarizationMethod } from "./individual/multiobjective_optimization/scalarization";
@@ -56,15 +151,138 @@ export { nonDominatedSort, crowdingDistance, rank } from "./individual/multiobje
 
 // genotype
 export { Genotype, GenotypeCloneFunction, AnyGenotype, UnresolvedGenotype } from "./individual/data";
-export { List, ListGenerateFunction } from "./genotype/list";
+export { List, ListGenerateFunction, ListLimits, SerializedList } from "./genotype/list";
+export { Permutation } from "./genotype/permutation";
+export { BitString, BitStringData, BitStringGenerateFunction, BitStringRandomSettings } from "./genotype/bit_string/bit_string";
+
+// bit string
+export { BitFlipMutationSettings, BitPointCrossoverSettings, BitUniformCrossoverSettings } from "./genotype/bit_string/bit_string_operators";
+export const bitString = { flip: flipBits, point: pointBits, uniform: uniformBits };
+
+// real vector
+export { RealVector, RealVectorData, RealVectorBounds, RealVectorGenerateFunction, RealVectorRandomSettings, SerializedRealVector, RealGenotype, RealData, RealInterval } from "./genotype/real_vector/real_vector";
+export { RealGaussMutationSettings, RealBlendCrossoverSettings, RealSimulatedBinaryCrossoverSettings, RealPolynomialMutationSettings } from "./genotype/real_vector/real_vector_operators";
+export const realVector = { gauss: realGauss, blend: realBlend, simulatedBinary: realSimulatedBinary, polynomial: realPolynomial };
+
+// tree
+export { Tree, TreeNode, TreeLimits, TreeInitializationMethod, TreeGenerateSettings, RampedHalfAndHalfSettings, compile } from "./genotype/tree/tree";
+export {
+  AbstractPrimitiveSet,
+  PrimitiveSet,
+  PrimitiveArgument,
+  Primitive,
+  PrimitiveFunction,
+  FunctionPrimitive,
+  TerminalPrimitive,
+  ArgumentPrimitive,
+  EphemeralPrimitive,
+  EphemeralGenerator,
+} from "./genotype/tree/primitive_set";
+export {
+  TypedPrimitiveSet,
+  TypedPrimitiveSetBuilder,
+  TypedProgram,
+  TypedArgument,
+  TypedArgumentValues,
+  TypedValues,
+  TypeName,
+  typedPrimitiveSet,
+} from "./genotype/tree/typed_primitive_set";
+export { SubtreeCrossoverSettings, SubtreeMutationSettings, PointMutationSettings } from "./genotype/tree/tree_operators";
+export const tree = {
+  subtreeCrossover: treeCrossover,
+  subtreeMutation: treeMutation,
+  pointMutation: treePoint,
+  hoistMutation: treeHoist,
+  shrinkMutation: treeShrink,
+};
+
+// neat
+export { InnovationTracker, SerializedInnovationTracker, SerializedInnovation, SerializedSplit } from "./genotype/neat/innovation_tracker";
+export {
+  NeatGenome,
+  NeatData,
+  NeatGenomeSettings,
+  NodeGene,
+  NodeType,
+  ConnectionGene,
+  CompatibilitySettings,
+  SerializedNeatGenome,
+} from "./genotype/neat/neat_genome";
+export { Network, ActivationFunction, activations, feedForward, recurrent } from "./genotype/neat/network";
+export {
+  AddNodeMutationSettings,
+  AddConnectionMutationSettings,
+  WeightMutationSettings,
+  NeatCrossoverSettings,
+} from "./genotype/neat/neat_operators";
+export const neat = {
+  addNode: neatAddNode,
+  addConnection: neatAddConnection,
+  perturbWeights: neatPerturbWeights,
+  toggleEnable: neatToggleEnable,
+  crossover: neatCrossover,
+};
+
+// grammatical evolution
+export { Grammar, GrammarRules, GrammarSymbol, Production } from "./genotype/grammar/grammar";
+export { Derivation, DerivationNode, DerivationSettings, derive, grammatical } from "./genotype/grammar/derivation";
+export { GrammarOperatorSettings, CodonMutationSettings } from "./genotype/grammar/grammar_operators";
+export const grammar = {
+  effectivePoint: grammarEffectivePoint,
+  subtreeCrossover: grammarSubtreeCrossover,
+  codonMutation: grammarCodonMutation,
+};
+
+// cartesian genetic programming
+export { Cgp, CgpProgram, CgpRandomSettings, compileCgp } from "./genotype/cgp/cgp";
+export { CgpLayout, CgpLayoutSettings, CgpFunction } from "./genotype/cgp/cgp_layout";
+export { CgpPointMutationSettings } from "./genotype/cgp/cgp_operators";
+export const cgp = { pointMutation: cgpPointMutation, activeMutation: cgpActiveMutation };
+
+// linear genetic programming
+export { InstructionSet, InstructionSetSettings, Instruction, LinearOperation } from "./genotype/linear/instruction_set";
+export { LinearProgram, LinearProgramFunction, LinearProgramRandomSettings, compileLinear } from "./genotype/linear/linear_program";
+export { LinearLengthSettings, MacroMutationSettings, LinearCrossoverSettings } from "./genotype/linear/linear_operators";
+export const linear = { macroMutation: linearMacroMutation, microMutation: linearMicroMutation, twoPoint: linearTwoPoint };
+
+// composite
+export { Composite, Chromosomes, CompositeData, CompositeDeserializers } from "./genotype/composite/composite";
+export {
+  ChromosomeMutationMethods,
+  ChromosomeCrossoverMethods,
+  ChromosomeSwapSettings,
+  CompositeMutationMethod,
+  CompositeCrossoverMethod,
+} from "./genotype/composite/composite_operators";
+export const composite = {
+  mutateChromosomes: compositeMutateChromosomes,
+  crossChromosomes: compositeCrossChromosomes,
+  swapChromosomes: compositeSwapChromosomes,
+};
+
+// diploid
+export { Diploid, DiploidData, DiploidGenerateFunction, expressed } from "./genotype/diploid/diploid";
+export { Dominance, DominantAllele } from "./genotype/diploid/dominance";
+export const dominance = { dominanceMap, evolvableDominance: dominanceEvolvable, additive: dominanceAdditive };
+export { MeiosisSettings } from "./genotype/diploid/diploid_operators";
+export const diploid = { meiosis, homologs };
+
+// random key
+export { RandomKey, toAssignment, toPermutation, toPriorityList } from "./genotype/random_key/random_key";
+export { BiasedUniformCrossoverSettings } from "./genotype/random_key/random_key_operators";
+export const randomKey = { biasedUniform };
 
 // group
 export { Collection, CollectionConstructorSettings, CollectionCrowdSettings, CollectionData } from "./collection";
-export { Group, GroupData } from "./individual/group";
+export { Group, GroupData, GroupConstructorSettings } from "./individual/group";
 
-export { $Evaluation, $Genotype, $AsyncBlueprint, $Blueprint, $Crossover, $Data, $Group, $Individual, $Mutation, $Phenotype, $SyncBlueprint } from "./util_types";
+export { $Chromosomes, $Evaluation, $Genotype, $AsyncBlueprint, $Blueprint, $Crossover, $Data, $Group, $Individual, $Mutation, $Phenotype, $SyncBlueprint } from "./util_types";
 
 export { list, individual, group, objective, minimize, maximize, blueprint } from "./creation";
 
 // helpers
 export { pick, PickEntry } from "./helpers";
+
+// random
+export { Random, RandomSettings, NativeRandom, Xoshiro128, getRandom, setRandom, seed, withRandom } from "./random";
@@ -0,0 +1,387 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, getRandom } from "../../random";
+import { AbstractGenotype } from "../abstract_genotype";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+/**
+ * Bits are packed into 32-bit words, the i-th bit is stored in the
+ * `i % 32` bit of the `words[i >>> 5]` word.
+ */
+export interface BitStringData {
+  length: number;
+  words: Uint32Array;
+}
+
+/**
+ *
+ */
+export type BitStringGenerateFunction = (i: number) => boolean | number;
+
+/**
+ *
+ */
+export interface BitStringRandomSettings {
+  probability?: number;
+  random?: Random;
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * @hidden
+ */
+export function wordCount(length: number): number {
+  return Math.ceil(length / 32);
+}
+
+/**
+ * @hidden
+ */
+export function popcount(word: number): number {
+  word = word - ((word >>> 1) & 0x55555555);
+  word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+
+  return (Math.imul((word + (word >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
+
+/**
+ * @hidden
+ */
+export function rangeMask(words: Uint32Array, start: number, end: number): void {
+  for (let w = start >>> 5; w < wordCount(end); w++) {
+    const low = Math.max(start - w * 32, 0);
+    const high = Math.min(end - w * 32, 32);
+
+    if (high <= low) {
+      continue;
+    }
+
+    words[w] |= (0xffffffff >>> (32 - (high - low))) << low;
+  }
+}
+
+/**
+ * The bits as an array of zeros and ones.
+ *
+ * @hidden
+ */
+export function bitValues(data: BitStringData): number[] {
+  return Array.from({ length: data.length }, (_, i) => (data.words[i >>> 5] >>> (i & 31)) & 1);
+}
+
+/**
+ * Packs an array of zeros and ones (or booleans) into bit string data.
+ *
+ * @hidden
+ */
+export function bitStringData(values: (number | boolean)[]): BitStringData {
+  const words = new Uint32Array(wordCount(values.length));
+
+  values.forEach((value, i) => {
+    if (value) {
+      words[i >>> 5] |= 1 << (i & 31);
+    }
+  });
+
+  return { length: values.length, words };
+}
+
+function clearPadding(data: BitStringData): void {
+  const remainder = data.length % 32;
+
+  if (remainder > 0) {
+    data.words[data.words.length - 1] &= 0xffffffff >>> (32 - remainder);
+  }
+}
+
+function isBitStringData(data: any): data is BitStringData {
+  return data !== undefined
+    && data !== null
+    && data.words instanceof Uint32Array
+    && isPositiveInt(data.length)
+    && data.words.length === wordCount(data.length);
+}
+
+/**
+ *
+ */
+export class BitString extends AbstractGenotype<BitStringData> {
+  /**
+   *
+   * @param length
+   * @param func
+   */
+  public static generate(length: number, func: BitStringGenerateFunction): BitString {
+    if (!isPositiveInt(length)) {
+      throw new TypeError();
+    }
+
+    if (typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const words = new Uint32Array(wordCount(length));
+
+    for (let i = 0; i < length; i++) {
+      if (func(i)) {
+        words[i >>> 5] |= 1 << (i & 31);
+      }
+    }
+
+    return new BitString({ length, words });
+  }
+
+  /**
+   *
+   * @param length
+   * @param settings
+   */
+  public static random(length: number, settings: BitStringRandomSettings = {}): BitString {
+    const probability = settings.probability ?? 0.5;
+    const random = settings.random ?? getRandom();
+
+    if (typeof probability !== "number" || 0 > probability || probability > 1) {
+      throw new TypeError();
+    }
+
+    if (probability !== 0.5) {
+      return BitString.generate(length, () => probability > random.next());
+    }
+
+    if (!isPositiveInt(length)) {
+      throw new TypeError();
+    }
+
+    const words = new Uint32Array(wordCount(length));
+
+    for (let i = 0; i < words.length; i++) {
+      words[i] = Math.floor(random.next() * 4294967296);
+    }
+
+    return new BitString({ length, words });
+  }
+
+  /**
+   *
+   * @param bits
+   */
+  public static fromString(bits: string): BitString {
+    if (typeof bits !== "string" || !/^[01]+$/.test(bits)) {
+      throw new TypeError();
+    }
+
+    return BitString.generate(bits.length, (i) => bits[i] === "1");
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: string): BitString {
+    const match = typeof serialized === "string"
+      ? /^(\d+):([A-Za-z0-9+/]*={0,2})$/.exec(serialized)
+      : null;
+
+    if (match === null) {
+      throw new TypeError();
+    }
+
+    const length = Number(match[1]);
+    const encoded = match[2].replace(/=+$/, "");
+    const words = new Uint32Array(wordCount(length));
+
+    let buffer = 0;
+    let bits = 0;
+    let byte = 0;
+
+    for (const char of encoded) {
+      buffer = (buffer << 6) | BASE64.indexOf(char);
+      bits += 6;
+
+      if (bits >= 8) {
+        bits -= 8;
+
+        if (byte >>> 2 < words.length) {
+          words[byte >>> 2] |= ((buffer >>> bits) & 0xff) << ((byte & 3) * 8);
+        }
+
+        byte += 1;
+      }
+    }
+
+    return new BitString({ length, words });
+  }
+
+  /**
+   *
+   */
+  public get length(): number {
+    return this._data.length;
+  }
+
+  /**
+   *
+   * @param data
+   */
+  public constructor(data: BitStringData) {
+    if (!isBitStringData(data)) {
+      throw new TypeError();
+    }
+
+    const copy = { length: data.length, words: data.words.slice() };
+    clearPadding(copy);
+
+    super(copy);
+  }
+
+  /**
+   *
+   */
+  public data(): BitStringData {
+    return { length: this._data.length, words: this._data.words.slice() };
+  }
+
+  /**
+   *
+   * @param i
+   */
+  public get(i: number): boolean {
+    if (!Number.isInteger(i) || 0 > i || i >= this.length) {
+      throw new RangeError();
+    }
+
+    return (this._data.words[i >>> 5] & (1 << (i & 31))) !== 0;
+  }
+
+  /**
+   *
+   */
+  public popcount(): number {
+    let count = 0;
+
+    for (let i = 0; i < this._data.words.length; i++) {
+      count += popcount(this._data.words[i]);
+    }
+
+    return count;
+  }
+
+  /**
+   *
+   * @param other
+   */
+  public hamming(other: BitString): number {
+    if (!(other instanceof BitString) || other.length !== this.length) {
+      throw new TypeError();
+    }
+
+    const a = this._data.words;
+    const b = other._data.words;
+    let distance = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      distance += popcount(a[i] ^ b[i]);
+    }
+
+    return distance;
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<BitStringData>): void {
+    const length = this.length;
+    super.mutate(method);
+
+    if (!isBitStringData(this._data) || this._data.length !== length) {
+      throw new TypeError();
+    }
+
+    clearPadding(this._data);
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: BitStringData) => BitStringData): BitString {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new BitString(data);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: BitString[], method: CrossoverMethod<BitStringData>): BitString[] {
+    return super.makeOffspring(partners, method, (data) => new BitString(data));
+  }
+
+  /**
+   *
+   */
+  public toString(): string {
+    let bits = "";
+
+    for (let i = 0; i < this.length; i++) {
+      bits += this.get(i) ? "1" : "0";
+    }
+
+    return bits;
+  }
+
+  /**
+   *
+   */
+  public __serialize(): string {
+    const words = this._data.words;
+    const bytes = Math.ceil(this.length / 8);
+
+    let encoded = "";
+    let buffer = 0;
+    let bits = 0;
+
+    for (let i = 0; i < bytes; i++) {
+      buffer = (buffer << 8) | ((words[i >>> 2] >>> ((i & 3) * 8)) & 0xff);
+      bits += 8;
+
+      while (bits >= 6) {
+        bits -= 6;
+        encoded += BASE64[(buffer >>> bits) & 0x3f];
+      }
+    }
+
+    if (bits > 0) {
+      encoded += BASE64[(buffer << (6 - bits)) & 0x3f];
+    }
+
+    return `${this.length}:${encoded}`;
+  }
+}
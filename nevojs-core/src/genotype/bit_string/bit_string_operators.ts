@@ -0,0 +1,200 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { BitStringData, rangeMask, wordCount } from "./bit_string";
+import { RandomSettings, getRandom } from "../../random";
+import { Scheduled, isScheduled, resolveSchedule } from "../../operators/schedule";
+import { choose, isPositiveInt, range } from "../../util";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+
+/**
+ *
+ */
+export interface BitFlipMutationSettings extends RandomSettings {
+  rate?: Scheduled;
+}
+
+/**
+ * Flips every bit with the given probability. Positions of the flipped bits
+ * are drawn from the geometric distribution, so that sparse mutation of long
+ * strings does not need a random number per bit.
+ *
+ * @param settings
+ * @category bit-string
+ */
+export function flip(settings: BitFlipMutationSettings = {}): MutationMethod<BitStringData> {
+  const rate = settings.rate;
+
+  if (rate !== undefined && (!isScheduled(rate) || (typeof rate === "number" && (isNaN(rate) || 0 > rate || rate > 1)))) {
+    throw new TypeError();
+  }
+
+  return (data, context) => {
+    const random = settings.random ?? getRandom();
+    const probability = rate === undefined ? 1 / data.length : resolveSchedule(rate, context);
+
+    if (isNaN(probability) || 0 > probability || probability > 1) {
+      throw new TypeError(`scheduled mutation rate ${probability} is not in the [0, 1] range`);
+    }
+
+    if (probability === 0) {
+      return data;
+    }
+
+    if (probability === 1) {
+      for (let i = 0; i < data.words.length; i++) {
+        data.words[i] = ~data.words[i];
+      }
+
+      return data;
+    }
+
+    const log = Math.log(1 - probability);
+    let i = Math.floor(Math.log(1 - random.next()) / log);
+
+    while (data.length > i) {
+      data.words[i >>> 5] ^= 1 << (i & 31);
+      i += 1 + Math.floor(Math.log(1 - random.next()) / log);
+    }
+
+    return data;
+  };
+}
+
+/**
+ *
+ */
+export interface BitPointCrossoverSettings extends RandomSettings {
+  points?: number | number[];
+}
+
+function assertCompatible(parents: BitStringData[]): void {
+  if (parents.length !== 2 || parents[0].length !== parents[1].length) {
+    throw new TypeError();
+  }
+}
+
+function exchange(parentA: BitStringData, parentB: BitStringData, mask: Uint32Array): BitStringData[] {
+  const length = parentA.length;
+  const childA = new Uint32Array(mask.length);
+  const childB = new Uint32Array(mask.length);
+
+  for (let i = 0; i < mask.length; i++) {
+    childA[i] = (parentA.words[i] & ~mask[i]) | (parentB.words[i] & mask[i]);
+    childB[i] = (parentB.words[i] & ~mask[i]) | (parentA.words[i] & mask[i]);
+  }
+
+  return [
+    { length, words: childA },
+    { length, words: childB },
+  ];
+}
+
+/**
+ * Exchanges every other segment between the cut points (one-point crossover
+ * by default), operating on whole words. Explicit cut points have to be
+ * unique and in ascending order.
+ *
+ * @param settings
+ * @category bit-string
+ */
+export function point(settings: BitPointCrossoverSettings = {}): CrossoverMethod<BitStringData> {
+  const points = settings.points ?? 1;
+
+  if (Array.isArray(points) ? points.some((point) => !isPositiveInt(point)) : !isPositiveInt(points)) {
+    throw new TypeError();
+  }
+
+  if (Array.isArray(points) && points.some((point, i) => i > 0 && points[i - 1] >= point)) {
+    throw new TypeError("the cut points have to be unique and sorted in ascending order");
+  }
+
+  return (parents) => {
+    assertCompatible(parents);
+
+    const [parentA, parentB] = parents;
+    const length = parentA.length;
+
+    const cuts = Array.isArray(points)
+      ? points.slice()
+      : choose(range(1, length - 1), points, settings.random);
+
+    if (cuts.some((cut) => cut >= length)) {
+      throw new TypeError();
+    }
+
+    cuts.sort((a, b) => a - b);
+    cuts.push(length);
+
+    const mask = new Uint32Array(wordCount(length));
+
+    for (let i = 0; i + 1 < cuts.length; i += 2) {
+      rangeMask(mask, cuts[i], cuts[i + 1]);
+    }
+
+    return exchange(parentA, parentB, mask);
+  };
+}
+
+/**
+ *
+ */
+export interface BitUniformCrossoverSettings extends RandomSettings {
+  alpha?: Scheduled;
+}
+
+/**
+ *
+ * @param settings
+ * @category bit-string
+ */
+export function uniform(settings: BitUniformCrossoverSettings = {}): CrossoverMethod<BitStringData> {
+  const alpha = settings.alpha ?? 0.5;
+
+  if (!isScheduled(alpha) || (typeof alpha === "number" && (isNaN(alpha) || 0 > alpha || alpha > 1))) {
+    throw new TypeError();
+  }
+
+  return (parents, context) => {
+    assertCompatible(parents);
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+    const mask = new Uint32Array(wordCount(parentA.length));
+    const current = resolveSchedule(alpha, context);
+
+    if (isNaN(current) || 0 > current || current > 1) {
+      throw new TypeError(`scheduled alpha ${current} is not in the [0, 1] range`);
+    }
+
+    for (let i = 0; i < mask.length; i++) {
+      if (current === 0.5) {
+        mask[i] = Math.floor(random.next() * 4294967296);
+        continue;
+      }
+
+      for (let bit = 0; bit < 32; bit++) {
+        if (random.next() > current) {
+          mask[i] |= 1 << bit;
+        }
+      }
+    }
+
+    return exchange(parentA, parentB, mask);
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { flip, point, uniform } from "./bit_string_operators";
+import { BitString } from "./bit_string";
+import { Xoshiro128 } from "../../random";
+import { linear } from "../../operators/schedule";
+
+const zeros = (length: number) => BitString.generate(length, () => false);
+const ones = (length: number) => BitString.generate(length, () => true);
+
+describe("flip", () => {
+  it("inverts every bit if the rate is equal to 1", () => {
+    const bitString = BitString.fromString("1100101");
+    bitString.mutate(flip({ rate: 1 }));
+
+    expect(bitString.toString()).toBe("0011010");
+  });
+
+  it("leaves the bits untouched if the rate is equal to 0", () => {
+    const bitString = BitString.fromString("1100101");
+    bitString.mutate(flip({ rate: 0 }));
+
+    expect(bitString.toString()).toBe("1100101");
+  });
+
+  it("flips roughly the expected amount of bits", () => {
+    const bitString = zeros(10000);
+    bitString.mutate(flip({ rate: 0.1, random: new Xoshiro128(3) }));
+
+    expect(bitString.popcount()).toBeGreaterThan(900);
+    expect(bitString.popcount()).toBeLessThan(1100);
+  });
+
+  it("throws a TypeError if the rate is out of range", () => {
+    expect(() => flip({ rate: -0.1 })).toThrow(TypeError);
+    expect(() => flip({ rate: 2 })).toThrow(TypeError);
+  });
+
+  it("resolves a scheduled rate against the context", () => {
+    const method = flip({ rate: linear(0, 1, 10) });
+    const bitString = BitString.fromString("1100101");
+
+    bitString.mutate((data) => method(data, { generation: 0 } as any));
+    expect(bitString.toString()).toBe("1100101");
+
+    bitString.mutate((data) => method(data, { generation: 10 } as any));
+    expect(bitString.toString()).toBe("0011010");
+  });
+
+  it("throws a TypeError if the scheduled rate leaves the [0, 1] range", () => {
+    const method = flip({ rate: linear(1, 2, 10) });
+
+    expect(() => zeros(8).mutate((data) => method(data, { generation: 5 } as any))).toThrow(TypeError);
+  });
+});
+
+describe("point", () => {
+  it("exchanges the segments between the given cut points", () => {
+    const [a, b] = zeros(70).offspring([ones(70)], point({ points: [10, 40] }));
+
+    const expected = (i: number) => i >= 10 && i < 40;
+
+    for (let i = 0; i < 70; i++) {
+      expect(a.get(i)).toBe(expected(i));
+      expect(b.get(i)).toBe(!expected(i));
+    }
+  });
+
+  it("keeps the bits of both parents at every position", () => {
+    fc.assert(fc.property(fc.integer(1, 100), fc.integer(1, 5), fc.integer(), (length, points, seed) => {
+      const parentA = BitString.random(length, { random: new Xoshiro128(seed) });
+      const parentB = BitString.random(length, { random: new Xoshiro128(seed + 1) });
+
+      const [a, b] = parentA.offspring([parentB], point({ points, random: new Xoshiro128(seed) }));
+
+      for (let i = 0; i < length; i++) {
+        expect([a.get(i), b.get(i)].sort()).toEqual([parentA.get(i), parentB.get(i)].sort());
+      }
+    }));
+  });
+
+  it("exchanges nothing between an empty segment", () => {
+    const [a, b] = zeros(40).offspring([ones(40)], point({ points: [5, 6] }));
+
+    for (let i = 0; i < 40; i++) {
+      expect(a.get(i)).toBe(i === 5);
+      expect(b.get(i)).toBe(i !== 5);
+    }
+  });
+
+  it("throws a TypeError if the cut points are duplicated or unsorted", () => {
+    expect(() => point({ points: [5, 5] })).toThrow(TypeError);
+    expect(() => point({ points: [8, 3] })).toThrow(TypeError);
+  });
+
+  it("throws a TypeError if the parents have different lengths", () => {
+    expect(() => zeros(10).offspring([ones(11)], point())).toThrow(TypeError);
+  });
+
+  it("throws a TypeError if a cut point is out of range", () => {
+    expect(() => zeros(10).offspring([ones(10)], point({ points: [10] }))).toThrow(TypeError);
+    expect(() => point({ points: [0] })).toThrow(TypeError);
+  });
+});
+
+describe("uniform", () => {
+  it("keeps the bits of both parents at every position", () => {
+    fc.assert(fc.property(fc.integer(1, 100), fc.double(0, 1), fc.integer(), (length, alpha, seed) => {
+      const [a, b] = zeros(length).offspring([ones(length)], uniform({ alpha, random: new Xoshiro128(seed) }));
+
+      expect(a.hamming(b)).toBe(length);
+      expect(a.popcount() + b.popcount()).toBe(length);
+    }));
+  });
+
+  it("copies the first parent if alpha is equal to 1", () => {
+    const [a] = zeros(50).offspring([ones(50)], uniform({ alpha: 1 }));
+
+    expect(a.popcount()).toBe(0);
+  });
+
+  it("throws a TypeError if alpha is out of range", () => {
+    expect(() => uniform({ alpha: 1.5 })).toThrow(TypeError);
+  });
+});
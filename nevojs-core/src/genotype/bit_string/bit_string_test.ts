@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { BitString, bitStringData, bitValues, rangeMask } from "./bit_string";
+import { Xoshiro128 } from "../../random";
+import { range } from "../../util";
+
+const bits = fc.array(fc.boolean(), 1, 200).map((arr) => arr.map(Number).join(""));
+
+describe("BitString", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the data is malformed", () => {
+      expect(() => new BitString({ length: 0, words: new Uint32Array(0) })).toThrow(TypeError);
+      expect(() => new BitString({ length: 40, words: new Uint32Array(1) })).toThrow(TypeError);
+      expect(() => new BitString({ length: 4, words: [1] as any })).toThrow(TypeError);
+    });
+
+    it("clears the bits past the length", () => {
+      const bitString = new BitString({ length: 4, words: new Uint32Array([0xffffffff]) });
+
+      expect(bitString.data().words[0]).toBe(0b1111);
+      expect(bitString.popcount()).toBe(4);
+    });
+
+    it("does not share the words with the given data", () => {
+      const words = new Uint32Array([0b101]);
+      const bitString = new BitString({ length: 3, words });
+      words[0] = 0;
+
+      expect(bitString.toString()).toBe("101");
+    });
+  });
+
+  describe("generate", () => {
+    it("sets the bits for which the callback returns a truthy value", () => {
+      const bitString = BitString.generate(70, (i) => i % 3 === 0);
+
+      for (let i = 0; i < 70; i++) {
+        expect(bitString.get(i)).toBe(i % 3 === 0);
+      }
+    });
+
+    it("throws a TypeError if the length is not a positive integer", () => {
+      expect(() => BitString.generate(0, () => true)).toThrow(TypeError);
+      expect(() => BitString.generate(1.5, () => true)).toThrow(TypeError);
+    });
+  });
+
+  describe("random", () => {
+    it("returns the same bits for the same seed", () => {
+      const a = BitString.random(100, { random: new Xoshiro128(5) });
+      const b = BitString.random(100, { random: new Xoshiro128(5) });
+
+      expect(a.toString()).toBe(b.toString());
+    });
+
+    it("respects the probability of setting a bit", () => {
+      expect(BitString.random(50, { probability: 0 }).popcount()).toBe(0);
+      expect(BitString.random(50, { probability: 1 }).popcount()).toBe(50);
+    });
+
+    it("throws a TypeError if the probability is out of range", () => {
+      expect(() => BitString.random(10, { probability: 1.5 })).toThrow(TypeError);
+    });
+  });
+
+  describe("fromString", () => {
+    it("reads the bits in order", () => {
+      fc.assert(fc.property(bits, (str) => {
+        expect(BitString.fromString(str).toString()).toBe(str);
+      }));
+    });
+
+    it("throws a TypeError if the string contains other characters", () => {
+      expect(() => BitString.fromString("0120")).toThrow(TypeError);
+      expect(() => BitString.fromString("")).toThrow(TypeError);
+    });
+  });
+
+  describe("get", () => {
+    it("throws a RangeError if the index is out of bounds", () => {
+      const bitString = BitString.fromString("0101");
+
+      expect(() => bitString.get(4)).toThrow(RangeError);
+      expect(() => bitString.get(-1)).toThrow(RangeError);
+    });
+  });
+
+  describe("popcount", () => {
+    it("counts the set bits", () => {
+      fc.assert(fc.property(bits, (str) => {
+        const expected = str.split("").filter((bit) => bit === "1").length;
+
+        expect(BitString.fromString(str).popcount()).toBe(expected);
+      }));
+    });
+  });
+
+  describe("hamming", () => {
+    it("counts the differing bits", () => {
+      const a = BitString.fromString("1100110011");
+      const b = BitString.fromString("1010101010");
+
+      expect(a.hamming(b)).toBe(5);
+      expect(a.hamming(a)).toBe(0);
+    });
+
+    it("throws a TypeError if the lengths differ", () => {
+      expect(() => BitString.fromString("10").hamming(BitString.fromString("101"))).toThrow(TypeError);
+    });
+  });
+
+  describe("mutate", () => {
+    it("throws a TypeError if the method changes the length", () => {
+      const bitString = BitString.fromString("1010");
+
+      expect(() => bitString.mutate(() => ({ length: 40, words: new Uint32Array(2) }))).toThrow(TypeError);
+    });
+
+    it("clears the bits past the length after mutation", () => {
+      const bitString = BitString.fromString("1010");
+
+      bitString.mutate((data) => {
+        data.words[0] = 0xffffffff;
+        return data;
+      });
+
+      expect(bitString.toString()).toBe("1111");
+    });
+  });
+
+  describe("clone", () => {
+    it("returns an independent copy", () => {
+      const bitString = BitString.fromString("1010");
+      const clone = bitString.clone();
+
+      clone.mutate((data) => {
+        data.words[0] = 0;
+        return data;
+      });
+
+      expect(bitString.toString()).toBe("1010");
+      expect(clone.toString()).toBe("0000");
+    });
+  });
+
+  describe("deserialize", () => {
+    it("restores the serialized bit string", () => {
+      fc.assert(fc.property(bits, (str) => {
+        const serialized = BitString.fromString(str).__serialize();
+
+        expect(BitString.deserialize(serialized).toString()).toBe(str);
+      }));
+    });
+
+    it("throws a TypeError if the format is invalid", () => {
+      expect(() => BitString.deserialize("abc")).toThrow(TypeError);
+      expect(() => BitString.deserialize("0:")).toThrow(TypeError);
+    });
+  });
+});
+
+describe("rangeMask", () => {
+  it("sets the bits of the range", () => {
+    const words = new Uint32Array(3);
+    rangeMask(words, 30, 66);
+
+    expect(bitValues({ length: 96, words }).map((bit, i) => bit === 1 ? i : -1).filter((i) => i !== -1)).toEqual(range(30, 65));
+  });
+
+  it("sets no bits for an empty range", () => {
+    [0, 5, 31, 32, 40].forEach((start) => {
+      const words = new Uint32Array(2);
+      rangeMask(words, start, start);
+
+      expect(Array.from(words)).toEqual([0, 0]);
+    });
+  });
+});
+
+describe("bitValues", () => {
+  it("unpacks the bits into zeros and ones", () => {
+    expect(bitValues(BitString.fromString("1011").data())).toEqual([1, 0, 1, 1]);
+  });
+
+  it("is reversed by bitStringData", () => {
+    fc.assert(fc.property(fc.array(fc.integer(0, 1), 1, 100), (values) => {
+      const data = bitStringData(values);
+
+      expect(bitValues(data)).toEqual(values);
+      expect(() => new BitString(data)).not.toThrow();
+    }));
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, getRandom } from "../../random";
+import { AbstractGenotype } from "../abstract_genotype";
+import { CgpLayout } from "./cgp_layout";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+
+/**
+ *
+ */
+export type CgpProgram = (...inputs: any[]) => any[];
+
+/**
+ *
+ */
+export interface CgpRandomSettings {
+  random?: Random;
+}
+
+function cgpViolation(genes: any, layout: CgpLayout): string | undefined {
+  if (!Array.isArray(genes)) {
+    return "genes are not an array";
+  }
+
+  if (genes.length !== layout.length) {
+    return `expected ${layout.length} genes, got ${genes.length}`;
+  }
+
+  const gene = genes.findIndex((value, i) => !layout.allows(i, value));
+
+  return gene === -1
+    ? undefined
+    : `gene ${gene} has an invalid value ${genes[gene]}`;
+}
+
+/**
+ * Cartesian genetic program, a grid of nodes encoded as described in
+ * {@link CgpLayout}.
+ */
+export class Cgp extends AbstractGenotype<number[]> {
+  /**
+   *
+   * @param layout
+   * @param settings
+   */
+  public static random(layout: CgpLayout, settings: CgpRandomSettings = {}): Cgp {
+    if (!(layout instanceof CgpLayout)) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const genes = Array.from({ length: layout.length }, (_, i) => layout.randomGene(i, undefined, random));
+
+    return new Cgp(genes, layout);
+  }
+
+  /**
+   *
+   * @param serialized
+   * @param layout
+   */
+  public static deserialize(serialized: number[], layout: CgpLayout): Cgp {
+    return new Cgp(serialized, layout);
+  }
+
+  /**
+   *
+   */
+  public readonly layout: CgpLayout;
+
+  /**
+   *
+   * @param data
+   * @param layout
+   */
+  public constructor(data: number[], layout: CgpLayout) {
+    if (!(layout instanceof CgpLayout)) {
+      throw new TypeError();
+    }
+
+    const violation = cgpViolation(data, layout);
+
+    if (violation !== undefined) {
+      throw new TypeError(`invalid genotype: ${violation}`);
+    }
+
+    super(data.slice());
+    this.layout = layout;
+  }
+
+  /**
+   *
+   */
+  public data(): number[] {
+    return this._data.slice();
+  }
+
+  /**
+   * Returns the indices of the nodes contributing to the outputs.
+   */
+  public active(): number[] {
+    return this.layout.active(this._data);
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<number[]>): void {
+    const data = method(this.data());
+    const violation = cgpViolation(data, this.layout);
+
+    if (violation !== undefined) {
+      throw new TypeError(`mutation method produced an invalid genotype: ${violation}`);
+    }
+
+    this._data = data.slice();
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: number[]) => number[]): Cgp {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new Cgp(data, this.layout);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: Cgp[], method: CrossoverMethod<number[]>): Cgp[] {
+    return super.makeOffspring(partners, method, (data) => new Cgp(data, this.layout));
+  }
+
+  /**
+   * Returns a function which evaluates the active nodes for the given inputs
+   * and returns the values of the outputs.
+   */
+  public compile(): CgpProgram {
+    const { inputs, nodeGenes, functions } = this.layout;
+    const genes = this.data();
+    const active = this.active();
+    const outputs = genes.slice(this.layout.nodes * nodeGenes);
+
+    return (...args) => {
+      if (args.length !== inputs) {
+        throw new TypeError();
+      }
+
+      const values = args.slice();
+
+      for (const node of active) {
+        const offset = node * nodeGenes;
+        const { arity, func } = functions[genes[offset]];
+
+        values[inputs + node] = func(...genes.slice(offset + 1, offset + 1 + arity).map((address) => values[address]));
+      }
+
+      return outputs.map((address) => values[address]);
+    };
+  }
+
+  /**
+   *
+   */
+  public __serialize(): number[] {
+    return this.data();
+  }
+}
+
+/**
+ * Phenotype function compiling the Cartesian genetic program.
+ *
+ * @param genotype
+ * @category creation
+ */
+export function compileCgp(genotype: Cgp): CgpProgram {
+  return genotype.compile();
+}
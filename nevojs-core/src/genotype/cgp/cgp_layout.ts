@@ -0,0 +1,244 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, getRandom } from "../../random";
+import { isPositiveInt } from "../../util";
+
+/**
+ *
+ */
+export interface CgpFunction {
+  name: string;
+  arity: number;
+  func: (...args: any[]) => any;
+}
+
+/**
+ * The grid has `rows` × `columns` nodes. Nodes can be connected to the
+ * program inputs and to the nodes of up to `levelsBack` preceding columns
+ * (all of them by default).
+ */
+export interface CgpLayoutSettings {
+  inputs: number;
+  outputs: number;
+  columns: number;
+  rows?: number;
+  levelsBack?: number;
+  functions: CgpFunction[];
+}
+
+/**
+ * Describes the grid of a Cartesian genetic program. Genes are integers: every
+ * node is encoded by the index of its function followed by the addresses of
+ * its inputs (as many as the highest arity, surplus connections are
+ * inactive), and the genotype ends with the addresses of the outputs.
+ * Addresses below `inputs` refer to the program inputs, the following ones to
+ * the nodes in column-major order.
+ */
+export class CgpLayout {
+  /**
+   *
+   */
+  public readonly inputs: number;
+
+  /**
+   *
+   */
+  public readonly outputs: number;
+
+  /**
+   *
+   */
+  public readonly columns: number;
+
+  /**
+   *
+   */
+  public readonly rows: number;
+
+  /**
+   *
+   */
+  public readonly levelsBack: number;
+
+  /**
+   *
+   */
+  public readonly functions: CgpFunction[];
+
+  /**
+   * Amount of genes encoding every node.
+   */
+  public readonly nodeGenes: number;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: CgpLayoutSettings) {
+    const { inputs, outputs, columns, functions } = settings;
+    const rows = settings.rows ?? 1;
+    const levelsBack = settings.levelsBack ?? columns;
+
+    if (![inputs, outputs, columns, rows, levelsBack].every(isPositiveInt)) {
+      throw new TypeError();
+    }
+
+    if (!Array.isArray(functions) || functions.length === 0) {
+      throw new TypeError();
+    }
+
+    if (functions.some((func) => typeof func.func !== "function" || !isPositiveInt(func.arity))) {
+      throw new TypeError();
+    }
+
+    this.inputs = inputs;
+    this.outputs = outputs;
+    this.columns = columns;
+    this.rows = rows;
+    this.levelsBack = Math.min(levelsBack, columns);
+    this.functions = functions.slice();
+    this.nodeGenes = 1 + Math.max(...functions.map((func) => func.arity));
+  }
+
+  /**
+   *
+   */
+  public get nodes(): number {
+    return this.rows * this.columns;
+  }
+
+  /**
+   *
+   */
+  public get length(): number {
+    return this.nodes * this.nodeGenes + this.outputs;
+  }
+
+  /**
+   * Returns whether the gene can have the value.
+   *
+   * @param gene
+   * @param value
+   */
+  public allows(gene: number, value: number): boolean {
+    if (!Number.isInteger(value) || 0 > value) {
+      return false;
+    }
+
+    if (gene >= this.nodes * this.nodeGenes) {
+      return this.inputs + this.nodes > value;
+    }
+
+    if (gene % this.nodeGenes === 0) {
+      return this.functions.length > value;
+    }
+
+    const column = Math.floor(Math.floor(gene / this.nodeGenes) / this.rows);
+    const first = this.inputs + Math.max(0, column - this.levelsBack) * this.rows;
+
+    return this.inputs > value || (value >= first && this.inputs + column * this.rows > value);
+  }
+
+  /**
+   * Returns a random value allowed for the gene, different from the current
+   * one whenever possible.
+   *
+   * @param gene
+   * @param current
+   * @param random
+   */
+  public randomGene(gene: number, current?: number, random: Random = getRandom()): number {
+    const values = this.$values(gene);
+    const index = current === undefined ? -1 : values.indexOf(current);
+
+    if (index === -1 || values.length === 1) {
+      return values[Math.floor(random.next() * values.length)];
+    }
+
+    const other = Math.floor(random.next() * (values.length - 1));
+    return values[other >= index ? other + 1 : other];
+  }
+
+  /**
+   * Returns the indices of the nodes contributing to the outputs, in
+   * ascending order.
+   *
+   * @param genes
+   */
+  public active(genes: number[]): number[] {
+    const active = new Set<number>();
+    const stack = genes.slice(this.nodes * this.nodeGenes);
+
+    while (stack.length > 0) {
+      const node = (stack.pop() as number) - this.inputs;
+
+      if (node >= 0 && !active.has(node)) {
+        active.add(node);
+
+        const offset = node * this.nodeGenes;
+        const arity = this.functions[genes[offset]].arity;
+
+        stack.push(...genes.slice(offset + 1, offset + 1 + arity));
+      }
+    }
+
+    return Array.from(active).sort((a, b) => a - b);
+  }
+
+  /**
+   * Returns whether the gene influences the outputs.
+   *
+   * @param genes
+   * @param gene
+   * @param active
+   */
+  public isActiveGene(genes: number[], gene: number, active: number[] = this.active(genes)): boolean {
+    if (gene >= this.nodes * this.nodeGenes) {
+      return true;
+    }
+
+    const node = Math.floor(gene / this.nodeGenes);
+    const position = gene % this.nodeGenes;
+
+    return active.includes(node) && this.functions[genes[node * this.nodeGenes]].arity >= position;
+  }
+
+  /**
+   *
+   * @param gene
+   */
+  private $values(gene: number): number[] {
+    if (gene >= this.nodes * this.nodeGenes) {
+      return Array.from({ length: this.inputs + this.nodes }, (_, i) => i);
+    }
+
+    if (gene % this.nodeGenes === 0) {
+      return this.functions.map((_, i) => i);
+    }
+
+    const column = Math.floor(Math.floor(gene / this.nodeGenes) / this.rows);
+    const first = this.inputs + Math.max(0, column - this.levelsBack) * this.rows;
+    const values = Array.from({ length: this.inputs }, (_, i) => i);
+
+    for (let value = first; value < this.inputs + column * this.rows; value++) {
+      values.push(value);
+    }
+
+    return values;
+  }
+}
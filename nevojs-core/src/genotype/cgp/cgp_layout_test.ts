@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { CgpLayout } from "./cgp_layout";
+import { Xoshiro128 } from "../../random";
+
+const functions = [
+  { name: "add", arity: 2, func: (a: number, b: number) => a + b },
+  { name: "neg", arity: 1, func: (a: number) => -a },
+];
+
+const layout = new CgpLayout({ inputs: 2, outputs: 1, columns: 3, levelsBack: 1, functions });
+
+describe("CgpLayout", () => {
+  describe("constructor", () => {
+    it("computes the size of the genotype", () => {
+      expect(layout.nodeGenes).toBe(3);
+      expect(layout.nodes).toBe(3);
+      expect(layout.length).toBe(10);
+    });
+
+    it("throws a TypeError if the layout is invalid", () => {
+      expect(() => new CgpLayout({ inputs: 0, outputs: 1, columns: 3, functions })).toThrow(TypeError);
+      expect(() => new CgpLayout({ inputs: 1, outputs: 1, columns: 3, functions: [] })).toThrow(TypeError);
+    });
+  });
+
+  describe("allows", () => {
+    it("restricts the connections to the preceding columns within the levels back", () => {
+      expect(layout.allows(7, 1)).toBe(true);
+      expect(layout.allows(7, 3)).toBe(true);
+      expect(layout.allows(7, 2)).toBe(false);
+      expect(layout.allows(7, 4)).toBe(false);
+    });
+
+    it("restricts the function genes to the function indices", () => {
+      expect(layout.allows(3, 1)).toBe(true);
+      expect(layout.allows(3, 2)).toBe(false);
+    });
+
+    it("allows the outputs to connect to any node", () => {
+      expect(layout.allows(9, 4)).toBe(true);
+      expect(layout.allows(9, 5)).toBe(false);
+    });
+  });
+
+  describe("randomGene", () => {
+    it("returns allowed values different from the current one", () => {
+      fc.assert(fc.property(fc.integer(0, 9), fc.integer(), (gene, seed) => {
+        const random = new Xoshiro128(seed);
+        const current = layout.randomGene(gene, undefined, random);
+        const value = layout.randomGene(gene, current, random);
+
+        expect(layout.allows(gene, value)).toBe(true);
+        expect(value).not.toBe(current);
+      }));
+    });
+  });
+
+  describe("active", () => {
+    it("returns the nodes contributing to the outputs", () => {
+      const genes = [0, 0, 1, 1, 2, 0, 0, 3, 1, 3];
+
+      expect(layout.active(genes)).toEqual([0, 1]);
+      expect(layout.isActiveGene(genes, 4)).toBe(true);
+      expect(layout.isActiveGene(genes, 5)).toBe(false);
+      expect(layout.isActiveGene(genes, 6)).toBe(false);
+      expect(layout.isActiveGene(genes, 9)).toBe(true);
+    });
+  });
+});
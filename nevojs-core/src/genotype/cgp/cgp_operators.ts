@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { RandomSettings, getRandom } from "../../random";
+import { Scheduled, isScheduled, resolveSchedule } from "../../operators/schedule";
+import { CgpLayout } from "./cgp_layout";
+import { MutationMethod } from "../../operators/mutation";
+
+/**
+ *
+ */
+export interface CgpPointMutationSettings extends RandomSettings {
+  rate?: Scheduled;
+}
+
+/**
+ * Changes every gene with the given probability to another value allowed by
+ * the layout.
+ *
+ * @param layout
+ * @param settings
+ * @category cgp
+ */
+export function pointMutation(layout: CgpLayout, settings: CgpPointMutationSettings = {}): MutationMethod<number[]> {
+  const rate = settings.rate ?? 0.05;
+
+  if (!(layout instanceof CgpLayout)) {
+    throw new TypeError();
+  }
+
+  if (!isScheduled(rate) || (typeof rate === "number" && (isNaN(rate) || 0 > rate || rate > 1))) {
+    throw new TypeError();
+  }
+
+  return (genes, context) => {
+    const random = settings.random ?? getRandom();
+    const current = resolveSchedule(rate, context);
+
+    if (isNaN(current) || 0 > current || current > 1) {
+      throw new TypeError(`scheduled mutation rate ${current} is not in the [0, 1] range`);
+    }
+
+    for (let i = 0; i < genes.length; i++) {
+      if (current > random.next()) {
+        genes[i] = layout.randomGene(i, genes[i], random);
+      }
+    }
+
+    return genes;
+  };
+}
+
+/**
+ * Single active-gene mutation by Goldman and Punch: changes random genes
+ * until one of them is active, so that every mutation changes the program.
+ *
+ * @param layout
+ * @param settings
+ * @category cgp
+ */
+export function activeMutation(layout: CgpLayout, settings: RandomSettings = {}): MutationMethod<number[]> {
+  if (!(layout instanceof CgpLayout)) {
+    throw new TypeError();
+  }
+
+  return (genes) => {
+    const random = settings.random ?? getRandom();
+    const active = layout.active(genes);
+    let gene: number;
+
+    do {
+      gene = Math.floor(random.next() * genes.length);
+      genes[gene] = layout.randomGene(gene, genes[gene], random);
+    } while (!layout.isActiveGene(genes, gene, active));
+
+    return genes;
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { activeMutation, pointMutation } from "./cgp_operators";
+import { Cgp } from "./cgp";
+import { CgpLayout } from "./cgp_layout";
+import { Xoshiro128 } from "../../random";
+import { linear } from "../../operators/schedule";
+
+const layout = new CgpLayout({
+  inputs: 3,
+  outputs: 2,
+  columns: 10,
+  rows: 2,
+  levelsBack: 3,
+  functions: [
+    { name: "and", arity: 2, func: (a: boolean, b: boolean) => a && b },
+    { name: "or", arity: 2, func: (a: boolean, b: boolean) => a || b },
+    { name: "not", arity: 1, func: (a: boolean) => !a },
+  ],
+});
+
+const genotypes = fc.integer().map((seed) => Cgp.random(layout, { random: new Xoshiro128(seed) }));
+
+describe("pointMutation", () => {
+  it("respects the connection constraints", () => {
+    fc.assert(fc.property(genotypes, fc.integer(), (genotype, seed) => {
+      expect(() => genotype.mutate(pointMutation(layout, { rate: 0.5, random: new Xoshiro128(seed) }))).not.toThrow();
+    }));
+  });
+
+  it("changes every gene if the rate is 1", () => {
+    fc.assert(fc.property(genotypes, (genotype) => {
+      const before = genotype.data();
+      genotype.mutate(pointMutation(layout, { rate: 1 }));
+
+      const changed = genotype.data().filter((gene, i) => gene !== before[i]).length;
+      expect(changed).toBeGreaterThan(0);
+    }));
+  });
+
+  it("throws a TypeError if the rate is out of range", () => {
+    expect(() => pointMutation(layout, { rate: 2 })).toThrow(TypeError);
+  });
+
+  it("resolves a scheduled rate against the context", () => {
+    fc.assert(fc.property(genotypes, (genotype) => {
+      const method = pointMutation(layout, { rate: linear(0, 1, 10) });
+      const before = genotype.data();
+
+      genotype.mutate((genes) => method(genes, { generation: 0 } as any));
+      expect(genotype.data()).toEqual(before);
+
+      genotype.mutate((genes) => method(genes, { generation: 10 } as any));
+      expect(genotype.data()).not.toEqual(before);
+    }));
+  });
+
+  it("throws a TypeError if the scheduled rate leaves the [0, 1] range", () => {
+    const method = pointMutation(layout, { rate: linear(1, 2, 10) });
+
+    expect(() => method([0], { generation: 5 } as any)).toThrow(TypeError);
+  });
+});
+
+describe("activeMutation", () => {
+  it("changes exactly one active gene", () => {
+    fc.assert(fc.property(genotypes, fc.integer(), (genotype, seed) => {
+      const before = genotype.data();
+      const active = layout.active(before);
+
+      genotype.mutate(activeMutation(layout, { random: new Xoshiro128(seed) }));
+
+      const changed = genotype.data()
+        .map((gene, i) => gene !== before[i] ? i : -1)
+        .filter((i) => i !== -1);
+
+      expect(changed.filter((i) => layout.isActiveGene(before, i, active)).length).toBe(1);
+    }));
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Cgp, compileCgp } from "./cgp";
+import { blueprint, individual } from "../../creation";
+import { CgpLayout } from "./cgp_layout";
+import { Individual } from "../../individual/individual";
+import { Xoshiro128 } from "../../random";
+
+const layout = new CgpLayout({
+  inputs: 2,
+  outputs: 1,
+  columns: 3,
+  levelsBack: 1,
+  functions: [
+    { name: "add", arity: 2, func: (a: number, b: number) => a + b },
+    { name: "neg", arity: 1, func: (a: number) => -a },
+  ],
+});
+
+const genes = [0, 0, 1, 1, 2, 0, 0, 3, 1, 3];
+
+describe("Cgp", () => {
+  describe("random", () => {
+    it("creates genotypes satisfying the connection constraints", () => {
+      for (let seed = 0; seed < 20; seed++) {
+        expect(() => Cgp.random(layout, { random: new Xoshiro128(seed) })).not.toThrow();
+      }
+    });
+
+    it("is reproducible within a seeded blueprint", () => {
+      const create = () => blueprint({ genotype: () => Cgp.random(layout), random: new Xoshiro128(1) }).create(3);
+
+      expect(create().map((member) => member.genotype.data())).toEqual(create().map((member) => member.genotype.data()));
+    });
+  });
+
+  describe("constructor", () => {
+    it("throws a TypeError if a connection violates the levels back", () => {
+      const data = genes.slice();
+      data[7] = 2;
+
+      expect(() => new Cgp(data, layout)).toThrow("gene 7 has an invalid value 2");
+    });
+
+    it("throws a TypeError if the amount of genes is wrong", () => {
+      expect(() => new Cgp(genes.slice(1), layout)).toThrow(TypeError);
+    });
+  });
+
+  describe("mutate", () => {
+    it("throws a TypeError if the mutation method produced an invalid genotype", () => {
+      const genotype = new Cgp(genes, layout);
+
+      expect(() => genotype.mutate((data) => data.map(() => 5))).toThrow(TypeError);
+      expect(genotype.data()).toEqual(genes);
+    });
+  });
+
+  describe("compile", () => {
+    it("evaluates the active nodes", () => {
+      const program = new Cgp(genes, layout).compile();
+
+      expect(program(1, 2)).toEqual([-3]);
+      expect(compileCgp(new Cgp(genes, layout))(5, 5)).toEqual([-10]);
+    });
+
+    it("throws a TypeError if the amount of inputs is wrong", () => {
+      expect(() => new Cgp(genes, layout).compile()(1)).toThrow(TypeError);
+    });
+  });
+
+  describe("__serialize", () => {
+    it("can be restored", () => {
+      const original = individual({ genotype: new Cgp(genes, layout), phenotype: compileCgp });
+      const restored = Individual.fromJSON(original.toJSON(), {
+        genotype: (data: number[]) => Cgp.deserialize(data, layout),
+        phenotype: compileCgp,
+      });
+
+      expect(restored.genotype.data()).toEqual(genes);
+      expect(restored.phenotype(1, 2)).toEqual([-3]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AnyGenotype, Genotype } from "../../individual/data";
+import { $Data } from "../../util_types";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+/**
+ *
+ */
+export type Chromosomes = Record<string, AnyGenotype>;
+
+/**
+ *
+ */
+export type CompositeData<C extends Chromosomes> = { [K in keyof C]: $Data<C[K]> };
+
+/**
+ *
+ */
+export type CompositeDeserializers<C extends Chromosomes> = { [K in keyof C]: (serialized: any) => C[K] };
+
+function isGenotype(value: any): value is AnyGenotype {
+  return value !== null
+    && typeof value === "object"
+    && ["mutate", "clone", "data", "offspring", "__serialize"].every((method) => typeof value[method] === "function");
+}
+
+function assertCompositeData(data: any, names: string[]): void {
+  if (data === null || typeof data !== "object" || names.some((name) => !(name in data))) {
+    throw new TypeError(`composite data must contain the chromosomes ${names.join(", ")}`);
+  }
+}
+
+/**
+ * Genotype made of several named chromosomes, which can be genotypes of any
+ * kind. Mutation and crossover methods operate on records of the data of the
+ * chromosomes, and the results are passed back to the chromosomes, so that
+ * each of them validates its own data.
+ */
+export class Composite<C extends Chromosomes> implements Genotype<CompositeData<C>> {
+  /**
+   * Restores the chromosomes with their own deserialization functions.
+   *
+   * @param serialized
+   * @param deserializers
+   */
+  public static deserialize<C extends Chromosomes>(
+    serialized: Record<string, unknown>,
+    deserializers: CompositeDeserializers<C>,
+  ): Composite<C> {
+    if (serialized === null || typeof serialized !== "object" || deserializers === null || typeof deserializers !== "object") {
+      throw new TypeError();
+    }
+
+    const chromosomes = {} as C;
+
+    for (const name of Object.keys(deserializers) as (keyof C)[]) {
+      if (typeof deserializers[name] !== "function" || !(name in serialized)) {
+        throw new TypeError();
+      }
+
+      chromosomes[name] = deserializers[name](serialized[name as string]);
+    }
+
+    return new Composite(chromosomes);
+  }
+
+  /**
+   *
+   */
+  private _chromosomes: C;
+
+  /**
+   *
+   * @param chromosomes
+   */
+  public constructor(chromosomes: C) {
+    if (chromosomes === null || typeof chromosomes !== "object") {
+      throw new TypeError();
+    }
+
+    const names = Object.keys(chromosomes);
+
+    if (names.length === 0 || names.some((name) => !isGenotype(chromosomes[name]))) {
+      throw new TypeError();
+    }
+
+    this._chromosomes = { ...chromosomes };
+  }
+
+  /**
+   *
+   */
+  public names(): (keyof C)[] {
+    return Object.keys(this._chromosomes);
+  }
+
+  /**
+   *
+   * @param name
+   */
+  public chromosome<K extends keyof C>(name: K): C[K] {
+    if (!Object.prototype.hasOwnProperty.call(this._chromosomes, name)) {
+      throw new RangeError();
+    }
+
+    return this._chromosomes[name];
+  }
+
+  /**
+   *
+   */
+  public data(): CompositeData<C> {
+    const data = {} as CompositeData<C>;
+
+    for (const name of this.names()) {
+      data[name] = this._chromosomes[name].data();
+    }
+
+    return data;
+  }
+
+  /**
+   * Every chromosome is mutated with a method returning its part of the
+   * mutated data. Chromosomes keep their own rules, e.g. a tree exceeding
+   * its limits is left intact. If any of them rejects its data, none of them
+   * is changed.
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<CompositeData<C>>): void {
+    if (typeof method !== "function") {
+      throw new TypeError();
+    }
+
+    const data = method(this.data());
+    assertCompositeData(data, this.names() as string[]);
+
+    const chromosomes = { ...this._chromosomes };
+
+    for (const name of this.names()) {
+      const chromosome = chromosomes[name].clone() as C[typeof name];
+
+      chromosome.mutate(() => data[name]);
+      chromosomes[name] = chromosome;
+    }
+
+    this._chromosomes = chromosomes;
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: CompositeData<C>) => CompositeData<C>): Composite<C> {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const chromosomes = {} as C;
+
+    for (const name of this.names()) {
+      chromosomes[name] = this._chromosomes[name].clone() as C[typeof name];
+    }
+
+    const clone = new Composite(chromosomes);
+
+    if (func !== undefined) {
+      clone.mutate(func);
+    }
+
+    return clone;
+  }
+
+  /**
+   * The data of the children is passed to the `offspring` methods of the
+   * chromosomes, so that e.g. invalid trees are replaced with their parents.
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: Composite<C>[], method: CrossoverMethod<CompositeData<C>>): Composite<C>[] {
+    if (!Array.isArray(partners) || partners.some((partner) => !(partner instanceof Composite))) {
+      throw new TypeError();
+    }
+
+    if (typeof method !== "function") {
+      throw new TypeError();
+    }
+
+    const names = this.names();
+    const children = method([this.data(), ...partners.map((partner) => partner.data())]);
+
+    if (!Array.isArray(children)) {
+      throw new TypeError();
+    }
+
+    children.forEach((child) => assertCompositeData(child, names as string[]));
+
+    const chromosomes = children.map(() => ({} as C));
+
+    for (const name of names) {
+      const offspring = this._chromosomes[name].offspring(
+        partners.map((partner) => partner.chromosome(name)),
+        () => children.map((child) => child[name]),
+      );
+
+      offspring.forEach((chromosome, i) => chromosomes[i][name] = chromosome as C[typeof name]);
+    }
+
+    return chromosomes.map((chromosome) => new Composite(chromosome));
+  }
+
+  /**
+   *
+   * @param amount
+   * @param partners
+   * @param method
+   */
+  public crossover(amount: number, partners: Composite<C>[], method: CrossoverMethod<CompositeData<C>>): Composite<C>[] {
+    if (!isPositiveInt(amount)) {
+      throw new TypeError();
+    }
+
+    const children: Composite<C>[] = [];
+
+    while (amount > children.length) {
+      children.push(...this.offspring(partners, method));
+    }
+
+    return children.slice(0, amount);
+  }
+
+  /**
+   * Serializes every chromosome with its own `__serialize` method.
+   */
+  public __serialize(): Record<string, unknown> {
+    const serialized: Record<string, unknown> = {};
+
+    for (const name of this.names() as string[]) {
+      serialized[name] = this._chromosomes[name].__serialize();
+    }
+
+    return serialized;
+  }
+}
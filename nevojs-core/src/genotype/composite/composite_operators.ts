@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { CrossoverContext, CrossoverMethod } from "../../operators/crossover";
+import { MutationContext, MutationMethod } from "../../operators/mutation";
+import { RandomSettings, getRandom } from "../../random";
+
+/**
+ *
+ */
+export type ChromosomeMutationMethods<D extends Record<string, any>> = { [K in keyof D]?: MutationMethod<D[K]> };
+
+/**
+ *
+ */
+export type ChromosomeCrossoverMethods<D extends Record<string, any>> = { [K in keyof D]?: CrossoverMethod<D[K]> };
+
+/**
+ * Mutation method accepting the data of any composite genotype containing
+ * the chromosomes `D`.
+ */
+export type CompositeMutationMethod<D> = <E extends D>(data: E, context?: MutationContext) => E;
+
+/**
+ * Crossover method accepting the data of any composite genotype containing
+ * the chromosomes `D`.
+ */
+export type CompositeCrossoverMethod<D> = <E extends D>(parents: E[], context?: CrossoverContext) => E[];
+
+function assertMethods(methods: Record<string, unknown>): void {
+  if (methods === null || typeof methods !== "object" || Object.values(methods).some((method) => typeof method !== "function")) {
+    throw new TypeError();
+  }
+}
+
+/**
+ * Mutates every chromosome with its own method. Chromosomes without a method
+ * are left intact.
+ *
+ * @param methods
+ * @category composite
+ */
+export function mutateChromosomes<D extends Record<string, any>>(methods: ChromosomeMutationMethods<D>): CompositeMutationMethod<D> {
+  assertMethods(methods);
+
+  const method = (data: D, context?: MutationContext) => {
+    for (const name of Object.keys(methods) as (keyof D)[]) {
+      data[name] = (methods[name] as MutationMethod<D[typeof name]>)(data[name], context);
+    }
+
+    return data;
+  };
+
+  return method as CompositeMutationMethod<D>;
+}
+
+/**
+ * Crosses every chromosome with its own method. The amount of children is
+ * the highest amount returned by the methods, and the chromosomes without a
+ * method (or whose method returned fewer children) are taken from the
+ * parents in turn.
+ *
+ * @param methods
+ * @category composite
+ */
+export function crossChromosomes<D extends Record<string, any>>(methods: ChromosomeCrossoverMethods<D>): CompositeCrossoverMethod<D> {
+  assertMethods(methods);
+
+  const method = (parents: D[], context?: CrossoverContext) => {
+    const offspring = new Map<keyof D, D[keyof D][]>();
+
+    for (const name of Object.keys(methods) as (keyof D)[]) {
+      const method = methods[name] as CrossoverMethod<D[typeof name]>;
+      offspring.set(name, method(parents.map((parent) => parent[name]), context));
+    }
+
+    const amount = Math.max(parents.length, ...Array.from(offspring.values()).map((children) => children.length));
+
+    return Array.from({ length: amount }, (_, i) => {
+      const child = { ...parents[i % parents.length] };
+
+      offspring.forEach((children, name) => {
+        if (children.length > i) {
+          child[name] = children[i];
+        }
+      });
+
+      return child;
+    });
+  };
+
+  return method as CompositeCrossoverMethod<D>;
+}
+
+/**
+ *
+ */
+export interface ChromosomeSwapSettings extends RandomSettings {
+  alpha?: number;
+}
+
+/**
+ * Uniform crossover at the level of whole chromosomes: every chromosome is
+ * exchanged between the parents with the probability of `alpha`.
+ *
+ * @param settings
+ * @category composite
+ */
+export function swapChromosomes<D extends Record<string, any>>(settings: ChromosomeSwapSettings = {}): CrossoverMethod<D> {
+  const alpha = settings.alpha ?? 0.5;
+
+  if (typeof alpha !== "number" || isNaN(alpha) || 0 > alpha || alpha > 1) {
+    throw new TypeError();
+  }
+
+  return (parents) => {
+    if (parents.length !== 2) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const childA = { ...parents[0] };
+    const childB = { ...parents[1] };
+
+    for (const name of Object.keys(childA) as (keyof D)[]) {
+      if (alpha > random.next()) {
+        childA[name] = parents[1][name];
+        childB[name] = parents[0][name];
+      }
+    }
+
+    return [childA, childB];
+  };
+}
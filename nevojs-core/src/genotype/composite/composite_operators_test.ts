@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { crossChromosomes, mutateChromosomes, swapChromosomes } from "./composite_operators";
+import { flip, point } from "../bit_string/bit_string_operators";
+import { insertion, map } from "../../operators/mutation";
+import { orderBased, uniform } from "../../operators/crossover";
+import { BitString } from "../bit_string/bit_string";
+import { Composite } from "./composite";
+import { List } from "../list";
+import { Permutation } from "../permutation";
+import { Xoshiro128 } from "../../random";
+import { linear } from "../../operators/schedule";
+
+function compositeFixture(seed: number) {
+  const random = new Xoshiro128(seed);
+
+  return new Composite({
+    jobs: Permutation.random(6, { random }),
+    mask: BitString.random(40, { random }),
+    weights: List.generate(3, () => random.next()),
+  });
+}
+
+const composites = fc.integer().map(compositeFixture);
+
+describe("mutateChromosomes", () => {
+  it("mutates every chromosome with its own method", () => {
+    fc.assert(fc.property(composites, (genotype) => {
+      const before = genotype.data();
+
+      genotype.mutate(mutateChromosomes({
+        jobs: insertion(),
+        mask: flip({ rate: 1 }),
+      }));
+
+      expect(genotype.chromosome("jobs").data().sort()).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(genotype.chromosome("mask").hamming(new BitString(before.mask))).toBe(40);
+      expect(genotype.chromosome("weights").data()).toEqual(before.weights);
+    }));
+  });
+
+  it("passes the context to the methods of the chromosomes", () => {
+    const method = mutateChromosomes({ genes: map((gene: number) => gene + 1, { rate: linear(0, 1, 10) }) });
+    const random = new Xoshiro128(1);
+
+    expect(method({ genes: [0, 0, 0] }, { generation: 0, random } as any)).toEqual({ genes: [0, 0, 0] });
+    expect(method({ genes: [0, 0, 0] }, { generation: 10, random } as any)).toEqual({ genes: [1, 1, 1] });
+  });
+
+  it("throws a TypeError if a method is not a function", () => {
+    expect(() => mutateChromosomes({ jobs: 1 as any })).toThrow(TypeError);
+  });
+});
+
+describe("crossChromosomes", () => {
+  it("crosses every chromosome with its own method", () => {
+    fc.assert(fc.property(composites, composites, (parentA, parentB) => {
+      const children = parentA.offspring([parentB], crossChromosomes({
+        jobs: orderBased(),
+        mask: point(),
+      }));
+
+      expect(children.length).toBe(2);
+      children.forEach((child, i) => {
+        expect(child.chromosome("jobs").data().sort()).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(child.chromosome("weights").data()).toEqual([parentA, parentB][i].chromosome("weights").data());
+      });
+    }));
+  });
+
+  it("returns as many children as the method returning the most", () => {
+    const children = crossChromosomes<{ a: number[]; b: number[] }>({
+      a: ([a, b]) => [a, b, a.concat(b)],
+    })([{ a: [1], b: [2] }, { a: [3], b: [4] }]);
+
+    expect(children).toEqual([
+      { a: [1], b: [2] },
+      { a: [3], b: [4] },
+      { a: [1, 3], b: [2] },
+    ]);
+  });
+});
+
+describe("crossChromosomes (context)", () => {
+  it("passes the context to the methods of the chromosomes", () => {
+    const method = crossChromosomes({ genes: uniform({ alpha: linear(1, 0, 10) }) });
+    const parents = [{ genes: [0, 0] }, { genes: [1, 1] }];
+    const random = new Xoshiro128(1);
+
+    expect(method(parents, { generation: 0, random } as any)).toEqual(parents);
+    expect(method(parents, { generation: 10, random } as any)).toEqual([{ genes: [1, 1] }, { genes: [0, 0] }]);
+  });
+});
+
+describe("swapChromosomes", () => {
+  it("exchanges whole chromosomes", () => {
+    fc.assert(fc.property(composites, composites, fc.integer(), (parentA, parentB, seed) => {
+      const children = parentA.offspring([parentB], swapChromosomes({ random: new Xoshiro128(seed) }));
+
+      for (const name of parentA.names()) {
+        const values = children.map((child) => child.chromosome(name).__serialize());
+        const parents = [parentA, parentB].map((parent) => parent.chromosome(name).__serialize());
+
+        expect([values, values.slice().reverse()]).toContainEqual(parents);
+      }
+    }));
+  });
+
+  it("returns copies of the parents if alpha is 0", () => {
+    const children = swapChromosomes({ alpha: 0 })([{ a: 1 }, { a: 2 }]);
+
+    expect(children).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it("throws a TypeError if alpha is out of range", () => {
+    expect(() => swapChromosomes({ alpha: 2 })).toThrow(TypeError);
+  });
+});
+
+describe("map", () => {
+  it("can be used for list chromosomes", () => {
+    const genotype = compositeFixture(1);
+
+    genotype.mutate(mutateChromosomes({ weights: map((weight: number) => weight * 2) }));
+
+    expect(genotype.chromosome("weights").data().every((weight) => 2 >= weight)).toBe(true);
+  });
+});
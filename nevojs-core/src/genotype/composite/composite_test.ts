@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { $Chromosomes, $Data } from "../../util_types";
+import { BitString, BitStringData } from "../bit_string/bit_string";
+import { RealVector, RealVectorData } from "../real_vector/real_vector";
+import { Composite } from "./composite";
+import { Individual } from "../../individual/individual";
+import { List } from "../list";
+import { Permutation } from "../permutation";
+import { Xoshiro128 } from "../../random";
+import { blueprint } from "../../creation";
+
+function compositeFixture(seed: number = 1) {
+  const random = new Xoshiro128(seed);
+
+  return new Composite({
+    jobs: Permutation.random(5, { random }),
+    speeds: RealVector.random(3, { lower: 0, upper: 1, random }),
+    mask: BitString.random(4, { random }),
+  });
+}
+
+describe("Composite", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if a chromosome is not a genotype", () => {
+      expect(() => new Composite({})).toThrow(TypeError);
+      expect(() => new Composite({ a: new List([1]), b: [1, 2] as any })).toThrow(TypeError);
+    });
+  });
+
+  describe("data", () => {
+    it("returns a precisely typed record of the data of the chromosomes", () => {
+      const genotype = compositeFixture();
+      const data: { jobs: number[]; speeds: RealVectorData; mask: BitStringData } = genotype.data();
+      const typed: $Data<typeof genotype> = data;
+      const chromosomes: $Chromosomes<Individual<typeof genotype, undefined>> = {
+        jobs: genotype.chromosome("jobs"),
+        speeds: genotype.chromosome("speeds"),
+        mask: genotype.chromosome("mask"),
+      };
+
+      expect(typed.jobs.slice().sort()).toEqual([0, 1, 2, 3, 4]);
+      expect(chromosomes.speeds.values().length).toBe(3);
+      expect(genotype.names()).toEqual(["jobs", "speeds", "mask"]);
+    });
+  });
+
+  describe("chromosome", () => {
+    it("throws a RangeError if the chromosome does not exist", () => {
+      expect(() => compositeFixture().chromosome("unknown" as any)).toThrow(RangeError);
+    });
+  });
+
+  describe("mutate", () => {
+    it("passes the mutated data to the chromosomes", () => {
+      const genotype = compositeFixture();
+
+      genotype.mutate((data) => ({ ...data, jobs: [4, 3, 2, 1, 0] }));
+
+      expect(genotype.chromosome("jobs").data()).toEqual([4, 3, 2, 1, 0]);
+    });
+
+    it("leaves every chromosome intact if any of them rejects its data", () => {
+      const genotype = compositeFixture();
+      const before = genotype.data();
+
+      expect(() => genotype.mutate((data) => ({ ...data, jobs: [4, 3, 2, 1, 0], speeds: { ...data.speeds, values: new Float64Array([2, 2, 2]) } }))).toThrow();
+      expect(genotype.data()).toEqual(before);
+    });
+
+    it("throws a TypeError if a chromosome is missing", () => {
+      expect(() => compositeFixture().mutate((data) => ({ jobs: data.jobs } as any))).toThrow(TypeError);
+    });
+  });
+
+  describe("clone", () => {
+    it("does not share the chromosomes", () => {
+      const genotype = compositeFixture();
+      const clone = genotype.clone();
+
+      clone.mutate((data) => ({ ...data, jobs: [0, 1, 2, 3, 4] }));
+
+      expect(clone.chromosome("jobs")).not.toBe(genotype.chromosome("jobs"));
+      expect(clone.chromosome("speeds").data()).toEqual(genotype.chromosome("speeds").data());
+    });
+  });
+
+  describe("offspring", () => {
+    it("passes the data of the children to the chromosomes", () => {
+      const parentA = compositeFixture(1);
+      const parentB = compositeFixture(2);
+
+      const children = parentA.offspring([parentB], ([a, b]) => [{ ...a, mask: b.mask }, { ...b, mask: a.mask }]);
+
+      expect(children.length).toBe(2);
+      expect(children[0].chromosome("mask").data()).toEqual(parentB.chromosome("mask").data());
+      expect(children[0].chromosome("jobs").data()).toEqual(parentA.chromosome("jobs").data());
+      expect(children[0].chromosome("mask")).toBeInstanceOf(BitString);
+    });
+  });
+
+  describe("__serialize", () => {
+    it("serializes every chromosome with its own serializer", () => {
+      const individual = new Individual({ genotype: compositeFixture() });
+      const restored = Individual.fromJSON(individual.toJSON(), {
+        genotype: (data) => Composite.deserialize(data, {
+          jobs: (jobs) => new Permutation(jobs),
+          speeds: RealVector.deserialize,
+          mask: BitString.deserialize,
+        }),
+      });
+
+      expect(restored.genotype.data()).toEqual(individual.genotype.data());
+      expect(typeof individual.genotype.__serialize().mask).toBe("string");
+    });
+
+    it("throws a TypeError if a chromosome is missing", () => {
+      expect(() => Composite.deserialize({}, { jobs: (jobs) => new Permutation(jobs) })).toThrow(TypeError);
+    });
+  });
+
+  describe("blueprint", () => {
+    it("creates composite individuals", () => {
+      const members = blueprint({ genotype: () => compositeFixture(Math.floor(Math.random() * 1000)) }).create(3);
+
+      expect(members.every((member) => member.genotype instanceof Composite)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractGenotype } from "../abstract_genotype";
+import { CrossoverMethod } from "../../operators/crossover";
+import { Dominance } from "./dominance";
+import { MutationMethod } from "../../operators/mutation";
+import { State } from "../../individual/state";
+
+/**
+ * Homologous chromosomes, which have the same length.
+ */
+export interface DiploidData<T> {
+  first: T[];
+  second: T[];
+}
+
+/**
+ *
+ */
+export type DiploidGenerateFunction<T> = (i: number, homolog: number) => T;
+
+function diploidViolation(data: any): string | undefined {
+  if (data === null || typeof data !== "object" || !Array.isArray(data.first) || !Array.isArray(data.second)) {
+    return "homologs are not arrays";
+  }
+
+  return data.first.length === data.second.length
+    ? undefined
+    : `homologs have different lengths ${data.first.length} and ${data.second.length}`;
+}
+
+/**
+ * Genotype made of two homologous chromosomes. The dominance resolves the
+ * expressed genotype, which is the one that should be used by phenotype
+ * functions.
+ */
+export class Diploid<T, E = T> extends AbstractGenotype<DiploidData<T>> {
+  /**
+   *
+   * @param length
+   * @param func
+   * @param dominance
+   */
+  public static generate<T, E = T>(length: number, func: DiploidGenerateFunction<T>, dominance: Dominance<T, E>): Diploid<T, E> {
+    if (!Number.isInteger(length) || 0 > length) {
+      throw new TypeError();
+    }
+
+    if (typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const first = Array.from({ length }, (_, i) => func(i, 0));
+    const second = Array.from({ length }, (_, i) => func(i, 1));
+
+    return new Diploid({ first, second }, dominance);
+  }
+
+  /**
+   *
+   * @param serialized
+   * @param dominance
+   */
+  public static deserialize<T, E = T>(serialized: DiploidData<T>, dominance: Dominance<T, E>): Diploid<T, E> {
+    return new Diploid(serialized, dominance);
+  }
+
+  /**
+   *
+   */
+  public readonly dominance: Dominance<T, E>;
+
+  /**
+   *
+   */
+  public get length(): number {
+    return this._data.first.length;
+  }
+
+  /**
+   *
+   * @param data
+   * @param dominance
+   */
+  public constructor(data: DiploidData<T>, dominance: Dominance<T, E>) {
+    if (typeof dominance !== "function") {
+      throw new TypeError();
+    }
+
+    const violation = diploidViolation(data);
+
+    if (violation !== undefined) {
+      throw new TypeError(`invalid diploid: ${violation}`);
+    }
+
+    super({ first: data.first.slice(), second: data.second.slice() });
+    this.dominance = dominance;
+  }
+
+  /**
+   *
+   */
+  public data(): DiploidData<T> {
+    return { first: this._data.first.slice(), second: this._data.second.slice() };
+  }
+
+  /**
+   * Resolves the expressed value of every locus.
+   */
+  public expressed(): E[] {
+    const { first, second } = this._data;
+    return first.map((allele, i) => this.dominance(allele, second[i], i));
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<DiploidData<T>>): void {
+    const data = method(this.data());
+    const violation = diploidViolation(data);
+
+    if (violation !== undefined) {
+      throw new TypeError(`mutation method produced an invalid diploid: ${violation}`);
+    }
+
+    this._data = { first: data.first.slice(), second: data.second.slice() };
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: DiploidData<T>) => DiploidData<T>): Diploid<T, E> {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new Diploid(data, this.dominance);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: Diploid<T, E>[], method: CrossoverMethod<DiploidData<T>>): Diploid<T, E>[] {
+    return super.makeOffspring(partners, method, (data) => new Diploid(data, this.dominance));
+  }
+
+  /**
+   *
+   */
+  public __serialize(): DiploidData<T> {
+    return this.data();
+  }
+}
+
+/**
+ * Phenotype function passing the expressed genotype to `func`.
+ *
+ * @param func
+ * @category creation
+ */
+export function expressed<E, P>(func: (expressed: E[], state: State<any>) => P): (genotype: Diploid<any, E>, state: State<any>) => P {
+  if (typeof func !== "function") {
+    throw new TypeError();
+  }
+
+  return (genotype, state) => func(genotype.expressed(), state);
+}
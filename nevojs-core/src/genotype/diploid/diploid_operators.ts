@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, RandomSettings, getRandom } from "../../random";
+import { choose, range } from "../../util";
+import { CrossoverMethod } from "../../operators/crossover";
+import { DiploidData } from "./diploid";
+import { MutationMethod } from "../../operators/mutation";
+
+/**
+ *
+ */
+export interface MeiosisSettings extends RandomSettings {
+  chiasmata?: number;
+}
+
+function gamete<T>({ first, second }: DiploidData<T>, chiasmata: number, random: Random): T[] {
+  if (2 > first.length) {
+    return (random.next() < 0.5 ? first : second).slice();
+  }
+
+  const points = choose(range(1, first.length - 1), chiasmata, random).sort((a, b) => a - b);
+  const homologs = random.next() < 0.5 ? [first, second] : [second, first];
+  const genes: T[] = [];
+
+  points.concat(first.length).forEach((point, i) => {
+    genes.push(...homologs[i % 2].slice(genes.length, point));
+  });
+
+  return genes;
+}
+
+/**
+ * Every parent produces a gamete by recombining its homologs at `chiasmata`
+ * random points, starting from a random one. The i-th child is fertilized by
+ * the gametes of the i-th and the next parent, so that two parents produce
+ * two children of independent gametes.
+ *
+ * @param settings
+ * @category crossover
+ */
+export function meiosis<T>(settings: MeiosisSettings = {}): CrossoverMethod<DiploidData<T>> {
+  const chiasmata = settings.chiasmata ?? 1;
+
+  if (!Number.isInteger(chiasmata) || 0 > chiasmata) {
+    throw new TypeError();
+  }
+
+  return (parents) => {
+    const random = settings.random ?? getRandom();
+
+    if (parents.some((parent) => parent.first.length !== parents[0].first.length)) {
+      throw new TypeError();
+    }
+
+    return parents.map((parent, i) => ({
+      first: gamete(parent, chiasmata, random),
+      second: gamete(parents[(i + 1) % parents.length], chiasmata, random),
+    }));
+  };
+}
+
+/**
+ * Mutates both homologs with the given method.
+ *
+ * @param method
+ * @category mutation
+ */
+export function homologs<T>(method: MutationMethod<T[]>): MutationMethod<DiploidData<T>> {
+  if (typeof method !== "function") {
+    throw new TypeError();
+  }
+
+  return ({ first, second }, context) => ({ first: method(first, context), second: method(second, context) });
+}
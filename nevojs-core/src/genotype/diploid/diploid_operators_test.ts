@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { homologs, meiosis } from "./diploid_operators";
+import { DiploidData } from "./diploid";
+import { Xoshiro128 } from "../../random";
+import { linear } from "../../operators/schedule";
+import { map } from "../../operators/mutation";
+import { range } from "../../util";
+
+function labeled(parent: number, length: number): DiploidData<string> {
+  return {
+    first: range(0, length - 1).map((i) => `${parent}a${i}`),
+    second: range(0, length - 1).map((i) => `${parent}b${i}`),
+  };
+}
+
+describe("meiosis", () => {
+  it("fertilizes the children with a gamete of each parent", () => {
+    fc.assert(fc.property(fc.integer(1, 20), fc.integer(0, 5), fc.integer(), (length, chiasmata, seed) => {
+      const children = meiosis<string>({ chiasmata, random: new Xoshiro128(seed) })([labeled(0, length), labeled(1, length)]);
+
+      expect(children.length).toBe(2);
+      children.forEach((child, i) => {
+        expect(child.first.every((gene, locus) => gene === `${i}a${locus}` || gene === `${i}b${locus}`)).toBe(true);
+        expect(child.second.every((gene, locus) => gene === `${1 - i}a${locus}` || gene === `${1 - i}b${locus}`)).toBe(true);
+      });
+    }));
+  });
+
+  it("recombines the homologs at the chiasmata", () => {
+    fc.assert(fc.property(fc.integer(2, 20), fc.integer(1, 5), fc.integer(), (length, chiasmata, seed) => {
+      const [child] = meiosis<string>({ chiasmata, random: new Xoshiro128(seed) })([labeled(0, length), labeled(1, length)]);
+      const switches = child.first.filter((gene, i) => i > 0 && gene[1] !== child.first[i - 1][1]).length;
+
+      expect(switches).toBe(Math.min(chiasmata, length - 1));
+    }));
+  });
+
+  it("copies a whole homolog without chiasmata", () => {
+    const [child] = meiosis<string>({ chiasmata: 0 })([labeled(0, 4), labeled(1, 4)]);
+
+    expect([labeled(0, 4).first, labeled(0, 4).second]).toContainEqual(child.first);
+  });
+
+  it("copies a homolog of parents shorter than 2 genes", () => {
+    [0, 1].forEach((length) => {
+      const children = meiosis<string>({ chiasmata: 3 })([labeled(0, length), labeled(1, length)]);
+
+      expect([labeled(0, length).first, labeled(0, length).second]).toContainEqual(children[0].first);
+      expect([labeled(0, length).first, labeled(0, length).second]).toContainEqual(children[1].second);
+      expect([labeled(1, length).first, labeled(1, length).second]).toContainEqual(children[0].second);
+    });
+  });
+
+  it("throws a TypeError if the parents have different lengths", () => {
+    expect(() => meiosis()([labeled(0, 2), labeled(1, 3)])).toThrow(TypeError);
+    expect(() => meiosis({ chiasmata: -1 })).toThrow(TypeError);
+  });
+});
+
+describe("homologs", () => {
+  it("mutates both homologs", () => {
+    const mutated = homologs((genes: number[]) => genes.map((gene) => gene + 1))({ first: [0, 1], second: [2, 3] });
+
+    expect(mutated).toEqual({ first: [1, 2], second: [3, 4] });
+  });
+
+  it("passes the context to the method", () => {
+    const method = homologs(map((gene: number) => gene + 1, { rate: linear(0, 1, 10) }));
+    const random = new Xoshiro128(1);
+
+    expect(method({ first: [0, 0], second: [0, 0] }, { generation: 0, random } as any)).toEqual({ first: [0, 0], second: [0, 0] });
+    expect(method({ first: [0, 0], second: [0, 0] }, { generation: 10, random } as any)).toEqual({ first: [1, 1], second: [1, 1] });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Diploid, expressed } from "./diploid";
+import { Xoshiro128, getRandom } from "../../random";
+import { additive, dominanceMap, evolvableDominance } from "./dominance";
+import { Individual } from "../../individual/individual";
+import { blueprint } from "../../creation";
+import { meiosis } from "./diploid_operators";
+
+const dominance = dominanceMap([1, 0]);
+
+describe("Diploid", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the homologs have different lengths", () => {
+      expect(() => new Diploid({ first: [0, 1], second: [1] }, dominance)).toThrow("homologs have different lengths 2 and 1");
+      expect(() => new Diploid({ first: [0] } as any, dominance)).toThrow(TypeError);
+    });
+
+    it("throws a TypeError if the dominance is not a function", () => {
+      expect(() => new Diploid({ first: [0], second: [1] }, null as any)).toThrow(TypeError);
+    });
+  });
+
+  describe("generate", () => {
+    it("generates both homologs", () => {
+      const genotype = Diploid.generate(3, (i, homolog) => i * 10 + homolog, additive());
+
+      expect(genotype.data()).toEqual({ first: [0, 10, 20], second: [1, 11, 21] });
+      expect(genotype.length).toBe(3);
+    });
+  });
+
+  describe("expressed", () => {
+    it("resolves every locus with the dominance", () => {
+      const genotype = new Diploid({ first: [0, 1, 0], second: [0, 0, 1] }, dominance);
+
+      expect(genotype.expressed()).toEqual([0, 1, 1]);
+    });
+
+    it("passes the expressed genotype to the phenotype function", () => {
+      const genotype = new Diploid(
+        { first: [{ value: 1, dominance: 0 }, { value: 2, dominance: 1 }], second: [{ value: 3, dominance: 1 }, { value: 4, dominance: 0 }] },
+        evolvableDominance<number>(),
+      );
+      const individual = new Individual({ genotype, phenotype: expressed((values: number[]) => values.join()) });
+
+      expect(individual.phenotype).toBe("3,2");
+    });
+  });
+
+  describe("mutate", () => {
+    it("throws a TypeError if the mutation method produced an invalid diploid", () => {
+      const genotype = new Diploid({ first: [0, 1], second: [1, 0] }, dominance);
+
+      expect(() => genotype.mutate(({ first }) => ({ first, second: [] }))).toThrow(TypeError);
+      expect(genotype.data()).toEqual({ first: [0, 1], second: [1, 0] });
+    });
+  });
+
+  describe("offspring", () => {
+    it("keeps the dominance of the parents", () => {
+      const random = new Xoshiro128(1);
+      const parentA = Diploid.generate(8, () => 0, dominance);
+      const parentB = Diploid.generate(8, () => 1, dominance);
+
+      const individual = new Individual({ genotype: parentA, phenotype: expressed((values: number[]) => values) });
+      const [child] = individual.offspring([new Individual({ genotype: parentB })], meiosis({ random }));
+
+      expect(child.genotype.dominance).toBe(dominance);
+      expect(child.phenotype).toEqual(Array(8).fill(1));
+    });
+  });
+
+  describe("__serialize", () => {
+    it("can be deserialized", () => {
+      const individual = new Individual({ genotype: new Diploid({ first: [0, 1], second: [1, 1] }, dominance) });
+      const restored = Individual.fromJSON(individual.toJSON(), {
+        genotype: (data) => Diploid.deserialize(data, dominance),
+      });
+
+      expect(restored.genotype.data()).toEqual(individual.genotype.data());
+      expect(restored.genotype.expressed()).toEqual([1, 1]);
+    });
+  });
+
+  describe("blueprint", () => {
+    it("is reproducible within a seeded blueprint", () => {
+      const create = () => blueprint({
+        genotype: () => Diploid.generate(5, () => Math.round(getRandom().next()), dominance),
+        random: new Xoshiro128(3),
+      }).create(3);
+
+      expect(create().map((member) => member.genotype.data())).toEqual(create().map((member) => member.genotype.data()));
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Resolves the expressed value of a locus from the alleles of the homologous
+ * chromosomes.
+ */
+export type Dominance<T, E = T> = (first: T, second: T, locus: number) => E;
+
+/**
+ * Allele carrying its own dominance value, which evolves with it.
+ */
+export interface DominantAllele<T> {
+  value: T;
+  dominance: number;
+}
+
+/**
+ * Fixed dominance map, the allele appearing earlier in `order` is expressed.
+ * The expressed allele can be mapped to a value, e.g. the triallelic scheme
+ * is `dominanceMap(["1", "0", "r"], (allele) => allele === "0" ? 0 : 1)`,
+ * where `"1"` and `"r"` are the dominant and the recessive one.
+ *
+ * @param order
+ * @param express
+ * @category dominance
+ */
+export function dominanceMap<T, E = T>(order: T[], express?: (allele: T) => E): Dominance<T, E> {
+  if (!Array.isArray(order) || order.length === 0) {
+    throw new TypeError();
+  }
+
+  if (express !== undefined && typeof express !== "function") {
+    throw new TypeError();
+  }
+
+  const ranks = new Map(order.map((allele, i) => [allele, i]));
+  const rank = (allele: T) => {
+    const value = ranks.get(allele);
+
+    if (value === undefined) {
+      throw new RangeError(`allele ${allele} is not in the dominance map`);
+    }
+
+    return value;
+  };
+
+  return (first, second) => {
+    const allele = rank(second) < rank(first) ? second : first;
+
+    return express === undefined
+      ? allele as unknown as E
+      : express(allele);
+  };
+}
+
+/**
+ * Expresses the allele with the higher dominance value, the one of the first
+ * chromosome in case of a tie.
+ *
+ * @category dominance
+ */
+export function evolvableDominance<T>(): Dominance<DominantAllele<T>, T> {
+  return (first, second) => second.dominance > first.dominance
+    ? second.value
+    : first.value;
+}
+
+/**
+ * Expresses the sum of the alleles, optionally mapped to a value, e.g.
+ * `additive((sum) => Number(sum >= 2))` for thresholded additive diploidy.
+ *
+ * @param express
+ * @category dominance
+ */
+export function additive<E = number>(express?: (sum: number) => E): Dominance<number, E> {
+  if (express !== undefined && typeof express !== "function") {
+    throw new TypeError();
+  }
+
+  return (first, second) => express === undefined
+    ? (first + second) as unknown as E
+    : express(first + second);
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { additive, dominanceMap, evolvableDominance } from "./dominance";
+
+describe("dominanceMap", () => {
+  it("expresses the allele appearing earlier in the order", () => {
+    const dominance = dominanceMap([1, 0]);
+
+    expect(dominance(0, 1, 0)).toBe(1);
+    expect(dominance(1, 0, 0)).toBe(1);
+    expect(dominance(0, 0, 0)).toBe(0);
+  });
+
+  it("supports the triallelic scheme", () => {
+    const dominance = dominanceMap(["1", "0", "r"], (allele) => allele === "0" ? 0 : 1);
+
+    expect(dominance("1", "0", 0)).toBe(1);
+    expect(dominance("r", "0", 0)).toBe(0);
+    expect(dominance("r", "r", 0)).toBe(1);
+  });
+
+  it("throws a RangeError if an allele is not in the map", () => {
+    expect(() => dominanceMap([0, 1])(0, 2, 0)).toThrow(RangeError);
+  });
+
+  it("throws a TypeError if the order is empty", () => {
+    expect(() => dominanceMap([])).toThrow(TypeError);
+  });
+});
+
+describe("evolvableDominance", () => {
+  it("expresses the allele with the higher dominance value", () => {
+    const dominance = evolvableDominance<string>();
+
+    expect(dominance({ value: "a", dominance: 0.2 }, { value: "b", dominance: 0.7 }, 0)).toBe("b");
+    expect(dominance({ value: "a", dominance: 0.5 }, { value: "b", dominance: 0.5 }, 0)).toBe("a");
+  });
+});
+
+describe("additive", () => {
+  it("expresses the sum of the alleles", () => {
+    expect(additive()(0.5, 1.5, 0)).toBe(2);
+    expect(additive((sum) => Number(sum >= 2))(1, 0, 0)).toBe(0);
+  });
+});
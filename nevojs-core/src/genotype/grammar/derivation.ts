@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Grammar } from "./grammar";
+import { List } from "../list";
+
+/**
+ *
+ */
+export interface DerivationSettings {
+  maxWraps?: number;
+}
+
+/**
+ * Codons `start` to `end` (exclusive) were read while deriving the subtree.
+ * The positions keep growing after wrapping, so the codon is found at the
+ * position modulo the length of the genotype.
+ */
+export interface DerivationNode {
+  symbol: string;
+  terminal: boolean;
+  children: DerivationNode[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Derivations are invalid if the codons (including the allowed wraps) run out
+ * before the derivation is complete. Invalid derivations have no program and
+ * a partial tree.
+ */
+export interface Derivation {
+  valid: boolean;
+  program?: string;
+  tree: DerivationNode;
+  used: number;
+  wraps: number;
+}
+
+/**
+ * Maps the codons to a program, expanding the leftmost nonterminal with the
+ * production chosen by the next codon modulo the amount of productions.
+ * Nonterminals with a single production consume no codons. After the last
+ * codon the reading starts over from the first one, up to `maxWraps` times.
+ *
+ * @param grammar
+ * @param codons
+ * @param settings
+ */
+export function derive(grammar: Grammar, codons: number[], settings: DerivationSettings = {}): Derivation {
+  const maxWraps = settings.maxWraps ?? 0;
+
+  if (!(grammar instanceof Grammar) || !Array.isArray(codons)) {
+    throw new TypeError();
+  }
+
+  if (codons.some((codon) => !Number.isInteger(codon) || 0 > codon)) {
+    throw new TypeError();
+  }
+
+  if (!Number.isInteger(maxWraps) || 0 > maxWraps) {
+    throw new TypeError();
+  }
+
+  const limit = codons.length * (maxWraps + 1);
+  let used = 0;
+  let valid = true;
+  let program = "";
+
+  const expand = (symbol: string): DerivationNode => {
+    const node: DerivationNode = { symbol, terminal: false, children: [], start: used, end: used };
+    const productions = grammar.productions(symbol);
+
+    if (productions.length > 1 && used >= limit) {
+      valid = false;
+      return node;
+    }
+
+    const production = productions.length > 1
+      ? productions[codons[used++ % codons.length] % productions.length]
+      : productions[0];
+
+    for (const { kind, value } of production) {
+      if (!valid) {
+        break;
+      }
+
+      if (kind === "terminal") {
+        program += value;
+        node.children.push({ symbol: value, terminal: true, children: [], start: used, end: used });
+      } else {
+        node.children.push(expand(value));
+      }
+    }
+
+    node.end = used;
+    return node;
+  };
+
+  const tree = expand(grammar.start);
+
+  return {
+    valid,
+    program: valid ? program : undefined,
+    tree,
+    used,
+    wraps: codons.length > 0 ? Math.max(0, Math.ceil(used / codons.length) - 1) : 0,
+  };
+}
+
+/**
+ * Phenotype function deriving the program of a codon list. Evaluation
+ * functions should check whether the derivation is `valid`.
+ *
+ * @param grammar
+ * @param settings
+ * @category creation
+ */
+export function grammatical(grammar: Grammar, settings: DerivationSettings = {}): (genotype: List<number>) => Derivation {
+  if (!(grammar instanceof Grammar)) {
+    throw new TypeError();
+  }
+
+  return (genotype) => derive(grammar, genotype.data(), settings);
+}
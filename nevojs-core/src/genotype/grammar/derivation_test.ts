@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { derive, grammatical } from "./derivation";
+import { Grammar } from "./grammar";
+import { Individual } from "../../individual/individual";
+import { List } from "../list";
+
+const grammar = Grammar.parse(`
+<expr> ::= <expr> <op> <expr> | <var>
+<op>   ::= "+" | "*"
+<var>  ::= x | y
+`);
+
+describe("derive", () => {
+  it("expands the leftmost nonterminal with the production chosen by the codon", () => {
+    const derivation = derive(grammar, [4, 1, 0, 3, 1, 1, 7]);
+
+    expect(derivation).toMatchObject({ valid: true, program: "x*y", used: 6, wraps: 0 });
+  });
+
+  it("does not consume codons for nonterminals with a single production", () => {
+    const single = Grammar.parse("<s> ::= <a> <a>\n<a> ::= a | b");
+
+    expect(derive(single, [1, 0])).toMatchObject({ program: "ba", used: 2 });
+  });
+
+  it("wraps the codons up to the given amount of times", () => {
+    expect(derive(grammar, [0, 1, 0, 1, 1]).valid).toBe(false);
+    expect(derive(grammar, [0, 1, 0, 1, 1], { maxWraps: 1 })).toMatchObject({ valid: true, program: "x*x", wraps: 1 });
+  });
+
+  it("reports invalid derivations without a program", () => {
+    const derivation = derive(grammar, []);
+
+    expect(derivation.valid).toBe(false);
+    expect(derivation.program).toBeUndefined();
+    expect(derivation.tree.symbol).toBe("expr");
+  });
+
+  it("records the codons read by every subtree", () => {
+    const { tree } = derive(grammar, [0, 1, 0, 1, 1, 1]);
+
+    expect(tree).toMatchObject({ start: 0, end: 6 });
+    expect(tree.children.map((child) => [child.symbol, child.start, child.end])).toEqual([
+      ["expr", 1, 3],
+      ["op", 3, 4],
+      ["expr", 4, 6],
+    ]);
+  });
+
+  it("throws a TypeError if a codon is not a non-negative integer", () => {
+    expect(() => derive(grammar, [0, -1])).toThrow(TypeError);
+    expect(() => derive(grammar, [0.5])).toThrow(TypeError);
+  });
+});
+
+describe("grammatical", () => {
+  it("derives the phenotype of the individual", () => {
+    const individual = new Individual({
+      genotype: new List([0, 1, 0, 1, 1, 1]),
+      phenotype: grammatical(grammar),
+    });
+
+    expect(individual.phenotype.program).toBe("x*y");
+  });
+});
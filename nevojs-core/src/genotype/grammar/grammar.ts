@@ -0,0 +1,302 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ *
+ */
+export interface GrammarSymbol {
+  kind: "terminal" | "nonterminal";
+  value: string;
+}
+
+/**
+ *
+ */
+export type Production = GrammarSymbol[];
+
+/**
+ *
+ */
+export type GrammarRules = Record<string, Production[]>;
+
+const RULE = /^\s*<([^<>\s]+)>\s*::=(.*)$/;
+
+function parseString(literal: string, line: number): string {
+  try {
+    return JSON.parse(literal);
+  } catch {
+    throw new TypeError(`invalid grammar: malformed string at line ${line}`);
+  }
+}
+
+function tokenize(body: string, line: number): Production[] {
+  const productions: Production[] = [];
+  let production: Production = [];
+  let i = 0;
+
+  const close = () => {
+    if (production.length === 0) {
+      throw new TypeError(`invalid grammar: empty production at line ${line}`);
+    }
+
+    productions.push(production);
+    production = [];
+  };
+
+  while (i < body.length) {
+    const char = body[i];
+
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (char === "|") {
+      close();
+      i += 1;
+    } else if (char === "<") {
+      const end = body.indexOf(">", i);
+
+      if (end === -1 || !/^[^<>\s]+$/.test(body.slice(i + 1, end))) {
+        throw new TypeError(`invalid grammar: malformed nonterminal at line ${line}`);
+      }
+
+      production.push({ kind: "nonterminal", value: body.slice(i + 1, end) });
+      i = end + 1;
+    } else if (char === "\"") {
+      const match = /^"(?:[^"\\]|\\.)*"/.exec(body.slice(i));
+
+      if (match === null) {
+        throw new TypeError(`invalid grammar: unterminated string at line ${line}`);
+      }
+
+      production.push({ kind: "terminal", value: parseString(match[0], line) });
+      i += match[0].length;
+    } else if (char === "'") {
+      const end = body.indexOf(char, i + 1);
+
+      if (end === -1) {
+        throw new TypeError(`invalid grammar: unterminated string at line ${line}`);
+      }
+
+      production.push({ kind: "terminal", value: body.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      const match = /^[^\s<|"']+/.exec(body.slice(i)) as RegExpExecArray;
+
+      production.push({ kind: "terminal", value: match[0] });
+      i += match[0].length;
+    }
+  }
+
+  close();
+  return productions;
+}
+
+/**
+ * Context-free grammar used by grammatical evolution to map codons into
+ * programs.
+ */
+export class Grammar {
+  /**
+   * Parses a grammar in the Backus-Naur form, with one rule per line:
+   *
+   * ```
+   * <expr> ::= <expr> <op> <expr> | "(" <expr> ")" | <var>
+   * <op>   ::= "+" | "-" | "*"
+   * <var>  ::= x | y
+   * ```
+   *
+   * Alternatives can continue on the following lines starting with `|`, and
+   * lines starting with `#` are ignored. Terminals are either quoted, so that
+   * they can contain whitespace, or bare words. Double-quoted terminals are
+   * JSON strings, so they can contain escaped quotes and backslashes, while
+   * single-quoted ones are taken as is. The symbols of a production are
+   * concatenated without separators. Unless specified, the start symbol is
+   * the one defined first.
+   *
+   * @param bnf
+   * @param start
+   */
+  public static parse(bnf: string, start?: string): Grammar {
+    if (typeof bnf !== "string") {
+      throw new TypeError();
+    }
+
+    const bodies: { name: string; body: string; line: number }[] = [];
+
+    bnf.split(/\r?\n/).forEach((text, i) => {
+      const line = i + 1;
+
+      if (/^\s*(#.*)?$/.test(text)) {
+        return;
+      }
+
+      const match = RULE.exec(text);
+
+      if (match !== null) {
+        bodies.push({ name: match[1], body: match[2], line });
+      } else if (bodies.length > 0 && /^\s*\|/.test(text)) {
+        bodies[bodies.length - 1].body += ` ${text}`;
+      } else {
+        throw new TypeError(`invalid grammar: expected a rule at line ${line}`);
+      }
+    });
+
+    const rules: GrammarRules = {};
+
+    for (const { name, body, line } of bodies) {
+      if (Object.prototype.hasOwnProperty.call(rules, name)) {
+        throw new TypeError(`invalid grammar: <${name}> is defined more than once`);
+      }
+
+      rules[name] = tokenize(body, line);
+    }
+
+    return new Grammar(rules, start ?? (bodies.length > 0 ? bodies[0].name : ""));
+  }
+
+  /**
+   *
+   */
+  public readonly start: string;
+
+  /**
+   *
+   */
+  private readonly _rules: Map<string, Production[]> = new Map();
+
+  /**
+   *
+   */
+  private readonly _minDepths: Map<string, number> = new Map();
+
+  /**
+   *
+   * @param rules
+   * @param start
+   */
+  public constructor(rules: GrammarRules, start: string) {
+    if (rules === null || typeof rules !== "object" || typeof start !== "string") {
+      throw new TypeError();
+    }
+
+    for (const name of Object.keys(rules)) {
+      if (!Array.isArray(rules[name]) || rules[name].length === 0) {
+        throw new TypeError(`invalid grammar: <${name}> has no productions`);
+      }
+
+      this._rules.set(name, rules[name].map((production) => production.map((symbol) => ({ ...symbol }))));
+    }
+
+    if (!this._rules.has(start)) {
+      throw new TypeError(`invalid grammar: the start symbol <${start}> is not defined`);
+    }
+
+    for (const productions of Array.from(this._rules.values())) {
+      for (const symbol of ([] as GrammarSymbol[]).concat(...productions)) {
+        if (symbol.kind === "nonterminal" && !this._rules.has(symbol.value)) {
+          throw new TypeError(`invalid grammar: <${symbol.value}> is not defined`);
+        }
+      }
+    }
+
+    this.$computeMinDepths();
+
+    for (const name of Array.from(this._rules.keys())) {
+      if (!this._minDepths.has(name)) {
+        throw new TypeError(`invalid grammar: <${name}> never derives a sentence`);
+      }
+    }
+
+    this.start = start;
+  }
+
+  /**
+   *
+   */
+  public nonterminals(): string[] {
+    return Array.from(this._rules.keys());
+  }
+
+  /**
+   *
+   * @param name
+   */
+  public productions(name: string): Production[] {
+    const productions = this._rules.get(name);
+
+    if (productions === undefined) {
+      throw new RangeError();
+    }
+
+    return productions.map((production) => production.map((symbol) => ({ ...symbol })));
+  }
+
+  /**
+   * Height of the smallest derivation tree of the nonterminal.
+   *
+   * @param name
+   */
+  public minDepth(name: string): number {
+    const depth = this._minDepths.get(name);
+
+    if (depth === undefined) {
+      throw new RangeError();
+    }
+
+    return depth;
+  }
+
+  /**
+   *
+   */
+  public toString(): string {
+    return Array.from(this._rules.entries())
+      .map(([name, productions]) => `<${name}> ::= ${productions.map((production) => production
+        .map((symbol) => symbol.kind === "nonterminal" ? `<${symbol.value}>` : JSON.stringify(symbol.value))
+        .join(" ")).join(" | ")}`)
+      .join("\n");
+  }
+
+  /**
+   *
+   */
+  private $computeMinDepths(): void {
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      for (const [name, productions] of Array.from(this._rules.entries())) {
+        for (const production of productions) {
+          const children = production
+            .filter((symbol) => symbol.kind === "nonterminal")
+            .map((symbol) => this._minDepths.get(symbol.value));
+
+          if (children.some((depth) => depth === undefined)) {
+            continue;
+          }
+
+          const depth = 1 + Math.max(0, ...children as number[]);
+
+          if (depth < (this._minDepths.get(name) ?? Infinity)) {
+            this._minDepths.set(name, depth);
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Derivation, DerivationNode, DerivationSettings, derive } from "./derivation";
+import { RandomSettings, getRandom } from "../../random";
+import { CrossoverMethod } from "../../operators/crossover";
+import { Grammar } from "./grammar";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+/**
+ *
+ */
+export interface GrammarOperatorSettings extends DerivationSettings, RandomSettings {}
+
+function effective(derivation: Derivation, codons: number[]): number {
+  return Math.min(derivation.used, codons.length);
+}
+
+function subtrees(node: DerivationNode, length: number, nodes: DerivationNode[] = []): DerivationNode[] {
+  if (!node.terminal && node.end > node.start && length >= node.end) {
+    nodes.push(node);
+  }
+
+  node.children.forEach((child) => subtrees(child, length, nodes));
+  return nodes;
+}
+
+function assertParents(grammar: Grammar, parents: number[][]): void {
+  if (!(grammar instanceof Grammar) || parents.length !== 2) {
+    throw new TypeError();
+  }
+}
+
+/**
+ * One-point crossover with the cut points chosen independently in both
+ * parents, but only within the codons read by their derivations, so that the
+ * children differ from the parents. The lengths of the children may change.
+ *
+ * @param grammar
+ * @param settings
+ * @category grammar
+ */
+export function effectivePoint(grammar: Grammar, settings: GrammarOperatorSettings = {}): CrossoverMethod<number[]> {
+  return (parents) => {
+    assertParents(grammar, parents);
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+
+    const cutA = Math.floor(random.next() * (effective(derive(grammar, parentA, settings), parentA) + 1));
+    const cutB = Math.floor(random.next() * (effective(derive(grammar, parentB, settings), parentB) + 1));
+
+    return [
+      parentA.slice(0, cutA).concat(parentB.slice(cutB)),
+      parentB.slice(0, cutB).concat(parentA.slice(cutA)),
+    ];
+  };
+}
+
+/**
+ * Exchanges the codons of two subtrees derived from the same nonterminal,
+ * which exchanges the subtrees themselves. Subtrees read after wrapping are
+ * not considered, and parents with invalid derivations are returned
+ * unchanged.
+ *
+ * @param grammar
+ * @param settings
+ * @category grammar
+ */
+export function subtreeCrossover(grammar: Grammar, settings: GrammarOperatorSettings = {}): CrossoverMethod<number[]> {
+  return (parents) => {
+    assertParents(grammar, parents);
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+
+    const derivationA = derive(grammar, parentA, settings);
+    const derivationB = derive(grammar, parentB, settings);
+
+    if (!derivationA.valid || !derivationB.valid) {
+      return [parentA.slice(), parentB.slice()];
+    }
+
+    const subtreesA = subtrees(derivationA.tree, parentA.length);
+    const subtreesB = subtrees(derivationB.tree, parentB.length);
+    const symbols = new Set(subtreesB.map((node) => node.symbol));
+    const candidates = subtreesA.filter((node) => symbols.has(node.symbol));
+
+    if (candidates.length === 0) {
+      return [parentA.slice(), parentB.slice()];
+    }
+
+    const nodeA = candidates[Math.floor(random.next() * candidates.length)];
+    const matching = subtreesB.filter((node) => node.symbol === nodeA.symbol);
+    const nodeB = matching[Math.floor(random.next() * matching.length)];
+
+    return [
+      [...parentA.slice(0, nodeA.start), ...parentB.slice(nodeB.start, nodeB.end), ...parentA.slice(nodeA.end)],
+      [...parentB.slice(0, nodeB.start), ...parentA.slice(nodeA.start, nodeA.end), ...parentB.slice(nodeB.end)],
+    ];
+  };
+}
+
+/**
+ *
+ */
+export interface CodonMutationSettings extends GrammarOperatorSettings {
+  rate?: number;
+  codonSize?: number;
+}
+
+/**
+ * Replaces the codons read by the derivation with random values from
+ * `[0, codonSize)`, each with the given probability (one codon on average by
+ * default). Unused codons are left intact.
+ *
+ * @param grammar
+ * @param settings
+ * @category grammar
+ */
+export function codonMutation(grammar: Grammar, settings: CodonMutationSettings = {}): MutationMethod<number[]> {
+  const { rate } = settings;
+  const codonSize = settings.codonSize ?? 256;
+
+  if (!(grammar instanceof Grammar) || !isPositiveInt(codonSize)) {
+    throw new TypeError();
+  }
+
+  if (rate !== undefined && (typeof rate !== "number" || isNaN(rate) || 0 > rate || rate > 1)) {
+    throw new TypeError();
+  }
+
+  return (codons) => {
+    const random = settings.random ?? getRandom();
+    const length = effective(derive(grammar, codons, settings), codons);
+    const probability = rate ?? 1 / length;
+
+    for (let i = 0; i < length; i++) {
+      if (probability > random.next()) {
+        codons[i] = Math.floor(random.next() * codonSize);
+      }
+    }
+
+    return codons;
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { codonMutation, effectivePoint, subtreeCrossover } from "./grammar_operators";
+import { Grammar } from "./grammar";
+import { Xoshiro128 } from "../../random";
+import { derive } from "./derivation";
+
+const grammar = Grammar.parse(`
+<expr> ::= <expr> <op> <expr> | <var>
+<op>   ::= "+" | "*"
+<var>  ::= x | y
+`);
+
+const codons = fc.array(fc.integer(0, 255), 1, 30);
+
+describe("effectivePoint", () => {
+  it("preserves the total amount of codons", () => {
+    fc.assert(fc.property(codons, codons, fc.integer(), (parentA, parentB, seed) => {
+      const children = effectivePoint(grammar, { random: new Xoshiro128(seed) })([parentA, parentB]);
+
+      expect(children[0].length + children[1].length).toBe(parentA.length + parentB.length);
+    }));
+  });
+
+  it("keeps the unused tails of the parents", () => {
+    const children = effectivePoint(grammar)([[1, 0, 9, 9], [1, 1, 8, 8]]);
+
+    expect(children[0].slice(-2)).toEqual([8, 8]);
+    expect(children[1].slice(-2)).toEqual([9, 9]);
+  });
+});
+
+describe("subtreeCrossover", () => {
+  it("exchanges subtrees derived from the same nonterminal", () => {
+    const variables = (codons: number[]) => (derive(grammar, codons).program as string).replace(/[^xy]/g, "").length;
+
+    fc.assert(fc.property(codons, codons, fc.integer(), (parentA, parentB, seed) => {
+      fc.pre(derive(grammar, parentA).valid && derive(grammar, parentB).valid);
+
+      const children = subtreeCrossover(grammar, { random: new Xoshiro128(seed) })([parentA, parentB]);
+
+      expect(children.every((child) => derive(grammar, child).valid)).toBe(true);
+      expect(variables(children[0]) + variables(children[1])).toBe(variables(parentA) + variables(parentB));
+    }));
+  });
+
+  it("returns copies of the parents if a derivation is invalid", () => {
+    const parents = [[0], [1, 0]];
+    const children = subtreeCrossover(grammar)(parents);
+
+    expect(children).toEqual(parents);
+    expect(children[0]).not.toBe(parents[0]);
+  });
+});
+
+describe("codonMutation", () => {
+  it("changes only the codons read by the derivation", () => {
+    fc.assert(fc.property(codons, fc.integer(), (genes, seed) => {
+      const used = Math.min(derive(grammar, genes).used, genes.length);
+      const mutated = codonMutation(grammar, { rate: 1, random: new Xoshiro128(seed) })(genes.slice());
+
+      expect(mutated.slice(used)).toEqual(genes.slice(used));
+      expect(mutated.every((codon) => codon >= 0 && 256 > codon)).toBe(true);
+    }));
+  });
+
+  it("throws a TypeError if the rate is out of range", () => {
+    expect(() => codonMutation(grammar, { rate: -0.5 })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Grammar } from "./grammar";
+
+const bnf = `
+# arithmetic expressions
+<expr> ::= <expr> <op> <expr>
+         | "(" <expr> ")"
+         | <var>
+<op>   ::= "+" | '*'
+<var>  ::= x | y | "1.0"
+`;
+
+describe("Grammar", () => {
+  describe("parse", () => {
+    it("parses the rules with alternatives continued on the following lines", () => {
+      const grammar = Grammar.parse(bnf);
+
+      expect(grammar.start).toBe("expr");
+      expect(grammar.nonterminals()).toEqual(["expr", "op", "var"]);
+      expect(grammar.productions("expr")).toEqual([
+        [
+          { kind: "nonterminal", value: "expr" },
+          { kind: "nonterminal", value: "op" },
+          { kind: "nonterminal", value: "expr" },
+        ],
+        [
+          { kind: "terminal", value: "(" },
+          { kind: "nonterminal", value: "expr" },
+          { kind: "terminal", value: ")" },
+        ],
+        [{ kind: "nonterminal", value: "var" }],
+      ]);
+      expect(grammar.productions("var").map((production) => production[0].value)).toEqual(["x", "y", "1.0"]);
+    });
+
+    it("keeps the whitespace and bars inside quoted terminals", () => {
+      const grammar = Grammar.parse("<a> ::= \"if | \" <b>\n<b> ::= ''");
+
+      expect(grammar.productions("a")[0][0].value).toBe("if | ");
+      expect(grammar.productions("b")[0][0].value).toBe("");
+    });
+
+    it("unescapes the double-quoted terminals", () => {
+      const grammar = Grammar.parse("<a> ::= \"say \\\"hi\\\"\" | \"\\\\n\" | 'a\\b'");
+
+      expect(grammar.productions("a").map((production) => production[0].value)).toEqual(["say \"hi\"", "\\n", "a\\b"]);
+      expect(() => Grammar.parse("<a> ::= \"\\x\"")).toThrow("malformed string at line 1");
+    });
+
+    it("accepts the start symbol", () => {
+      expect(Grammar.parse(bnf, "var").start).toBe("var");
+    });
+
+    it("throws a TypeError if the grammar is malformed", () => {
+      expect(() => Grammar.parse("expr ::= x")).toThrow("expected a rule at line 1");
+      expect(() => Grammar.parse("<a> ::= x |")).toThrow("empty production at line 1");
+      expect(() => Grammar.parse("<a> ::= \"x")).toThrow("unterminated string");
+      expect(() => Grammar.parse("<a> ::= <b")).toThrow("malformed nonterminal");
+      expect(() => Grammar.parse("<a> ::= x\n<a> ::= y")).toThrow("defined more than once");
+      expect(() => Grammar.parse("")).toThrow(TypeError);
+    });
+
+    it("throws a TypeError if a nonterminal is not defined", () => {
+      expect(() => Grammar.parse("<a> ::= <b>")).toThrow("<b> is not defined");
+      expect(() => Grammar.parse(bnf, "b")).toThrow("start symbol <b> is not defined");
+    });
+
+    it("throws a TypeError if a nonterminal never derives a sentence", () => {
+      expect(() => Grammar.parse("<a> ::= x | <b>\n<b> ::= <b> y")).toThrow("<b> never derives a sentence");
+    });
+  });
+
+  describe("minDepth", () => {
+    it("returns the height of the smallest derivation tree", () => {
+      const grammar = Grammar.parse(bnf);
+
+      expect(grammar.minDepth("var")).toBe(1);
+      expect(grammar.minDepth("expr")).toBe(2);
+    });
+
+    it("throws a RangeError if the nonterminal is unknown", () => {
+      expect(() => Grammar.parse(bnf).minDepth("unknown")).toThrow(RangeError);
+    });
+  });
+
+  describe("toString", () => {
+    it("can be parsed again", () => {
+      const grammar = Grammar.parse(bnf);
+
+      expect(Grammar.parse(grammar.toString()).toString()).toBe(grammar.toString());
+    });
+
+    it("round-trips terminals containing quotes and backslashes", () => {
+      const terminals = ["\"", "'", "\\", "say \"hi\" \\ bye", "a | b", "line\nbreak"];
+      const grammar = new Grammar({ a: terminals.map((value) => [{ kind: "terminal", value }]) }, "a");
+
+      expect(Grammar.parse(grammar.toString()).productions("a")).toEqual(grammar.productions("a"));
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, getRandom } from "../../random";
+import { isPositiveInt } from "../../util";
+
+/**
+ * Unary operations ignore the second source.
+ */
+export interface LinearOperation {
+  name: string;
+  symbol?: string;
+  arity: 1 | 2;
+  func: (a: number, b: number) => number;
+}
+
+/**
+ * Computes `dest = op(src1, src2)`.
+ */
+export interface Instruction {
+  op: number;
+  dest: number;
+  src1: number;
+  src2: number;
+}
+
+/**
+ * Instructions write to the calculation registers and read from the
+ * registers, the inputs and the constants, which are addressed in this
+ * order. The program returns the values of the output registers.
+ */
+export interface InstructionSetSettings {
+  registers: number;
+  inputs: number;
+  operations: LinearOperation[];
+  constants?: number[];
+  outputs?: number[];
+}
+
+/**
+ * Register machine executing linear genetic programs.
+ */
+export class InstructionSet {
+  /**
+   *
+   */
+  public readonly registers: number;
+
+  /**
+   *
+   */
+  public readonly inputs: number;
+
+  /**
+   *
+   */
+  public readonly operations: LinearOperation[];
+
+  /**
+   *
+   */
+  public readonly constants: number[];
+
+  /**
+   *
+   */
+  public readonly outputs: number[];
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: InstructionSetSettings) {
+    const { registers, inputs, operations } = settings;
+    const constants = settings.constants ?? [];
+    const outputs = settings.outputs ?? [0];
+
+    if (!isPositiveInt(registers) || !Number.isInteger(inputs) || 0 > inputs) {
+      throw new TypeError();
+    }
+
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new TypeError();
+    }
+
+    if (operations.some((operation) => typeof operation.func !== "function" || ![1, 2].includes(operation.arity))) {
+      throw new TypeError();
+    }
+
+    if (!Array.isArray(constants) || constants.some((constant) => typeof constant !== "number")) {
+      throw new TypeError();
+    }
+
+    if (!Array.isArray(outputs) || outputs.length === 0 || outputs.some((output) => !Number.isInteger(output) || 0 > output || output >= registers)) {
+      throw new TypeError();
+    }
+
+    this.registers = registers;
+    this.inputs = inputs;
+    this.operations = operations.slice();
+    this.constants = constants.slice();
+    this.outputs = outputs.slice();
+  }
+
+  /**
+   * Amount of addresses the sources can read from.
+   */
+  public get sources(): number {
+    return this.registers + this.inputs + this.constants.length;
+  }
+
+  /**
+   *
+   * @param instruction
+   */
+  public allows(instruction: Instruction): boolean {
+    if (instruction === null || typeof instruction !== "object") {
+      return false;
+    }
+
+    const { op, dest, src1, src2 } = instruction;
+    const within = (value: number, limit: number) => Number.isInteger(value) && value >= 0 && limit > value;
+
+    return within(op, this.operations.length)
+      && within(dest, this.registers)
+      && within(src1, this.sources)
+      && within(src2, this.sources);
+  }
+
+  /**
+   *
+   * @param random
+   */
+  public randomInstruction(random: Random = getRandom()): Instruction {
+    return {
+      op: Math.floor(random.next() * this.operations.length),
+      dest: Math.floor(random.next() * this.registers),
+      src1: Math.floor(random.next() * this.sources),
+      src2: Math.floor(random.next() * this.sources),
+    };
+  }
+
+  /**
+   * Returns the addresses of the sources read by the instruction.
+   *
+   * @param instruction
+   */
+  public reads(instruction: Instruction): number[] {
+    return this.operations[instruction.op].arity === 1
+      ? [instruction.src1]
+      : [instruction.src1, instruction.src2];
+  }
+
+  /**
+   * Runs the instructions with the registers initialized to zero and returns
+   * the values of the output registers.
+   *
+   * @param instructions
+   * @param inputs
+   */
+  public execute(instructions: Instruction[], inputs: ArrayLike<number>): number[] {
+    if (inputs.length !== this.inputs) {
+      throw new TypeError();
+    }
+
+    const memory = new Float64Array(this.sources);
+
+    memory.set(Array.from(inputs), this.registers);
+    memory.set(this.constants, this.registers + this.inputs);
+
+    for (const { op, dest, src1, src2 } of instructions) {
+      memory[dest] = this.operations[op].func(memory[src1], memory[src2]);
+    }
+
+    return this.outputs.map((output) => memory[output]);
+  }
+
+  /**
+   * Returns the indices of the instructions which influence the outputs.
+   * The remaining ones are structural introns.
+   *
+   * @param instructions
+   */
+  public effective(instructions: Instruction[]): number[] {
+    const needed = new Set(this.outputs);
+    const effective: number[] = [];
+
+    for (let i = instructions.length - 1; i >= 0; i--) {
+      const instruction = instructions[i];
+
+      if (needed.has(instruction.dest)) {
+        needed.delete(instruction.dest);
+        this.reads(instruction)
+          .filter((source) => this.registers > source)
+          .forEach((source) => needed.add(source));
+
+        effective.push(i);
+      }
+    }
+
+    return effective.reverse();
+  }
+
+  /**
+   *
+   * @param instruction
+   */
+  public stringify(instruction: Instruction): string {
+    const operation = this.operations[instruction.op];
+    const [a, b] = [instruction.src1, instruction.src2].map((source) => this.$name(source));
+    const dest = `r${instruction.dest}`;
+
+    if (operation.arity === 1) {
+      return `${dest} = ${operation.name}(${a})`;
+    }
+
+    return operation.symbol !== undefined
+      ? `${dest} = ${a} ${operation.symbol} ${b}`
+      : `${dest} = ${operation.name}(${a}, ${b})`;
+  }
+
+  /**
+   *
+   * @param source
+   */
+  private $name(source: number): string {
+    if (this.registers > source) {
+      return `r${source}`;
+    }
+
+    if (this.registers + this.inputs > source) {
+      return `i${source - this.registers}`;
+    }
+
+    return String(this.constants[source - this.registers - this.inputs]);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Instruction, InstructionSet } from "./instruction_set";
+import { RandomSettings, getRandom } from "../../random";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+/**
+ *
+ */
+export interface LinearLengthSettings {
+  minLength?: number;
+  maxLength?: number;
+}
+
+function resolveLengths(settings: LinearLengthSettings): { minLength: number; maxLength: number } {
+  const minLength = settings.minLength ?? 1;
+  const maxLength = settings.maxLength ?? Infinity;
+
+  if (!isPositiveInt(minLength) || !(maxLength === Infinity || isPositiveInt(maxLength)) || minLength > maxLength) {
+    throw new TypeError();
+  }
+
+  return { minLength, maxLength };
+}
+
+/**
+ *
+ */
+export interface MacroMutationSettings extends LinearLengthSettings, RandomSettings {
+  insertion?: number;
+}
+
+/**
+ * Inserts a random instruction at a random position (with the `insertion`
+ * probability, 0.5 by default) or deletes a random instruction, keeping the
+ * length of the program within the limits.
+ *
+ * @param set
+ * @param settings
+ * @category linear
+ */
+export function macroMutation(set: InstructionSet, settings: MacroMutationSettings = {}): MutationMethod<Instruction[]> {
+  const { minLength, maxLength } = resolveLengths(settings);
+  const insertion = settings.insertion ?? 0.5;
+
+  if (!(set instanceof InstructionSet)) {
+    throw new TypeError();
+  }
+
+  if (typeof insertion !== "number" || isNaN(insertion) || 0 > insertion || insertion > 1) {
+    throw new TypeError();
+  }
+
+  return (instructions) => {
+    const random = settings.random ?? getRandom();
+    const insert = insertion > random.next();
+
+    if (insert && maxLength > instructions.length) {
+      const position = Math.floor(random.next() * (instructions.length + 1));
+      instructions.splice(position, 0, set.randomInstruction(random));
+    } else if (!insert && instructions.length > minLength) {
+      instructions.splice(Math.floor(random.next() * instructions.length), 1);
+    }
+
+    return instructions;
+  };
+}
+
+/**
+ * Changes the operation, the destination or one of the sources of a random
+ * instruction.
+ *
+ * @param set
+ * @param settings
+ * @category linear
+ */
+export function microMutation(set: InstructionSet, settings: RandomSettings = {}): MutationMethod<Instruction[]> {
+  if (!(set instanceof InstructionSet)) {
+    throw new TypeError();
+  }
+
+  return (instructions) => {
+    if (instructions.length === 0) {
+      return instructions;
+    }
+
+    const random = settings.random ?? getRandom();
+    const instruction = instructions[Math.floor(random.next() * instructions.length)];
+    const replacement = set.randomInstruction(random);
+    const field = (["op", "dest", "src1", "src2"] as (keyof Instruction)[])[Math.floor(random.next() * 4)];
+
+    instruction[field] = replacement[field];
+    return instructions;
+  };
+}
+
+/**
+ *
+ */
+export interface LinearCrossoverSettings extends LinearLengthSettings, RandomSettings {
+  attempts?: number;
+}
+
+/**
+ * Exchanges randomly chosen segments of the parents, which may have different
+ * lengths. If the children would exceed the length limits, other segments are
+ * tried up to the given amount of attempts, after which the parents are
+ * returned unchanged.
+ *
+ * @param settings
+ * @category linear
+ */
+export function twoPoint(settings: LinearCrossoverSettings = {}): CrossoverMethod<Instruction[]> {
+  const { minLength, maxLength } = resolveLengths(settings);
+  const attempts = settings.attempts ?? 10;
+
+  if (!isPositiveInt(attempts)) {
+    throw new TypeError();
+  }
+
+  return (parents) => {
+    if (parents.length !== 2) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+
+    const segment = (parent: Instruction[]) => {
+      const start = Math.floor(random.next() * parent.length);
+      const end = start + 1 + Math.floor(random.next() * (parent.length - start));
+
+      return { start, end };
+    };
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const a = segment(parentA);
+      const b = segment(parentB);
+
+      const childA = [...parentA.slice(0, a.start), ...parentB.slice(b.start, b.end), ...parentA.slice(a.end)];
+      const childB = [...parentB.slice(0, b.start), ...parentA.slice(a.start, a.end), ...parentB.slice(b.end)];
+
+      if ([childA, childB].every((child) => child.length >= minLength && maxLength >= child.length)) {
+        return [childA, childB];
+      }
+    }
+
+    return [parentA, parentB];
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { macroMutation, microMutation, twoPoint } from "./linear_operators";
+import { InstructionSet } from "./instruction_set";
+import { LinearProgram } from "./linear_program";
+import { Xoshiro128 } from "../../random";
+
+const set = new InstructionSet({
+  registers: 4,
+  inputs: 2,
+  constants: [1, 2],
+  operations: [
+    { name: "add", symbol: "+", arity: 2, func: (a, b) => a + b },
+    { name: "sub", symbol: "-", arity: 2, func: (a, b) => a - b },
+    { name: "neg", arity: 1, func: (a) => -a },
+  ],
+});
+
+const programs = fc.integer().map((seed) => LinearProgram.random(set, { maxLength: 8, random: new Xoshiro128(seed) }));
+
+describe("macroMutation", () => {
+  it("changes the length by one within the limits", () => {
+    fc.assert(fc.property(programs, fc.integer(), (program, seed) => {
+      const length = program.length;
+      program.mutate(macroMutation(set, { minLength: 2, maxLength: 8, random: new Xoshiro128(seed) }));
+
+      expect(Math.abs(program.length - length)).toBeLessThanOrEqual(1);
+      expect(program.length).toBeLessThanOrEqual(8);
+      expect(program.length).toBeGreaterThanOrEqual(Math.min(length, 2));
+    }));
+  });
+
+  it("inserts an instruction if the insertion probability is 1", () => {
+    const program = LinearProgram.random(set);
+    const length = program.length;
+
+    program.mutate(macroMutation(set, { insertion: 1 }));
+
+    expect(program.length).toBe(length + 1);
+  });
+
+  it("throws a TypeError if the length limits are invalid", () => {
+    expect(() => macroMutation(set, { minLength: 0 })).toThrow(TypeError);
+  });
+});
+
+describe("microMutation", () => {
+  it("changes at most one field of one instruction", () => {
+    fc.assert(fc.property(programs, fc.integer(), (program, seed) => {
+      const before = program.data();
+      program.mutate(microMutation(set, { random: new Xoshiro128(seed) }));
+
+      const changes = program.data().reduce((total, instruction, i) => total
+        + (["op", "dest", "src1", "src2"] as const).filter((field) => instruction[field] !== before[i][field]).length, 0);
+
+      expect(program.length).toBe(before.length);
+      expect(changes).toBeLessThanOrEqual(1);
+    }));
+  });
+});
+
+describe("twoPoint", () => {
+  it("preserves the total amount of instructions", () => {
+    fc.assert(fc.property(programs, programs, fc.integer(), (parentA, parentB, seed) => {
+      const children = parentA.offspring([parentB], twoPoint({ random: new Xoshiro128(seed) }));
+
+      expect(children[0].length + children[1].length).toBe(parentA.length + parentB.length);
+    }));
+  });
+
+  it("keeps the children within the length limits", () => {
+    fc.assert(fc.property(programs, programs, fc.integer(), (parentA, parentB, seed) => {
+      const maxLength = Math.max(parentA.length, parentB.length);
+      const children = parentA.offspring([parentB], twoPoint({ maxLength, random: new Xoshiro128(seed) }));
+
+      children.forEach((child) => expect(child.length).toBeLessThanOrEqual(maxLength));
+    }));
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Instruction, InstructionSet } from "./instruction_set";
+import { Random, getRandom } from "../../random";
+import { AbstractGenotype } from "../abstract_genotype";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+/**
+ *
+ */
+export type LinearProgramFunction = (...inputs: number[]) => number[];
+
+/**
+ *
+ */
+export interface LinearProgramRandomSettings {
+  minLength?: number;
+  maxLength?: number;
+  random?: Random;
+}
+
+function linearViolation(instructions: any, set: InstructionSet): string | undefined {
+  if (!Array.isArray(instructions)) {
+    return "instructions are not an array";
+  }
+
+  const index = instructions.findIndex((instruction) => !set.allows(instruction));
+
+  return index === -1
+    ? undefined
+    : `instruction ${index} is not allowed by the instruction set`;
+}
+
+function copyInstructions(instructions: Instruction[]): Instruction[] {
+  return instructions.map(({ op, dest, src1, src2 }) => ({ op, dest, src1, src2 }));
+}
+
+/**
+ * Variable-length sequence of register machine instructions.
+ */
+export class LinearProgram extends AbstractGenotype<Instruction[]> {
+  /**
+   * Creates a program of random length between `minLength` (1 by default)
+   * and `maxLength` (10 by default).
+   *
+   * @param set
+   * @param settings
+   */
+  public static random(set: InstructionSet, settings: LinearProgramRandomSettings = {}): LinearProgram {
+    const minLength = settings.minLength ?? 1;
+    const maxLength = settings.maxLength ?? Math.max(10, minLength);
+    const random = settings.random ?? getRandom();
+
+    if (!(set instanceof InstructionSet) || !isPositiveInt(minLength) || !isPositiveInt(maxLength) || minLength > maxLength) {
+      throw new TypeError();
+    }
+
+    const length = minLength + Math.floor(random.next() * (maxLength - minLength + 1));
+    const instructions = Array.from({ length }, () => set.randomInstruction(random));
+
+    return new LinearProgram(instructions, set);
+  }
+
+  /**
+   *
+   * @param serialized
+   * @param set
+   */
+  public static deserialize(serialized: Instruction[], set: InstructionSet): LinearProgram {
+    return new LinearProgram(serialized, set);
+  }
+
+  /**
+   *
+   */
+  public readonly set: InstructionSet;
+
+  /**
+   *
+   */
+  public get length(): number {
+    return this._data.length;
+  }
+
+  /**
+   *
+   * @param data
+   * @param set
+   */
+  public constructor(data: Instruction[], set: InstructionSet) {
+    if (!(set instanceof InstructionSet)) {
+      throw new TypeError();
+    }
+
+    const violation = linearViolation(data, set);
+
+    if (violation !== undefined) {
+      throw new TypeError(`invalid program: ${violation}`);
+    }
+
+    super(copyInstructions(data));
+    this.set = set;
+  }
+
+  /**
+   *
+   */
+  public data(): Instruction[] {
+    return copyInstructions(this._data);
+  }
+
+  /**
+   *
+   * @param inputs
+   */
+  public execute(inputs: ArrayLike<number>): number[] {
+    return this.set.execute(this._data, inputs);
+  }
+
+  /**
+   * Returns a function which executes the program, skipping the structural
+   * introns.
+   */
+  public compile(): LinearProgramFunction {
+    const effective = this.set.effective(this._data).map((i) => ({ ...this._data[i] }));
+
+    return (...inputs) => this.set.execute(effective, inputs);
+  }
+
+  /**
+   * Returns the indices of the instructions which influence the outputs.
+   */
+  public effective(): number[] {
+    return this.set.effective(this._data);
+  }
+
+  /**
+   * Returns the indices of the instructions which do not influence the
+   * outputs, because the registers they write to are never read afterwards.
+   */
+  public introns(): number[] {
+    const effective = new Set(this.effective());
+
+    return this._data
+      .map((_, i) => i)
+      .filter((i) => !effective.has(i));
+  }
+
+  /**
+   * Returns the indices of the structurally effective instructions whose
+   * removal does not change the outputs for any of the given inputs, for
+   * example `r0 = r0 * 1`.
+   *
+   * @param cases
+   */
+  public semanticIntrons(cases: ArrayLike<number>[]): number[] {
+    if (!Array.isArray(cases)) {
+      throw new TypeError();
+    }
+
+    const expected = cases.map((inputs) => this.execute(inputs));
+
+    return this.effective().filter((index) => {
+      const instructions = this._data.filter((_, i) => i !== index);
+
+      return cases.every((inputs, i) => this.set.execute(instructions, inputs)
+        .every((output, j) => Object.is(output, expected[i][j])));
+    });
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<Instruction[]>): void {
+    const data = method(this.data());
+    const violation = linearViolation(data, this.set);
+
+    if (violation !== undefined) {
+      throw new TypeError(`mutation method produced an invalid program: ${violation}`);
+    }
+
+    this._data = copyInstructions(data);
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: Instruction[]) => Instruction[]): LinearProgram {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new LinearProgram(data, this.set);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: LinearProgram[], method: CrossoverMethod<Instruction[]>): LinearProgram[] {
+    return super.makeOffspring(partners, method, (data) => new LinearProgram(data, this.set));
+  }
+
+  /**
+   *
+   */
+  public toString(): string {
+    return this._data.map((instruction) => this.set.stringify(instruction)).join("\n");
+  }
+
+  /**
+   *
+   */
+  public __serialize(): Instruction[] {
+    return this.data();
+  }
+}
+
+/**
+ * Phenotype function compiling the linear program.
+ *
+ * @param genotype
+ * @category creation
+ */
+export function compileLinear(genotype: LinearProgram): LinearProgramFunction {
+  return genotype.compile();
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { LinearProgram, compileLinear } from "./linear_program";
+import { Individual } from "../../individual/individual";
+import { InstructionSet } from "./instruction_set";
+import { Xoshiro128 } from "../../random";
+
+const set = new InstructionSet({
+  registers: 2,
+  inputs: 1,
+  constants: [1],
+  operations: [
+    { name: "add", symbol: "+", arity: 2, func: (a, b) => a + b },
+    { name: "mul", symbol: "*", arity: 2, func: (a, b) => a * b },
+    { name: "neg", arity: 1, func: (a) => -a },
+  ],
+});
+
+const instructions = [
+  { op: 0, dest: 1, src1: 2, src2: 3 },
+  { op: 1, dest: 0, src1: 2, src2: 2 },
+  { op: 0, dest: 0, src1: 0, src2: 1 },
+  { op: 1, dest: 1, src1: 1, src2: 1 },
+  { op: 1, dest: 0, src1: 0, src2: 3 },
+];
+
+describe("InstructionSet", () => {
+  it("throws a TypeError if an output is not a register", () => {
+    expect(() => new InstructionSet({ registers: 1, inputs: 1, operations: set.operations, outputs: [1] })).toThrow(TypeError);
+  });
+
+  it("only reads the first source of unary operations", () => {
+    const program = new LinearProgram([{ op: 2, dest: 0, src1: 2, src2: 1 }], set);
+
+    expect(program.effective()).toEqual([0]);
+    expect(program.execute([4])).toEqual([-4]);
+  });
+});
+
+describe("LinearProgram", () => {
+  describe("random", () => {
+    it("creates programs within the length limits", () => {
+      for (let seed = 0; seed < 20; seed++) {
+        const program = LinearProgram.random(set, { minLength: 3, maxLength: 5, random: new Xoshiro128(seed) });
+
+        expect(program.length).toBeGreaterThanOrEqual(3);
+        expect(program.length).toBeLessThanOrEqual(5);
+      }
+    });
+
+    it("throws a TypeError if the length limits are invalid", () => {
+      expect(() => LinearProgram.random(set, { minLength: 5, maxLength: 3 })).toThrow(TypeError);
+    });
+  });
+
+  describe("constructor", () => {
+    it("throws a TypeError if an instruction is not allowed", () => {
+      expect(() => new LinearProgram([{ op: 0, dest: 2, src1: 0, src2: 0 }], set)).toThrow("instruction 0 is not allowed");
+      expect(() => new LinearProgram([{ op: 3, dest: 0, src1: 0, src2: 0 }], set)).toThrow(TypeError);
+      expect(() => new LinearProgram([{ op: 0, dest: 0, src1: 4, src2: 0 }], set)).toThrow(TypeError);
+    });
+  });
+
+  describe("execute", () => {
+    it("runs the instructions on the registers", () => {
+      expect(new LinearProgram(instructions, set).execute([2])).toEqual([7]);
+    });
+
+    it("throws a TypeError if the amount of inputs is wrong", () => {
+      expect(() => new LinearProgram(instructions, set).execute([])).toThrow(TypeError);
+    });
+  });
+
+  describe("compile", () => {
+    it("returns the same outputs as the full program", () => {
+      const program = new LinearProgram(instructions, set);
+
+      [-1, 0, 2, 3.5].forEach((input) => {
+        expect(program.compile()(input)).toEqual(program.execute([input]));
+        expect(compileLinear(program)(input)).toEqual(program.execute([input]));
+      });
+    });
+  });
+
+  describe("introns", () => {
+    it("detects the structural introns", () => {
+      const program = new LinearProgram(instructions, set);
+
+      expect(program.effective()).toEqual([0, 1, 2, 4]);
+      expect(program.introns()).toEqual([3]);
+    });
+
+    it("detects the semantic introns", () => {
+      expect(new LinearProgram(instructions, set).semanticIntrons([[2], [3], [-1]])).toEqual([4]);
+    });
+  });
+
+  describe("toString", () => {
+    it("shows the instructions", () => {
+      const program = new LinearProgram([instructions[0], { op: 2, dest: 0, src1: 1, src2: 0 }], set);
+
+      expect(program.toString()).toBe("r1 = i0 + 1\nr0 = neg(r1)");
+    });
+  });
+
+  describe("__serialize", () => {
+    it("can be restored", () => {
+      const individual = new Individual({ genotype: new LinearProgram(instructions, set) });
+      const restored = Individual.fromJSON(individual.toJSON(), {
+        genotype: (data) => LinearProgram.deserialize(data, set),
+      });
+
+      expect(restored.genotype.data()).toEqual(instructions);
+    });
+  });
+});
@@ -25,6 +25,20 @@ import { isPositiveInt } from "../util";
  */
 export type ListGenerateFunction<T> = (i: number) => T;
 
+/**
+ * Mutations producing lists of other lengths are discarded, and so are the
+ * children of crossovers, which are replaced with clones of their parents.
+ */
+export interface ListLimits {
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * Lists without length limits are serialized as the plain array of genes.
+ */
+export type SerializedList<T> = T[] | { genes: T[]; minLength: number; maxLength: number };
+
 /**
  *
  */
@@ -33,8 +47,9 @@ export class List<T> extends AbstractGenotype<T[]> {
    * @static
    * @param size
    * @param func
+   * @param limits
    */
-  public static generate<T>(size: number, func: ListGenerateFunction<T>): List<T> {
+  public static generate<T>(size: number, func: ListGenerateFunction<T>, limits: ListLimits = {}): List<T> {
     if (!isPositiveInt(size)) {
       throw new TypeError();
     }
@@ -49,9 +64,36 @@ export class List<T> extends AbstractGenotype<T[]> {
       genes[i] = func(i);
     }
 
-    return new List<T>(genes) as any;
+    return new List<T>(genes, limits) as any;
+  }
+
+  /**
+   * @static
+   * @param serialized
+   */
+  public static deserialize<T>(serialized: SerializedList<T>): List<T> {
+    if (Array.isArray(serialized)) {
+      return new List(serialized);
+    }
+
+    if (serialized === undefined || serialized === null || !Array.isArray(serialized.genes)) {
+      throw new TypeError();
+    }
+
+    const { genes, minLength, maxLength } = serialized;
+    return new List(genes, { minLength, maxLength });
   }
 
+  /**
+   *
+   */
+  public readonly minLength: number;
+
+  /**
+   *
+   */
+  public readonly maxLength: number;
+
   /**
    *
    */
@@ -62,13 +104,32 @@ export class List<T> extends AbstractGenotype<T[]> {
   /**
    *
    * @param data
+   * @param limits
    */
-  public constructor(data: T[]) {
+  public constructor(data: T[], limits: ListLimits = {}) {
     if (!Array.isArray(data)) {
       throw new TypeError();
     }
 
+    const minLength = limits.minLength ?? 0;
+    const maxLength = limits.maxLength ?? Infinity;
+
+    if (!Number.isInteger(minLength) || 0 > minLength || minLength > maxLength) {
+      throw new TypeError();
+    }
+
+    if (maxLength !== Infinity && !Number.isInteger(maxLength)) {
+      throw new TypeError();
+    }
+
+    if (minLength > data.length || data.length > maxLength) {
+      throw new RangeError();
+    }
+
     super(data);
+
+    this.minLength = minLength;
+    this.maxLength = maxLength;
   }
 
   /**
@@ -83,11 +144,16 @@ export class List<T> extends AbstractGenotype<T[]> {
    * @param method
    */
   public mutate(method: MutationMethod<T[]>): void {
+    const previous = this._data;
     super.mutate(method);
 
     if (!Array.isArray(this.data())) {
       throw new TypeError();
     }
+
+    if (!this.$fits(this._data)) {
+      this._data = previous;
+    }
   }
 
   /**
@@ -102,7 +168,7 @@ export class List<T> extends AbstractGenotype<T[]> {
       ? func(this.data())
       : this.data();
 
-    return new List(data);
+    return new List(data, this);
   }
 
   /**
@@ -111,13 +177,34 @@ export class List<T> extends AbstractGenotype<T[]> {
    * @param method
    */
   public offspring(partners: List<T>[], method: CrossoverMethod<T[]>): List<T>[] {
-    return super.makeOffspring(partners, method, (data) => new List(data));
+    const parents = [this as List<T>].concat(partners);
+    let i = 0;
+
+    return super.makeOffspring(partners, method, (data) => {
+      const parent = parents[i++ % parents.length];
+
+      return this.$fits(data)
+        ? new List(data, this)
+        : parent.clone();
+    });
   }
 
   /**
    *
    */
-  public __serialize(): unknown[] {
-    return this.data();
+  public __serialize(): SerializedList<T> {
+    if (this.minLength === 0 && this.maxLength === Infinity) {
+      return this.data();
+    }
+
+    return { genes: this.data(), minLength: this.minLength, maxLength: this.maxLength };
+  }
+
+  /**
+   *
+   * @param data
+   */
+  private $fits(data: T[]): boolean {
+    return data.length >= this.minLength && this.maxLength >= data.length;
   }
 }
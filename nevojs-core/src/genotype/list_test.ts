@@ -18,6 +18,7 @@
 import * as fc from "fast-check";
 import { CrossoverMethod, uniform } from "../operators/crossover";
 import { List, ListGenerateFunction } from "./list";
+import { Individual } from "../individual/individual";
 import { MutationMethod } from "../operators/mutation";
 
 describe("List", () => {
@@ -281,5 +282,74 @@ describe("List", () => {
         expect(list.__serialize()).toEqual(data);
       }));
     });
+
+    it("keeps the length limits", () => {
+      const list = new List([1, 2, 3], { minLength: 2, maxLength: 4 });
+
+      expect(list.__serialize()).toEqual({ genes: [1, 2, 3], minLength: 2, maxLength: 4 });
+    });
+  });
+
+  describe("deserialize", () => {
+    it("restores the genes and the length limits", () => {
+      const list = new List([1, 2, 3], { minLength: 2 });
+      const restored = Individual.fromJSON<List<number>>(new Individual({ genotype: list }).toJSON(), {
+        genotype: (data) => List.deserialize(data),
+      }).genotype;
+
+      expect(restored.data()).toEqual([1, 2, 3]);
+      expect(restored.minLength).toBe(2);
+      expect(restored.maxLength).toBe(Infinity);
+
+      restored.mutate(() => [1]);
+      expect(restored.data()).toEqual([1, 2, 3]);
+    });
+
+    it("restores lists serialized without limits", () => {
+      const restored = List.deserialize([1, 2]);
+
+      expect(restored.data()).toEqual([1, 2]);
+      expect(restored.maxLength).toBe(Infinity);
+    });
+
+    it("throws a TypeError if the data is invalid", () => {
+      expect(() => List.deserialize({} as any)).toThrow(TypeError);
+      expect(() => List.deserialize(null as any)).toThrow(TypeError);
+    });
+  });
+
+  describe("limits", () => {
+    it("throws a RangeError if the data does not fit the limits", () => {
+      expect(() => new List([1, 2, 3], { maxLength: 2 })).toThrow(RangeError);
+      expect(() => List.generate(1, (i) => i, { minLength: 2 })).toThrow(RangeError);
+    });
+
+    it("throws a TypeError if the limits are invalid", () => {
+      expect(() => new List([1], { minLength: 2, maxLength: 1 })).toThrow(TypeError);
+      expect(() => new List([1], { minLength: -1 })).toThrow(TypeError);
+    });
+
+    it("discards mutations producing lists of other lengths", () => {
+      const list = new List([1, 2, 3], { minLength: 2, maxLength: 3 });
+
+      list.mutate((data) => [...data, 4]);
+      expect(list.data()).toEqual([1, 2, 3]);
+
+      list.mutate((data) => data.slice(1));
+      expect(list.data()).toEqual([2, 3]);
+
+      list.mutate((data) => data.slice(1));
+      expect(list.data()).toEqual([2, 3]);
+    });
+
+    it("replaces the children not fitting the limits with clones of the parents", () => {
+      const a = new List([1, 2], { maxLength: 3 });
+      const b = new List([3, 4]);
+
+      const children = a.offspring([b], () => [[1, 2, 3, 4], [5]]);
+
+      expect(children.map((child) => child.data())).toEqual([[1, 2], [5]]);
+      expect(children.every((child) => child.maxLength === 3)).toBe(true);
+    });
   });
 });
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ *
+ */
+export interface SerializedInnovation {
+  input: number;
+  output: number;
+  innovation: number;
+}
+
+/**
+ *
+ */
+export interface SerializedSplit {
+  innovation: number;
+  nodes: number[];
+}
+
+/**
+ *
+ */
+export interface SerializedInnovationTracker {
+  nodes: number;
+  innovations: number;
+  connections: SerializedInnovation[];
+  splits: SerializedSplit[];
+}
+
+/**
+ * Assigns global innovation numbers to connection genes and ids to node
+ * genes, so that the same structural change gets the same numbers in every
+ * genome sharing the tracker.
+ */
+export class InnovationTracker {
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: SerializedInnovationTracker): InnovationTracker {
+    const tracker = new InnovationTracker();
+    tracker.merge(serialized);
+
+    return tracker;
+  }
+
+  /**
+   *
+   */
+  private _nodes: number = 0;
+
+  /**
+   *
+   */
+  private _innovations: number = 0;
+
+  /**
+   *
+   */
+  private readonly _connections: Map<string, number> = new Map();
+
+  /**
+   *
+   */
+  private readonly _splits: Map<number, number[]> = new Map();
+
+  /**
+   * Amount of node ids assigned so far.
+   */
+  public get nodes(): number {
+    return this._nodes;
+  }
+
+  /**
+   * Amount of innovation numbers assigned so far.
+   */
+  public get innovations(): number {
+    return this._innovations;
+  }
+
+  /**
+   * Makes sure that the ids below `count` are not assigned to new nodes.
+   *
+   * @param count
+   */
+  public reserveNodes(count: number): void {
+    this._nodes = Math.max(this._nodes, count);
+  }
+
+  /**
+   *
+   */
+  public node(): number {
+    return this._nodes++;
+  }
+
+  /**
+   * Returns the innovation number of the connection between the given nodes,
+   * assigning a new one if the connection has not been seen yet.
+   *
+   * @param input
+   * @param output
+   */
+  public connection(input: number, output: number): number {
+    const key = `${input}:${output}`;
+    let innovation = this._connections.get(key);
+
+    if (innovation === undefined) {
+      innovation = this._innovations++;
+      this._connections.set(key, innovation);
+    }
+
+    return innovation;
+  }
+
+  /**
+   * Returns the id of the node inserted into the connection with the given
+   * innovation number. Genomes splitting the same connection get the same
+   * node, unless it is already `used` by the genome.
+   *
+   * @param innovation
+   * @param used
+   */
+  public split(innovation: number, used: (node: number) => boolean = () => false): number {
+    const nodes = this._splits.get(innovation) ?? [];
+    let node = nodes.find((candidate) => !used(candidate));
+
+    if (node === undefined) {
+      node = this.node();
+      nodes.push(node);
+      this._splits.set(innovation, nodes);
+    }
+
+    return node;
+  }
+
+  /**
+   * Adds the innovations of the other tracker, keeping the counters above
+   * the numbers assigned by either of them.
+   *
+   * @param other
+   */
+  public merge(other: InnovationTracker | SerializedInnovationTracker): void {
+    const serialized = other instanceof InnovationTracker ? other.serialize() : other;
+
+    this._nodes = Math.max(this._nodes, serialized.nodes);
+    this._innovations = Math.max(this._innovations, serialized.innovations);
+
+    for (const { input, output, innovation } of serialized.connections) {
+      const key = `${input}:${output}`;
+
+      if (!this._connections.has(key)) {
+        this._connections.set(key, innovation);
+      }
+    }
+
+    for (const { innovation, nodes } of serialized.splits) {
+      const known = this._splits.get(innovation) ?? [];
+      this._splits.set(innovation, known.concat(nodes.filter((node) => !known.includes(node))));
+    }
+  }
+
+  /**
+   *
+   */
+  public serialize(): SerializedInnovationTracker {
+    const connections = Array.from(this._connections.entries()).map(([key, innovation]) => {
+      const [input, output] = key.split(":").map(Number);
+      return { input, output, innovation };
+    });
+
+    const splits = Array.from(this._splits.entries()).map(([innovation, nodes]) => ({
+      innovation,
+      nodes: nodes.slice(),
+    }));
+
+    return {
+      nodes: this._nodes,
+      innovations: this._innovations,
+      connections,
+      splits,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { InnovationTracker } from "./innovation_tracker";
+
+describe("InnovationTracker", () => {
+  describe("connection", () => {
+    it("reuses the innovation number of a known connection", () => {
+      const tracker = new InnovationTracker();
+
+      expect(tracker.connection(0, 2)).toBe(0);
+      expect(tracker.connection(1, 2)).toBe(1);
+      expect(tracker.connection(0, 2)).toBe(0);
+      expect(tracker.innovations).toBe(2);
+    });
+  });
+
+  describe("split", () => {
+    it("reuses the node created by splitting the same connection", () => {
+      const tracker = new InnovationTracker();
+      tracker.reserveNodes(3);
+
+      expect(tracker.split(0)).toBe(3);
+      expect(tracker.split(0)).toBe(3);
+      expect(tracker.split(1)).toBe(4);
+    });
+
+    it("creates a new node if the known one is already used", () => {
+      const tracker = new InnovationTracker();
+
+      const node = tracker.split(0);
+
+      expect(tracker.split(0, (id) => id === node)).not.toBe(node);
+    });
+  });
+
+  describe("merge", () => {
+    it("keeps the counters above the numbers assigned by both trackers", () => {
+      const trackerA = new InnovationTracker();
+      const trackerB = new InnovationTracker();
+
+      trackerA.connection(0, 1);
+      trackerB.connection(0, 1);
+      trackerB.connection(1, 2);
+      trackerB.reserveNodes(5);
+
+      trackerA.merge(trackerB);
+
+      expect(trackerA.connection(1, 2)).toBe(1);
+      expect(trackerA.connection(2, 3)).toBe(2);
+      expect(trackerA.node()).toBe(5);
+    });
+  });
+
+  describe("serialize", () => {
+    it("restores the tracker", () => {
+      const tracker = new InnovationTracker();
+
+      tracker.connection(0, 1);
+      tracker.connection(1, 2);
+      tracker.split(1);
+
+      const restored = InnovationTracker.deserialize(JSON.parse(JSON.stringify(tracker.serialize())));
+
+      expect(restored.serialize()).toEqual(tracker.serialize());
+      expect(restored.split(1)).toBe(tracker.split(1));
+    });
+  });
+});
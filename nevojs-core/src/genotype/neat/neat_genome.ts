@@ -0,0 +1,367 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { InnovationTracker, SerializedInnovationTracker } from "./innovation_tracker";
+import { Random, getRandom } from "../../random";
+import { AbstractGenotype } from "../abstract_genotype";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+/**
+ * Bias nodes always output 1.
+ */
+export type NodeType = "input" | "bias" | "hidden" | "output";
+
+/**
+ *
+ */
+export interface NodeGene {
+  id: number;
+  type: NodeType;
+  activation: string;
+}
+
+/**
+ *
+ */
+export interface ConnectionGene {
+  innovation: number;
+  input: number;
+  output: number;
+  weight: number;
+  enabled: boolean;
+}
+
+/**
+ *
+ */
+export interface NeatData {
+  nodes: NodeGene[];
+  connections: ConnectionGene[];
+}
+
+/**
+ *
+ */
+export interface SerializedNeatGenome extends NeatData {
+  tracker: SerializedInnovationTracker;
+}
+
+/**
+ *
+ */
+export interface NeatGenomeSettings {
+  inputs: number;
+  outputs: number;
+  tracker: InnovationTracker;
+  bias?: boolean;
+  connected?: boolean;
+  activation?: string;
+  random?: Random;
+}
+
+/**
+ *
+ */
+export interface CompatibilitySettings {
+  excess?: number;
+  disjoint?: number;
+  weight?: number;
+}
+
+/**
+ * @hidden
+ */
+export function copyNeatData(data: NeatData): NeatData {
+  return {
+    nodes: data.nodes.map((node) => ({ ...node })),
+    connections: data.connections.map((connection) => ({ ...connection })),
+  };
+}
+
+/**
+ * @hidden
+ */
+export function isSource(node: NodeGene): boolean {
+  return node.type === "input" || node.type === "bias";
+}
+
+function neatViolation(data: any): string | undefined {
+  if (data === null || typeof data !== "object" || !Array.isArray(data.nodes) || !Array.isArray(data.connections)) {
+    return "malformed genome";
+  }
+
+  const nodes = new Map<number, NodeGene>();
+
+  for (const node of data.nodes as NodeGene[]) {
+    if (!Number.isInteger(node.id) || !["input", "bias", "hidden", "output"].includes(node.type)) {
+      return "malformed node gene";
+    }
+
+    if (nodes.has(node.id)) {
+      return `node ${node.id} is defined more than once`;
+    }
+
+    nodes.set(node.id, node);
+  }
+
+  const innovations = new Set<number>();
+
+  for (const connection of data.connections as ConnectionGene[]) {
+    if (!Number.isInteger(connection.innovation) || typeof connection.weight !== "number" || isNaN(connection.weight)) {
+      return "malformed connection gene";
+    }
+
+    if (innovations.has(connection.innovation)) {
+      return `innovation ${connection.innovation} occurs more than once`;
+    }
+
+    const input = nodes.get(connection.input);
+    const output = nodes.get(connection.output);
+
+    if (input === undefined || output === undefined) {
+      return `connection ${connection.innovation} refers to a missing node`;
+    }
+
+    if (isSource(output)) {
+      return `connection ${connection.innovation} leads to an input node`;
+    }
+
+    innovations.add(connection.innovation);
+  }
+
+  return undefined;
+}
+
+/**
+ * Graph genotype made of node and connection genes, as described in the
+ * NeuroEvolution of Augmenting Topologies (NEAT) paper. Genomes created from
+ * the same {@link InnovationTracker} can be aligned by the innovation numbers
+ * of their connections.
+ */
+export class NeatGenome extends AbstractGenotype<NeatData> {
+  /**
+   * Creates a genome without hidden nodes. Inputs get the ids from 0, followed
+   * by the bias and the outputs, so that all minimal genomes of the tracker
+   * share them.
+   *
+   * @param settings
+   */
+  public static minimal(settings: NeatGenomeSettings): NeatGenome {
+    const { inputs, outputs, tracker } = settings;
+    const bias = settings.bias ?? true;
+    const connected = settings.connected ?? true;
+    const activation = settings.activation ?? "sigmoid";
+    const random = settings.random ?? getRandom();
+
+    if (!isPositiveInt(inputs) || !isPositiveInt(outputs) || !(tracker instanceof InnovationTracker)) {
+      throw new TypeError();
+    }
+
+    const nodes: NodeGene[] = [];
+
+    for (let i = 0; i < inputs; i++) {
+      nodes.push({ id: i, type: "input", activation: "identity" });
+    }
+
+    if (bias) {
+      nodes.push({ id: inputs, type: "bias", activation: "identity" });
+    }
+
+    const sources = nodes.slice();
+    const offset = inputs + 1;
+
+    for (let i = 0; i < outputs; i++) {
+      nodes.push({ id: offset + i, type: "output", activation });
+    }
+
+    tracker.reserveNodes(offset + outputs);
+
+    const connections: ConnectionGene[] = [];
+
+    if (connected) {
+      for (const source of sources) {
+        for (let i = 0; i < outputs; i++) {
+          connections.push({
+            innovation: tracker.connection(source.id, offset + i),
+            input: source.id,
+            output: offset + i,
+            weight: random.next() * 2 - 1,
+            enabled: true,
+          });
+        }
+      }
+    }
+
+    return new NeatGenome({ nodes, connections }, tracker);
+  }
+
+  /**
+   * Restores the genome and merges the serialized innovations into the given
+   * tracker. Passing the same tracker for every genome of a population keeps
+   * them aligned.
+   *
+   * @param serialized
+   * @param tracker
+   */
+  public static deserialize(serialized: SerializedNeatGenome, tracker?: InnovationTracker): NeatGenome {
+    if (serialized === null || typeof serialized !== "object" || serialized.tracker === undefined) {
+      throw new TypeError();
+    }
+
+    if (tracker === undefined) {
+      tracker = InnovationTracker.deserialize(serialized.tracker);
+    } else {
+      tracker.merge(serialized.tracker);
+    }
+
+    return new NeatGenome({ nodes: serialized.nodes, connections: serialized.connections }, tracker);
+  }
+
+  /**
+   *
+   */
+  public readonly tracker: InnovationTracker;
+
+  /**
+   *
+   * @param data
+   * @param tracker
+   */
+  public constructor(data: NeatData, tracker: InnovationTracker) {
+    if (!(tracker instanceof InnovationTracker)) {
+      throw new TypeError();
+    }
+
+    const violation = neatViolation(data);
+
+    if (violation !== undefined) {
+      throw new TypeError(`invalid genome: ${violation}`);
+    }
+
+    super(copyNeatData(data));
+    this.tracker = tracker;
+  }
+
+  /**
+   *
+   */
+  public data(): NeatData {
+    return copyNeatData(this._data);
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<NeatData>): void {
+    const data = method(this.data());
+    const violation = neatViolation(data);
+
+    if (violation !== undefined) {
+      throw new TypeError(`mutation method produced an invalid genome: ${violation}`);
+    }
+
+    this._data = copyNeatData(data);
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: NeatData) => NeatData): NeatGenome {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new NeatGenome(data, this.tracker);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: NeatGenome[], method: CrossoverMethod<NeatData>): NeatGenome[] {
+    return super.makeOffspring(partners, method, (data) => new NeatGenome(data, this.tracker));
+  }
+
+  /**
+   * Compatibility distance used for speciation, the weighted sum of the
+   * amounts of excess and disjoint genes (normalized by the size of the larger
+   * genome, if it has at least 20 genes) and the mean weight difference of the
+   * matching genes.
+   *
+   * @param other
+   * @param settings
+   */
+  public distance(other: NeatGenome, settings: CompatibilitySettings = {}): number {
+    if (!(other instanceof NeatGenome)) {
+      throw new TypeError();
+    }
+
+    const { excess = 1, disjoint = 1, weight = 0.4 } = settings;
+    const genesA = new Map(this._data.connections.map((gene) => [gene.innovation, gene]));
+    const genesB = new Map(other._data.connections.map((gene) => [gene.innovation, gene]));
+    const innovations = Array.from(new Set([...Array.from(genesA.keys()), ...Array.from(genesB.keys())]));
+
+    const threshold = Math.min(
+      Math.max(-1, ...Array.from(genesA.keys())),
+      Math.max(-1, ...Array.from(genesB.keys())),
+    );
+
+    let excessCount = 0;
+    let disjointCount = 0;
+    let matching = 0;
+    let difference = 0;
+
+    for (const innovation of innovations) {
+      const geneA = genesA.get(innovation);
+      const geneB = genesB.get(innovation);
+
+      if (geneA !== undefined && geneB !== undefined) {
+        matching += 1;
+        difference += Math.abs(geneA.weight - geneB.weight);
+      } else if (innovation > threshold) {
+        excessCount += 1;
+      } else {
+        disjointCount += 1;
+      }
+    }
+
+    const size = Math.max(genesA.size, genesB.size);
+    const n = size >= 20 ? size : 1;
+
+    return (excess * excessCount + disjoint * disjointCount) / n
+      + weight * (matching > 0 ? difference / matching : 0);
+  }
+
+  /**
+   * Includes the state of the tracker, see {@link NeatGenome.deserialize}.
+   */
+  public __serialize(): SerializedNeatGenome {
+    return {
+      ...this.data(),
+      tracker: this.tracker.serialize(),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Individual } from "../../individual/individual";
+import { InnovationTracker } from "./innovation_tracker";
+import { NeatGenome } from "./neat_genome";
+import { Xoshiro128 } from "../../random";
+
+function genomeFixture(tracker: InnovationTracker = new InnovationTracker()) {
+  return NeatGenome.minimal({ inputs: 2, outputs: 1, tracker, random: new Xoshiro128(1) });
+}
+
+describe("NeatGenome", () => {
+  describe("minimal", () => {
+    it("connects every input and the bias to every output", () => {
+      const genome = NeatGenome.minimal({ inputs: 3, outputs: 2, tracker: new InnovationTracker() });
+      const data = genome.data();
+
+      expect(data.nodes.map((node) => node.type)).toEqual(["input", "input", "input", "bias", "output", "output"]);
+      expect(data.connections.length).toBe(8);
+    });
+
+    it("assigns the same innovation numbers to genomes sharing the tracker", () => {
+      const tracker = new InnovationTracker();
+
+      const genomeA = genomeFixture(tracker);
+      const genomeB = NeatGenome.minimal({ inputs: 2, outputs: 1, tracker });
+
+      expect(genomeA.data().connections.map((gene) => gene.innovation))
+        .toEqual(genomeB.data().connections.map((gene) => gene.innovation));
+    });
+
+    it("creates no connections if not connected", () => {
+      const genome = NeatGenome.minimal({ inputs: 2, outputs: 1, tracker: new InnovationTracker(), connected: false });
+
+      expect(genome.data().connections).toEqual([]);
+    });
+
+    it("throws a TypeError if the amount of inputs or outputs is not a positive integer", () => {
+      const tracker = new InnovationTracker();
+
+      expect(() => NeatGenome.minimal({ inputs: 0, outputs: 1, tracker })).toThrow(TypeError);
+      expect(() => NeatGenome.minimal({ inputs: 1, outputs: 1.5, tracker })).toThrow(TypeError);
+    });
+  });
+
+  describe("constructor", () => {
+    it("throws a TypeError if a connection refers to a missing node", () => {
+      const data = genomeFixture().data();
+      data.connections[0].output = 10;
+
+      expect(() => new NeatGenome(data, new InnovationTracker())).toThrow("refers to a missing node");
+    });
+
+    it("throws a TypeError if a connection leads to an input", () => {
+      const data = genomeFixture().data();
+      data.connections[0].output = 1;
+
+      expect(() => new NeatGenome(data, new InnovationTracker())).toThrow("leads to an input node");
+    });
+
+    it("throws a TypeError if an innovation number is repeated", () => {
+      const data = genomeFixture().data();
+      data.connections[1].innovation = data.connections[0].innovation;
+
+      expect(() => new NeatGenome(data, new InnovationTracker())).toThrow(TypeError);
+    });
+  });
+
+  describe("mutate", () => {
+    it("throws a TypeError if the mutation method produced an invalid genome", () => {
+      const genome = genomeFixture();
+
+      expect(() => genome.mutate((data) => ({ ...data, nodes: [] }))).toThrow(TypeError);
+    });
+  });
+
+  describe("distance", () => {
+    it("returns 0 for identical genomes", () => {
+      const genome = genomeFixture();
+
+      expect(genome.distance(genome.clone())).toBe(0);
+    });
+
+    it("counts the excess and disjoint genes", () => {
+      const tracker = new InnovationTracker();
+      const genome = genomeFixture(tracker);
+
+      const smaller = genome.clone((data) => ({ ...data, connections: data.connections.slice(1) }));
+      const larger = genome.clone((data) => ({ ...data, connections: data.connections.slice(0, 2) }));
+
+      expect(smaller.distance(larger, { excess: 2, disjoint: 3, weight: 0 })).toBe(2 + 3);
+    });
+
+    it("adds the mean weight difference of the matching genes", () => {
+      const genome = genomeFixture();
+      const other = genome.clone((data) => {
+        data.connections[0].weight += 1;
+        return data;
+      });
+
+      expect(genome.distance(other, { weight: 0.6 })).toBeCloseTo(0.6 / 3);
+    });
+  });
+
+  describe("__serialize", () => {
+    it("can be restored into a shared tracker", () => {
+      const tracker = new InnovationTracker();
+      const individual = new Individual({ genotype: genomeFixture() });
+
+      const restored = Individual.fromJSON(individual.toJSON(), {
+        genotype: (json: any) => NeatGenome.deserialize(json, tracker),
+      });
+
+      expect(restored.genotype.data()).toEqual(individual.genotype.data());
+      expect(restored.genotype.tracker).toBe(tracker);
+      expect(tracker.innovations).toBe(3);
+    });
+  });
+});
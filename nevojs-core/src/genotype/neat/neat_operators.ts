@@ -0,0 +1,306 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { ConnectionGene, NeatData, isSource } from "./neat_genome";
+import { RandomSettings, getRandom } from "../../random";
+import { ScalarizationMethod, weightedSum } from "../../individual/multiobjective_optimization/scalarization";
+import { Scheduled, isScheduled, resolveSchedule } from "../../operators/schedule";
+import { CrossoverMethod } from "../../operators/crossover";
+import { InnovationTracker } from "./innovation_tracker";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+function isProbability(value: unknown): boolean {
+  return typeof value === "number" && !isNaN(value) && 0 <= value && value <= 1;
+}
+
+function reaches(connections: ConnectionGene[], from: number, to: number): boolean {
+  const visited = new Set<number>([from]);
+  const stack = [from];
+
+  while (stack.length > 0) {
+    const node = stack.pop() as number;
+
+    if (node === to) {
+      return true;
+    }
+
+    for (const connection of connections) {
+      if (connection.input === node && !visited.has(connection.output)) {
+        visited.add(connection.output);
+        stack.push(connection.output);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ *
+ */
+export interface AddNodeMutationSettings extends RandomSettings {
+  activation?: string;
+}
+
+/**
+ * Splits a random enabled connection with a new hidden node. The incoming
+ * connection gets the weight of 1 and the outgoing one the weight of the
+ * disabled connection, so the behavior of the network barely changes.
+ *
+ * @param tracker
+ * @param settings
+ * @category neat
+ */
+export function addNode(tracker: InnovationTracker, settings: AddNodeMutationSettings = {}): MutationMethod<NeatData> {
+  const activation = settings.activation ?? "sigmoid";
+
+  if (!(tracker instanceof InnovationTracker) || typeof activation !== "string") {
+    throw new TypeError();
+  }
+
+  return (data) => {
+    const random = settings.random ?? getRandom();
+    const candidates = data.connections.filter((connection) => connection.enabled);
+
+    if (candidates.length === 0) {
+      return data;
+    }
+
+    const split = candidates[Math.floor(random.next() * candidates.length)];
+    const ids = new Set(data.nodes.map((node) => node.id));
+    const id = tracker.split(split.innovation, (node) => ids.has(node));
+
+    split.enabled = false;
+    data.nodes.push({ id, type: "hidden", activation });
+
+    data.connections.push({
+      innovation: tracker.connection(split.input, id),
+      input: split.input,
+      output: id,
+      weight: 1,
+      enabled: true,
+    }, {
+      innovation: tracker.connection(id, split.output),
+      input: id,
+      output: split.output,
+      weight: split.weight,
+      enabled: true,
+    });
+
+    return data;
+  };
+}
+
+/**
+ *
+ */
+export interface AddConnectionMutationSettings extends RandomSettings {
+  recurrent?: boolean;
+  attempts?: number;
+  power?: number;
+}
+
+/**
+ * Connects a random pair of unconnected nodes. Unless `recurrent` is set,
+ * connections that would close a cycle (disabled connections included, so
+ * that they can be enabled again) are rejected. Gives up after the given
+ * amount of attempts.
+ *
+ * @param tracker
+ * @param settings
+ * @category neat
+ */
+export function addConnection(
+  tracker: InnovationTracker,
+  settings: AddConnectionMutationSettings = {},
+): MutationMethod<NeatData> {
+  const recurrent = settings.recurrent ?? false;
+  const attempts = settings.attempts ?? 20;
+  const power = settings.power ?? 1;
+
+  if (!(tracker instanceof InnovationTracker) || !isPositiveInt(attempts)) {
+    throw new TypeError();
+  }
+
+  if (typeof power !== "number" || isNaN(power) || 0 > power) {
+    throw new TypeError();
+  }
+
+  return (data) => {
+    const random = settings.random ?? getRandom();
+    const targets = data.nodes.filter((node) => !isSource(node));
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const input = data.nodes[Math.floor(random.next() * data.nodes.length)].id;
+      const output = targets[Math.floor(random.next() * targets.length)].id;
+
+      const exists = data.connections.some((connection) => connection.input === input && connection.output === output);
+
+      if (exists || (!recurrent && reaches(data.connections, output, input))) {
+        continue;
+      }
+
+      data.connections.push({
+        innovation: tracker.connection(input, output),
+        input,
+        output,
+        weight: (random.next() * 2 - 1) * power,
+        enabled: true,
+      });
+
+      break;
+    }
+
+    return data;
+  };
+}
+
+/**
+ *
+ */
+export interface WeightMutationSettings extends RandomSettings {
+  rate?: Scheduled;
+  power?: number;
+  replaceRate?: number;
+}
+
+/**
+ * Perturbs the weight of every connection with the given probability by a
+ * uniform value from `[-power, power]`. Perturbed weights are replaced with a
+ * new random value instead with the probability of `replaceRate`.
+ *
+ * @param settings
+ * @category neat
+ */
+export function perturbWeights(settings: WeightMutationSettings = {}): MutationMethod<NeatData> {
+  const rate = settings.rate ?? 0.8;
+  const power = settings.power ?? 0.5;
+  const replaceRate = settings.replaceRate ?? 0.1;
+
+  if (!isScheduled(rate) || (typeof rate === "number" && !isProbability(rate)) || !isProbability(replaceRate)) {
+    throw new TypeError();
+  }
+
+  if (typeof power !== "number" || isNaN(power) || 0 > power) {
+    throw new TypeError();
+  }
+
+  return (data, context) => {
+    const random = settings.random ?? getRandom();
+    const current = resolveSchedule(rate, context);
+
+    if (!isProbability(current)) {
+      throw new TypeError(`scheduled mutation rate ${current} is not in the [0, 1] range`);
+    }
+
+    for (const connection of data.connections) {
+      if (current > random.next()) {
+        const delta = (random.next() * 2 - 1) * power;
+
+        connection.weight = replaceRate > random.next()
+          ? delta
+          : connection.weight + delta;
+      }
+    }
+
+    return data;
+  };
+}
+
+/**
+ * Enables or disables a random connection.
+ *
+ * @param settings
+ * @category neat
+ */
+export function toggleEnable(settings: RandomSettings = {}): MutationMethod<NeatData> {
+  return (data) => {
+    const random = settings.random ?? getRandom();
+
+    if (data.connections.length > 0) {
+      const connection = data.connections[Math.floor(random.next() * data.connections.length)];
+      connection.enabled = !connection.enabled;
+    }
+
+    return data;
+  };
+}
+
+/**
+ *
+ */
+export interface NeatCrossoverSettings extends RandomSettings {
+  disabledProbability?: number;
+  target?: ScalarizationMethod;
+}
+
+/**
+ * Produces a single child of two genomes. Matching genes are inherited from a
+ * random parent, while the disjoint and excess genes are taken from the
+ * fitter parent only. The parents are ranked by the `target` (the weighted
+ * sum of the objectives by default) of the individuals in the crossover
+ * context, without the context or on a tie the first parent is the fitter
+ * one. A gene disabled in either parent stays disabled with the
+ * `disabledProbability`.
+ *
+ * @param settings
+ * @category neat
+ */
+export function crossover(settings: NeatCrossoverSettings = {}): CrossoverMethod<NeatData> {
+  const disabledProbability = settings.disabledProbability ?? 0.75;
+  const target = settings.target ?? weightedSum;
+
+  if (!isProbability(disabledProbability)) {
+    throw new TypeError();
+  }
+
+  if (typeof target !== "function") {
+    throw new TypeError();
+  }
+
+  return (parents, context) => {
+    if (parents.length !== 2) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const individuals = context?.parents ?? [];
+
+    const swap = individuals.length === 2 && target(individuals[1]) > target(individuals[0]);
+    const [parentA, parentB] = swap ? [parents[1], parents[0]] : parents;
+    const genesB = new Map(parentB.connections.map((gene) => [gene.innovation, gene]));
+
+    const connections = parentA.connections.map((geneA) => {
+      const geneB = genesB.get(geneA.innovation);
+
+      if (geneB === undefined) {
+        return { ...geneA };
+      }
+
+      const gene = { ...(random.next() < 0.5 ? geneA : geneB) };
+
+      if (!geneA.enabled || !geneB.enabled) {
+        gene.enabled = disabledProbability <= random.next();
+      }
+
+      return gene;
+    });
+
+    return [{ nodes: parentA.nodes, connections }];
+  };
+}
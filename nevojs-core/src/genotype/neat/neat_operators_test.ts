@@ -0,0 +1,216 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { addConnection, addNode, crossover, perturbWeights, toggleEnable } from "./neat_operators";
+import { Individual } from "../../individual/individual";
+import { InnovationTracker } from "./innovation_tracker";
+import { NeatGenome } from "./neat_genome";
+import { Network } from "./network";
+import { Xoshiro128 } from "../../random";
+import { linear } from "../../operators/schedule";
+import { maximize } from "../../creation";
+
+function genomeFixture(tracker: InnovationTracker) {
+  return NeatGenome.minimal({ inputs: 2, outputs: 1, tracker, random: new Xoshiro128(1) });
+}
+
+describe("addNode", () => {
+  it("splits an enabled connection preserving its weight", () => {
+    const tracker = new InnovationTracker();
+    const genome = genomeFixture(tracker);
+
+    genome.mutate(addNode(tracker));
+
+    const data = genome.data();
+    const disabled = data.connections.find((connection) => !connection.enabled);
+    const hidden = data.nodes.find((node) => node.type === "hidden");
+
+    expect(disabled).toBeDefined();
+    expect(hidden).toBeDefined();
+
+    const incoming = data.connections.find((connection) => connection.output === hidden?.id);
+    const outgoing = data.connections.find((connection) => connection.input === hidden?.id);
+
+    expect(incoming).toMatchObject({ input: disabled?.input, weight: 1 });
+    expect(outgoing).toMatchObject({ output: disabled?.output, weight: disabled?.weight });
+  });
+
+  it("assigns the same innovations to the same split in different genomes", () => {
+    const tracker = new InnovationTracker();
+    const genomeA = genomeFixture(tracker);
+    const genomeB = genomeFixture(tracker);
+
+    genomeA.mutate(addNode(tracker, { random: new Xoshiro128(3) }));
+    genomeB.mutate(addNode(tracker, { random: new Xoshiro128(3) }));
+
+    expect(genomeB.data()).toEqual(genomeA.data());
+    expect(tracker.innovations).toBe(5);
+  });
+
+  it("does not reuse a node the genome already contains", () => {
+    const tracker = new InnovationTracker();
+    const genome = genomeFixture(tracker);
+
+    genome.mutate(addNode(tracker, { random: new Xoshiro128(3) }));
+    genome.mutate((data) => {
+      data.connections.forEach((connection) => connection.enabled = connection.innovation < 3);
+      return data;
+    });
+
+    genome.mutate(addNode(tracker, { random: new Xoshiro128(3) }));
+
+    expect(genome.data().nodes.filter((node) => node.type === "hidden").length).toBe(2);
+  });
+});
+
+describe("addConnection", () => {
+  it("never creates cycles in feed-forward genomes", () => {
+    fc.assert(fc.property(fc.integer(), (seed) => {
+      const random = new Xoshiro128(seed);
+      const tracker = new InnovationTracker();
+      const genome = genomeFixture(tracker);
+
+      for (let i = 0; i < 10; i++) {
+        genome.mutate(addNode(tracker, { random }));
+        genome.mutate(addConnection(tracker, { random }));
+      }
+
+      expect(() => new Network(genome.data())).not.toThrow();
+    }), { numRuns: 50 });
+  });
+
+  it("adds a connection between unconnected nodes", () => {
+    const tracker = new InnovationTracker();
+    const genome = NeatGenome.minimal({ inputs: 2, outputs: 1, tracker, connected: false });
+
+    genome.mutate(addConnection(tracker));
+
+    expect(genome.data().connections.length).toBe(1);
+  });
+
+  it("throws a TypeError if the amount of attempts is not a positive integer", () => {
+    expect(() => addConnection(new InnovationTracker(), { attempts: 0 })).toThrow(TypeError);
+  });
+});
+
+describe("perturbWeights", () => {
+  it("keeps the weights within the given power", () => {
+    const tracker = new InnovationTracker();
+    const genome = genomeFixture(tracker);
+    const before = genome.data().connections.map((connection) => connection.weight);
+
+    genome.mutate(perturbWeights({ rate: 1, power: 0.1, replaceRate: 0 }));
+
+    genome.data().connections.forEach((connection, i) => {
+      expect(Math.abs(connection.weight - before[i])).toBeLessThanOrEqual(0.1);
+    });
+  });
+
+  it("throws a TypeError if the rate is out of range", () => {
+    expect(() => perturbWeights({ rate: 1.5 })).toThrow(TypeError);
+  });
+
+  it("resolves a scheduled rate against the context", () => {
+    const genome = genomeFixture(new InnovationTracker());
+    const method = perturbWeights({ rate: linear(0, 1, 10), replaceRate: 0, random: new Xoshiro128(1) });
+    const before = genome.data().connections.map((connection) => connection.weight);
+
+    genome.mutate((data) => method(data, { generation: 0 } as any));
+    expect(genome.data().connections.map((connection) => connection.weight)).toEqual(before);
+
+    genome.mutate((data) => method(data, { generation: 10 } as any));
+    genome.data().connections.forEach((connection, i) => expect(connection.weight).not.toBe(before[i]));
+
+    const invalid = perturbWeights({ rate: linear(1, 2, 10) });
+    expect(() => genome.mutate((data) => invalid(data, { generation: 5 } as any))).toThrow(TypeError);
+  });
+});
+
+describe("toggleEnable", () => {
+  it("toggles exactly one connection", () => {
+    const genome = genomeFixture(new InnovationTracker());
+
+    genome.mutate(toggleEnable());
+
+    expect(genome.data().connections.filter((connection) => !connection.enabled).length).toBe(1);
+  });
+});
+
+describe("crossover", () => {
+  it("takes the disjoint and excess genes from the first parent", () => {
+    const tracker = new InnovationTracker();
+    const parentA = genomeFixture(tracker);
+    const parentB = genomeFixture(tracker);
+
+    parentA.mutate(addNode(tracker));
+
+    const [child] = parentA.offspring([parentB], crossover());
+
+    expect(child.data().connections.map((gene) => gene.innovation))
+      .toEqual(parentA.data().connections.map((gene) => gene.innovation));
+
+    const [reverse] = parentB.offspring([parentA], crossover());
+
+    expect(reverse.data().connections.length).toBe(3);
+  });
+
+  it("takes the disjoint and excess genes from the fitter individual", () => {
+    const tracker = new InnovationTracker();
+    const genomeA = genomeFixture(tracker);
+    const genomeB = genomeFixture(tracker);
+
+    genomeA.mutate(addNode(tracker));
+
+    const innovations = (genome: NeatGenome) => genome.data().connections.map((gene) => gene.innovation);
+    const breed = (fitnessA: number, fitnessB: number) => {
+      const individualA = new Individual({ genotype: genomeA });
+      const individualB = new Individual({ genotype: genomeB });
+
+      individualA.evaluate(() => maximize(fitnessA));
+      individualB.evaluate(() => maximize(fitnessB));
+
+      return individualA.offspring([individualB], crossover())[0].genotype;
+    };
+
+    expect(innovations(breed(2, 1))).toEqual(innovations(genomeA));
+    expect(innovations(breed(1, 2))).toEqual(innovations(genomeB));
+  });
+
+  it("inherits the weights of the matching genes from both parents", () => {
+    const tracker = new InnovationTracker();
+    const parentA = genomeFixture(tracker);
+    const parentB = parentA.clone((data) => {
+      data.connections.forEach((connection) => connection.weight = 10);
+      return data;
+    });
+
+    const weights = new Set<number>();
+
+    for (let i = 0; i < 20; i++) {
+      const [child] = parentA.offspring([parentB], crossover());
+      child.data().connections.forEach((connection) => weights.add(connection.weight));
+    }
+
+    expect(weights.has(10)).toBe(true);
+    expect(weights.size).toBeGreaterThan(1);
+  });
+
+  it("throws a TypeError if the disabled probability is out of range", () => {
+    expect(() => crossover({ disabledProbability: -1 })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { ConnectionGene, NeatData, NeatGenome, NodeGene, isSource } from "./neat_genome";
+
+/**
+ *
+ */
+export type ActivationFunction = (x: number) => number;
+
+/**
+ * Activation functions available to the node genes by name. The registry can
+ * be extended with custom functions.
+ *
+ * @category neat
+ */
+export const activations: Record<string, ActivationFunction> = {
+  sigmoid: (x) => 1 / (1 + Math.exp(-4.9 * x)),
+  tanh: (x) => Math.tanh(x),
+  relu: (x) => Math.max(0, x),
+  identity: (x) => x,
+};
+
+function topologicalOrder(nodes: NodeGene[], connections: ConnectionGene[]): NodeGene[] {
+  const indegree = new Map(nodes.map((node) => [node.id, 0]));
+
+  for (const connection of connections) {
+    indegree.set(connection.output, (indegree.get(connection.output) as number) + 1);
+  }
+
+  const queue = nodes.filter((node) => indegree.get(node.id) === 0);
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const order: NodeGene[] = [];
+
+  while (queue.length > 0) {
+    const node = queue.shift() as NodeGene;
+    order.push(node);
+
+    for (const connection of connections) {
+      if (connection.input === node.id) {
+        const remaining = (indegree.get(connection.output) as number) - 1;
+        indegree.set(connection.output, remaining);
+
+        if (remaining === 0) {
+          queue.push(byId.get(connection.output) as NodeGene);
+        }
+      }
+    }
+  }
+
+  if (order.length !== nodes.length) {
+    throw new TypeError("feed-forward network contains a cycle");
+  }
+
+  return order;
+}
+
+/**
+ * Neural network described by a NEAT genome, using only the enabled
+ * connections. Feed-forward networks evaluate the nodes in topological order,
+ * while recurrent ones update all of the nodes at once from the values of the
+ * previous activation.
+ */
+export class Network {
+  /**
+   *
+   */
+  public readonly recurrent: boolean;
+
+  /**
+   *
+   */
+  private readonly nodes: NodeGene[];
+
+  /**
+   *
+   */
+  private readonly inputs: NodeGene[];
+
+  /**
+   *
+   */
+  private readonly outputs: NodeGene[];
+
+  /**
+   *
+   */
+  private readonly incoming: Map<number, ConnectionGene[]>;
+
+  /**
+   *
+   */
+  private values: Map<number, number> = new Map();
+
+  /**
+   *
+   * @param data
+   * @param recurrent
+   */
+  public constructor(data: NeatData, recurrent: boolean = false) {
+    const connections = data.connections.filter((connection) => connection.enabled);
+
+    if (data.nodes.some((node) => !isSource(node) && typeof activations[node.activation] !== "function")) {
+      throw new TypeError("unknown activation function");
+    }
+
+    this.recurrent = recurrent;
+    this.nodes = recurrent ? data.nodes.slice() : topologicalOrder(data.nodes, connections);
+    this.inputs = data.nodes.filter((node) => node.type === "input");
+    this.outputs = data.nodes.filter((node) => node.type === "output");
+    this.incoming = new Map(data.nodes.map((node) => [node.id, []]));
+
+    for (const connection of connections) {
+      (this.incoming.get(connection.output) as ConnectionGene[]).push(connection);
+    }
+
+    this.reset();
+  }
+
+  /**
+   * Returns the values of the output nodes.
+   *
+   * @param inputs
+   */
+  public activate(inputs: ArrayLike<number>): number[] {
+    if (inputs.length !== this.inputs.length) {
+      throw new TypeError();
+    }
+
+    const values = this.recurrent ? new Map(this.values) : this.values;
+    this.inputs.forEach((node, i) => values.set(node.id, inputs[i]));
+
+    const source = this.recurrent ? new Map(values) : values;
+
+    for (const node of this.nodes) {
+      if (isSource(node)) {
+        continue;
+      }
+
+      let sum = 0;
+
+      for (const connection of this.incoming.get(node.id) as ConnectionGene[]) {
+        sum += connection.weight * (source.get(connection.input) as number);
+      }
+
+      values.set(node.id, activations[node.activation](sum));
+    }
+
+    this.values = values;
+    return this.outputs.map((node) => values.get(node.id) as number);
+  }
+
+  /**
+   * Clears the state of a recurrent network.
+   */
+  public reset(): void {
+    this.values = new Map(this.nodes.map((node) => [node.id, node.type === "bias" ? 1 : 0]));
+  }
+}
+
+/**
+ * Phenotype function building a feed-forward network.
+ *
+ * @param genotype
+ * @category creation
+ */
+export function feedForward(genotype: NeatGenome): Network {
+  return new Network(genotype.data());
+}
+
+/**
+ * Phenotype function building a recurrent network.
+ *
+ * @param genotype
+ * @category creation
+ */
+export function recurrent(genotype: NeatGenome): Network {
+  return new Network(genotype.data(), true);
+}
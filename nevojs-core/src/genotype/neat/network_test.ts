@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { NeatData, NeatGenome } from "./neat_genome";
+import { Network, activations, feedForward, recurrent } from "./network";
+import { InnovationTracker } from "./innovation_tracker";
+
+function dataFixture(): NeatData {
+  return {
+    nodes: [
+      { id: 0, type: "input", activation: "identity" },
+      { id: 1, type: "bias", activation: "identity" },
+      { id: 2, type: "output", activation: "identity" },
+      { id: 3, type: "hidden", activation: "identity" },
+    ],
+    connections: [
+      { innovation: 0, input: 0, output: 3, weight: 2, enabled: true },
+      { innovation: 1, input: 3, output: 2, weight: 3, enabled: true },
+      { innovation: 2, input: 1, output: 2, weight: 0.5, enabled: true },
+      { innovation: 3, input: 0, output: 2, weight: 100, enabled: false },
+    ],
+  };
+}
+
+describe("activations", () => {
+  it("uses the steepened sigmoid", () => {
+    expect(activations.sigmoid(0)).toBe(0.5);
+    expect(activations.sigmoid(1)).toBeCloseTo(1 / (1 + Math.exp(-4.9)));
+  });
+});
+
+describe("Network", () => {
+  describe("activate", () => {
+    it("evaluates the enabled connections in topological order", () => {
+      const network = new Network(dataFixture());
+
+      expect(network.activate([1])).toEqual([6.5]);
+      expect(network.activate([2])).toEqual([12.5]);
+    });
+
+    it("delays the signal by one step per connection in recurrent networks", () => {
+      const network = new Network(dataFixture(), true);
+
+      expect(network.activate([1])).toEqual([0.5]);
+      expect(network.activate([0])).toEqual([6.5]);
+
+      network.reset();
+
+      expect(network.activate([0])).toEqual([0.5]);
+    });
+
+    it("supports cycles in recurrent networks", () => {
+      const data = dataFixture();
+      data.connections.push({ innovation: 4, input: 2, output: 2, weight: 1, enabled: true });
+
+      const network = new Network(data, true);
+      network.activate([0]);
+
+      expect(network.activate([0])).toEqual([1]);
+    });
+
+    it("throws a TypeError if the amount of inputs is wrong", () => {
+      expect(() => new Network(dataFixture()).activate([1, 2])).toThrow(TypeError);
+    });
+  });
+
+  describe("constructor", () => {
+    it("throws a TypeError if a feed-forward network contains a cycle", () => {
+      const data = dataFixture();
+      data.connections.push({ innovation: 4, input: 2, output: 3, weight: 1, enabled: true });
+
+      expect(() => new Network(data)).toThrow(TypeError);
+    });
+
+    it("throws a TypeError if the activation function is unknown", () => {
+      const data = dataFixture();
+      data.nodes[2].activation = "unknown";
+
+      expect(() => new Network(data)).toThrow(TypeError);
+    });
+  });
+});
+
+describe("feedForward", () => {
+  it("builds a network of the genome", () => {
+    const genome = NeatGenome.minimal({ inputs: 2, outputs: 3, tracker: new InnovationTracker() });
+
+    expect(feedForward(genome).activate([1, 0]).length).toBe(3);
+    expect(recurrent(genome).recurrent).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { RandomSettings, getRandom } from "../random";
+import { isPositiveInt, range, shuffle } from "../util";
+import { AbstractGenotype } from "./abstract_genotype";
+import { CrossoverMethod } from "../operators/crossover";
+import { MutationMethod } from "../operators/mutation";
+
+/**
+ * @hidden
+ * @param data
+ * @param length
+ */
+export function permutationViolation(data: unknown, length: number): string | undefined {
+  if (!Array.isArray(data)) {
+    return "expected an array";
+  }
+
+  if (data.length !== length) {
+    return `expected ${length} elements, got ${data.length}`;
+  }
+
+  const seen: boolean[] = new Array(length).fill(false);
+
+  for (const gene of data) {
+    if (!Number.isInteger(gene) || 0 > gene || gene >= length) {
+      return `element ${String(gene)} is not an integer in the [0, ${length - 1}] range`;
+    }
+
+    if (seen[gene]) {
+      return `element ${gene} occurs more than once`;
+    }
+
+    seen[gene] = true;
+  }
+
+  return undefined;
+}
+
+/**
+ * Ordering of the `[0, length - 1]` integers. The permutation invariant is
+ * checked after every mutation and crossover, so that operators which do not
+ * preserve it (such as `uniform` crossover or `map` mutation) are refused.
+ */
+export class Permutation extends AbstractGenotype<number[]> {
+  /**
+   *
+   * @param length
+   */
+  public static identity(length: number): Permutation {
+    if (!isPositiveInt(length)) {
+      throw new TypeError();
+    }
+
+    return new Permutation(range(0, length - 1));
+  }
+
+  /**
+   *
+   * @param length
+   * @param settings
+   */
+  public static random(length: number, settings: RandomSettings = {}): Permutation {
+    if (!isPositiveInt(length)) {
+      throw new TypeError();
+    }
+
+    return new Permutation(shuffle(range(0, length - 1), settings.random ?? getRandom()));
+  }
+
+  /**
+   *
+   */
+  public get length(): number {
+    return this._data.length;
+  }
+
+  /**
+   *
+   * @param data
+   */
+  public constructor(data: number[]) {
+    const violation = Array.isArray(data)
+      ? permutationViolation(data, data.length)
+      : "expected an array";
+
+    if (violation !== undefined || data.length === 0) {
+      throw new TypeError(`invalid permutation: ${violation ?? "expected at least one element"}`);
+    }
+
+    super(data.slice());
+  }
+
+  /**
+   *
+   */
+  public data(): number[] {
+    return super.data().slice();
+  }
+
+  /**
+   *
+   */
+  public inverse(): number[] {
+    const inverse = new Array(this.length);
+    this._data.forEach((gene, i) => inverse[gene] = i);
+
+    return inverse;
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<number[]>): void {
+    const data = method(this.data());
+    const violation = permutationViolation(data, this.length);
+
+    if (violation !== undefined) {
+      throw new TypeError(`mutation method does not preserve the permutation: ${violation}`);
+    }
+
+    this._data = data.slice();
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: number[]) => number[]): Permutation {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new Permutation(data);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: Permutation[], method: CrossoverMethod<number[]>): Permutation[] {
+    if (partners.some((partner) => !(partner instanceof Permutation) || partner.length !== this.length)) {
+      throw new TypeError("crossover partners have to be permutations of the same length");
+    }
+
+    return super.makeOffspring(partners, method, (data) => {
+      const violation = permutationViolation(data, this.length);
+
+      if (violation !== undefined) {
+        throw new TypeError(`crossover method does not preserve the permutation: ${violation}`);
+      }
+
+      return new Permutation(data);
+    });
+  }
+}
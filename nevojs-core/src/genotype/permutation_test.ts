@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { map, swap } from "../operators/mutation";
+import { ordered, uniform } from "../operators/crossover";
+import { Permutation } from "./permutation";
+import { Xoshiro128 } from "../random";
+
+describe("Permutation", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the data is not a permutation", () => {
+      [[], [1, 2], [0, 0], [0, 1.5], [0, "1"], "01"].forEach((data: any) => {
+        expect(() => new Permutation(data)).toThrow(TypeError);
+      });
+    });
+
+    it("does not share the array with the given data", () => {
+      const data = [1, 0, 2];
+      const permutation = new Permutation(data);
+      data.reverse();
+
+      expect(permutation.data()).toEqual([1, 0, 2]);
+    });
+  });
+
+  describe("identity", () => {
+    it("returns the ordered permutation", () => {
+      expect(Permutation.identity(4).data()).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  describe("random", () => {
+    it("returns the same permutation for the same seed", () => {
+      fc.assert(fc.property(fc.integer(1, 50), fc.integer(), (length, seed) => {
+        const a = Permutation.random(length, { random: new Xoshiro128(seed) });
+        const b = Permutation.random(length, { random: new Xoshiro128(seed) });
+
+        expect(a.data()).toEqual(b.data());
+      }));
+    });
+  });
+
+  describe("inverse", () => {
+    it("returns the position of every element", () => {
+      expect(new Permutation([2, 0, 1]).inverse()).toEqual([1, 2, 0]);
+    });
+  });
+
+  describe("mutate", () => {
+    it("accepts methods that preserve the permutation", () => {
+      const permutation = Permutation.identity(5);
+      permutation.mutate(swap());
+
+      expect(permutation.data().sort()).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it("refuses methods that break the permutation with a descriptive error", () => {
+      const permutation = Permutation.identity(5);
+
+      expect(() => permutation.mutate(map(() => 0))).toThrow(/occurs more than once/);
+      expect(() => permutation.mutate((data) => data.slice(1))).toThrow(/expected 5 elements/);
+      expect(permutation.data()).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe("offspring", () => {
+    it("accepts methods that preserve the permutation", () => {
+      const children = Permutation.identity(6).offspring([new Permutation([5, 4, 3, 2, 1, 0])], ordered());
+
+      expect(children.every((child) => child instanceof Permutation)).toBe(true);
+    });
+
+    it("refuses methods that break the permutation with a descriptive error", () => {
+      const parentA = Permutation.identity(6);
+      const parentB = new Permutation([5, 4, 3, 2, 1, 0]);
+
+      expect(() => parentA.offspring([parentB], uniform({ alpha: 0 }))).not.toThrow();
+      expect(() => {
+        for (let i = 0; i < 20; i++) {
+          parentA.offspring([parentB], uniform());
+        }
+      }).toThrow(/crossover method does not preserve the permutation/);
+    });
+
+    it("throws a TypeError if the partners have a different length", () => {
+      expect(() => Permutation.identity(3).offspring([Permutation.identity(4)], ordered())).toThrow(TypeError);
+    });
+  });
+});
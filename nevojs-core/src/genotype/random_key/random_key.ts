@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { RandomSettings, getRandom } from "../../random";
+import { isPositiveInt, range } from "../../util";
+import { AbstractGenotype } from "../abstract_genotype";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+
+function randomKeyViolation(keys: unknown, length?: number): string | undefined {
+  if (!Array.isArray(keys) || keys.length === 0) {
+    return "expected a non-empty array";
+  }
+
+  if (length !== undefined && keys.length !== length) {
+    return `expected ${length} keys, got ${keys.length}`;
+  }
+
+  const key = keys.findIndex((value) => typeof value !== "number" || !(value >= 0 && 1 > value));
+
+  return key === -1
+    ? undefined
+    : `key ${key} is not a number in the [0, 1) range`;
+}
+
+/**
+ * Vector of keys in the `[0, 1)` range, which are decoded into solutions of
+ * combinatorial problems, so that any crossover of the keys yields a valid
+ * solution.
+ */
+export class RandomKey extends AbstractGenotype<number[]> {
+  /**
+   *
+   * @param length
+   * @param settings
+   */
+  public static random(length: number, settings: RandomSettings = {}): RandomKey {
+    if (!isPositiveInt(length)) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    return new RandomKey(Array.from({ length }, () => random.next()));
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: number[]): RandomKey {
+    return new RandomKey(serialized);
+  }
+
+  /**
+   *
+   */
+  public get length(): number {
+    return this._data.length;
+  }
+
+  /**
+   *
+   * @param keys
+   */
+  public constructor(keys: number[]) {
+    const violation = randomKeyViolation(keys);
+
+    if (violation !== undefined) {
+      throw new TypeError(`invalid random keys: ${violation}`);
+    }
+
+    super(keys.slice());
+  }
+
+  /**
+   *
+   */
+  public data(): number[] {
+    return this._data.slice();
+  }
+
+  /**
+   * Indices of the keys sorted in ascending order.
+   */
+  public permutation(): number[] {
+    return range(0, this.length - 1).sort((a, b) => this._data[a] - this._data[b] || a - b);
+  }
+
+  /**
+   * Assigns every key to one of `bins` equal subranges of `[0, 1)`.
+   *
+   * @param bins
+   */
+  public assignment(bins: number): number[] {
+    if (!isPositiveInt(bins)) {
+      throw new TypeError();
+    }
+
+    return this._data.map((key) => Math.floor(key * bins));
+  }
+
+  /**
+   * Orders the items by their keys, the item with the highest key comes first.
+   *
+   * @param items
+   */
+  public priorities<T>(items: T[]): T[] {
+    if (!Array.isArray(items) || items.length !== this.length) {
+      throw new TypeError();
+    }
+
+    return this.permutation().reverse().map((i) => items[i]);
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<number[]>): void {
+    const data = method(this.data());
+    const violation = randomKeyViolation(data, this.length);
+
+    if (violation !== undefined) {
+      throw new TypeError(`mutation method produced invalid random keys: ${violation}`);
+    }
+
+    this._data = data.slice();
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: number[]) => number[]): RandomKey {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new RandomKey(data);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: RandomKey[], method: CrossoverMethod<number[]>): RandomKey[] {
+    return super.makeOffspring(partners, method, (data) => new RandomKey(data));
+  }
+
+  /**
+   *
+   */
+  public __serialize(): number[] {
+    return this.data();
+  }
+}
+
+/**
+ * Phenotype function decoding the keys into a permutation.
+ *
+ * @param genotype
+ * @category creation
+ */
+export function toPermutation(genotype: RandomKey): number[] {
+  return genotype.permutation();
+}
+
+/**
+ * Returns a phenotype function assigning every key to one of `bins` bins.
+ *
+ * @param bins
+ * @category creation
+ */
+export function toAssignment(bins: number): (genotype: RandomKey) => number[] {
+  if (!isPositiveInt(bins)) {
+    throw new TypeError();
+  }
+
+  return (genotype) => genotype.assignment(bins);
+}
+
+/**
+ * Returns a phenotype function ordering the items by their keys.
+ *
+ * @param items
+ * @category creation
+ */
+export function toPriorityList<T>(items: T[]): (genotype: RandomKey) => T[] {
+  if (!Array.isArray(items)) {
+    throw new TypeError();
+  }
+
+  return (genotype) => genotype.priorities(items);
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { RandomSettings, getRandom } from "../../random";
+import { CrossoverMethod } from "../../operators/crossover";
+
+/**
+ *
+ */
+export interface BiasedUniformCrossoverSettings extends RandomSettings {
+  bias?: number;
+}
+
+/**
+ * Parameterized uniform crossover, which produces a single child inheriting
+ * every key from the first parent with the `bias` probability. In BRKGA the
+ * first parent is the elite one.
+ *
+ * @param settings
+ * @category random-key
+ */
+export function biasedUniform(settings: BiasedUniformCrossoverSettings = {}): CrossoverMethod<number[]> {
+  const bias = settings.bias ?? 0.7;
+
+  if (typeof bias !== "number" || !(bias >= 0 && 1 >= bias)) {
+    throw new TypeError();
+  }
+
+  return ([elite, other]) => {
+    if (other === undefined || elite.length !== other.length) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    return [elite.map((key, i) => bias > random.next() ? key : other[i])];
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { Xoshiro128 } from "../../random";
+import { biasedUniform } from "./random_key_operators";
+
+describe("biasedUniform", () => {
+  it("produces a single child inheriting every key from one of the parents", () => {
+    fc.assert(fc.property(fc.array(fc.float(), 1, 20), fc.integer(), (elite, seed) => {
+      const other = elite.map((key) => key / 2);
+      const [child, ...rest] = biasedUniform({ random: new Xoshiro128(seed) })([elite, other]);
+
+      expect(rest.length).toBe(0);
+      expect(child.every((key, i) => key === elite[i] || key === other[i])).toBe(true);
+    }));
+  });
+
+  it("favours the elite parent", () => {
+    const elite = new Array(1000).fill(1);
+    const other = new Array(1000).fill(0);
+    const [child] = biasedUniform({ bias: 0.8, random: new Xoshiro128(4) })([elite, other]);
+    const inherited = child.filter((key) => key === 1).length;
+
+    expect(inherited).toBeGreaterThan(750);
+    expect(inherited).toBeLessThan(850);
+  });
+
+  it("throws a TypeError if the bias is not a probability", () => {
+    expect(() => biasedUniform({ bias: 1.5 })).toThrow(TypeError);
+    expect(() => biasedUniform()([[0.1], [0.2, 0.3]])).toThrow(TypeError);
+  });
+});
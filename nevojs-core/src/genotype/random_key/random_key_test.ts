@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { RandomKey, toAssignment, toPermutation, toPriorityList } from "./random_key";
+import { Individual } from "../../individual/individual";
+import { Permutation } from "../permutation";
+import { Xoshiro128 } from "../../random";
+import { blueprint } from "../../creation";
+
+describe("RandomKey", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if a key is out of the [0, 1) range", () => {
+      expect(() => new RandomKey([0.5, 1])).toThrow("key 1 is not a number in the [0, 1) range");
+      expect(() => new RandomKey([-0.1])).toThrow(TypeError);
+      expect(() => new RandomKey([])).toThrow(TypeError);
+    });
+  });
+
+  describe("random", () => {
+    it("is reproducible within a seeded blueprint", () => {
+      const create = () => blueprint({ genotype: () => RandomKey.random(5), random: new Xoshiro128(2) }).create(3);
+
+      expect(create().map((member) => member.genotype.data())).toEqual(create().map((member) => member.genotype.data()));
+    });
+  });
+
+  describe("permutation", () => {
+    it("sorts the indices by the keys", () => {
+      expect(new RandomKey([0.4, 0.1, 0.9, 0.3]).permutation()).toEqual([1, 3, 0, 2]);
+    });
+
+    it("always decodes to a valid permutation", () => {
+      fc.assert(fc.property(fc.integer(1, 30), fc.integer(), (length, seed) => {
+        const genotype = RandomKey.random(length, { random: new Xoshiro128(seed) });
+
+        expect(() => new Permutation(genotype.permutation())).not.toThrow();
+      }));
+    });
+  });
+
+  describe("assignment", () => {
+    it("assigns the keys to equal subranges", () => {
+      expect(new RandomKey([0, 0.3, 0.5, 0.99]).assignment(2)).toEqual([0, 0, 1, 1]);
+      expect(() => new RandomKey([0.5]).assignment(0)).toThrow(TypeError);
+    });
+  });
+
+  describe("priorities", () => {
+    it("puts the item with the highest key first", () => {
+      expect(new RandomKey([0.2, 0.8, 0.5]).priorities(["a", "b", "c"])).toEqual(["b", "c", "a"]);
+    });
+  });
+
+  describe("mutate", () => {
+    it("throws a TypeError if the mutation method produced invalid keys", () => {
+      const genotype = new RandomKey([0.1, 0.2]);
+
+      expect(() => genotype.mutate((keys) => keys.map((key) => key + 1))).toThrow(TypeError);
+      expect(genotype.data()).toEqual([0.1, 0.2]);
+    });
+  });
+
+  describe("decoders", () => {
+    it("can be used as phenotype functions", () => {
+      const genotype = new RandomKey([0.7, 0.2, 0.4]);
+
+      expect(new Individual({ genotype, phenotype: toPermutation }).phenotype).toEqual([1, 2, 0]);
+      expect(new Individual({ genotype, phenotype: toAssignment(3) }).phenotype).toEqual([2, 0, 1]);
+      expect(new Individual({ genotype, phenotype: toPriorityList(["x", "y", "z"]) }).phenotype).toEqual(["x", "z", "y"]);
+    });
+  });
+
+  describe("__serialize", () => {
+    it("can be deserialized", () => {
+      const individual = new Individual({ genotype: RandomKey.random(4) });
+      const restored = Individual.fromJSON(individual.toJSON(), { genotype: RandomKey.deserialize });
+
+      expect(restored.genotype.data()).toEqual(individual.genotype.data());
+    });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, getRandom } from "../../random";
+import { AbstractGenotype } from "../abstract_genotype";
+import { CrossoverMethod } from "../../operators/crossover";
+import { List } from "../list";
+import { MutationMethod } from "../../operators/mutation";
+import { isPositiveInt } from "../../util";
+
+/**
+ *
+ */
+export interface RealVectorData {
+  values: Float64Array;
+  lower: Float64Array;
+  upper: Float64Array;
+}
+
+/**
+ * A single number applies to every gene, an array gives bounds per gene.
+ */
+export interface RealVectorBounds {
+  lower: number | ArrayLike<number>;
+  upper: number | ArrayLike<number>;
+}
+
+/**
+ *
+ */
+export interface RealVectorRandomSettings extends RealVectorBounds {
+  random?: Random;
+}
+
+/**
+ *
+ */
+export interface SerializedRealVector {
+  values: number[];
+  lower: number[];
+  upper: number[];
+}
+
+/**
+ *
+ */
+export type RealVectorGenerateFunction = (i: number, lower: number, upper: number) => number;
+
+/**
+ * @hidden
+ */
+export function clamp(value: number, lower: number, upper: number): number {
+  return Math.min(Math.max(value, lower), upper);
+}
+
+/**
+ * Mirrors the value at the bounds until it is within them.
+ *
+ * @hidden
+ */
+export function reflect(value: number, lower: number, upper: number): number {
+  const width = upper - lower;
+
+  if (width === 0) {
+    return lower;
+  }
+
+  if (!isFinite(width)) {
+    if (lower > value) {
+      return 2 * lower - value;
+    }
+
+    return value > upper ? 2 * upper - value : value;
+  }
+
+  const offset = ((value - lower) % (2 * width) + 2 * width) % (2 * width);
+  return lower + (offset > width ? 2 * width - offset : offset);
+}
+
+/**
+ * Genotypes made of real numbers, which the continuous optimizers work on.
+ */
+export type RealGenotype = List<number> | RealVector;
+
+/**
+ * Data of a {@link RealGenotype}.
+ */
+export type RealData = number[] | RealVectorData;
+
+/**
+ *
+ */
+export interface RealInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * @hidden
+ */
+export function realValues(data: RealData): number[] {
+  return Array.isArray(data) ? data.slice() : Array.from(data.values);
+}
+
+/**
+ * @hidden
+ */
+export function withRealValues<D extends RealData>(data: D, values: number[]): D {
+  if (Array.isArray(data)) {
+    return values as D;
+  }
+
+  const { lower, upper } = data as RealVectorData;
+  return { values: Float64Array.from(values), lower, upper } as D;
+}
+
+/**
+ * Real vectors use their own bounds, lists use the given ones.
+ *
+ * @hidden
+ */
+export function realInterval(
+  data: RealData,
+  i: number,
+  lower: number | ArrayLike<number> = -Infinity,
+  upper: number | ArrayLike<number> = Infinity,
+): RealInterval {
+  if (!Array.isArray(data)) {
+    return { lower: data.lower[i], upper: data.upper[i] };
+  }
+
+  return {
+    lower: typeof lower === "number" ? lower : lower[i],
+    upper: typeof upper === "number" ? upper : upper[i],
+  };
+}
+
+function expandBound(bound: number | ArrayLike<number>, length: number): Float64Array {
+  if (typeof bound === "number") {
+    return new Float64Array(length).fill(bound);
+  }
+
+  if (bound === undefined || bound === null || bound.length !== length) {
+    throw new TypeError();
+  }
+
+  return Float64Array.from(bound);
+}
+
+function isRealVectorData(data: any): data is RealVectorData {
+  return data !== undefined
+    && data !== null
+    && data.values instanceof Float64Array
+    && data.lower instanceof Float64Array
+    && data.upper instanceof Float64Array
+    && data.values.length > 0
+    && data.values.length === data.lower.length
+    && data.values.length === data.upper.length;
+}
+
+function assertInBounds(data: RealVectorData): void {
+  for (let i = 0; i < data.values.length; i++) {
+    if (isNaN(data.lower[i]) || isNaN(data.upper[i]) || data.lower[i] > data.upper[i]) {
+      throw new TypeError();
+    }
+
+    if (!(data.values[i] >= data.lower[i] && data.upper[i] >= data.values[i])) {
+      throw new RangeError();
+    }
+  }
+}
+
+/**
+ * Vector of real numbers, each constrained to its own `[lower, upper]`
+ * interval. The bounds travel with the data, so that operators can respect
+ * the domain without extra settings.
+ */
+export class RealVector extends AbstractGenotype<RealVectorData> {
+  /**
+   *
+   * @param length
+   * @param bounds
+   * @param func
+   */
+  public static generate(length: number, bounds: RealVectorBounds, func: RealVectorGenerateFunction): RealVector {
+    if (!isPositiveInt(length)) {
+      throw new TypeError();
+    }
+
+    if (typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const lower = expandBound(bounds.lower, length);
+    const upper = expandBound(bounds.upper, length);
+    const values = new Float64Array(length);
+
+    for (let i = 0; i < length; i++) {
+      values[i] = func(i, lower[i], upper[i]);
+    }
+
+    return new RealVector({ values, lower, upper });
+  }
+
+  /**
+   * Draws every gene uniformly from its bounds, which therefore have to be
+   * finite.
+   *
+   * @param length
+   * @param settings
+   */
+  public static random(length: number, settings: RealVectorRandomSettings): RealVector {
+    const random = settings.random ?? getRandom();
+
+    return RealVector.generate(length, settings, (i, lower, upper) => {
+      if (!isFinite(lower) || !isFinite(upper)) {
+        throw new TypeError();
+      }
+
+      return lower + random.next() * (upper - lower);
+    });
+  }
+
+  /**
+   *
+   * @param values
+   * @param bounds
+   */
+  public static fromArray(values: ArrayLike<number>, bounds: RealVectorBounds): RealVector {
+    if (values === undefined || values === null) {
+      throw new TypeError();
+    }
+
+    return RealVector.generate(values.length, bounds, (i) => values[i]);
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: SerializedRealVector): RealVector {
+    if (
+      serialized === undefined
+      || serialized === null
+      || !Array.isArray(serialized.values)
+      || !Array.isArray(serialized.lower)
+      || !Array.isArray(serialized.upper)
+    ) {
+      throw new TypeError();
+    }
+
+    return new RealVector({
+      values: Float64Array.from(serialized.values),
+      lower: Float64Array.from(serialized.lower),
+      upper: Float64Array.from(serialized.upper),
+    });
+  }
+
+  /**
+   *
+   */
+  public get length(): number {
+    return this._data.values.length;
+  }
+
+  /**
+   *
+   * @param data
+   */
+  public constructor(data: RealVectorData) {
+    if (!isRealVectorData(data)) {
+      throw new TypeError();
+    }
+
+    const copy = {
+      values: data.values.slice(),
+      lower: data.lower.slice(),
+      upper: data.upper.slice(),
+    };
+
+    assertInBounds(copy);
+    super(copy);
+  }
+
+  /**
+   *
+   */
+  public data(): RealVectorData {
+    return {
+      values: this._data.values.slice(),
+      lower: this._data.lower.slice(),
+      upper: this._data.upper.slice(),
+    };
+  }
+
+  /**
+   *
+   */
+  public values(): number[] {
+    return Array.from(this._data.values);
+  }
+
+  /**
+   *
+   * @param i
+   */
+  public get(i: number): number {
+    if (!Number.isInteger(i) || 0 > i || i >= this.length) {
+      throw new RangeError();
+    }
+
+    return this._data.values[i];
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<RealVectorData>): void {
+    const length = this.length;
+    super.mutate(method);
+
+    if (!isRealVectorData(this._data) || this._data.values.length !== length) {
+      throw new TypeError();
+    }
+
+    assertInBounds(this._data);
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: RealVectorData) => RealVectorData): RealVector {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new RealVector(data);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: RealVector[], method: CrossoverMethod<RealVectorData>): RealVector[] {
+    return super.makeOffspring(partners, method, (data) => new RealVector(data));
+  }
+
+  /**
+   *
+   */
+  public __serialize(): SerializedRealVector {
+    return {
+      values: Array.from(this._data.values),
+      lower: Array.from(this._data.lower),
+      upper: Array.from(this._data.upper),
+    };
+  }
+}
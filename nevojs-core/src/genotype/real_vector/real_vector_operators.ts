@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { CrossoverMethod, simulatedBinaryGenes } from "../../operators/crossover";
+import { MutationContext, MutationMethod, polynomialGene } from "../../operators/mutation";
+import { RandomSettings, getRandom } from "../../random";
+import { RealVectorData, clamp } from "./real_vector";
+import { Scheduled, isScheduled, resolveSchedule } from "../../operators/schedule";
+import { randomGauss } from "../../util";
+
+/**
+ *
+ */
+export interface RealGaussMutationSettings extends RandomSettings {
+  sigma?: number;
+  rate?: Scheduled;
+}
+
+function isProbability(x: number): boolean {
+  return typeof x === "number" && !isNaN(x) && x >= 0 && 1 >= x;
+}
+
+function resolveRate(rate: Scheduled, context?: MutationContext): number {
+  const current = resolveSchedule(rate, context);
+
+  if (!isProbability(current)) {
+    throw new TypeError(`scheduled mutation rate ${current} is not in the [0, 1] range`);
+  }
+
+  return current;
+}
+
+function assertCompatible(parents: RealVectorData[]): void {
+  if (parents.length !== 2 || parents[0].values.length !== parents[1].values.length) {
+    throw new TypeError();
+  }
+}
+
+function child(parent: RealVectorData, values: Float64Array): RealVectorData {
+  return { values, lower: parent.lower.slice(), upper: parent.upper.slice() };
+}
+
+/**
+ * Adds gaussian noise to the genes and clamps them to their bounds. The
+ * standard deviation defaults to a tenth of the width of each gene's bounds
+ * (or 1 for unbounded genes).
+ *
+ * @param settings
+ * @category real-vector
+ */
+export function gauss(settings: RealGaussMutationSettings = {}): MutationMethod<RealVectorData> {
+  const { sigma, rate } = settings;
+
+  if (sigma !== undefined && (typeof sigma !== "number" || isNaN(sigma) || 0 > sigma)) {
+    throw new TypeError();
+  }
+
+  if (rate !== undefined && (!isScheduled(rate) || (typeof rate === "number" && !isProbability(rate)))) {
+    throw new TypeError();
+  }
+
+  return (data, context) => {
+    const random = settings.random ?? getRandom();
+    const probability = rate === undefined ? 1 : resolveRate(rate, context);
+
+    for (let i = 0; i < data.values.length; i++) {
+      if (probability > random.next()) {
+        const width = data.upper[i] - data.lower[i];
+        const sd = sigma ?? (isFinite(width) ? 0.1 * width : 1);
+
+        data.values[i] = clamp(data.values[i] + randomGauss(0, sd, random), data.lower[i], data.upper[i]);
+      }
+    }
+
+    return data;
+  };
+}
+
+/**
+ *
+ */
+export interface RealBlendCrossoverSettings extends RandomSettings {
+  alpha?: Scheduled;
+}
+
+/**
+ * Samples the children from the blend interval of the parents narrowed
+ * down to the bounds of each gene.
+ *
+ * @param settings
+ * @category real-vector
+ */
+export function blend(settings: RealBlendCrossoverSettings = {}): CrossoverMethod<RealVectorData> {
+  const alpha = settings.alpha ?? 0.5;
+
+  if (!isScheduled(alpha) || (typeof alpha === "number" && (isNaN(alpha) || 0 > alpha))) {
+    throw new TypeError();
+  }
+
+  return (parents, context) => {
+    assertCompatible(parents);
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+    const children = [parentA, parentB].map((parent) => child(parent, new Float64Array(parent.values.length)));
+    const current = resolveSchedule(alpha, context);
+
+    if (isNaN(current) || 0 > current) {
+      throw new TypeError(`scheduled alpha ${current} is negative`);
+    }
+
+    for (let i = 0; i < parentA.values.length; i++) {
+      const a = Math.min(parentA.values[i], parentB.values[i]);
+      const b = Math.max(parentA.values[i], parentB.values[i]);
+
+      const offset = current * (b - a);
+      const min = Math.max(a - offset, parentA.lower[i]);
+      const max = Math.min(b + offset, parentA.upper[i]);
+
+      for (const { values } of children) {
+        values[i] = random.next() * (max - min) + min;
+      }
+    }
+
+    return children;
+  };
+}
+
+/**
+ *
+ */
+export interface RealSimulatedBinaryCrossoverSettings extends RandomSettings {
+  distributionIndex?: number;
+  probability?: number;
+}
+
+/**
+ * Bounded simulated binary crossover using the bounds of the first parent.
+ *
+ * @param settings
+ * @category real-vector
+ */
+export function simulatedBinary(settings: RealSimulatedBinaryCrossoverSettings = {}): CrossoverMethod<RealVectorData> {
+  const distributionIndex = settings.distributionIndex ?? 20;
+  const probability = settings.probability ?? 0.5;
+
+  if (typeof distributionIndex !== "number" || !(distributionIndex >= 0)) {
+    throw new TypeError();
+  }
+
+  if (!isProbability(probability)) {
+    throw new TypeError();
+  }
+
+  return (parents) => {
+    assertCompatible(parents);
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+    const children = [parentA, parentB].map((parent) => child(parentA, parent.values.slice()));
+
+    for (let i = 0; i < parentA.values.length; i++) {
+      if (probability >= random.next()) {
+        const genes = simulatedBinaryGenes(
+          parentA.values[i],
+          parentB.values[i],
+          parentA.lower[i],
+          parentA.upper[i],
+          distributionIndex,
+          random,
+        );
+
+        children.forEach(({ values }, j) => values[i] = genes[j]);
+      }
+    }
+
+    return children;
+  };
+}
+
+/**
+ *
+ */
+export interface RealPolynomialMutationSettings extends RandomSettings {
+  distributionIndex?: number;
+  rate?: Scheduled;
+}
+
+/**
+ * Polynomial mutation using the bounds of the genes, which therefore have to
+ * be finite.
+ *
+ * @param settings
+ * @category real-vector
+ */
+export function polynomial(settings: RealPolynomialMutationSettings = {}): MutationMethod<RealVectorData> {
+  const distributionIndex = settings.distributionIndex ?? 20;
+  const { rate } = settings;
+
+  if (typeof distributionIndex !== "number" || !(distributionIndex >= 0)) {
+    throw new TypeError();
+  }
+
+  if (rate !== undefined && (!isScheduled(rate) || (typeof rate === "number" && !isProbability(rate)))) {
+    throw new TypeError();
+  }
+
+  return (data, context) => {
+    const random = settings.random ?? getRandom();
+    const probability = rate === undefined ? 1 / data.values.length : resolveRate(rate, context);
+
+    for (let i = 0; i < data.values.length; i++) {
+      if (probability >= random.next()) {
+        data.values[i] = polynomialGene(data.values[i], data.lower[i], data.upper[i], distributionIndex, random);
+      }
+    }
+
+    return data;
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { blend, gauss, polynomial, simulatedBinary } from "./real_vector_operators";
+import { RealVector } from "./real_vector";
+import { Xoshiro128 } from "../../random";
+import { linear } from "../../operators/schedule";
+
+function inBounds(vector: RealVector): boolean {
+  const { values, lower, upper } = vector.data();
+
+  return values.every((value, i) => value >= lower[i] && upper[i] >= value);
+}
+
+describe("gauss", () => {
+  it("keeps the values within the bounds", () => {
+    fc.assert(fc.property(fc.integer(), (seed) => {
+      const vector = RealVector.fromArray([0, 0.5, 1], { lower: 0, upper: 1 });
+      vector.mutate(gauss({ sigma: 10, random: new Xoshiro128(seed) }));
+
+      expect(inBounds(vector)).toBe(true);
+    }));
+  });
+
+  it("leaves the values untouched if the rate is equal to 0", () => {
+    const vector = RealVector.fromArray([0.2, 0.4], { lower: 0, upper: 1 });
+    vector.mutate(gauss({ rate: 0 }));
+
+    expect(vector.values()).toEqual([0.2, 0.4]);
+  });
+
+  it("scales the default deviation to the width of the bounds", () => {
+    const vector = RealVector.fromArray(new Array(1000).fill(0), { lower: -0.01, upper: 0.01 });
+    vector.mutate(gauss({ random: new Xoshiro128(1) }));
+
+    expect(vector.values().some((value) => value !== 0)).toBe(true);
+    expect(inBounds(vector)).toBe(true);
+  });
+
+  it("throws a TypeError if the settings are invalid", () => {
+    expect(() => gauss({ sigma: -1 })).toThrow(TypeError);
+    expect(() => gauss({ rate: 2 })).toThrow(TypeError);
+  });
+
+  it("resolves a scheduled rate against the context", () => {
+    const method = gauss({ rate: linear(0, 1, 10), random: new Xoshiro128(1) });
+    const vector = RealVector.fromArray([0.2, 0.4], { lower: 0, upper: 1 });
+
+    vector.mutate((data) => method(data, { generation: 0 } as any));
+    expect(vector.values()).toEqual([0.2, 0.4]);
+
+    vector.mutate((data) => method(data, { generation: 10 } as any));
+    expect(vector.values().every((value, i) => value !== [0.2, 0.4][i])).toBe(true);
+
+    const invalid = gauss({ rate: linear(1, 2, 10) });
+    expect(() => vector.mutate((data) => invalid(data, { generation: 5 } as any))).toThrow(TypeError);
+  });
+});
+
+describe("blend", () => {
+  it("keeps the children within the bounds", () => {
+    fc.assert(fc.property(fc.double(0, 1), fc.double(0, 1), fc.integer(), (a, b, seed) => {
+      const parentA = RealVector.fromArray([a], { lower: 0, upper: 1 });
+      const parentB = RealVector.fromArray([b], { lower: 0, upper: 1 });
+
+      const children = parentA.offspring([parentB], blend({ alpha: 2, random: new Xoshiro128(seed) }));
+
+      expect(children.length).toBe(2);
+      expect(children.every(inBounds)).toBe(true);
+    }));
+  });
+
+  it("throws a TypeError if the parents have different lengths", () => {
+    const parentA = RealVector.fromArray([0], { lower: 0, upper: 1 });
+    const parentB = RealVector.fromArray([0, 0], { lower: 0, upper: 1 });
+
+    expect(() => parentA.offspring([parentB], blend())).toThrow(TypeError);
+  });
+});
+
+describe("simulatedBinary", () => {
+  it("keeps the children within the bounds", () => {
+    fc.assert(fc.property(fc.double(0, 1), fc.double(0, 1), fc.integer(), (a, b, seed) => {
+      const parentA = RealVector.fromArray([a, b], { lower: 0, upper: 1 });
+      const parentB = RealVector.fromArray([b, a], { lower: 0, upper: 1 });
+
+      const children = parentA.offspring([parentB], simulatedBinary({ random: new Xoshiro128(seed) }));
+
+      expect(children.every(inBounds)).toBe(true);
+    }));
+  });
+
+  it("uses the bounds of the genes", () => {
+    const random = { next: jest.fn().mockReturnValueOnce(0).mockReturnValueOnce(0.8).mockReturnValueOnce(0.7) };
+    const parentA = RealVector.fromArray([1.5], { lower: -5, upper: 5 });
+    const parentB = RealVector.fromArray([-2], { lower: -5, upper: 5 });
+
+    const [childA, childB] = parentA.offspring([parentB], simulatedBinary({ distributionIndex: 2, random }));
+
+    expect(childA.get(0)).toBeCloseTo(-2.550833742510201, 12);
+    expect(childB.get(0)).toBeCloseTo(2.0692094591256898, 12);
+  });
+});
+
+describe("polynomial", () => {
+  it("keeps the values within the bounds", () => {
+    fc.assert(fc.property(fc.integer(), (seed) => {
+      const vector = RealVector.fromArray([0, 0.5, 1, 3], { lower: [0, 0, 0, 2], upper: [1, 1, 1, 4] });
+      vector.mutate(polynomial({ distributionIndex: 0, rate: 1, random: new Xoshiro128(seed) }));
+
+      expect(inBounds(vector)).toBe(true);
+    }));
+  });
+
+  it("uses the bounds of the genes", () => {
+    const random = { next: jest.fn().mockReturnValueOnce(0).mockReturnValueOnce(0.1) };
+    const vector = RealVector.fromArray([-3], { lower: -5, upper: 5 });
+    vector.mutate(polynomial({ random }));
+
+    expect(vector.get(0)).toBeCloseTo(-3.721773737762652, 12);
+  });
+
+  it("throws a TypeError if a gene is unbounded", () => {
+    const vector = RealVector.fromArray([0], { lower: -Infinity, upper: Infinity });
+
+    expect(() => vector.mutate(polynomial())).toThrow(TypeError);
+  });
+
+  it("resolves a scheduled rate against the context", () => {
+    const method = polynomial({ rate: linear(0, 1, 10), random: new Xoshiro128(1) });
+    const vector = RealVector.fromArray([0.2, 0.4], { lower: 0, upper: 1 });
+
+    vector.mutate((data) => method(data, { generation: 0 } as any));
+    expect(vector.values()).toEqual([0.2, 0.4]);
+
+    vector.mutate((data) => method(data, { generation: 10 } as any));
+    expect(vector.values().every((value, i) => value !== [0.2, 0.4][i])).toBe(true);
+
+    expect(() => polynomial({ rate: -0.5 })).toThrow(TypeError);
+    const invalid = polynomial({ rate: linear(1, 2, 10) });
+    expect(() => vector.mutate((data) => invalid(data, { generation: 5 } as any))).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { RealVector, RealVectorData, realInterval, realValues, withRealValues } from "./real_vector";
+import { Individual } from "../../individual/individual";
+import { Xoshiro128 } from "../../random";
+import { blueprint } from "../../creation";
+
+function dataFixture(values: number[], lower: number, upper: number): RealVectorData {
+  return {
+    values: Float64Array.from(values),
+    lower: new Float64Array(values.length).fill(lower),
+    upper: new Float64Array(values.length).fill(upper),
+  };
+}
+
+describe("RealVector", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the arrays have different lengths", () => {
+      const data = dataFixture([1, 2], 0, 5);
+      data.lower = new Float64Array(3);
+
+      expect(() => new RealVector(data)).toThrow(TypeError);
+    });
+
+    it("throws a TypeError if the arrays are not typed", () => {
+      expect(() => new RealVector({ values: [1], lower: [0], upper: [2] } as any)).toThrow(TypeError);
+    });
+
+    it("throws a TypeError if a lower bound exceeds the upper bound", () => {
+      expect(() => new RealVector(dataFixture([1], 2, 0))).toThrow(TypeError);
+    });
+
+    it("throws a RangeError if a value is out of bounds", () => {
+      expect(() => new RealVector(dataFixture([1, 6], 0, 5))).toThrow(RangeError);
+      expect(() => new RealVector(dataFixture([NaN], 0, 5))).toThrow(RangeError);
+    });
+
+    it("does not share the arrays with the given data", () => {
+      const data = dataFixture([1, 2], 0, 5);
+      const vector = new RealVector(data);
+      data.values[0] = 3;
+
+      expect(vector.values()).toEqual([1, 2]);
+    });
+  });
+
+  describe("generate", () => {
+    it("passes the bounds of each gene to the callback", () => {
+      const vector = RealVector.generate(3, { lower: [0, 2, 4], upper: 10 }, (i, lower, upper) => (lower + upper) / 2);
+
+      expect(vector.values()).toEqual([5, 6, 7]);
+    });
+
+    it("throws a TypeError if the bounds do not match the length", () => {
+      expect(() => RealVector.generate(3, { lower: [0, 1], upper: 10 }, () => 5)).toThrow(TypeError);
+    });
+  });
+
+  describe("random", () => {
+    it("draws the values within the bounds", () => {
+      fc.assert(fc.property(fc.integer(1, 50), fc.integer(), (length, seed) => {
+        const vector = RealVector.random(length, { lower: -2, upper: 3, random: new Xoshiro128(seed) });
+
+        vector.values().forEach((value) => {
+          expect(value).toBeGreaterThanOrEqual(-2);
+          expect(value).toBeLessThanOrEqual(3);
+        });
+      }));
+    });
+
+    it("throws a TypeError if a bound is not finite", () => {
+      expect(() => RealVector.random(3, { lower: 0, upper: Infinity })).toThrow(TypeError);
+    });
+
+    it("uses the random number generator of the blueprint", () => {
+      const create = (seed: number) => blueprint({
+        genotype: () => RealVector.random(5, { lower: 0, upper: 1 }),
+        random: new Xoshiro128(seed),
+      }).create(3).map((individual) => individual.genotype.values());
+
+      expect(create(7)).toEqual(create(7));
+      expect(create(7)).not.toEqual(create(8));
+    });
+  });
+
+  describe("mutate", () => {
+    it("throws a RangeError if the method leaves a value out of bounds", () => {
+      const vector = RealVector.fromArray([1, 2], { lower: 0, upper: 5 });
+
+      expect(() => vector.mutate((data) => {
+        data.values[0] = 7;
+        return data;
+      })).toThrow(RangeError);
+    });
+
+    it("throws a TypeError if the method changes the length", () => {
+      const vector = RealVector.fromArray([1, 2], { lower: 0, upper: 5 });
+
+      expect(() => vector.mutate(() => dataFixture([1, 2, 3], 0, 5))).toThrow(TypeError);
+    });
+  });
+
+  describe("clone", () => {
+    it("returns an independent copy", () => {
+      const vector = RealVector.fromArray([1, 2], { lower: 0, upper: 5 });
+      const clone = vector.clone((data) => {
+        data.values[0] = 4;
+        return data;
+      });
+
+      expect(vector.values()).toEqual([1, 2]);
+      expect(clone.values()).toEqual([4, 2]);
+    });
+  });
+
+  describe("deserialize", () => {
+    it("restores the values together with the bounds", () => {
+      const vector = RealVector.fromArray([1, -2.5], { lower: [0, -Infinity], upper: [5, 0] });
+      const individual = new Individual({ genotype: vector });
+
+      const restored = Individual.fromJSON(individual.toJSON(), {
+        genotype: RealVector.deserialize,
+      });
+
+      expect(restored.genotype.data()).toEqual(vector.data());
+    });
+  });
+});
+
+describe("realValues", () => {
+  const data = { values: Float64Array.from([1, 2]), lower: Float64Array.from([0, 0]), upper: Float64Array.from([5, 5]) };
+
+  it("reads the genes of lists and the values of real vectors", () => {
+    expect(realValues([1, 2])).toEqual([1, 2]);
+    expect(realValues(data)).toEqual([1, 2]);
+  });
+
+  it("replaces the values and keeps the bounds", () => {
+    expect(withRealValues(data, [3, 4]).values).toEqual(Float64Array.from([3, 4]));
+    expect(withRealValues(data, [3, 4]).upper).toBe(data.upper);
+    expect(withRealValues([1, 2], [3, 4])).toEqual([3, 4]);
+  });
+
+  it("uses the bounds of real vectors and the given bounds of lists", () => {
+    expect(realInterval(data, 1, -1, 1)).toEqual({ lower: 0, upper: 5 });
+    expect(realInterval([1, 2], 1, -1, [3, 4])).toEqual({ lower: -1, upper: 4 });
+    expect(realInterval([1, 2], 0)).toEqual({ lower: -Infinity, upper: Infinity });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random } from "../../random";
+import { TreeNode } from "./tree";
+
+/**
+ *
+ */
+export type PrimitiveFunction = (...args: any[]) => any;
+
+/**
+ *
+ */
+export type EphemeralGenerator = (random: Random) => any;
+
+/**
+ * Every primitive has a type, which is the name of the type of its value.
+ * Untyped primitive sets use the same type for all of them.
+ */
+export interface FunctionPrimitive {
+  kind: "function";
+  name: string;
+  type: string;
+  arity: number;
+  args: string[];
+  func: PrimitiveFunction;
+}
+
+/**
+ *
+ */
+export interface TerminalPrimitive {
+  kind: "terminal";
+  name: string;
+  type: string;
+  value: any;
+}
+
+/**
+ *
+ */
+export interface ArgumentPrimitive {
+  kind: "argument";
+  name: string;
+  type: string;
+  index: number;
+}
+
+/**
+ *
+ */
+export interface EphemeralPrimitive {
+  kind: "ephemeral";
+  name: string;
+  type: string;
+  generate: EphemeralGenerator;
+}
+
+/**
+ *
+ */
+export type Primitive = FunctionPrimitive | TerminalPrimitive | ArgumentPrimitive | EphemeralPrimitive;
+
+/**
+ *
+ */
+export interface PrimitiveArgument {
+  name: string;
+  type: string;
+}
+
+/**
+ * @hidden
+ */
+export const ANY_TYPE = "any";
+
+/**
+ * Functions and terminals that trees are built from. `F` is the signature of
+ * the programs compiled from the trees.
+ */
+export abstract class AbstractPrimitiveSet<F extends PrimitiveFunction> {
+  /**
+   * Names of the arguments of compiled programs.
+   */
+  public readonly arguments: string[];
+
+  /**
+   * Type of the value returned by compiled programs.
+   */
+  public readonly returns: string;
+
+  /**
+   *
+   */
+  private readonly _primitives: Map<string, Primitive> = new Map();
+
+  /**
+   *
+   */
+  private _minDepths?: Map<string, number>;
+
+  /**
+   *
+   * @param returns
+   * @param args
+   */
+  protected constructor(returns: string, args: PrimitiveArgument[]) {
+    if (typeof returns !== "string" || !Array.isArray(args)) {
+      throw new TypeError();
+    }
+
+    this.returns = returns;
+    this.arguments = args.map((arg) => arg.name);
+
+    args.forEach(({ name, type }, index) => this.$add({ kind: "argument", name, type, index }));
+  }
+
+  /**
+   *
+   * @param name
+   */
+  public get(name: string): Primitive {
+    const primitive = this._primitives.get(name);
+
+    if (primitive === undefined) {
+      throw new RangeError(`unknown primitive "${name}"`);
+    }
+
+    return primitive;
+  }
+
+  /**
+   *
+   * @param name
+   */
+  public has(name: string): boolean {
+    return this._primitives.has(name);
+  }
+
+  /**
+   *
+   */
+  public primitives(): Primitive[] {
+    return Array.from(this._primitives.values());
+  }
+
+  /**
+   *
+   * @param type
+   */
+  public functions(type?: string): FunctionPrimitive[] {
+    return this.primitives().filter((primitive): primitive is FunctionPrimitive => {
+      return primitive.kind === "function" && (type === undefined || primitive.type === type);
+    });
+  }
+
+  /**
+   *
+   * @param type
+   */
+  public terminals(type?: string): Exclude<Primitive, FunctionPrimitive>[] {
+    return this.primitives().filter((primitive): primitive is Exclude<Primitive, FunctionPrimitive> => {
+      return primitive.kind !== "function" && (type === undefined || primitive.type === type);
+    });
+  }
+
+  /**
+   * Depth of the shallowest tree of the given type that can be built from
+   * the primitives, `Infinity` if there is none.
+   *
+   * @param type
+   */
+  public minDepth(type: string): number {
+    if (this._minDepths === undefined) {
+      this._minDepths = this.$minDepths();
+    }
+
+    return this._minDepths.get(type) ?? Infinity;
+  }
+
+  /**
+   *
+   * @param root
+   */
+  public compile(root: TreeNode): F {
+    const program = this.$compile(root);
+    return ((...args: any[]) => program(args)) as F;
+  }
+
+  /**
+   *
+   * @param primitive
+   */
+  protected $add(primitive: Primitive): this {
+    if (typeof primitive.name !== "string" || !/^[^\s():"]+$/.test(primitive.name)) {
+      throw new TypeError(`invalid primitive name "${primitive.name}"`);
+    }
+
+    if (typeof primitive.type !== "string") {
+      throw new TypeError();
+    }
+
+    if (this._primitives.has(primitive.name)) {
+      throw new TypeError(`primitive "${primitive.name}" is already defined`);
+    }
+
+    this._primitives.set(primitive.name, primitive);
+    this._minDepths = undefined;
+
+    return this;
+  }
+
+  /**
+   *
+   */
+  private $minDepths(): Map<string, number> {
+    const depths = new Map<string, number>();
+    const depth = (type: string) => depths.get(type) ?? Infinity;
+
+    this.terminals().forEach((terminal) => depths.set(terminal.type, 0));
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+
+      for (const primitive of this.functions()) {
+        const candidate = 1 + Math.max(...primitive.args.map(depth));
+
+        if (depth(primitive.type) > candidate) {
+          depths.set(primitive.type, candidate);
+          changed = true;
+        }
+      }
+    }
+
+    return depths;
+  }
+
+  /**
+   *
+   * @param node
+   */
+  private $compile(node: TreeNode): (args: any[]) => any {
+    const primitive = this.get(node.name);
+
+    if (primitive.kind === "function") {
+      const children = node.children.map((child) => this.$compile(child));
+      return (args) => primitive.func(...children.map((child) => child(args)));
+    }
+
+    if (primitive.kind === "argument") {
+      return (args) => args[primitive.index];
+    }
+
+    return primitive.kind === "ephemeral"
+      ? () => node.value
+      : () => primitive.value;
+  }
+}
+
+/**
+ * Untyped primitive set, any primitive can be an argument of any function.
+ */
+export class PrimitiveSet extends AbstractPrimitiveSet<PrimitiveFunction> {
+  /**
+   *
+   * @param args
+   */
+  public constructor(args: string[] = []) {
+    if (!Array.isArray(args)) {
+      throw new TypeError();
+    }
+
+    super(ANY_TYPE, args.map((name) => ({ name, type: ANY_TYPE })));
+  }
+
+  /**
+   *
+   * @param name
+   * @param arity
+   * @param func
+   */
+  public addFunction(name: string, arity: number, func: PrimitiveFunction): this {
+    if (!Number.isInteger(arity) || 1 > arity) {
+      throw new TypeError();
+    }
+
+    if (typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const args = new Array(arity).fill(ANY_TYPE);
+    return this.$add({ kind: "function", name, type: ANY_TYPE, arity, args, func });
+  }
+
+  /**
+   *
+   * @param name
+   * @param value
+   */
+  public addTerminal(name: string, value: any): this {
+    return this.$add({ kind: "terminal", name, type: ANY_TYPE, value });
+  }
+
+  /**
+   *
+   * @param name
+   * @param generate
+   */
+  public addEphemeral(name: string, generate: EphemeralGenerator): this {
+    if (typeof generate !== "function") {
+      throw new TypeError();
+    }
+
+    return this.$add({ kind: "ephemeral", name, type: ANY_TYPE, generate });
+  }
+}
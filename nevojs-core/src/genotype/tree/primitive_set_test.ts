@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { PrimitiveSet } from "./primitive_set";
+
+describe("PrimitiveSet", () => {
+  it("registers the arguments as terminals", () => {
+    const primitives = new PrimitiveSet(["x", "y"]);
+
+    expect(primitives.terminals().map((terminal) => terminal.name)).toEqual(["x", "y"]);
+    expect(primitives.get("y")).toMatchObject({ kind: "argument", name: "y", index: 1 });
+  });
+
+  it("separates functions from terminals", () => {
+    const primitives = new PrimitiveSet(["x"])
+      .addFunction("add", 2, (a, b) => a + b)
+      .addTerminal("one", 1)
+      .addEphemeral("erc", (random) => random.next());
+
+    expect(primitives.functions().map((primitive) => primitive.name)).toEqual(["add"]);
+    expect(primitives.terminals().map((primitive) => primitive.name)).toEqual(["x", "one", "erc"]);
+  });
+
+  it("throws a TypeError if the name is already defined", () => {
+    const primitives = new PrimitiveSet(["x"]);
+
+    expect(() => primitives.addTerminal("x", 1)).toThrow(TypeError);
+  });
+
+  it("throws a TypeError if the name cannot be written in an S-expression", () => {
+    ["", "a b", "(a)", "a:b", 1].forEach((name: any) => {
+      expect(() => new PrimitiveSet().addTerminal(name, 1)).toThrow(TypeError);
+    });
+  });
+
+  it("throws a TypeError if the arity is not a positive integer", () => {
+    [0, -1, 1.5].forEach((arity) => {
+      expect(() => new PrimitiveSet().addFunction("f", arity, () => 0)).toThrow(TypeError);
+    });
+  });
+
+  it("throws a RangeError if an unknown primitive is requested", () => {
+    expect(() => new PrimitiveSet().get("foo")).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,590 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractPrimitiveSet, Primitive, PrimitiveFunction } from "./primitive_set";
+import { Random, RandomSettings, getRandom } from "../../random";
+import { AbstractGenotype } from "../abstract_genotype";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+
+/**
+ * Ephemeral random constants keep their drawn value in `value`.
+ */
+export interface TreeNode {
+  name: string;
+  children: TreeNode[];
+  value?: any;
+}
+
+/**
+ *
+ */
+export interface TreeLimits {
+  maxDepth?: number;
+  maxSize?: number;
+}
+
+/**
+ *
+ */
+export type TreeInitializationMethod = "grow" | "full";
+
+/**
+ *
+ */
+export interface TreeGenerateSettings extends RandomSettings {
+  limits?: TreeLimits;
+}
+
+/**
+ *
+ */
+export interface RampedHalfAndHalfSettings extends TreeGenerateSettings {
+  minDepth?: number;
+  maxDepth?: number;
+}
+
+/**
+ * @hidden
+ */
+export interface TreeNodeLocation {
+  node: TreeNode;
+  parent?: TreeNode;
+  index: number;
+  depth: number;
+}
+
+/**
+ * @hidden
+ */
+export function pickRandom<T>(arr: T[], random: Random): T {
+  return arr[Math.floor(random.next() * arr.length)];
+}
+
+/**
+ * @hidden
+ */
+export function createLeaf(primitive: Primitive, random: Random): TreeNode {
+  return primitive.kind === "ephemeral"
+    ? { name: primitive.name, children: [], value: primitive.generate(random) }
+    : { name: primitive.name, children: [] };
+}
+
+/**
+ * @hidden
+ */
+export type AnyPrimitiveSet = AbstractPrimitiveSet<any>;
+
+/**
+ * Generates a subtree of the given type. Only the functions whose arguments
+ * can be completed within the depth are considered, and the grow method places
+ * leaves only at the depth of at least `minDepth`.
+ *
+ * @hidden
+ */
+export function generateNode(
+  primitives: AnyPrimitiveSet,
+  type: string,
+  depth: number,
+  method: TreeInitializationMethod,
+  random: Random,
+  minDepth: number = 0,
+): TreeNode {
+  const functions = primitives.functions(type).filter((primitive) => {
+    return depth > Math.max(...primitive.args.map((arg) => primitives.minDepth(arg)));
+  });
+
+  const terminals = primitives.terminals(type);
+
+  if (functions.length === 0 && terminals.length === 0) {
+    throw new TypeError(`cannot generate a tree of type "${type}" not deeper than ${depth}`);
+  }
+
+  const leaf = functions.length === 0 || (
+    method === "grow"
+    && terminals.length > 0
+    && 0 >= minDepth
+    && terminals.length / (terminals.length + functions.length) > random.next()
+  );
+
+  if (leaf) {
+    return createLeaf(pickRandom(terminals, random), random);
+  }
+
+  const primitive = pickRandom(functions, random);
+  const children = primitive.args.map((arg) => generateNode(primitives, arg, depth - 1, method, random, minDepth - 1));
+
+  return { name: primitive.name, children };
+}
+
+/**
+ * Lists the nodes in the depth-first (prefix) order.
+ *
+ * @hidden
+ */
+export function locate(root: TreeNode): TreeNodeLocation[] {
+  const locations: TreeNodeLocation[] = [];
+  const visit = (node: TreeNode, parent: TreeNode | undefined, index: number, depth: number) => {
+    locations.push({ node, parent, index, depth });
+    node.children.forEach((child, i) => visit(child, node, i, depth + 1));
+  };
+
+  visit(root, undefined, 0, 0);
+  return locations;
+}
+
+/**
+ * @hidden
+ */
+export function replaceNode(root: TreeNode, location: TreeNodeLocation, subtree: TreeNode): TreeNode {
+  if (location.parent === undefined) {
+    return subtree;
+  }
+
+  location.parent.children[location.index] = subtree;
+  return root;
+}
+
+/**
+ * @hidden
+ */
+export function copyNode(node: TreeNode): TreeNode {
+  const copy: TreeNode = { name: node.name, children: node.children.map(copyNode) };
+
+  if ("value" in node) {
+    copy.value = node.value;
+  }
+
+  return copy;
+}
+
+/**
+ * Depth of a single node is 0.
+ *
+ * @hidden
+ */
+export function nodeDepth(node: TreeNode): number {
+  return node.children.reduce((depth, child) => Math.max(depth, nodeDepth(child) + 1), 0);
+}
+
+/**
+ * @hidden
+ */
+export function nodeSize(node: TreeNode): number {
+  return node.children.reduce((size, child) => size + nodeSize(child), 1);
+}
+
+function treeViolation(node: any, primitives: AnyPrimitiveSet, type: string): string | undefined {
+  if (node === null || typeof node !== "object" || typeof node.name !== "string" || !Array.isArray(node.children)) {
+    return "malformed node";
+  }
+
+  if (!primitives.has(node.name)) {
+    return `unknown primitive "${node.name}"`;
+  }
+
+  const primitive = primitives.get(node.name);
+  const args = primitive.kind === "function" ? primitive.args : [];
+  const arity = args.length;
+
+  if (primitive.type !== type) {
+    return `"${node.name}" returns "${primitive.type}", expected "${type}"`;
+  }
+
+  if (node.children.length !== arity) {
+    return `"${node.name}" expects ${arity} arguments, got ${node.children.length}`;
+  }
+
+  if (primitive.kind === "ephemeral" && !("value" in node)) {
+    return `ephemeral constant "${node.name}" has no value`;
+  }
+
+  for (let i = 0; i < arity; i++) {
+    const violation = treeViolation(node.children[i], primitives, args[i]);
+
+    if (violation !== undefined) {
+      return violation;
+    }
+  }
+
+  return undefined;
+}
+
+function stringifyNode(node: TreeNode): string {
+  const atom = "value" in node
+    ? `${node.name}:${JSON.stringify(node.value)}`
+    : node.name;
+
+  return node.children.length === 0
+    ? atom
+    : `(${[atom, ...node.children.map(stringifyNode)].join(" ")})`;
+}
+
+function tokenize(serialized: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+
+  while (serialized.length > i) {
+    const char = serialized[i];
+
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push(char);
+      i += 1;
+      continue;
+    }
+
+    const start = i;
+    let depth = 0;
+    let value = false;
+
+    while (serialized.length > i) {
+      const current = serialized[i];
+
+      if (depth === 0 && (/\s/.test(current) || current === "(" || current === ")")) {
+        break;
+      }
+
+      if (!value) {
+        value = current === ":";
+      } else if (current === "\"") {
+        i += 1;
+
+        while (serialized.length > i && serialized[i] !== "\"") {
+          i += serialized[i] === "\\" ? 2 : 1;
+        }
+      } else if (current === "{" || current === "[") {
+        depth += 1;
+      } else if (current === "}" || current === "]") {
+        depth -= 1;
+      }
+
+      i += 1;
+    }
+
+    tokens.push(serialized.slice(start, i));
+  }
+
+  return tokens;
+}
+
+function parseNode(tokens: string[]): TreeNode {
+  const token = tokens.shift();
+
+  if (token === undefined || token === ")") {
+    throw new TypeError("unexpected end of the expression");
+  }
+
+  if (token !== "(") {
+    const separator = token.indexOf(":");
+
+    return separator === -1
+      ? { name: token, children: [] }
+      : { name: token.slice(0, separator), children: [], value: JSON.parse(token.slice(separator + 1)) };
+  }
+
+  const node = parseNode(tokens);
+
+  while (tokens[0] !== ")") {
+    node.children.push(parseNode(tokens));
+  }
+
+  tokens.shift();
+  return node;
+}
+
+/**
+ * Program tree built from the primitives of a primitive set, `F` is the
+ * signature of the compiled program. Children exceeding `maxDepth` or
+ * `maxSize` are replaced with copies of their parents and mutations exceeding
+ * them are discarded, so that bloat is kept in check without failing the
+ * evolution.
+ */
+export class Tree<F extends PrimitiveFunction = PrimitiveFunction> extends AbstractGenotype<TreeNode> {
+  /**
+   *
+   * @param primitives
+   * @param depth
+   * @param settings
+   */
+  public static grow<F extends PrimitiveFunction>(
+    primitives: AbstractPrimitiveSet<F>,
+    depth: number,
+    settings: TreeGenerateSettings = {},
+  ): Tree<F> {
+    return Tree.generate(primitives, depth, "grow", settings);
+  }
+
+  /**
+   *
+   * @param primitives
+   * @param depth
+   * @param settings
+   */
+  public static full<F extends PrimitiveFunction>(
+    primitives: AbstractPrimitiveSet<F>,
+    depth: number,
+    settings: TreeGenerateSettings = {},
+  ): Tree<F> {
+    return Tree.generate(primitives, depth, "full", settings);
+  }
+
+  /**
+   * Uses either the grow or the full method, with the depth drawn from the
+   * `[minDepth, maxDepth]` range, so that calling it for every member of the
+   * population gives the ramped half-and-half initialization.
+   *
+   * @param primitives
+   * @param settings
+   */
+  public static rampedHalfAndHalf<F extends PrimitiveFunction>(
+    primitives: AbstractPrimitiveSet<F>,
+    settings: RampedHalfAndHalfSettings = {},
+  ): Tree<F> {
+    const random = settings.random ?? getRandom();
+    const minDepth = settings.minDepth ?? 2;
+    const maxDepth = settings.maxDepth ?? 6;
+
+    if (!(primitives instanceof AbstractPrimitiveSet)) {
+      throw new TypeError();
+    }
+
+    if (!Number.isInteger(minDepth) || !Number.isInteger(maxDepth) || 0 > minDepth || minDepth > maxDepth) {
+      throw new TypeError();
+    }
+
+    const depth = minDepth + Math.floor(random.next() * (maxDepth - minDepth + 1));
+    const method = 0.5 > random.next() ? "grow" : "full";
+    const root = generateNode(primitives, primitives.returns, depth, method, random, minDepth);
+
+    return new Tree(root, primitives, settings.limits);
+  }
+
+  /**
+   *
+   * @param primitives
+   * @param depth
+   * @param method
+   * @param settings
+   */
+  public static generate<F extends PrimitiveFunction>(
+    primitives: AbstractPrimitiveSet<F>,
+    depth: number,
+    method: TreeInitializationMethod,
+    settings: TreeGenerateSettings = {},
+  ): Tree<F> {
+    if (!(primitives instanceof AbstractPrimitiveSet)) {
+      throw new TypeError();
+    }
+
+    if (!Number.isInteger(depth) || 0 > depth) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const root = generateNode(primitives, primitives.returns, depth, method, random);
+
+    return new Tree(root, primitives, settings.limits);
+  }
+
+  /**
+   *
+   * @param serialized
+   * @param primitives
+   * @param limits
+   */
+  public static deserialize<F extends PrimitiveFunction>(
+    serialized: string,
+    primitives: AbstractPrimitiveSet<F>,
+    limits?: TreeLimits,
+  ): Tree<F> {
+    if (typeof serialized !== "string") {
+      throw new TypeError();
+    }
+
+    const tokens = tokenize(serialized);
+    const root = parseNode(tokens);
+
+    if (tokens.length > 0) {
+      throw new TypeError("unexpected tokens after the expression");
+    }
+
+    return new Tree(root, primitives, limits);
+  }
+
+  /**
+   *
+   */
+  public readonly primitives: AbstractPrimitiveSet<F>;
+
+  /**
+   *
+   */
+  public readonly maxDepth: number;
+
+  /**
+   *
+   */
+  public readonly maxSize: number;
+
+  /**
+   *
+   * @param data
+   * @param primitives
+   * @param limits
+   */
+  public constructor(data: TreeNode, primitives: AbstractPrimitiveSet<F>, limits: TreeLimits = {}) {
+    if (!(primitives instanceof AbstractPrimitiveSet)) {
+      throw new TypeError();
+    }
+
+    const violation = treeViolation(data, primitives, primitives.returns);
+
+    if (violation !== undefined) {
+      throw new TypeError(`invalid tree: ${violation}`);
+    }
+
+    const maxDepth = limits.maxDepth ?? 17;
+    const maxSize = limits.maxSize ?? Infinity;
+
+    if (nodeDepth(data) > maxDepth || nodeSize(data) > maxSize) {
+      throw new RangeError();
+    }
+
+    super(copyNode(data));
+
+    this.primitives = primitives;
+    this.maxDepth = maxDepth;
+    this.maxSize = maxSize;
+  }
+
+  /**
+   *
+   */
+  public data(): TreeNode {
+    return copyNode(this._data);
+  }
+
+  /**
+   *
+   */
+  public depth(): number {
+    return nodeDepth(this._data);
+  }
+
+  /**
+   *
+   */
+  public size(): number {
+    return nodeSize(this._data);
+  }
+
+  /**
+   *
+   * @param method
+   */
+  public mutate(method: MutationMethod<TreeNode>): void {
+    const data = method(this.data());
+    const violation = treeViolation(data, this.primitives, this.primitives.returns);
+
+    if (violation !== undefined) {
+      throw new TypeError(`mutation method produced an invalid tree: ${violation}`);
+    }
+
+    if (this.$fits(data)) {
+      this._data = copyNode(data);
+    }
+  }
+
+  /**
+   *
+   * @param func
+   */
+  public clone(func?: (data: TreeNode) => TreeNode): Tree<F> {
+    if (func !== undefined && typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    const data = func
+      ? func(this.data())
+      : this.data();
+
+    return new Tree(data, this.primitives, this);
+  }
+
+  /**
+   *
+   * @param partners
+   * @param method
+   */
+  public offspring(partners: Tree<F>[], method: CrossoverMethod<TreeNode>): Tree<F>[] {
+    const parents = [this, ...partners];
+    let i = 0;
+
+    return super.makeOffspring(partners, method, (data) => {
+      const parent = parents[i++ % parents.length];
+
+      return this.$fits(data)
+        ? new Tree(data, this.primitives, this)
+        : parent.clone();
+    });
+  }
+
+  /**
+   * Returns a function which evaluates the tree for the given values of the
+   * primitive set's arguments.
+   */
+  public compile(): F {
+    return this.primitives.compile(this._data);
+  }
+
+  /**
+   *
+   */
+  public toString(): string {
+    return stringifyNode(this._data);
+  }
+
+  /**
+   *
+   */
+  public __serialize(): string {
+    return this.toString();
+  }
+
+  /**
+   *
+   * @param data
+   */
+  private $fits(data: TreeNode): boolean {
+    return this.maxDepth >= nodeDepth(data) && this.maxSize >= nodeSize(data);
+  }
+}
+
+/**
+ * Phenotype function compiling the tree into a callable function.
+ *
+ * @param genotype
+ * @category creation
+ */
+export function compile<F extends PrimitiveFunction>(genotype: Tree<F>): F {
+  return genotype.compile();
+}
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AnyPrimitiveSet, TreeNode, TreeNodeLocation, createLeaf, generateNode, locate, pickRandom, replaceNode } from "./tree";
+import { Random, RandomSettings, getRandom } from "../../random";
+import { CrossoverMethod } from "../../operators/crossover";
+import { MutationMethod } from "../../operators/mutation";
+
+/**
+ *
+ */
+export interface SubtreeCrossoverSettings extends RandomSettings {
+  functionProbability?: number;
+}
+
+function pickLocation(
+  locations: TreeNodeLocation[],
+  functionProbability: number,
+  random: Random,
+): TreeNodeLocation | undefined {
+  const functions = locations.filter((location) => location.node.children.length > 0);
+  const leaves = locations.filter((location) => location.node.children.length === 0);
+
+  return functions.length > 0 && (leaves.length === 0 || functionProbability > random.next())
+    ? pickRandom(functions, random)
+    : pickRandom(leaves, random);
+}
+
+function typeOf(primitives: AnyPrimitiveSet, node: TreeNode): string {
+  return primitives.get(node.name).type;
+}
+
+/**
+ * Swaps random subtrees of the same type between the parents. Crossover points
+ * are picked from the function nodes with the given probability (0.9 by
+ * default, as proposed by Koza) and from the leaves otherwise.
+ *
+ * @param primitives
+ * @param settings
+ * @category tree
+ */
+export function subtreeCrossover(
+  primitives: AnyPrimitiveSet,
+  settings: SubtreeCrossoverSettings = {},
+): CrossoverMethod<TreeNode> {
+  const functionProbability = settings.functionProbability ?? 0.9;
+
+  if (typeof functionProbability !== "number" || 0 > functionProbability || functionProbability > 1) {
+    throw new TypeError();
+  }
+
+  return (parents) => {
+    if (parents.length !== 2) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const [rootA, rootB] = parents;
+
+    const locationsB = locate(rootB);
+    const typesB = new Set(locationsB.map(({ node }) => typeOf(primitives, node)));
+
+    const locationA = pickLocation(
+      locate(rootA).filter(({ node }) => typesB.has(typeOf(primitives, node))),
+      functionProbability,
+      random,
+    );
+
+    if (locationA === undefined) {
+      return [rootA, rootB];
+    }
+
+    const type = typeOf(primitives, locationA.node);
+    const locationB = pickLocation(
+      locationsB.filter(({ node }) => typeOf(primitives, node) === type),
+      functionProbability,
+      random,
+    ) as TreeNodeLocation;
+
+    return [
+      replaceNode(rootA, locationA, locationB.node),
+      replaceNode(rootB, locationB, locationA.node),
+    ];
+  };
+}
+
+/**
+ *
+ */
+export interface SubtreeMutationSettings extends RandomSettings {
+  maxDepth?: number;
+}
+
+/**
+ * Replaces a random subtree with a new one of the same type, generated with
+ * the grow method.
+ *
+ * @param primitives
+ * @param settings
+ * @category tree
+ */
+export function subtreeMutation(
+  primitives: AnyPrimitiveSet,
+  settings: SubtreeMutationSettings = {},
+): MutationMethod<TreeNode> {
+  const maxDepth = settings.maxDepth ?? 2;
+
+  if (!Number.isInteger(maxDepth) || 0 > maxDepth) {
+    throw new TypeError();
+  }
+
+  return (root) => {
+    const random = settings.random ?? getRandom();
+    const location = pickRandom(locate(root), random);
+    const type = typeOf(primitives, location.node);
+    const depth = Math.max(maxDepth, primitives.minDepth(type));
+
+    return replaceNode(root, location, generateNode(primitives, type, depth, "grow", random));
+  };
+}
+
+/**
+ *
+ */
+export interface PointMutationSettings extends RandomSettings {
+  rate?: number;
+}
+
+/**
+ * Replaces nodes with other primitives of the same type and arguments. Every
+ * node is replaced with the given probability, a single random node is
+ * replaced if the rate is omitted.
+ *
+ * @param primitives
+ * @param settings
+ * @category tree
+ */
+export function pointMutation(primitives: AnyPrimitiveSet, settings: PointMutationSettings = {}): MutationMethod<TreeNode> {
+  const rate = settings.rate;
+
+  if (rate !== undefined && (typeof rate !== "number" || 0 > rate || rate > 1)) {
+    throw new TypeError();
+  }
+
+  return (root) => {
+    const random = settings.random ?? getRandom();
+    const locations = locate(root);
+    const selected = rate === undefined
+      ? [pickRandom(locations, random)]
+      : locations.filter(() => rate > random.next());
+
+    for (const { node } of selected) {
+      const primitive = primitives.get(node.name);
+
+      if (primitive.kind !== "function") {
+        delete node.value;
+        Object.assign(node, createLeaf(pickRandom(primitives.terminals(primitive.type), random), random));
+        continue;
+      }
+
+      const candidates = primitives.functions(primitive.type).filter((candidate) => {
+        return candidate.args.join() === primitive.args.join();
+      });
+
+      node.name = pickRandom(candidates, random).name;
+    }
+
+    return root;
+  };
+}
+
+/**
+ * Replaces the tree with one of its proper subtrees rooted at a function
+ * node of the tree's type. Trees without such subtrees are left unchanged.
+ *
+ * @param primitives
+ * @param settings
+ * @category tree
+ */
+export function hoistMutation(primitives: AnyPrimitiveSet, settings: RandomSettings = {}): MutationMethod<TreeNode> {
+  return (root) => {
+    const random = settings.random ?? getRandom();
+    const type = typeOf(primitives, root);
+    const candidates = locate(root).filter(({ node }) => {
+      return node !== root && node.children.length > 0 && typeOf(primitives, node) === type;
+    });
+
+    return candidates.length > 0
+      ? pickRandom(candidates, random).node
+      : root;
+  };
+}
+
+/**
+ * Replaces a random function node (with its subtree) with a terminal of the
+ * same type.
+ *
+ * @param primitives
+ * @param settings
+ * @category tree
+ */
+export function shrinkMutation(primitives: AnyPrimitiveSet, settings: RandomSettings = {}): MutationMethod<TreeNode> {
+  return (root) => {
+    const random = settings.random ?? getRandom();
+    const candidates = locate(root).filter(({ node }) => {
+      return node.children.length > 0 && primitives.terminals(typeOf(primitives, node)).length > 0;
+    });
+
+    if (candidates.length === 0) {
+      return root;
+    }
+
+    const location = pickRandom(candidates, random);
+    const terminals = primitives.terminals(typeOf(primitives, location.node));
+
+    return replaceNode(root, location, createLeaf(pickRandom(terminals, random), random));
+  };
+}
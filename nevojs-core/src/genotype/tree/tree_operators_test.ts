@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { hoistMutation, pointMutation, shrinkMutation, subtreeCrossover, subtreeMutation } from "./tree_operators";
+import { PrimitiveSet } from "./primitive_set";
+import { Tree } from "./tree";
+import { Xoshiro128 } from "../../random";
+
+const primitives = new PrimitiveSet(["x"])
+  .addFunction("add", 2, (a, b) => a + b)
+  .addFunction("sub", 2, (a, b) => a - b)
+  .addFunction("neg", 1, (a) => -a)
+  .addTerminal("one", 1)
+  .addEphemeral("erc", (random) => random.next());
+
+const trees = fc.integer().map((seed) => Tree.rampedHalfAndHalf(primitives, { random: new Xoshiro128(seed) }));
+
+describe("subtreeCrossover", () => {
+  it("preserves the total amount of nodes", () => {
+    fc.assert(fc.property(trees, trees, fc.integer(), (parentA, parentB, seed) => {
+      const children = parentA.offspring([parentB], subtreeCrossover(primitives, { random: new Xoshiro128(seed) }));
+
+      if (children.every((child, i) => child !== (i === 0 ? parentA : parentB))) {
+        expect(children[0].size() + children[1].size()).toBe(parentA.size() + parentB.size());
+      }
+    }));
+  });
+
+  it("swaps the whole trees if both crossover points are the roots", () => {
+    const parentA = Tree.deserialize("x", primitives);
+    const parentB = Tree.deserialize("one", primitives);
+
+    const children = parentA.offspring([parentB], subtreeCrossover(primitives));
+
+    expect(children.map(String)).toEqual(["one", "x"]);
+  });
+
+  it("throws a TypeError if the probability is out of range", () => {
+    expect(() => subtreeCrossover(primitives, { functionProbability: 2 })).toThrow(TypeError);
+  });
+});
+
+describe("subtreeMutation", () => {
+  it("produces valid trees", () => {
+    fc.assert(fc.property(trees, fc.integer(), (tree, seed) => {
+      expect(() => tree.mutate(subtreeMutation(primitives, { random: new Xoshiro128(seed) }))).not.toThrow();
+    }));
+  });
+});
+
+describe("pointMutation", () => {
+  it("keeps the shape of the tree", () => {
+    fc.assert(fc.property(trees, fc.integer(), (tree, seed) => {
+      const size = tree.size();
+      const depth = tree.depth();
+
+      tree.mutate(pointMutation(primitives, { rate: 0.5, random: new Xoshiro128(seed) }));
+
+      expect(tree.size()).toBe(size);
+      expect(tree.depth()).toBe(depth);
+    }));
+  });
+
+  it("replaces the functions with functions of the same arity", () => {
+    const tree = Tree.deserialize("(neg (add x one))", primitives);
+    tree.mutate(pointMutation(primitives, { rate: 1, random: new Xoshiro128(2) }));
+
+    expect(tree.toString()).toMatch(/^\(neg \((add|sub) \S+ \S+\)\)$/);
+  });
+});
+
+describe("hoistMutation", () => {
+  it("replaces the tree with one of its subtrees", () => {
+    const tree = Tree.deserialize("(neg (add x one))", primitives);
+    tree.mutate(hoistMutation(primitives));
+
+    expect(tree.toString()).toBe("(add x one)");
+  });
+
+  it("leaves trees without inner function nodes unchanged", () => {
+    const tree = Tree.deserialize("(add x one)", primitives);
+    tree.mutate(hoistMutation(primitives));
+
+    expect(tree.toString()).toBe("(add x one)");
+  });
+});
+
+describe("shrinkMutation", () => {
+  it("never increases the size of the tree", () => {
+    fc.assert(fc.property(trees, fc.integer(), (tree, seed) => {
+      const size = tree.size();
+      tree.mutate(shrinkMutation(primitives, { random: new Xoshiro128(seed) }));
+
+      expect(tree.size()).toBeLessThanOrEqual(size);
+    }));
+  });
+
+  it("replaces a function node with a terminal", () => {
+    const tree = Tree.deserialize("(neg x)", primitives);
+    tree.mutate(shrinkMutation(primitives));
+
+    expect(tree.size()).toBe(1);
+  });
+});
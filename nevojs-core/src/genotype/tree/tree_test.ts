@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { Tree, compile } from "./tree";
+import { blueprint, maximize } from "../../creation";
+import { Individual } from "../../individual/individual";
+import { PrimitiveSet } from "./primitive_set";
+import { Xoshiro128 } from "../../random";
+
+const primitives = new PrimitiveSet(["x", "y"])
+  .addFunction("add", 2, (a, b) => a + b)
+  .addFunction("mul", 2, (a, b) => a * b)
+  .addFunction("neg", 1, (a) => -a)
+  .addTerminal("one", 1)
+  .addEphemeral("erc", (random) => Math.round(random.next() * 10) / 10);
+
+describe("Tree", () => {
+  describe("constructor", () => {
+    it("throws a TypeError if the tree does not match the primitive set", () => {
+      expect(() => new Tree({ name: "foo", children: [] }, primitives)).toThrow(/unknown primitive "foo"/);
+      expect(() => new Tree({ name: "neg", children: [] }, primitives)).toThrow(/expects 1 arguments/);
+      expect(() => new Tree({ name: "erc", children: [] }, primitives)).toThrow(/has no value/);
+    });
+
+    it("throws a RangeError if the tree exceeds the limits", () => {
+      const data = { name: "neg", children: [{ name: "neg", children: [{ name: "x", children: [] }] }] };
+
+      expect(() => new Tree(data, primitives, { maxDepth: 1 })).toThrow(RangeError);
+      expect(() => new Tree(data, primitives, { maxSize: 2 })).toThrow(RangeError);
+      expect(() => new Tree(data, primitives, { maxDepth: 2, maxSize: 3 })).not.toThrow();
+    });
+  });
+
+  describe("full", () => {
+    it("generates trees with all leaves at the given depth", () => {
+      fc.assert(fc.property(fc.integer(0, 5), fc.integer(), (depth, seed) => {
+        const tree = Tree.full(primitives, depth, { random: new Xoshiro128(seed) });
+
+        expect(tree.depth()).toBe(depth);
+      }));
+    });
+  });
+
+  describe("grow", () => {
+    it("generates trees not deeper than the given depth", () => {
+      fc.assert(fc.property(fc.integer(0, 5), fc.integer(), (depth, seed) => {
+        const tree = Tree.grow(primitives, depth, { random: new Xoshiro128(seed) });
+
+        expect(tree.depth()).toBeLessThanOrEqual(depth);
+      }));
+    });
+  });
+
+  describe("rampedHalfAndHalf", () => {
+    it("generates trees of depths within the given range", () => {
+      const depths = new Set<number>();
+      const random = new Xoshiro128(1);
+
+      for (let i = 0; i < 100; i++) {
+        depths.add(Tree.rampedHalfAndHalf(primitives, { minDepth: 1, maxDepth: 3, random }).depth());
+      }
+
+      expect(Array.from(depths).sort()).toEqual([1, 2, 3]);
+    });
+
+    it("can be used as a genotype function of a blueprint", () => {
+      const create = (seed: number) => blueprint({
+        genotype: () => Tree.rampedHalfAndHalf(primitives),
+        random: new Xoshiro128(seed),
+      }).create(5).map((individual) => individual.genotype.toString());
+
+      expect(create(3)).toEqual(create(3));
+    });
+  });
+
+  describe("compile", () => {
+    it("evaluates the tree for the given arguments", () => {
+      const tree = Tree.deserialize("(add (mul x y) (neg erc:0.5))", primitives);
+      const func = tree.compile();
+
+      expect(func(2, 3)).toBe(5.5);
+      expect(func(1, 1)).toBe(0.5);
+    });
+
+    it("can be used as a phenotype function", () => {
+      const individual = new Individual({
+        genotype: Tree.deserialize("(add x one)", primitives),
+        phenotype: compile,
+      });
+
+      expect(individual.phenotype(41)).toBe(42);
+    });
+  });
+
+  describe("mutate", () => {
+    it("discards mutations exceeding the limits", () => {
+      const tree = Tree.deserialize("(neg x)", primitives, { maxDepth: 1 });
+      tree.mutate((root) => ({ name: "neg", children: [root] }));
+
+      expect(tree.toString()).toBe("(neg x)");
+    });
+
+    it("throws a TypeError if the method produces an invalid tree", () => {
+      const tree = Tree.deserialize("(neg x)", primitives);
+
+      expect(() => tree.mutate(() => ({ name: "add", children: [] }))).toThrow(TypeError);
+    });
+  });
+
+  describe("offspring", () => {
+    it("replaces children exceeding the limits with copies of the parents", () => {
+      const parentA = Tree.deserialize("(neg x)", primitives, { maxDepth: 1 });
+      const parentB = Tree.deserialize("(neg y)", primitives, { maxDepth: 1 });
+
+      const children = parentA.offspring([parentB], ([a, b]) => [{ name: "neg", children: [b] }, a]);
+
+      expect(children.map(String)).toEqual(["(neg x)", "(neg x)"]);
+    });
+  });
+
+  describe("deserialize", () => {
+    it("restores the serialized tree", () => {
+      fc.assert(fc.property(fc.integer(), (seed) => {
+        const tree = Tree.rampedHalfAndHalf(primitives, { random: new Xoshiro128(seed) });
+        const restored = Tree.deserialize(tree.__serialize(), primitives);
+
+        expect(restored.data()).toEqual(tree.data());
+      }));
+    });
+
+    it("restores the tree of a serialized individual", () => {
+      const individual = new Individual({ genotype: Tree.deserialize("(mul erc:0.3 (neg x))", primitives) });
+      individual.evaluate(() => maximize(1));
+
+      const json = individual.toJSON();
+      const restored = Individual.fromJSON(json, { genotype: (data) => Tree.deserialize(data, primitives) });
+
+      expect(json).toContain("(mul erc:0.3 (neg x))");
+      expect(restored.genotype.toString()).toBe("(mul erc:0.3 (neg x))");
+    });
+
+    it("restores constants of any JSON value", () => {
+      const constants = new PrimitiveSet(["x"])
+        .addFunction("pick", 2, (a) => a)
+        .addEphemeral("c", () => 0);
+
+      const values = [{ a: 1, b: [2, { c: "d" }] }, [1, "x y)"], "say \"hi\" (\\)", -1.5e-3, true, null, { "(": ")" }];
+
+      values.forEach((value) => {
+        const tree = new Tree({ name: "pick", children: [{ name: "c", children: [], value }, { name: "x", children: [] }] }, constants);
+        const restored = Tree.deserialize(tree.toString(), constants);
+
+        expect(restored.data()).toEqual(tree.data());
+        expect(restored.toString()).toBe(tree.toString());
+      });
+    });
+
+    it("throws a TypeError if the expression is malformed", () => {
+      ["(add x", "(add x y))", ")", ""].forEach((serialized) => {
+        expect(() => Tree.deserialize(serialized, primitives)).toThrow(TypeError);
+      });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { AbstractPrimitiveSet } from "./primitive_set";
+import { Random } from "../../random";
+
+/**
+ * Name of one of the types of the `T` type map.
+ */
+export type TypeName<T> = keyof T & string;
+
+/**
+ *
+ */
+export interface TypedArgument<T> {
+  name: string;
+  type: TypeName<T>;
+}
+
+/**
+ * Maps the names of the types to the types themselves.
+ */
+export type TypedValues<T, A extends TypeName<T>[]> = { [K in keyof A]: T[A[K] & TypeName<T>] };
+
+/**
+ *
+ */
+export type TypedArgumentValues<T, A extends TypedArgument<T>[]> = {
+  [K in keyof A]: A[K] extends TypedArgument<T> ? T[A[K]["type"]] : never;
+};
+
+/**
+ * Signature of the programs compiled from trees of a typed primitive set.
+ */
+export type TypedProgram<T, R extends TypeName<T>, A extends TypedArgument<T>[]> = (...args: TypedArgumentValues<T, A>) => T[R];
+
+/**
+ *
+ */
+export interface TypedPrimitiveSetBuilder<T> {
+  program<R extends TypeName<T>, A extends TypedArgument<T>[]>(returns: R, ...args: A): TypedPrimitiveSet<T, R, A>;
+}
+
+/**
+ * Strongly typed primitive set. `T` maps the names of the types to the
+ * TypeScript types, which lets the compiler check the primitives and infer
+ * the signature of compiled programs.
+ */
+export class TypedPrimitiveSet<T, R extends TypeName<T>, A extends TypedArgument<T>[]>
+  extends AbstractPrimitiveSet<TypedProgram<T, R, A>> {
+  /**
+   *
+   * @param returns
+   * @param args
+   */
+  public constructor(returns: R, args: A) {
+    super(returns, args);
+  }
+
+  /**
+   * Adds a function returning a value of the `returns` type, the types of its
+   * arguments follow the function.
+   *
+   * @param name
+   * @param func
+   * @param returns
+   * @param args
+   */
+  public addFunction<Y extends TypeName<T>, X extends TypeName<T>[]>(
+    name: string,
+    func: (...args: TypedValues<T, X>) => T[Y],
+    returns: Y,
+    ...args: X
+  ): this {
+    if (typeof func !== "function" || args.length === 0) {
+      throw new TypeError();
+    }
+
+    return this.$add({ kind: "function", name, type: returns, arity: args.length, args: args.slice(), func });
+  }
+
+  /**
+   *
+   * @param name
+   * @param type
+   * @param value
+   */
+  public addTerminal<Y extends TypeName<T>>(name: string, type: Y, value: T[Y]): this {
+    return this.$add({ kind: "terminal", name, type, value });
+  }
+
+  /**
+   *
+   * @param name
+   * @param type
+   * @param generate
+   */
+  public addEphemeral<Y extends TypeName<T>>(name: string, type: Y, generate: (random: Random) => T[Y]): this {
+    if (typeof generate !== "function") {
+      throw new TypeError();
+    }
+
+    return this.$add({ kind: "ephemeral", name, type, generate });
+  }
+}
+
+/**
+ * Starts a typed primitive set for the given type map. The map cannot be
+ * inferred, so it is given explicitly here, while the signature of compiled
+ * programs is declared with `program`.
+ *
+ * @category creation
+ */
+export function typedPrimitiveSet<T>(): TypedPrimitiveSetBuilder<T> {
+  return {
+    program: (returns, ...args) => new TypedPrimitiveSet(returns, args),
+  };
+}
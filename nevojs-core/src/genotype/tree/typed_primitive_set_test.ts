@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { Tree, compile } from "./tree";
+import { hoistMutation, pointMutation, shrinkMutation, subtreeCrossover, subtreeMutation } from "./tree_operators";
+import { Xoshiro128 } from "../../random";
+import { blueprint } from "../../creation";
+import { typedPrimitiveSet } from "./typed_primitive_set";
+
+interface Types {
+  number: number;
+  boolean: boolean;
+}
+
+const primitives = typedPrimitiveSet<Types>()
+  .program("number", { name: "x", type: "number" }, { name: "flag", type: "boolean" })
+  .addFunction("add", (a, b) => a + b, "number", "number", "number")
+  .addFunction("if", (condition, a, b) => condition ? a : b, "number", "boolean", "number", "number")
+  .addFunction("gt", (a, b) => a > b, "boolean", "number", "number")
+  .addFunction("not", (a) => !a, "boolean", "boolean")
+  .addEphemeral("erc", "number", (random) => Math.round(random.next() * 10))
+  .addTerminal("true", "boolean", true);
+
+const trees = fc.integer().map((seed) => Tree.rampedHalfAndHalf(primitives, { random: new Xoshiro128(seed) }));
+
+describe("TypedPrimitiveSet", () => {
+  it("compiles trees into functions with the declared signature", () => {
+    const tree = Tree.deserialize("(if (gt x erc:3) (add x erc:1) erc:0)", primitives);
+    const func: (x: number, flag: boolean) => number = tree.compile();
+
+    expect(func(5, false)).toBe(6);
+    expect(func(2, false)).toBe(0);
+  });
+
+  it("refuses trees that are not type-correct", () => {
+    expect(() => Tree.deserialize("(add x flag)", primitives)).toThrow(/"flag" returns "boolean", expected "number"/);
+    expect(() => Tree.deserialize("true", primitives)).toThrow(TypeError);
+  });
+
+  it("computes the depth of the shallowest tree of every type", () => {
+    const set = typedPrimitiveSet<Types>()
+      .program("number")
+      .addFunction("toNumber", (a) => Number(a), "number", "boolean")
+      .addTerminal("true", "boolean", true);
+
+    expect(set.minDepth("boolean")).toBe(0);
+    expect(set.minDepth("number")).toBe(1);
+    expect(Tree.full(set, 1).toString()).toBe("(toNumber true)");
+    expect(() => Tree.full(set, 0)).toThrow(TypeError);
+  });
+
+  it("generates type-correct trees", () => {
+    fc.assert(fc.property(trees, (tree) => {
+      expect(() => new Tree(tree.data(), primitives)).not.toThrow();
+    }));
+  });
+
+  it("crosses over and mutates trees without breaking the types", () => {
+    fc.assert(fc.property(trees, trees, fc.integer(), (parentA, parentB, seed) => {
+      const random = new Xoshiro128(seed);
+      const [child] = parentA.offspring([parentB], subtreeCrossover(primitives, { random }));
+
+      child.mutate(subtreeMutation(primitives, { random }));
+      child.mutate(pointMutation(primitives, { rate: 0.3, random }));
+      child.mutate(hoistMutation(primitives, { random }));
+      child.mutate(shrinkMutation(primitives, { random }));
+
+      expect(child.compile()(random.next(), true)).toEqual(expect.any(Number));
+    }));
+  });
+
+  it("plugs into blueprints with the compiled phenotype", () => {
+    const bp = blueprint({
+      genotype: () => Tree.rampedHalfAndHalf(primitives),
+      phenotype: compile,
+    });
+
+    const [individual] = bp.create(1);
+    const func: (x: number, flag: boolean) => number = individual.phenotype;
+
+    expect(typeof func(1, true)).toBe("number");
+  });
+});
@@ -15,6 +15,8 @@
  * =============================================================================
  */
 
+import { Random, getRandom } from "./random";
+
 /**
  *
  */
@@ -26,12 +28,14 @@ export type PickEntry<T> = {
 /**
  * @category helpers
  * @param entries
+ * @param random
  */
 export function pick<T>(
-  entries: PickEntry<T>[]
+  entries: PickEntry<T>[],
+  random: Random = getRandom(),
 ): T {
   const sum = entries.reduce((acc, entry) => acc + entry.probability, 0);
-  const threshold = Math.random();
+  const threshold = random.next();
   let total = 0;
 
   for (const entry of entries) {
@@ -28,6 +28,7 @@ import { SerializableObject } from "../../serialization";
 import { State } from "../state";
 import { AnyGenotype, UnresolvedGenotype } from "../data";
 import { Default, DefaultProperties } from "../default_properties";
+import { Random, getRandom, withRandom } from "../../random";
 
 /**
  *
@@ -53,6 +54,7 @@ export type BlueprintPhenotypeFunction<G extends UnresolvedGenotype, P> = Phenot
 export interface BlueprintConstructorSettings<G extends UnresolvedGenotype, P> {
   genotype: BlueprintGenotypeFunction<G>;
   phenotype?: BlueprintPhenotypeFunction<G, P>;
+  random?: Random;
 }
 
 /**
@@ -82,6 +84,11 @@ export class Blueprint<G extends UnresolvedGenotype, P> {
    */
   public readonly phenotypeFunc: BlueprintPhenotypeFunction<G, P>;
 
+  /**
+   *
+   */
+  public readonly random?: Random;
+
   /**
    *
    */
@@ -102,8 +109,13 @@ export class Blueprint<G extends UnresolvedGenotype, P> {
       throw new TypeError();
     }
 
+    if (settings.random !== undefined && typeof settings.random?.next !== "function") {
+      throw new TypeError();
+    }
+
     this.genotypeFunc = settings.genotype;
     this.phenotypeFunc = settings.phenotype ?? defaultPhenotypeFunc;
+    this.random = settings.random;
   }
 
   /**
@@ -128,10 +140,16 @@ export class Blueprint<G extends UnresolvedGenotype, P> {
       throw new TypeError();
     }
 
-    const arg = settings.arg ? settings.arg() : undefined;
-    const genotype = settings.genotype
+    if (settings.random !== undefined && typeof settings.random?.next !== "function") {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? this.random ?? getRandom();
+
+    const arg = withRandom(random, () => settings.arg ? settings.arg() : undefined);
+    const genotype = withRandom(random, () => settings.genotype
       ? settings.genotype(arg)
-      : this.genotypeFunc(arg);
+      : this.genotypeFunc(arg));
 
     if (genotype instanceof Promise) {
       return genotype.then((resolvedGenotype) => {
@@ -141,14 +159,14 @@ export class Blueprint<G extends UnresolvedGenotype, P> {
 
     const phenotype = settings.phenotype ?? this.phenotypeFunc;
     const state: State<any> = new State(settings.state
-      ? settings.state()
+      ? withRandom(random, settings.state)
       : {});
 
-    const individual = new Individual({
+    const individual = withRandom(random, () => new Individual({
       genotype: genotype as Resolved<G>,
       phenotype,
       state,
-    });
+    }));
 
     this.defaults.apply(individual);
     return individual;
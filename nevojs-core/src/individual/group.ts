@@ -24,42 +24,84 @@ import { choose, merge } from "../util";
 import { CrossoverMethod } from "../operators/crossover";
 import { EvaluationFunction } from "./evaluation/evaluation_function";
 import { MutationMethod } from "../operators/mutation";
+import { OperatorContextSettings } from "../operators/context";
 import { SelectionMethod } from "../operators/selection";
-import { Collection } from "../collection";
+import { Collection, CollectionConstructorSettings } from "../collection";
+import { Random, getRandom, withRandom } from "../random";
 
 /**
  *
  */
 export type GroupData<I extends AnyIndividual> = I | I[] | Group<I>;
 
+/**
+ *
+ */
+export interface GroupConstructorSettings<I extends AnyIndividual> extends CollectionConstructorSettings<I> {
+  random?: Random;
+}
+
 /**
  *
  */
 export class Group<I extends AnyIndividual> extends Collection<I> {
+  /**
+   *
+   */
+  public readonly random?: Random;
+
+  /**
+   *
+   * @param settings
+   */
+  public constructor(settings: GroupConstructorSettings<I> = {}) {
+    super(settings);
+
+    if (settings.random !== undefined && typeof settings.random?.next !== "function") {
+      throw new TypeError();
+    }
+
+    this.random = settings.random;
+  }
+
+  /**
+   *
+   * @param func
+   */
+  private $scope<T>(func: () => T): T {
+    return withRandom(this.random ?? getRandom(), func);
+  }
+
   /**
    *
    */
   public evaluate(func?: EvaluationFunction<$Genotype<I>, $Phenotype<I>>): void {
-    this.members().forEach((member) => member.evaluate(func));
+    this.$scope(() => this.members().forEach((member) => member.evaluate(func)));
   }
 
   /**
    *
+   * @param func
    */
-  public async evaluateAsync(): Promise<void> {
-    await Promise.all(this.members().map((member) => member.evaluate()));
+  public async evaluateAsync(func?: EvaluationFunction<$Genotype<I>, $Phenotype<I>>): Promise<void> {
+    await Promise.all(this.$scope(() => this.members().map((member) => member.evaluate(func))));
   }
 
   /**
    *
    * @param amount
    * @param method
+   * @param context
    */
   private $select(
     amount: number,
     method: SelectionMethod<I>,
+    context: OperatorContextSettings = {},
   ): I[] {
-    const data = method(amount, this.members());
+    const data = this.$scope(() => {
+      const random = context.random ?? getRandom();
+      return withRandom(random, () => method(amount, this.members(), { ...context, random }));
+    });
 
     return data.length === amount ? data : data.slice(0, amount);
   }
@@ -68,32 +110,37 @@ export class Group<I extends AnyIndividual> extends Collection<I> {
    *
    * @param amount
    * @param method
+   * @param context
    */
   public select(
     amount: number,
     method: SelectionMethod<I>,
+    context?: OperatorContextSettings,
   ): Group<I> {
-    const members = this.$select(amount, method);
+    const members = this.$select(amount, method, context);
     const size = this.size;
+    const random = this.random;
 
-    return new Group({ members, size });
+    return new Group({ members, size, random });
   }
 
   /**
    *
    * @param fraction
    * @param method
+   * @param context
    */
   public selectFraction(
     fraction: number,
     method: SelectionMethod<I>,
+    context?: OperatorContextSettings,
   ): Group<I> {
     if (fraction > 1 || 0 > fraction) {
       throw new TypeError();
     }
 
     const amount = Math.round(this.length * fraction);
-    return this.select(amount, method);
+    return this.select(amount, method, context);
   }
 
   /**
@@ -106,8 +153,9 @@ export class Group<I extends AnyIndividual> extends Collection<I> {
       : this.members().map((member) => func(member));
 
     const size = this.size;
+    const random = this.random;
 
-    return new Group({ members, size });
+    return new Group({ members, size, random });
   }
 
   /**
@@ -134,11 +182,13 @@ export class Group<I extends AnyIndividual> extends Collection<I> {
   /**
    *
    * @param method
+   * @param context
    */
   public get(
     method: SelectionMethod<I>,
+    context?: OperatorContextSettings,
   ): I {
-    return this.$select(1, method)[0];
+    return this.$select(1, method, context)[0];
   }
 
   /**
@@ -146,44 +196,57 @@ export class Group<I extends AnyIndividual> extends Collection<I> {
    * @param amount
    * @param method
    * @param settings
+   * @param context
    */
   public crossover(
     amount: number,
     method?: CrossoverMethod<$Data<$Genotype<I>>>,
     settings?: IndividualOffspringSettings<$Genotype<I>, $Phenotype<I>>,
+    context?: OperatorContextSettings,
   ): I[] {
     const [parent, ...partners] = this.members();
-    return parent.crossover(amount, partners, method as any, settings) as I[];
+    return this.$scope(() => parent.crossover(amount, partners, method as any, settings, context) as I[]);
   }
 
   /**
    *
    * @param method
    * @param settings
+   * @param context
    */
   public offspring(
     method?: $Crossover<I>,
     settings?: IndividualOffspringSettings<$Genotype<I>, $Phenotype<I>>,
+    context?: OperatorContextSettings,
   ): I[] {
     const [parent, ...partners] = this.members();
-    return parent.offspring(partners, method as $Crossover<unknown>, settings) as I[];
+    return this.$scope(() => parent.offspring(partners, method as $Crossover<unknown>, settings, context) as I[]);
   }
 
   /**
    *
    * @param method
+   * @param settings
+   * @param context
    */
-  public child(method?: CrossoverMethod<$Data<$Genotype<I>>>): I {
-    const [child] = choose(this.offspring(method), 1);
-    return child;
+  public child(
+    method?: CrossoverMethod<$Data<$Genotype<I>>>,
+    settings?: IndividualOffspringSettings<$Genotype<I>, $Phenotype<I>>,
+    context?: OperatorContextSettings,
+  ): I {
+    return this.$scope(() => {
+      const [child] = choose(this.offspring(method, settings, context), 1);
+      return child;
+    });
   }
 
   /**
    *
    * @param method
+   * @param context
    */
-  public mutate(method?: MutationMethod<$Data<$Genotype<I>>>): void {
-    this.members().forEach((member) => member.mutate(method as any));
+  public mutate(method?: MutationMethod<$Data<$Genotype<I>>>, context?: OperatorContextSettings): void {
+    this.$scope(() => this.members().forEach((member) => member.mutate(method as any, context)));
   }
 
   /**
@@ -192,7 +255,9 @@ export class Group<I extends AnyIndividual> extends Collection<I> {
    */
   public and(data: GroupData<I>): Group<I> {
     const members = merge([this.members(), Group.parse(data)]);
-    return new Group({ members });
+    const random = this.random;
+
+    return new Group({ members, random });
   }
 
   /**
@@ -15,4 +15,73 @@
  * =============================================================================
  */
 
+import { CrossoverContext } from "../operators/crossover";
+import { Group } from "./group";
+import { Individual } from "./individual";
+import { List } from "../genotype/list";
+import { MutationContext } from "../operators/mutation";
+import { Xoshiro128 } from "../random";
+import { maximize } from "../creation";
+import { random } from "../operators/selection";
+
 describe("-", () => void it("-", () => expect(1).toBe(1)));
+
+describe("Group", () => {
+  const members = () => [0, 1, 2].map((gene) => new Individual({ genotype: new List([gene]) }));
+
+  describe("evaluateAsync", () => {
+    it("evaluates every member with the given evaluation function", async () => {
+      const group = new Group({ members: members() });
+
+      await group.evaluateAsync(async (individual) => maximize(individual.genotype.data()[0] * 2));
+
+      expect(group.members().map((member) => member.fitness()[0])).toEqual([0, 2, 4]);
+    });
+  });
+
+  describe("select", () => {
+    it("draws from the random source of the context", () => {
+      const group = new Group({ members: new Array(20).fill(0).map((_, gene) => new Individual({ genotype: new List([gene]) })) });
+      const select = () => group.select(5, random(), { random: new Xoshiro128(1) }).members().map((member) => member.genotype.data()[0]);
+
+      const first = select();
+
+      expect(select()).toEqual(first);
+      expect(select()).toEqual(first);
+    });
+  });
+
+  describe("mutate", () => {
+    it("passes the context and the random source of the group to the mutation method", () => {
+      const random = new Xoshiro128(1);
+      const group = new Group({ members: members(), random });
+      const contexts: MutationContext[] = [];
+
+      group.mutate((genes, context) => {
+        contexts.push(context!);
+        return genes;
+      }, { generation: 4 });
+
+      expect(contexts.length).toBe(3);
+      contexts.forEach((context, i) => {
+        expect(context).toMatchObject({ generation: 4, random, individual: group.members()[i] });
+      });
+    });
+  });
+
+  describe("crossover", () => {
+    it("passes the context to the crossover method", () => {
+      const group = new Group({ members: members() });
+      const contexts: CrossoverContext[] = [];
+
+      const children = group.crossover(3, (parents, context) => {
+        contexts.push(context!);
+        return parents;
+      }, {}, { evaluations: 10, data: { bias: 1 } });
+
+      expect(children.length).toBe(3);
+      expect(contexts[0]).toMatchObject({ evaluations: 10, data: { bias: 1 }, parents: group.members() });
+    });
+  });
+});
+
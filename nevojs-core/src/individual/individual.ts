@@ -21,7 +21,9 @@ import { Objective, SerializedObjective } from "./evaluation/objective";
 import { isPositiveInt, Resolved, toArray } from "../util";
 import { deserialize, isSerializable, Serializable, SerializableObject, serialize } from "../serialization";
 import { CrossoverMethod } from "../operators/crossover";
+import { OperatorContextSettings } from "../operators/context";
 import { Default, DefaultProperties } from "./default_properties";
+import { getRandom, withRandom } from "../random";
 import { MutationMethod } from "../operators/mutation";
 import { State } from "./state";
 import { $Crossover, $Data, $Mutation } from "../util_types";
@@ -289,13 +291,21 @@ export class Individual<G extends AnyGenotype, P> {
   /**
    *
    * @param method
+   * @param context
    */
-  public mutate(method: MutationMethod<$Data<G>> = this.defaults.get(Default.Mutation)): void {
+  public mutate(
+    method: MutationMethod<$Data<G>> = this.defaults.get(Default.Mutation),
+    context: OperatorContextSettings = {},
+  ): void {
     if (typeof method !== "function") {
       throw new TypeError();
     }
 
-    this.genotype.mutate(method);
+    const random = context.random ?? getRandom();
+
+    withRandom(random, () => {
+      this.genotype.mutate((data) => method(data, { ...context, random, individual: this, state: this.state }));
+    });
   }
 
   /**
@@ -355,11 +365,13 @@ export class Individual<G extends AnyGenotype, P> {
    * @param partners
    * @param method
    * @param settings
+   * @param context
    */
   public offspring(
     partners: Individual<G, P>[],
     method: CrossoverMethod<$Data<G>> = this.defaults.get(Default.Crossover),
     settings: IndividualOffspringSettings<G, P> = {},
+    context: OperatorContextSettings = {},
   ): Individual<G, P>[] {
     const defaultSettings = this.defaults.get(Default.CrossoverSettings) ?? {};
     settings = Object.assign({}, defaultSettings, settings);
@@ -370,12 +382,18 @@ export class Individual<G extends AnyGenotype, P> {
       throw new TypeError();
     }
 
+    const parents = [this as Individual<G, P>].concat(partners);
+    const random = context.random ?? getRandom();
+
     const partnerGenotypes = partners.map((partner) => partner.genotype);
-    const childrenGenotypes = this.genotype.offspring(partnerGenotypes, method) as G[];
+    const childrenGenotypes = withRandom(random, () => this.genotype.offspring(
+      partnerGenotypes,
+      (data) => method(data, { ...context, random, parents }),
+    )) as G[];
 
     return childrenGenotypes.map((genotype) => {
       const state = settings.state !== undefined
-        ? new State(settings.state([this, ...partners]))
+        ? new State(settings.state(parents))
         : undefined;
 
       const individual = new Individual({ genotype, phenotype, state });
@@ -391,12 +409,14 @@ export class Individual<G extends AnyGenotype, P> {
    * @param partners
    * @param method
    * @param settings
+   * @param context
    */
   public crossover(
     amount: number,
     partners: Individual<G, P>[],
     method?: CrossoverMethod<$Data<G>>,
     settings?: IndividualOffspringSettings<G, P>,
+    context?: OperatorContextSettings,
   ): Individual<G, P>[] {
     if (!isPositiveInt(amount)) {
       throw new TypeError();
@@ -405,7 +425,7 @@ export class Individual<G extends AnyGenotype, P> {
     const children: Individual<G, P>[] = [];
 
     while (amount > children.length) {
-      children.push(...this.offspring(partners, method, settings));
+      children.push(...this.offspring(partners, method, settings, context));
     }
 
     return children.length > amount
@@ -23,6 +23,8 @@ import { Individual } from "./individual";
 import { List } from "../genotype/list";
 import { Objective } from "./evaluation/objective";
 import { State } from "./state";
+import { Xoshiro128 } from "../random";
+import { map } from "../operators/mutation";
 import { uniform } from "../operators/crossover";
 
 describe("Individual", () => {
@@ -614,6 +616,29 @@ describe("Individual", () => {
       }));
     });
 
+    it("passes the context to the mutation method", () => {
+      const individual = new Individual({ genotype: new List([1]) });
+      const random = new Xoshiro128(1);
+      const method = jest.fn((genes: number[]) => genes);
+
+      individual.mutate(method, { generation: 2, data: { step: 0.5 }, random });
+
+      expect(method).toBeCalledWith([1], { generation: 2, data: { step: 0.5 }, random, individual, state: individual.state });
+    });
+
+    it("passes the state of the individual to the mutation method", () => {
+      const state = new State({ step: 2 });
+      const individual = new Individual({ genotype: new List([1, 2]), state });
+
+      individual.mutate((genes, context) => {
+        context?.state.bind({ step: () => 3 });
+        return genes.map((gene) => gene * 2);
+      });
+
+      expect(individual.genotype.data()).toEqual([2, 4]);
+      expect(state.compute("step")).toBe(3);
+    });
+
     it("mutates the individual's genotype data using default mutation method", () => {
       fc.assert(fc.property(fc.array(fc.anything()), (data) => {
         const genotype = new List<any>([]);
@@ -666,6 +691,23 @@ describe("Individual", () => {
     });
   });
 
+  describe("mutate (seeded)", () => {
+    it("draws from the random source of the context", () => {
+      const mutate = () => {
+        const individual = new Individual({ genotype: new List(new Array(20).fill(0)) });
+        individual.mutate(map((gene: number) => gene + 1, { rate: 0.5 }), { random: new Xoshiro128(1) });
+
+        return individual.genotype.data();
+      };
+
+      const first = mutate();
+
+      expect(first.some((gene) => gene === 0) && first.some((gene) => gene === 1)).toBe(true);
+      expect(mutate()).toEqual(first);
+      expect(mutate()).toEqual(first);
+    });
+  });
+
   describe("dominates", () => {
     it("returns true if the individual dominates the second one in every objective", () => {
       const a = new Individual({ genotype: new List([]) });
@@ -979,6 +1021,17 @@ describe("Individual", () => {
       expect(children.every((child) => child instanceof Individual)).toBe(true);
     });
 
+    it("draws from the random source of the context", () => {
+      const a = new Individual({ genotype: new List(new Array(20).fill(0)) });
+      const b = new Individual({ genotype: new List(new Array(20).fill(1)) });
+      const cross = () => a.offspring([b], uniform(), {}, { random: new Xoshiro128(1) })[0].genotype.data();
+
+      const first = cross();
+
+      expect(cross()).toEqual(first);
+      expect(cross()).toEqual(first);
+    });
+
     it("returns correct amount of individuals", () => {
       const a = new Individual({ genotype: new List([0, 0, 0, 0]) });
       const b = new Individual({ genotype: new List([1, 1, 1, 1]) });
@@ -997,6 +1050,20 @@ describe("Individual", () => {
       expect(child.phenotype.x).toBe(2);
     });
 
+    it("passes the parents and the context to the crossover method", () => {
+      const a = new Individual({ genotype: new List([0, 0]) });
+      const b = new Individual({ genotype: new List([1, 1]) });
+      a.setObjectives([new Objective(1, 1)]);
+      b.setObjectives([new Objective(3, 1)]);
+
+      const [child] = a.offspring([b], ([x, y], context) => {
+        const [fa, fb] = context!.parents.map((parent) => parent.fitness()[0]);
+        return [x.map((gene, i) => (fa * gene + fb * y[i]) / (fa + fb))];
+      }, {}, { generation: 3 });
+
+      expect(child.genotype.data()).toEqual([0.75, 0.75]);
+    });
+
     it("overrides the state using a function if given", () => {
       const a = new Individual({ genotype: new List([0, 0, 0, 0]) });
       const b = new Individual({ genotype: new List([1, 1, 1, 1]) });
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * @hidden
+ */
+export type Matrix = number[][];
+
+/**
+ * @hidden
+ */
+export interface EigenDecomposition {
+  values: number[];
+  vectors: Matrix;
+}
+
+/**
+ * @hidden
+ * @param n
+ */
+export function identity(n: number): Matrix {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => i === j ? 1 : 0));
+}
+
+/**
+ * @hidden
+ * @param matrix
+ * @param vector
+ */
+export function multiply(matrix: Matrix, vector: number[]): number[] {
+  return matrix.map((row) => row.reduce((acc, value, j) => acc + value * vector[j], 0));
+}
+
+/**
+ * @hidden
+ * @param a
+ * @param b
+ */
+export function multiplyMatrices(a: Matrix, b: Matrix): Matrix {
+  return a.map((row) => b[0].map((_, j) => row.reduce((acc, value, k) => acc + value * b[k][j], 0)));
+}
+
+/**
+ * @hidden
+ * @param matrix
+ */
+export function transpose(matrix: Matrix): Matrix {
+  return matrix[0].map((_, j) => matrix.map((row) => row[j]));
+}
+
+/**
+ * @hidden
+ * @param vector
+ */
+export function norm(vector: number[]): number {
+  return Math.sqrt(vector.reduce((acc, value) => acc + value * value, 0));
+}
+
+/**
+ * Eigenvalues and eigenvectors (the columns of `vectors`) of a symmetric
+ * matrix, computed with cyclic Jacobi rotations.
+ *
+ * @hidden
+ * @param matrix
+ */
+export function eigen(matrix: Matrix): EigenDecomposition {
+  const n = matrix.length;
+  const a = matrix.map((row) => row.slice());
+  const vectors = identity(n);
+
+  const total = a.reduce((acc, row) => acc + row.reduce((sum, value) => sum + value * value, 0), 0);
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        off += a[p][q] * a[p][q];
+      }
+    }
+
+    if (1e-30 * total >= off || !isFinite(off)) {
+      break;
+    }
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) {
+          continue;
+        }
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+
+        for (let k = 0; k < n; k++) {
+          const vkp = vectors[k][p];
+          const vkq = vectors[k][q];
+
+          vectors[k][p] = c * vkp - s * vkq;
+          vectors[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors };
+}
+
+/**
+ * Exponential of a symmetric matrix, computed from its eigen decomposition.
+ *
+ * @hidden
+ * @param matrix
+ */
+export function exponential(matrix: Matrix): Matrix {
+  const { values, vectors } = eigen(matrix);
+  const scaled = vectors.map((row) => row.map((value, k) => value * Math.exp(values[k])));
+
+  return multiplyMatrices(scaled, transpose(vectors));
+}
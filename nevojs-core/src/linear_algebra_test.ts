@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { eigen, exponential, identity, multiply, multiplyMatrices, norm, transpose } from "./linear_algebra";
+
+describe("eigen", () => {
+  it("decomposes symmetric matrices", () => {
+    fc.assert(fc.property(fc.array(fc.double(-10, 10), 16, 16), (values) => {
+      const a = [0, 1, 2, 3].map((i) => values.slice(i * 4, i * 4 + 4));
+      const matrix = multiplyMatrices(a, transpose(a));
+      const { values: eigenvalues, vectors } = eigen(matrix);
+
+      vectors[0].forEach((_, k) => {
+        const vector = vectors.map((row) => row[k]);
+        const product = multiply(matrix, vector);
+
+        product.forEach((value, i) => expect(value).toBeCloseTo(eigenvalues[k] * vector[i], 6));
+        expect(norm(vector)).toBeCloseTo(1, 12);
+      });
+    }));
+  });
+
+  it("returns the identity as the eigenvectors of a diagonal matrix", () => {
+    expect(eigen([[2, 0], [0, 3]])).toEqual({ values: [2, 3], vectors: identity(2) });
+  });
+});
+
+describe("exponential", () => {
+  it("exponentiates the diagonal of a diagonal matrix", () => {
+    const result = exponential([[0, 0], [0, 1]]);
+
+    expect(result[0][0]).toBeCloseTo(1, 12);
+    expect(result[1][1]).toBeCloseTo(Math.E, 12);
+    expect(result[0][1]).toBeCloseTo(0, 12);
+  });
+
+  it("matches the power series of symmetric matrices", () => {
+    const matrix = [[0.5, 0.2], [0.2, -0.3]];
+    const series = [identity(2)];
+
+    for (let k = 1; k < 20; k++) {
+      const term = multiplyMatrices(series[k - 1], matrix).map((row) => row.map((value) => value / k));
+      series.push(term);
+    }
+
+    const result = exponential(matrix);
+
+    result.forEach((row, i) => row.forEach((value, j) => {
+      expect(value).toBeCloseTo(series.reduce((acc, term) => acc + term[i][j], 0), 10);
+    }));
+  });
+});
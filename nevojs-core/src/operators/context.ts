@@ -0,0 +1,36 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random } from "../random";
+
+/**
+ * Information about the run passed to mutation and crossover methods. The
+ * engines fill in the generation and the number of evaluations, `data` is
+ * provided by the user, e.g. bounds or adaptive rates.
+ */
+export interface OperatorContext {
+  random: Random;
+  generation?: number;
+  evaluations?: number;
+  data?: Record<string, any>;
+}
+
+/**
+ * Context provided by the callers, the random source defaults to the current
+ * one.
+ */
+export type OperatorContextSettings = Partial<OperatorContext>;
@@ -15,18 +15,30 @@
  * =============================================================================
  */
 
+import { Random, RandomSettings, getRandom } from "../random";
+import { Scheduled, isScheduled, resolveSchedule } from "./schedule";
 import { choose, isPositiveInt, range, shuffle } from "../util";
+import { AnyIndividual } from "../individual/individual";
+import { OperatorContext } from "./context";
+
+/**
+ * Passed by {@link Individual.offspring}, the parents are in the same order
+ * as their data.
+ */
+export interface CrossoverContext extends OperatorContext {
+  parents: AnyIndividual[];
+}
 
 /**
  *
  */
-export type CrossoverMethod<D> = (parents: D[]) => D[];
+export type CrossoverMethod<D> = (parents: D[], context?: CrossoverContext) => D[];
 
 /**
  *
  */
-export interface UniformCrossoverSettings {
-  alpha: number;
+export interface UniformCrossoverSettings extends RandomSettings {
+  alpha: Scheduled;
 }
 
 /**
@@ -41,21 +53,27 @@ export function uniform(settings: Partial<UniformCrossoverSettings> = {}): Cross
 
   const alpha = settings.alpha ?? 0.5;
 
-  if (typeof alpha !== "number" || alpha > 1 || 0 > alpha || isNaN(alpha)) {
+  if (!isScheduled(alpha) || (typeof alpha === "number" && (alpha > 1 || 0 > alpha || isNaN(alpha)))) {
     throw new TypeError();
   }
 
-  return (parents) => {
+  return (parents, context) => {
+    const random = settings.random ?? getRandom();
     const [parentA, parentB] = parents;
+    const current = resolveSchedule(alpha, context);
+
+    if (current > 1 || 0 > current || isNaN(current)) {
+      throw new TypeError(`scheduled alpha ${current} is not in the [0, 1] range`);
+    }
 
     const childA = new Array(parentA.length);
     const childB = new Array(parentB.length);
 
     for (let i = 0; i < parentA.length; i++) {
-      const x = Math.random();
+      const x = random.next();
 
-      childA[i] = x > alpha ? parentB[i] : parentA[i];
-      childB[i] = x > alpha ? parentA[i] : parentB[i];
+      childA[i] = x > current ? parentB[i] : parentA[i];
+      childB[i] = x > current ? parentA[i] : parentB[i];
     }
 
     return [childA, childB];
@@ -65,7 +83,7 @@ export function uniform(settings: Partial<UniformCrossoverSettings> = {}): Cross
 /**
  *
  */
-export interface PointCrossoverSettings {
+export interface PointCrossoverSettings extends RandomSettings {
   points: number | number[];
   start: number;
   end: number;
@@ -101,7 +119,7 @@ export function point(settings: Partial<PointCrossoverSettings> = {}): Crossover
         throw new TypeError();
       }
 
-      POINTS = shuffle(range(0, end - start)).slice(0, points);
+      POINTS = shuffle(range(0, end - start), settings.random).slice(0, points);
     }
 
     POINTS.push(parentA.length);
@@ -134,12 +152,13 @@ export function point(settings: Partial<PointCrossoverSettings> = {}): Crossover
 
 /**
  *
+ * @param settings
  * @category crossover
  */
-export function ordered(): CrossoverMethod<any[]> {
+export function ordered(settings: RandomSettings = {}): CrossoverMethod<any[]> {
   return (parents) => {
     const points = range(0, parents[0].length - 1);
-    const [start, end] = choose(points, 2).sort((a, b) => a - b);
+    const [start, end] = choose(points, 2, settings.random).sort((a, b) => a - b);
 
     const A = [parents[0], parents[1]];
     const B = [parents[1], parents[0]];
@@ -162,8 +181,8 @@ export function ordered(): CrossoverMethod<any[]> {
 /**
  *
  */
-export interface BlendCrossoverSettings {
-  alpha: number;
+export interface BlendCrossoverSettings extends RandomSettings {
+  alpha: Scheduled;
 }
 
 /**
@@ -174,10 +193,20 @@ export interface BlendCrossoverSettings {
 export function blend(settings: Partial<BlendCrossoverSettings> = {}): CrossoverMethod<number[]> {
   const alpha = settings.alpha ?? 0.5;
 
-  return (parents) => {
+  if (!isScheduled(alpha) || (typeof alpha === "number" && (0 > alpha || isNaN(alpha)))) {
+    throw new TypeError();
+  }
+
+  return (parents, context) => {
+    const random = settings.random ?? getRandom();
     const children = new Array(2);
+    const current = resolveSchedule(alpha, context);
     const [parentA, parentB] = parents;
 
+    if (0 > current || isNaN(current)) {
+      throw new TypeError(`scheduled alpha ${current} is negative`);
+    }
+
     if (
       parents.length !== 2 ||
       parentA.length !== parentB.length
@@ -189,11 +218,11 @@ export function blend(settings: Partial<BlendCrossoverSettings> = {}): Crossover
       children[i] = parentA.map((_, i) => {
         const [a, b] = [parentA[i], parentB[i]].sort((a, b) => a - b);
 
-        const offset = alpha * (b - a);
+        const offset = current * (b - a);
         const min = a - offset;
         const max = b + offset;
 
-        return Math.random() * (max - min) + min;
+        return random.next() * (max - min) + min;
       });
     }
 
@@ -201,57 +230,526 @@ export function blend(settings: Partial<BlendCrossoverSettings> = {}): Crossover
   };
 }
 /**
- *
+ * Bounds are either a single number applying to every gene or an array of
+ * bounds per gene.
  */
-export interface SimulatedBinaryCrossoverSettings {
+export interface SimulatedBinaryCrossoverSettings extends RandomSettings {
   distributionIndex: number;
+  probability: number;
+  lower: number | ArrayLike<number>;
+  upper: number | ArrayLike<number>;
+}
+
+function boundAt(bound: number | ArrayLike<number>, i: number): number {
+  return typeof bound === "number" ? bound : bound[i];
+}
+
+function assertBound(bound: unknown): void {
+  if (typeof bound !== "number" && (bound === null || typeof bound !== "object" || typeof (bound as ArrayLike<number>).length !== "number")) {
+    throw new TypeError();
+  }
+}
+
+function spreadFactor(u: number, beta: number, distributionIndex: number): number {
+  const alpha = 2 - beta ** -(distributionIndex + 1);
+
+  return 1 / alpha >= u
+    ? (u * alpha) ** (1 / (distributionIndex + 1))
+    : (1 / (2 - u * alpha)) ** (1 / (distributionIndex + 1));
 }
 
 /**
+ * Crosses a single pair of genes, the spread factors are shrunk so that the
+ * children are not likely to be placed outside of the bounds.
+ *
+ * @hidden
+ */
+export function simulatedBinaryGenes(
+  geneA: number,
+  geneB: number,
+  lower: number,
+  upper: number,
+  distributionIndex: number,
+  random: Random,
+): number[] {
+  if (1e-14 >= Math.abs(geneA - geneB)) {
+    return [geneA, geneB];
+  }
+
+  const min = Math.min(geneA, geneB);
+  const max = Math.max(geneA, geneB);
+  const u = random.next();
+
+  const low = 0.5 * (min + max - spreadFactor(u, 1 + 2 * (min - lower) / (max - min), distributionIndex) * (max - min));
+  const high = 0.5 * (min + max + spreadFactor(u, 1 + 2 * (upper - max) / (max - min), distributionIndex) * (max - min));
+
+  const children = [
+    Math.min(Math.max(low, lower), upper),
+    Math.min(Math.max(high, lower), upper),
+  ];
+
+  return 0.5 >= random.next()
+    ? children.reverse()
+    : children;
+}
+
+/**
+ * Bounded simulated binary crossover of Deb and Agrawal, as used by NSGA-II.
+ * Every pair of genes is crossed with the given `probability` (0.5 by
+ * default), the distribution index defaults to 20. Genes without bounds are
+ * crossed with the unbounded variant.
  *
  * @param settings
  * @category crossover
  */
 export function simulatedBinary(settings: Partial<SimulatedBinaryCrossoverSettings> = {}): CrossoverMethod<number[]> {
-  const distributionIndex = settings.distributionIndex ?? 3;
+  const distributionIndex = settings.distributionIndex ?? 20;
+  const probability = settings.probability ?? 0.5;
+  const lower = settings.lower ?? -Infinity;
+  const upper = settings.upper ?? Infinity;
 
-  return (parents) => {
-    const childA: number[] = Array(parents[0].length);
-    const childB: number[] = Array(parents[0].length);
+  if (typeof distributionIndex !== "number" || !(distributionIndex >= 0)) {
+    throw new TypeError();
+  }
+
+  if (typeof probability !== "number" || !(probability >= 0 && 1 >= probability)) {
+    throw new TypeError();
+  }
 
-    for (let i = 0; i < parents[0].length; i++) {
-      const geneA = parents[0][i];
-      const geneB = parents[1][i];
+  assertBound(lower);
+  assertBound(upper);
 
-      const x = 0.5 * (geneA + geneB);
-      const y = Math.random() * distributionIndex * (geneB - geneA);
+  return (parents) => {
+    if (parents.length !== 2 || parents[0].length !== parents[1].length) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const [childA, childB] = parents.map((parent) => parent.slice());
 
-      childA[i] = x - 0.5 * y;
-      childB[i] = x + 0.5 * y;
+    for (let i = 0; i < childA.length; i++) {
+      if (probability >= random.next()) {
+        [childA[i], childB[i]] = simulatedBinaryGenes(childA[i], childB[i], boundAt(lower, i), boundAt(upper, i), distributionIndex, random);
+      }
     }
 
     return [childA, childB];
   };
+}
+
+function assertPermutationParents(parents: any[][]): void {
+  if (parents.length !== 2 || parents[0].length !== parents[1].length) {
+    throw new TypeError();
+  }
+}
+
+function indexMap<T>(genes: T[]): Map<T, number> {
+  const map = new Map<T, number>();
+  genes.forEach((gene, i) => map.set(gene, i));
+
+  return map;
+}
+
+function partiallyMappedChild<T>(parentA: T[], parentB: T[], start: number, end: number): T[] {
+  const child: T[] = new Array(parentA.length);
+  const filled: boolean[] = new Array(parentA.length).fill(false);
+  const indexB = indexMap(parentB);
+  const segment = new Set(parentA.slice(start, end));
+
+  for (let i = start; i < end; i++) {
+    child[i] = parentA[i];
+    filled[i] = true;
+  }
+
+  for (let i = start; i < end; i++) {
+    if (segment.has(parentB[i])) {
+      continue;
+    }
+
+    let j = i;
+
+    while (j >= start && end > j) {
+      const next = indexB.get(parentA[j]);
+
+      if (next === undefined) {
+        throw new TypeError();
+      }
+
+      j = next;
+    }
+
+    child[j] = parentB[i];
+    filled[j] = true;
+  }
+
+  for (let i = 0; i < child.length; i++) {
+    if (!filled[i]) {
+      child[i] = parentB[i];
+    }
+  }
+
+  return child;
+}
+
+/**
+ * Partially mapped crossover (PMX). Copies a random segment from one parent
+ * and fills the rest from the other, resolving conflicts through the mapping
+ * defined by the segment.
+ *
+ * @param settings
+ * @category crossover
+ */
+export function partiallyMapped(settings: RandomSettings = {}): CrossoverMethod<any[]> {
+  return (parents) => {
+    assertPermutationParents(parents);
+
+    const [parentA, parentB] = parents;
+    const [start, end] = choose(range(0, parentA.length), 2, settings.random).sort((a, b) => a - b);
+
+    return [
+      partiallyMappedChild(parentA, parentB, start, end),
+      partiallyMappedChild(parentB, parentA, start, end),
+    ];
+  };
+}
 
-  /*
-  return parents => {
-    const u = Math.random();
-    const x = 1 / (distributionIndex + 1);
+/**
+ * Cycle crossover (CX). Every gene keeps the position it has in one of the
+ * parents, the parents are alternated between consecutive cycles.
+ *
+ * @category crossover
+ */
+export function cycle(): CrossoverMethod<any[]> {
+  return (parents) => {
+    assertPermutationParents(parents);
 
-    const aaa = 0.5 >= u
-      ? 2 * u
-      : 1 / (2 * (1 - u));
-    const beta = aaa ** x;
+    const [parentA, parentB] = parents;
+    const indexA = indexMap(parentA);
 
-    const childA: number[] = new Array(parents[0].length);
-    const childB: number[] = new Array(parents[0].length);
+    const childA = new Array(parentA.length);
+    const childB = new Array(parentA.length);
+    const visited: boolean[] = new Array(parentA.length).fill(false);
 
-    for (let i = 0; i < parents[0].length; i++) {
-      childA[i] = 0.5 * ((1 + beta) * parents[0][i] + (1 - beta) * parents[1][i]);
-      childB[i] = 0.5 * ((1 - beta) * parents[0][i] + (1 + beta) * parents[1][i]);
+    let flag = true;
+    for (let start = 0; start < parentA.length; start++) {
+      if (visited[start]) {
+        continue;
+      }
+
+      let i = start;
+
+      do {
+        visited[i] = true;
+        childA[i] = flag ? parentA[i] : parentB[i];
+        childB[i] = flag ? parentB[i] : parentA[i];
+
+        const next = indexA.get(parentB[i]);
+
+        if (next === undefined) {
+          throw new TypeError();
+        }
+
+        i = next;
+      } while (i !== start);
+
+      flag = !flag;
     }
 
     return [childA, childB];
   };
-   */
+}
+
+function edgeRecombinationChild<T>(parents: T[][], start: T, random: Random): T[] {
+  const adjacency = new Map<T, Set<T>>(parents[0].map((gene) => [gene, new Set<T>()]));
+
+  for (const parent of parents) {
+    parent.forEach((gene, i) => {
+      const neighbors = adjacency.get(gene);
+
+      if (neighbors === undefined) {
+        throw new TypeError();
+      }
+
+      neighbors.add(parent[(i + parent.length - 1) % parent.length]);
+      neighbors.add(parent[(i + 1) % parent.length]);
+    });
+  }
+
+  const remaining = new Set(parents[0]);
+  const child: T[] = [start];
+  let current = start;
+
+  remaining.delete(start);
+
+  while (remaining.size > 0) {
+    const neighbors = Array.from(adjacency.get(current) as Set<T>);
+    neighbors.forEach((neighbor) => (adjacency.get(neighbor) as Set<T>).delete(current));
+
+    const candidates = neighbors.filter((neighbor) => remaining.has(neighbor));
+    const size = (gene: T) => (adjacency.get(gene) as Set<T>).size;
+    const fewest = Math.min(...candidates.map(size));
+
+    current = candidates.length > 0
+      ? choose(candidates.filter((candidate) => size(candidate) === fewest), 1, random)[0]
+      : choose(Array.from(remaining), 1, random)[0];
+
+    child.push(current);
+    remaining.delete(current);
+  }
+
+  return child;
+}
+
+/**
+ * Edge recombination crossover (ERX). Builds the children from the edges
+ * of both parents, preferring the genes with the fewest remaining edges.
+ *
+ * @param settings
+ * @category crossover
+ */
+export function edgeRecombination(settings: RandomSettings = {}): CrossoverMethod<any[]> {
+  return (parents) => {
+    assertPermutationParents(parents);
+
+    const random = settings.random ?? getRandom();
+
+    if (parents[0].length === 0) {
+      return [[], []];
+    }
+
+    return [
+      edgeRecombinationChild(parents, parents[0][0], random),
+      edgeRecombinationChild(parents, parents[1][0], random),
+    ];
+  };
+}
+
+/**
+ * Order-based crossover (OX2). Genes found at random positions of the other
+ * parent are reordered to follow the order they have there.
+ *
+ * @param settings
+ * @category crossover
+ */
+export function orderBased(settings: RandomSettings = {}): CrossoverMethod<any[]> {
+  return (parents) => {
+    assertPermutationParents(parents);
+
+    const random = settings.random ?? getRandom();
+    const positions = range(0, parents[0].length - 1).filter(() => random.next() < 0.5);
+
+    return [[parents[0], parents[1]], [parents[1], parents[0]]].map(([parent, other]) => {
+      const selected = positions.map((i) => other[i]);
+      const lookup = new Set(selected);
+      const child = parent.slice();
+
+      let k = 0;
+      for (let i = 0; i < child.length; i++) {
+        if (lookup.has(parent[i])) {
+          child[i] = selected[k++];
+        }
+      }
+
+      return child;
+    });
+  };
+}
+
+/**
+ *
+ */
+export interface CutAndSpliceSettings extends RandomSettings {
+  minLength?: number;
+  maxLength?: number;
+}
+
+function lengthLimits(settings: { minLength?: number; maxLength?: number }): { minLength: number; maxLength: number } {
+  const minLength = settings.minLength ?? 0;
+  const maxLength = settings.maxLength ?? Infinity;
+
+  if (!Number.isInteger(minLength) || 0 > minLength || minLength > maxLength) {
+    throw new TypeError();
+  }
+
+  if (maxLength !== Infinity && !Number.isInteger(maxLength)) {
+    throw new TypeError();
+  }
+
+  return { minLength, maxLength };
+}
+
+/**
+ * Cuts both parents at independently chosen points and exchanges the tails,
+ * so the parents may have different lengths and so may the children. The
+ * cut points are chosen so that both children stay within the length limits;
+ * if that is impossible, the parents are returned unchanged.
+ *
+ * @param settings
+ * @category crossover
+ */
+export function cutAndSplice(settings: CutAndSpliceSettings = {}): CrossoverMethod<any[]> {
+  const { minLength, maxLength } = lengthLimits(settings);
+
+  return (parents) => {
+    if (parents.length !== 2) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+    const candidates: { cutA: number; lower: number; upper: number }[] = [];
+
+    for (let cutA = 0; cutA <= parentA.length; cutA++) {
+      const lower = Math.max(0, cutA + parentB.length - maxLength, minLength - parentA.length + cutA);
+      const upper = Math.min(parentB.length, cutA + parentB.length - minLength, maxLength - parentA.length + cutA);
+
+      if (upper >= lower) {
+        candidates.push({ cutA, lower, upper });
+      }
+    }
+
+    if (candidates.length === 0) {
+      return [parentA.slice(), parentB.slice()];
+    }
+
+    const { cutA, lower, upper } = candidates[Math.floor(random.next() * candidates.length)];
+    const cutB = lower + Math.floor(random.next() * (upper - lower + 1));
+
+    return [
+      parentA.slice(0, cutA).concat(parentB.slice(cutB)),
+      parentB.slice(0, cutB).concat(parentA.slice(cutA)),
+    ];
+  };
+}
+
+/**
+ *
+ */
+export interface MessyCrossoverSettings extends RandomSettings {
+  cutRate?: number;
+  spliceProbability?: number;
+}
+
+/**
+ * Cut and splice operator of the messy genetic algorithm. Every parent is cut
+ * at a random point with the probability of `cutRate` per gene boundary, and
+ * the resulting strings are spliced together, in the order `A1 B2 B1 A2`, with
+ * the `spliceProbability`. Depending on the cuts and splices, between one and
+ * four children are returned.
+ *
+ * @param settings
+ * @category crossover
+ */
+export function messy(settings: MessyCrossoverSettings = {}): CrossoverMethod<any[]> {
+  const cutRate = settings.cutRate ?? 0.1;
+  const spliceProbability = settings.spliceProbability ?? 1;
+
+  if ([cutRate, spliceProbability].some((value) => typeof value !== "number" || isNaN(value) || 0 > value || value > 1)) {
+    throw new TypeError();
+  }
+
+  return (parents) => {
+    if (parents.length !== 2) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+
+    const cut = (parent: any[]) => {
+      if (2 > parent.length || Math.min(1, cutRate * (parent.length - 1)) <= random.next()) {
+        return [parent.slice()];
+      }
+
+      const point = 1 + Math.floor(random.next() * (parent.length - 1));
+      return [parent.slice(0, point), parent.slice(point)];
+    };
+
+    const [headA, tailA] = cut(parents[0]);
+    const [headB, tailB] = cut(parents[1]);
+    const strings = [headA, tailB, headB, tailA].filter((string) => string !== undefined);
+
+    const children = [strings[0]];
+
+    for (let i = 1; i < strings.length; i++) {
+      if (spliceProbability > random.next()) {
+        children[children.length - 1] = children[children.length - 1].concat(strings[i]);
+      } else {
+        children.push(strings[i]);
+      }
+    }
+
+    return children;
+  };
+}
+
+/**
+ *
+ */
+export interface HomologousCrossoverSettings extends RandomSettings {
+  equals?: (a: any, b: any) => boolean;
+}
+
+/**
+ * Aligns the parents by their longest common subsequence and exchanges the
+ * tails at a random pair of aligned genes, so that the genes are only swapped
+ * with their counterparts even if the parents have different lengths. If the
+ * parents have nothing in common, they are returned unchanged.
+ *
+ * @param settings
+ * @category crossover
+ */
+export function homologous(settings: HomologousCrossoverSettings = {}): CrossoverMethod<any[]> {
+  const equals = settings.equals ?? Object.is;
+
+  if (typeof equals !== "function") {
+    throw new TypeError();
+  }
+
+  return (parents) => {
+    if (parents.length !== 2) {
+      throw new TypeError();
+    }
+
+    const random = settings.random ?? getRandom();
+    const [parentA, parentB] = parents;
+    const m = parentA.length;
+    const n = parentB.length;
+
+    const table = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+
+    for (let i = m - 1; i >= 0; i--) {
+      for (let j = n - 1; j >= 0; j--) {
+        table[i][j] = equals(parentA[i], parentB[j])
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+      }
+    }
+
+    const aligned: { i: number; j: number }[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (m > i && n > j) {
+      if (equals(parentA[i], parentB[j])) {
+        aligned.push({ i, j });
+        i += 1;
+        j += 1;
+      } else if (table[i + 1][j] >= table[i][j + 1]) {
+        i += 1;
+      } else {
+        j += 1;
+      }
+    }
+
+    if (aligned.length === 0) {
+      return [parentA.slice(), parentB.slice()];
+    }
+
+    const point = aligned[Math.floor(random.next() * aligned.length)];
+
+    return [
+      parentA.slice(0, point.i).concat(parentB.slice(point.j)),
+      parentB.slice(0, point.j).concat(parentA.slice(point.i)),
+    ];
+  };
 }
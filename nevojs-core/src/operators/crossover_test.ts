@@ -15,8 +15,24 @@
  * =============================================================================
  */
 
+import * as fc from "fast-check";
+import {
+  CrossoverMethod,
+  blend,
+  cutAndSplice,
+  cycle,
+  edgeRecombination,
+  homologous,
+  messy,
+  orderBased,
+  partiallyMapped,
+  simulatedBinary,
+  uniform,
+} from "./crossover";
 import { List } from "../genotype/list";
-import { uniform } from "./crossover";
+import { Permutation } from "../genotype/permutation";
+import { Xoshiro128 } from "../random";
+import { piecewise } from "./schedule";
 
 describe("uniform", () => {
   it("returns two Individual instances", () => {
@@ -79,4 +95,248 @@ describe("uniform", () => {
       expect(() => uniform({ alpha })).not.toThrowError(TypeError);
     });
   });
+
+  it("resolves a scheduled alpha against the context", () => {
+    const parents = [Array(5).fill(0), Array(5).fill(1)];
+    const method = uniform({ alpha: piecewise([{ at: 0, value: 1 }, { at: 1, value: 0 }]) });
+
+    expect(method(parents, { generation: 0 } as any)).toEqual(parents);
+    expect(method(parents, { generation: 1 } as any)).toEqual(parents.slice().reverse());
+  });
+});
+
+describe("blend", () => {
+  it("keeps the genes within the extended parent interval", () => {
+    fc.assert(fc.property(fc.double(0, 1), fc.integer(), (alpha, seed) => {
+      const children = blend({ alpha, random: new Xoshiro128(seed) })([[0, 2], [1, 4]]);
+
+      children.forEach(([a, b]) => {
+        expect(a).toBeGreaterThanOrEqual(-alpha);
+        expect(1 + alpha).toBeGreaterThanOrEqual(a);
+        expect(b).toBeGreaterThanOrEqual(2 - 2 * alpha);
+        expect(4 + 2 * alpha).toBeGreaterThanOrEqual(b);
+      });
+    }));
+  });
+
+  it("throws a TypeError if alpha is negative", () => {
+    expect(() => blend({ alpha: -0.5 })).toThrow(TypeError);
+    expect(() => blend({ alpha: NaN })).toThrow(TypeError);
+  });
+
+  it("throws a TypeError if a scheduled alpha resolves to a negative value", () => {
+    const method = blend({ alpha: piecewise([{ at: 0, value: 0.5 }, { at: 10, value: -0.5 }]) });
+
+    expect(() => method([[0], [1]], { generation: 0 } as any)).not.toThrow();
+    expect(() => method([[0], [1]], { generation: 10 } as any)).toThrow(TypeError);
+  });
+});
+
+function preservesPermutation(factory: (random: Xoshiro128) => CrossoverMethod<number[]>): void {
+  it("returns two permutations", () => {
+    fc.assert(fc.property(fc.integer(1, 30), fc.integer(), (length, seed) => {
+      const random = new Xoshiro128(seed);
+      const parentA = Permutation.random(length, { random });
+      const parentB = Permutation.random(length, { random });
+
+      expect(parentA.offspring([parentB], factory(random)).length).toBe(2);
+    }));
+  });
+
+  it("throws a TypeError if the parents have different lengths", () => {
+    expect(() => factory(new Xoshiro128(1))([[0, 1], [0, 1, 2]])).toThrow(TypeError);
+  });
+}
+
+describe("partiallyMapped", () => {
+  preservesPermutation((random) => partiallyMapped({ random }));
+
+  it("copies the mapped segment and resolves the conflicts", () => {
+    const random = { next: jest.fn().mockReturnValueOnce(3 / 10).mockReturnValueOnce(6 / 9) };
+    const [child] = partiallyMapped({ random })([
+      [0, 1, 2, 3, 4, 5, 6, 7, 8],
+      [8, 2, 6, 7, 1, 5, 4, 0, 3],
+    ]);
+
+    expect(child).toEqual([8, 2, 1, 3, 4, 5, 6, 0, 7]);
+  });
+});
+
+describe("cycle", () => {
+  preservesPermutation(() => cycle());
+
+  it("alternates the parents between consecutive cycles", () => {
+    const [childA, childB] = cycle()([
+      [0, 1, 2, 3, 4, 5, 6, 7],
+      [7, 4, 1, 0, 2, 5, 3, 6],
+    ]);
+
+    expect(childA).toEqual([0, 4, 1, 3, 2, 5, 6, 7]);
+    expect(childB).toEqual([7, 1, 2, 0, 4, 5, 3, 6]);
+  });
+});
+
+describe("edgeRecombination", () => {
+  preservesPermutation((random) => edgeRecombination({ random }));
+
+  it("only uses the edges of the parents if the parents are equal", () => {
+    fc.assert(fc.property(fc.integer(3, 30), fc.integer(), (length, seed) => {
+      const parent = Permutation.random(length, { random: new Xoshiro128(seed) }).data();
+      const [child] = edgeRecombination({ random: new Xoshiro128(seed) })([parent, parent]);
+
+      const position = parent.slice();
+      parent.forEach((gene, i) => position[gene] = i);
+
+      child.forEach((gene, i) => {
+        const distance = Math.abs(position[gene] - position[child[(i + 1) % length]]);
+        expect([1, length - 1]).toContain(distance);
+      });
+    }));
+  });
+});
+
+describe("orderBased", () => {
+  preservesPermutation((random) => orderBased({ random }));
+
+  it("reorders the selected genes to follow the other parent", () => {
+    const random = { next: jest.fn(() => 0) };
+    const [childA, childB] = orderBased({ random })([
+      [0, 1, 2, 3, 4],
+      [4, 3, 2, 1, 0],
+    ]);
+
+    expect(childA).toEqual([4, 3, 2, 1, 0]);
+    expect(childB).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe("cutAndSplice", () => {
+  it("preserves the genes of parents of different lengths", () => {
+    fc.assert(fc.property(fc.array(fc.integer(), 20), fc.array(fc.integer(), 20), fc.integer(), (parentA, parentB, seed) => {
+      const children = cutAndSplice({ random: new Xoshiro128(seed) })([parentA, parentB]);
+
+      expect([...children[0], ...children[1]].sort()).toEqual([...parentA, ...parentB].sort());
+    }));
+  });
+
+  it("keeps the children within the length limits", () => {
+    fc.assert(fc.property(fc.array(fc.integer(), 2, 20), fc.array(fc.integer(), 2, 20), fc.integer(), (parentA, parentB, seed) => {
+      const children = cutAndSplice({ minLength: 2, maxLength: 20, random: new Xoshiro128(seed) })([parentA, parentB]);
+
+      children.forEach((child) => {
+        expect(child.length).toBeGreaterThanOrEqual(2);
+        expect(child.length).toBeLessThanOrEqual(20);
+      });
+    }));
+  });
+
+  it("returns the parents if the limits cannot be satisfied", () => {
+    const parents = [[1], [2, 3, 4, 5]];
+
+    expect(cutAndSplice({ minLength: 3 })(parents)).toEqual(parents);
+  });
+
+  it("throws a TypeError if the limits are invalid", () => {
+    expect(() => cutAndSplice({ minLength: 5, maxLength: 2 })).toThrow(TypeError);
+  });
+});
+
+describe("messy", () => {
+  it("preserves the genes of the parents", () => {
+    fc.assert(fc.property(fc.array(fc.integer(), 20), fc.array(fc.integer(), 20), fc.integer(), (parentA, parentB, seed) => {
+      const children = messy({ cutRate: 0.2, spliceProbability: 0.5, random: new Xoshiro128(seed) })([parentA, parentB]);
+
+      expect(children.length).toBeGreaterThanOrEqual(1);
+      expect(children.length).toBeLessThanOrEqual(4);
+      expect(([] as number[]).concat(...children).sort()).toEqual([...parentA, ...parentB].sort());
+    }));
+  });
+
+  it("exchanges the tails if both parents are cut and spliced", () => {
+    const random = { next: jest.fn(() => 0) };
+    const children = messy({ cutRate: 1, random })([[1, 2, 3], [4, 5, 6]]);
+
+    expect(children).toEqual([[1, 5, 6, 4, 2, 3]]);
+  });
+
+  it("returns the strings separately if they are not spliced", () => {
+    const children = messy({ cutRate: 0, spliceProbability: 0 })([[1, 2], [3]]);
+
+    expect(children).toEqual([[1, 2], [3]]);
+  });
+});
+
+describe("homologous", () => {
+  it("exchanges the tails at aligned genes", () => {
+    const random = { next: jest.fn(() => 0.5) };
+    const children = homologous({ random })([
+      ["a", "b", "x", "c", "d"],
+      ["a", "b", "c", "y", "y", "d"],
+    ]);
+
+    expect(children).toEqual([
+      ["a", "b", "x", "c", "y", "y", "d"],
+      ["a", "b", "c", "d"],
+    ]);
+  });
+
+  it("uses the given equality", () => {
+    const children = homologous({ equals: (a, b) => a.id === b.id })([[{ id: 1, v: 1 }], [{ id: 1, v: 2 }]]);
+
+    expect(children).toEqual([[{ id: 1, v: 2 }], [{ id: 1, v: 1 }]]);
+  });
+
+  it("returns the parents if they have nothing in common", () => {
+    expect(homologous()([[1, 2], [3]])).toEqual([[1, 2], [3]]);
+  });
+});
+
+describe("simulatedBinary", () => {
+  const sequence = (...values: number[]) => {
+    const next = jest.fn();
+    values.forEach((value) => next.mockReturnValueOnce(value));
+
+    return { next };
+  };
+
+  // reference values computed with the crossover of Deb's NSGA-II implementation
+  it("matches the reference implementation", () => {
+    const cases = [
+      { settings: { lower: 0, upper: 1 }, u: [0.3, 0.9], parents: [0.2, 0.7], children: [0.20600791544968614, 0.6939921094925268] },
+      { settings: { lower: 0, upper: 1 }, u: [0.95, 0.1], parents: [0.2, 0.7], children: [0.7289709899951324, 0.171029551833365] },
+      { settings: { distributionIndex: 2, lower: -5, upper: 5 }, u: [0.8, 0.7], parents: [1.5, -2], children: [-2.550833742510201, 2.0692094591256898] },
+      { settings: { distributionIndex: 1, lower: [0], upper: [1] }, u: [0.999, 0.9], parents: [0.05, 0.1], children: [0.0006294853364088027, 0.5534980627333861] },
+    ];
+
+    cases.forEach(({ settings, u, parents, children }) => {
+      const [[childA], [childB]] = simulatedBinary({ ...settings, random: sequence(0, ...u) })(parents.map((gene) => [gene]));
+
+      expect(childA).toBeCloseTo(children[0], 12);
+      expect(childB).toBeCloseTo(children[1], 12);
+    });
+  });
+
+  it("crosses every gene with the given probability", () => {
+    const children = simulatedBinary({ probability: 0.5, random: sequence(0.6, 0.2, 0.3, 0.9) })([[1, 2], [3, 4]]);
+
+    expect(children[0][0]).toBe(1);
+    expect(children[1][0]).toBe(3);
+    expect(children[0][1]).not.toBe(2);
+  });
+
+  it("keeps the children within the bounds", () => {
+    fc.assert(fc.property(fc.array(fc.double(-1, 1), 1, 10), fc.integer(), (genes, seed) => {
+      const method = simulatedBinary({ distributionIndex: 0, probability: 1, lower: -1, upper: 1, random: new Xoshiro128(seed) });
+
+      method([genes, genes.map((gene) => -gene)]).forEach((child) => {
+        expect(child.every((gene) => gene >= -1 && 1 >= gene)).toBe(true);
+      });
+    }));
+  });
+
+  it("throws a TypeError if the settings are invalid", () => {
+    expect(() => simulatedBinary({ probability: 2 })).toThrow(TypeError);
+    expect(() => simulatedBinary({ distributionIndex: -1 })).toThrow(TypeError);
+    expect(() => simulatedBinary()([[1], [1, 2]])).toThrow(TypeError);
+  });
 });
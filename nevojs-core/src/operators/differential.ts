@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { RealData, realValues, withRealValues } from "../genotype/real_vector/real_vector";
+import { Random } from "../random";
+
+/**
+ * Data of the genotypes differential evolution works on, the genes of a
+ * `List<number>` or the values of a `RealVector`.
+ *
+ * @deprecated Use `RealData` instead.
+ */
+export type DifferentialData = RealData;
+
+/**
+ * Everything needed to create the donor vector of a single target. The
+ * `ranking` holds the indices of the `vectors` from the best one, the
+ * `archive` holds the vectors of the replaced targets.
+ */
+export interface DifferentialContext {
+  index: number;
+  vectors: number[][];
+  ranking: number[];
+  archive: number[][];
+  scale: number;
+  random: Random;
+}
+
+/**
+ * Creates the donor (mutant) vector of the target at `context.index`.
+ */
+export type DifferentialMutation = (context: DifferentialContext) => number[];
+
+/**
+ * Mixes the target and the donor into the trial vector, taking the genes of
+ * the donor with the `rate` probability.
+ */
+export type DifferentialCrossover = (target: number[], donor: number[], rate: number, random: Random) => number[];
+
+/**
+ *
+ * @param data
+ * @deprecated Use `realValues` instead.
+ * @hidden
+ */
+export function differentialVector(data: DifferentialData): number[] {
+  return realValues(data);
+}
+
+/**
+ *
+ * @param data
+ * @param vector
+ * @deprecated Use `withRealValues` instead.
+ * @hidden
+ */
+export function withDifferentialVector<D extends DifferentialData>(data: D, vector: number[]): D {
+  return withRealValues(data, vector);
+}
+
+function pick(amount: number, context: DifferentialContext, exclude: number[], size = context.vectors.length): number[] {
+  const picked: number[] = [];
+
+  if (amount > size - exclude.length) {
+    throw new RangeError(`Expected at least ${amount + exclude.length} vectors to choose from, got ${size}`);
+  }
+
+  while (amount > picked.length) {
+    const index = Math.floor(context.random.next() * size);
+
+    if (!exclude.includes(index) && !picked.includes(index)) {
+      picked.push(index);
+    }
+  }
+
+  return picked;
+}
+
+function difference(context: DifferentialContext, base: number[], ...pairs: number[][][]): number[] {
+  return base.map((gene, i) => pairs.reduce((acc, [a, b]) => acc + context.scale * (a[i] - b[i]), gene));
+}
+
+/**
+ * DE/rand/1, `x_r1 + F (x_r2 - x_r3)`.
+ *
+ * @category differential evolution
+ */
+export function rand1(): DifferentialMutation {
+  return (context) => {
+    const { index, vectors } = context;
+    const [r1, r2, r3] = pick(3, context, [index]);
+
+    return difference(context, vectors[r1], [vectors[r2], vectors[r3]]);
+  };
+}
+
+/**
+ * DE/rand/2, `x_r1 + F (x_r2 - x_r3) + F (x_r4 - x_r5)`.
+ *
+ * @category differential evolution
+ */
+export function rand2(): DifferentialMutation {
+  return (context) => {
+    const { index, vectors } = context;
+    const [r1, r2, r3, r4, r5] = pick(5, context, [index]);
+
+    return difference(context, vectors[r1], [vectors[r2], vectors[r3]], [vectors[r4], vectors[r5]]);
+  };
+}
+
+/**
+ * DE/best/1, `x_best + F (x_r1 - x_r2)`.
+ *
+ * @category differential evolution
+ */
+export function best1(): DifferentialMutation {
+  return (context) => {
+    const { index, vectors, ranking } = context;
+    const [r1, r2] = pick(2, context, [index]);
+
+    return difference(context, vectors[ranking[0]], [vectors[r1], vectors[r2]]);
+  };
+}
+
+/**
+ * DE/current-to-best/1, `x_i + F (x_best - x_i) + F (x_r1 - x_r2)`.
+ *
+ * @category differential evolution
+ */
+export function currentToBest1(): DifferentialMutation {
+  return (context) => {
+    const { index, vectors, ranking } = context;
+    const [r1, r2] = pick(2, context, [index]);
+
+    return difference(context, vectors[index], [vectors[ranking[0]], vectors[index]], [vectors[r1], vectors[r2]]);
+  };
+}
+
+/**
+ *
+ */
+export interface CurrentToPBestSettings {
+  p: number;
+  archive: boolean;
+}
+
+/**
+ * DE/current-to-pbest/1 of JADE, `x_i + F (x_pbest - x_i) + F (x_r1 - x_r2)`,
+ * where `x_pbest` is one of the `p` best vectors and `x_r2` is taken from the
+ * population and the archive of replaced targets.
+ *
+ * @param settings
+ * @category differential evolution
+ */
+export function currentToPBest1(settings: Partial<CurrentToPBestSettings> = {}): DifferentialMutation {
+  const p = settings.p ?? 0.05;
+  const useArchive = settings.archive ?? true;
+
+  if (typeof p !== "number" || 0 >= p || p > 1) {
+    throw new TypeError();
+  }
+
+  return (context) => {
+    const { index, vectors, ranking, random } = context;
+    const archive = useArchive ? context.archive : [];
+
+    const top = Math.max(1, Math.round(p * vectors.length));
+    const pbest = ranking[Math.floor(random.next() * top)];
+
+    const [r1] = pick(1, context, [index]);
+    const [r2] = pick(1, context, [index, r1], vectors.length + archive.length);
+    const second = r2 < vectors.length ? vectors[r2] : archive[r2 - vectors.length];
+
+    return difference(context, vectors[index], [vectors[pbest], vectors[index]], [vectors[r1], second]);
+  };
+}
+
+/**
+ * Takes every gene of the donor with the `rate` probability, at least one
+ * randomly chosen gene always comes from the donor.
+ *
+ * @category differential evolution
+ */
+export function binomial(): DifferentialCrossover {
+  return (target, donor, rate, random) => {
+    const forced = Math.floor(random.next() * target.length);
+
+    return target.map((gene, i) => i === forced || rate > random.next() ? donor[i] : gene);
+  };
+}
+
+/**
+ * Takes a contiguous (circular) segment of the donor starting at a random
+ * gene, the segment continues with the `rate` probability.
+ *
+ * @category differential evolution
+ */
+export function exponential(): DifferentialCrossover {
+  return (target, donor, rate, random) => {
+    const trial = target.slice();
+    const start = Math.floor(random.next() * target.length);
+
+    let length = 0;
+    do {
+      const i = (start + length) % target.length;
+      trial[i] = donor[i];
+      length += 1;
+    } while (target.length > length && rate > random.next());
+
+    return trial;
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { isPositiveInt, randomCauchy, randomGauss } from "../util";
+import { AnyIndividual } from "../individual/individual";
+import { Random } from "../random";
+
+/**
+ * The scale factor `F` and the crossover rate `CR` used to create a single
+ * trial vector.
+ */
+export interface DifferentialParameters {
+  scale: number;
+  rate: number;
+}
+
+/**
+ * Parameters of a trial vector which replaced its target, `improvement` is
+ * the difference of their target values.
+ */
+export interface DifferentialSuccess extends DifferentialParameters {
+  improvement: number;
+}
+
+/**
+ * Chooses the parameters of every trial vector and learns from the
+ * successful ones after each generation. The engine resets the adaptation at
+ * the start of every run.
+ */
+export interface DifferentialAdaptation {
+  sample(target: AnyIndividual, random: Random): DifferentialParameters;
+  update(successes: DifferentialSuccess[]): void;
+  reset(): void;
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && 1 >= value;
+}
+
+function assertParameters(scale: number, rate: number): void {
+  if (typeof scale !== "number" || 0 >= scale || !isFraction(rate)) {
+    throw new TypeError();
+  }
+}
+
+function sampleScale(location: number, random: Random): number {
+  let scale = 0;
+
+  while (0 >= scale) {
+    scale = randomCauchy(location, 0.1, random);
+  }
+
+  return Math.min(scale, 1);
+}
+
+function sampleRate(mean: number, random: Random): number {
+  return Math.min(Math.max(randomGauss(mean, 0.1, random), 0), 1);
+}
+
+function lehmerMean(values: number[], weights: number[]): number {
+  const numerator = values.reduce((acc, value, i) => acc + weights[i] * value * value, 0);
+  const denominator = values.reduce((acc, value, i) => acc + weights[i] * value, 0);
+
+  return numerator / denominator;
+}
+
+function weightedMean(values: number[], weights: number[]): number {
+  return values.reduce((acc, value, i) => acc + weights[i] * value, 0);
+}
+
+/**
+ *
+ * @param settings
+ * @category differential evolution
+ */
+export function constant(settings: Partial<DifferentialParameters> = {}): DifferentialAdaptation {
+  const scale = settings.scale ?? 0.5;
+  const rate = settings.rate ?? 0.9;
+
+  assertParameters(scale, rate);
+
+  return {
+    sample: () => ({ scale, rate }),
+    update: () => undefined,
+    reset: () => undefined,
+  };
+}
+
+/**
+ *
+ */
+export interface JdeSettings extends DifferentialParameters {
+  scaleProbability: number;
+  rateProbability: number;
+  minScale: number;
+  maxScale: number;
+}
+
+/**
+ * Self-adaptive parameters of jDE. The parameters of every individual are
+ * kept in the `scale` and `rate` entries of its state and are regenerated
+ * with the `scaleProbability` and `rateProbability` before creating a trial
+ * vector, a trial vector replacing its target passes its parameters on.
+ *
+ * @param settings
+ * @category differential evolution
+ */
+export function jde(settings: Partial<JdeSettings> = {}): DifferentialAdaptation {
+  const initialScale = settings.scale ?? 0.5;
+  const initialRate = settings.rate ?? 0.9;
+  const scaleProbability = settings.scaleProbability ?? 0.1;
+  const rateProbability = settings.rateProbability ?? 0.1;
+  const minScale = settings.minScale ?? 0.1;
+  const maxScale = settings.maxScale ?? 1;
+
+  assertParameters(initialScale, initialRate);
+
+  if (!isFraction(scaleProbability) || !isFraction(rateProbability) || 0 >= minScale || minScale > maxScale) {
+    throw new TypeError();
+  }
+
+  return {
+    sample: (target, random) => {
+      const state: Partial<DifferentialParameters> = target.state.computeAll();
+
+      const scale = scaleProbability > random.next()
+        ? minScale + random.next() * (maxScale - minScale)
+        : state.scale ?? initialScale;
+
+      const rate = rateProbability > random.next()
+        ? random.next()
+        : state.rate ?? initialRate;
+
+      return { scale, rate };
+    },
+    update: () => undefined,
+    reset: () => undefined,
+  };
+}
+
+/**
+ *
+ */
+export interface JadeSettings extends DifferentialParameters {
+  learningRate: number;
+}
+
+/**
+ * JADE keeps the location of the scale factors and the mean crossover rate,
+ * which move towards the Lehmer mean of the successful scale factors and the
+ * mean of the successful crossover rates.
+ */
+export interface JadeAdaptation extends DifferentialAdaptation {
+  mean(): DifferentialParameters;
+}
+
+/**
+ *
+ * @param settings
+ * @category differential evolution
+ */
+export function jade(settings: Partial<JadeSettings> = {}): JadeAdaptation {
+  const initialScale = settings.scale ?? 0.5;
+  const initialRate = settings.rate ?? 0.5;
+  const c = settings.learningRate ?? 0.1;
+
+  assertParameters(initialScale, initialRate);
+
+  if (!isFraction(c)) {
+    throw new TypeError();
+  }
+
+  let scale = initialScale;
+  let rate = initialRate;
+
+  return {
+    sample: (_, random) => ({ scale: sampleScale(scale, random), rate: sampleRate(rate, random) }),
+    update: (successes) => {
+      if (successes.length === 0) {
+        return;
+      }
+
+      const weights = successes.map(() => 1 / successes.length);
+
+      scale = (1 - c) * scale + c * lehmerMean(successes.map((success) => success.scale), weights);
+      rate = (1 - c) * rate + c * weightedMean(successes.map((success) => success.rate), weights);
+    },
+    reset: () => {
+      scale = initialScale;
+      rate = initialRate;
+    },
+    mean: () => ({ scale, rate }),
+  };
+}
+
+/**
+ *
+ */
+export interface ShadeSettings extends DifferentialParameters {
+  memory: number;
+}
+
+/**
+ * SHADE keeps a circular memory of parameter pairs, every generation one of
+ * them is overwritten with means of the successful parameters weighted by
+ * their improvements.
+ */
+export interface ShadeAdaptation extends DifferentialAdaptation {
+  memory(): DifferentialParameters[];
+}
+
+/**
+ *
+ * @param settings
+ * @category differential evolution
+ */
+export function shade(settings: Partial<ShadeSettings> = {}): ShadeAdaptation {
+  const initialScale = settings.scale ?? 0.5;
+  const initialRate = settings.rate ?? 0.5;
+  const size = settings.memory ?? 10;
+
+  assertParameters(initialScale, initialRate);
+
+  if (!isPositiveInt(size)) {
+    throw new TypeError();
+  }
+
+  let memory: DifferentialParameters[] = [];
+  let position = 0;
+
+  const reset = () => {
+    memory = Array.from({ length: size }, () => ({ scale: initialScale, rate: initialRate }));
+    position = 0;
+  };
+
+  reset();
+
+  return {
+    sample: (_, random) => {
+      const { scale, rate } = memory[Math.floor(random.next() * size)];
+      return { scale: sampleScale(scale, random), rate: sampleRate(rate, random) };
+    },
+    update: (successes) => {
+      if (successes.length === 0) {
+        return;
+      }
+
+      const total = successes.reduce((acc, success) => acc + success.improvement, 0);
+      const weights = successes.map((success) => total > 0 ? success.improvement / total : 1 / successes.length);
+
+      memory[position] = {
+        scale: lehmerMean(successes.map((success) => success.scale), weights),
+        rate: weightedMean(successes.map((success) => success.rate), weights),
+      };
+
+      position = (position + 1) % size;
+    },
+    reset,
+    memory: () => memory.map((entry) => ({ ...entry })),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { constant, jade, jde, shade } from "./differential_adaptation";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { State } from "../individual/state";
+import { Xoshiro128 } from "../random";
+
+const target = new Individual({ genotype: new List([0]) });
+
+describe("constant", () => {
+  it("always returns the same parameters", () => {
+    expect(constant({ scale: 0.8 }).sample(target, new Xoshiro128(1))).toEqual({ scale: 0.8, rate: 0.9 });
+  });
+
+  it("throws a TypeError if the parameters are invalid", () => {
+    expect(() => constant({ scale: 0 })).toThrow(TypeError);
+    expect(() => constant({ rate: 1.5 })).toThrow(TypeError);
+  });
+});
+
+describe("jde", () => {
+  it("uses the parameters kept in the state of the target", () => {
+    const individual = new Individual({ genotype: new List([0]), state: new State({ scale: 0.3, rate: 0.2 }) });
+    const adaptation = jde({ scaleProbability: 0, rateProbability: 0 });
+
+    expect(adaptation.sample(individual, new Xoshiro128(1))).toEqual({ scale: 0.3, rate: 0.2 });
+    expect(adaptation.sample(target, new Xoshiro128(1))).toEqual({ scale: 0.5, rate: 0.9 });
+  });
+
+  it("regenerates the parameters within the limits", () => {
+    const adaptation = jde({ scaleProbability: 1, rateProbability: 1 });
+    const random = new Xoshiro128(2);
+
+    for (let i = 0; i < 100; i++) {
+      const { scale, rate } = adaptation.sample(target, random);
+
+      expect(scale).toBeGreaterThanOrEqual(0.1);
+      expect(scale).toBeLessThanOrEqual(1);
+      expect(rate).toBeGreaterThanOrEqual(0);
+      expect(rate).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe("jade", () => {
+  it("moves the means towards the successful parameters", () => {
+    const adaptation = jade({ learningRate: 0.5 });
+
+    adaptation.update([{ scale: 0.9, rate: 0.9, improvement: 1 }, { scale: 0.3, rate: 0.1, improvement: 2 }]);
+
+    expect(adaptation.mean().scale).toBeCloseTo(0.5 * 0.5 + 0.5 * (0.81 + 0.09) / 1.2, 12);
+    expect(adaptation.mean().rate).toBeCloseTo(0.5 * 0.5 + 0.5 * 0.5, 12);
+  });
+
+  it("keeps the means without successes and restores them on reset", () => {
+    const adaptation = jade();
+
+    adaptation.update([]);
+    expect(adaptation.mean()).toEqual({ scale: 0.5, rate: 0.5 });
+
+    adaptation.update([{ scale: 1, rate: 1, improvement: 1 }]);
+    adaptation.reset();
+    expect(adaptation.mean()).toEqual({ scale: 0.5, rate: 0.5 });
+  });
+
+  it("samples the parameters within the limits", () => {
+    const adaptation = jade();
+    const random = new Xoshiro128(3);
+
+    for (let i = 0; i < 100; i++) {
+      const { scale, rate } = adaptation.sample(target, random);
+
+      expect(scale).toBeGreaterThan(0);
+      expect(scale).toBeLessThanOrEqual(1);
+      expect(rate).toBeGreaterThanOrEqual(0);
+      expect(rate).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe("shade", () => {
+  it("overwrites the memory entries one after another", () => {
+    const adaptation = shade({ memory: 2 });
+
+    adaptation.update([{ scale: 0.9, rate: 0.9, improvement: 1 }, { scale: 0.3, rate: 0.1, improvement: 3 }]);
+    adaptation.update([{ scale: 0.4, rate: 0.7, improvement: 0 }]);
+
+    const [first, second] = adaptation.memory();
+
+    expect(first.scale).toBeCloseTo((0.25 * 0.81 + 0.75 * 0.09) / (0.25 * 0.9 + 0.75 * 0.3), 12);
+    expect(first.rate).toBeCloseTo(0.25 * 0.9 + 0.75 * 0.1, 12);
+    expect(second.scale).toBeCloseTo(0.4, 12);
+    expect(second.rate).toBeCloseTo(0.7, 12);
+
+    adaptation.update([{ scale: 0.2, rate: 0.2, improvement: 1 }]);
+    expect(adaptation.memory()[0].scale).toBeCloseTo(0.2, 12);
+  });
+
+  it("throws a TypeError if the memory size is invalid", () => {
+    expect(() => shade({ memory: 0 })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import {
+  DifferentialContext,
+  best1,
+  binomial,
+  currentToBest1,
+  currentToPBest1,
+  differentialVector,
+  exponential,
+  rand1,
+  rand2,
+  withDifferentialVector,
+} from "./differential";
+import { Xoshiro128 } from "../random";
+
+const vectors = [[0, 0], [1, 2], [3, 5], [10, 20], [-4, 8], [6, -6]];
+
+function contextFixture(values: number[], settings: Partial<DifferentialContext> = {}): DifferentialContext {
+  const next = jest.fn();
+  values.forEach((value) => next.mockReturnValueOnce(value));
+
+  return Object.assign({
+    index: 0,
+    vectors,
+    ranking: [3, 2, 1, 0, 4, 5],
+    archive: [],
+    scale: 0.5,
+    random: { next },
+  }, settings);
+}
+
+// random numbers picking the vectors at the given indices
+const indices = (...picked: number[]) => picked.map((index) => (index + 0.5) / 6);
+
+describe("rand1", () => {
+  it("adds the scaled difference to a random base vector", () => {
+    expect(rand1()(contextFixture(indices(1, 2, 3)))).toEqual([1 + 0.5 * (3 - 10), 2 + 0.5 * (5 - 20)]);
+  });
+
+  it("does not use the target or the same vector twice", () => {
+    expect(rand1()(contextFixture(indices(0, 1, 1, 2, 3)))).toEqual([1 + 0.5 * (3 - 10), 2 + 0.5 * (5 - 20)]);
+  });
+
+  it("throws a RangeError if there are not enough vectors", () => {
+    expect(() => rand1()(contextFixture([], { vectors: vectors.slice(0, 3) }))).toThrow(RangeError);
+  });
+});
+
+describe("rand2", () => {
+  it("adds two scaled differences to a random base vector", () => {
+    expect(rand2()(contextFixture(indices(1, 2, 3, 4, 5)))).toEqual([1 + 0.5 * (3 - 10) + 0.5 * (-4 - 6), 2 + 0.5 * (5 - 20) + 0.5 * (8 + 6)]);
+  });
+});
+
+describe("best1", () => {
+  it("adds the scaled difference to the best vector", () => {
+    expect(best1()(contextFixture(indices(1, 2)))).toEqual([10 + 0.5 * (1 - 3), 20 + 0.5 * (2 - 5)]);
+  });
+});
+
+describe("currentToBest1", () => {
+  it("moves the target towards the best vector", () => {
+    const donor = currentToBest1()(contextFixture(indices(1, 2), { index: 4 }));
+
+    expect(donor).toEqual([-4 + 0.5 * (10 + 4) + 0.5 * (1 - 3), 8 + 0.5 * (20 - 8) + 0.5 * (2 - 5)]);
+  });
+});
+
+describe("currentToPBest1", () => {
+  it("moves the target towards one of the p best vectors", () => {
+    const method = currentToPBest1({ p: 0.5, archive: false });
+    const donor = method(contextFixture([2.5 / 3, ...indices(1, 4)], { index: 5 }));
+
+    expect(donor).toEqual([6 + 0.5 * (1 - 6) + 0.5 * (1 + 4), -6 + 0.5 * (2 + 6) + 0.5 * (2 - 8)]);
+  });
+
+  it("takes the second difference vector from the archive", () => {
+    const archive = [[100, 100]];
+    const next = [0, 1.5 / 6, 6.5 / 7];
+    const donor = currentToPBest1()(contextFixture(next, { index: 0, archive }));
+
+    expect(donor).toEqual([0.5 * 10 + 0.5 * (1 - 100), 0.5 * 20 + 0.5 * (2 - 100)]);
+  });
+
+  it("throws a TypeError if p is not in the (0, 1] range", () => {
+    expect(() => currentToPBest1({ p: 0 })).toThrow(TypeError);
+  });
+});
+
+describe("binomial", () => {
+  it("takes at least one gene of the donor", () => {
+    fc.assert(fc.property(fc.integer(1, 20), fc.integer(), (length, seed) => {
+      const trial = binomial()(new Array(length).fill(0), new Array(length).fill(1), 0, new Xoshiro128(seed));
+
+      expect(trial.filter((gene) => gene === 1).length).toBe(1);
+    }));
+  });
+
+  it("takes every gene of the donor if the rate is 1", () => {
+    expect(binomial()([0, 0, 0], [1, 2, 3], 1, new Xoshiro128(1))).toEqual([1, 2, 3]);
+  });
+});
+
+describe("exponential", () => {
+  it("takes a contiguous circular segment of the donor", () => {
+    const random = { next: jest.fn().mockReturnValueOnce(0.6).mockReturnValueOnce(0.1).mockReturnValueOnce(0.1).mockReturnValue(0.9) };
+
+    expect(exponential()([0, 0, 0, 0, 0], [1, 2, 3, 4, 5], 0.5, random)).toEqual([1, 0, 0, 4, 5]);
+  });
+
+  it("takes at least one gene of the donor", () => {
+    fc.assert(fc.property(fc.integer(1, 20), fc.integer(), (length, seed) => {
+      const trial = exponential()(new Array(length).fill(0), new Array(length).fill(1), 0, new Xoshiro128(seed));
+
+      expect(trial.filter((gene) => gene === 1).length).toBe(1);
+    }));
+  });
+});
+
+describe("differentialVector", () => {
+  it("reads the genes of lists and the values of real vectors", () => {
+    const data = { values: Float64Array.from([1, 2]), lower: Float64Array.from([0, 0]), upper: Float64Array.from([5, 5]) };
+
+    expect(differentialVector([1, 2])).toEqual([1, 2]);
+    expect(differentialVector(data)).toEqual([1, 2]);
+    expect(withDifferentialVector(data, [3, 4]).values).toEqual(Float64Array.from([3, 4]));
+    expect(withDifferentialVector(data, [3, 4]).upper).toBe(data.upper);
+  });
+});
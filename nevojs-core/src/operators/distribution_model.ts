@@ -0,0 +1,620 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, getRandom } from "../random";
+import { deserialize, serialize } from "../serialization";
+import { randomGauss } from "../util";
+
+/**
+ * A probabilistic model of the genes, which is learned from the selected
+ * individuals and generates the genes of new ones. Bit strings are modelled
+ * as vectors of zeros and ones.
+ */
+export interface DistributionModel {
+  readonly dimension: number;
+  sample(random?: Random): number[];
+  update(selected: number[][]): void;
+  toJSON(): string;
+}
+
+/**
+ * Creates the initial model of the given dimension, the engine creates a new
+ * model at the start of every run. `genes` restricts the strategy to bit
+ * strings (`"binary"`) or real genes (`"real"`) and `selected` is the exact
+ * number of individuals the model has to be updated with.
+ */
+export interface EdaStrategy {
+  (dimension: number): DistributionModel;
+  readonly genes?: EdaGenes;
+  readonly selected?: number;
+}
+
+/**
+ *
+ */
+export type EdaGenes = "binary" | "real";
+
+function strategy(genes: EdaGenes, create: (dimension: number) => DistributionModel, selected?: number): EdaStrategy {
+  return Object.assign(create, { genes, selected });
+}
+
+function isProbability(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && 1 >= value;
+}
+
+function assertSelected(dimension: number, selected: number[][]): void {
+  if (selected.length === 0 || selected.some((values) => values.length !== dimension)) {
+    throw new RangeError("the selected individuals do not match the model");
+  }
+}
+
+function columnMeans(selected: number[][]): number[] {
+  return selected[0].map((_, i) => selected.reduce((acc, values) => acc + values[i], 0) / selected.length);
+}
+
+/**
+ * How the marginal probabilities are learned: `"umda"` replaces them with the
+ * frequencies of ones among the selected individuals, `"pbil"` moves them
+ * towards the frequencies by the learning rate and `"cga"` compares two
+ * selected individuals, the winner first, moving the probabilities of the
+ * genes they differ in by the learning rate.
+ */
+export type MarginalRule = "umda" | "pbil" | "cga";
+
+/**
+ *
+ */
+export interface MarginalModelData {
+  probabilities: number[];
+  rule: MarginalRule;
+  learningRate: number;
+}
+
+/**
+ *
+ */
+export type SerializedMarginalModel = MarginalModelData;
+
+/**
+ * Independent probabilities of every bit being set.
+ */
+export class MarginalModel implements DistributionModel {
+  /**
+   *
+   * @param dimension
+   * @param rule
+   * @param learningRate
+   */
+  public static create(dimension: number, rule: MarginalRule, learningRate: number = 1): MarginalModel {
+    return new MarginalModel({ probabilities: new Array(dimension).fill(0.5), rule, learningRate });
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: SerializedMarginalModel): MarginalModel {
+    return new MarginalModel(deserialize(serialized));
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static fromJSON(serialized: string): MarginalModel {
+    return MarginalModel.deserialize(JSON.parse(serialized));
+  }
+
+  /**
+   *
+   */
+  public readonly rule: MarginalRule;
+
+  /**
+   *
+   */
+  public readonly learningRate: number;
+
+  private _probabilities: number[];
+
+  /**
+   *
+   * @param data
+   */
+  public constructor(data: MarginalModelData) {
+    if (!Array.isArray(data.probabilities) || data.probabilities.length === 0 || !data.probabilities.every(isProbability)) {
+      throw new TypeError("invalid marginal model: the probabilities have to be a non-empty vector of probabilities");
+    }
+
+    if (!["umda", "pbil", "cga"].includes(data.rule)) {
+      throw new TypeError(`invalid marginal model: unknown rule ${data.rule}`);
+    }
+
+    if (!isProbability(data.learningRate) || data.learningRate === 0) {
+      throw new TypeError(`invalid marginal model: learning rate ${data.learningRate} is not in the (0, 1] range`);
+    }
+
+    this._probabilities = data.probabilities.slice();
+    this.rule = data.rule;
+    this.learningRate = data.learningRate;
+  }
+
+  /**
+   *
+   */
+  public get dimension(): number {
+    return this._probabilities.length;
+  }
+
+  /**
+   *
+   */
+  public probabilities(): number[] {
+    return this._probabilities.slice();
+  }
+
+  /**
+   *
+   * @param random
+   */
+  public sample(random: Random = getRandom()): number[] {
+    return this._probabilities.map((probability) => probability > random.next() ? 1 : 0);
+  }
+
+  /**
+   *
+   * @param selected
+   */
+  public update(selected: number[][]): void {
+    assertSelected(this.dimension, selected);
+
+    if (this.rule === "cga") {
+      if (selected.length !== 2) {
+        throw new RangeError("the compact genetic algorithm compares exactly 2 individuals");
+      }
+
+      const [winner, loser] = selected;
+
+      this._probabilities = this._probabilities.map((probability, i) => {
+        return Math.min(Math.max(probability + this.learningRate * (winner[i] - loser[i]), 0), 1);
+      });
+
+      return;
+    }
+
+    const frequencies = columnMeans(selected);
+    const rate = this.rule === "umda" ? 1 : this.learningRate;
+
+    this._probabilities = this._probabilities.map((probability, i) => probability + rate * (frequencies[i] - probability));
+  }
+
+  /**
+   *
+   */
+  public serialize(): SerializedMarginalModel {
+    return serialize({ probabilities: this.probabilities(), rule: this.rule, learningRate: this.learningRate });
+  }
+
+  /**
+   *
+   */
+  public toJSON(): string {
+    return JSON.stringify(this.serialize());
+  }
+}
+
+/**
+ *
+ */
+export interface GaussianModelData {
+  mean: number[];
+  deviation: number[];
+}
+
+/**
+ *
+ */
+export type SerializedGaussianModel = GaussianModelData;
+
+/**
+ * Independent normal distributions of the real genes, fitted to the mean and
+ * the standard deviation of the selected individuals.
+ */
+export class GaussianModel implements DistributionModel {
+  /**
+   *
+   * @param dimension
+   */
+  public static create(dimension: number): GaussianModel {
+    return new GaussianModel({ mean: new Array(dimension).fill(0), deviation: new Array(dimension).fill(1) });
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: SerializedGaussianModel): GaussianModel {
+    return new GaussianModel(deserialize(serialized));
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static fromJSON(serialized: string): GaussianModel {
+    return GaussianModel.deserialize(JSON.parse(serialized));
+  }
+
+  private _mean: number[];
+  private _deviation: number[];
+
+  /**
+   *
+   * @param data
+   */
+  public constructor(data: GaussianModelData) {
+    if (!Array.isArray(data.mean) || data.mean.length === 0 || data.mean.some((value) => !isFinite(value))) {
+      throw new TypeError("invalid Gaussian model: the mean has to be a non-empty vector of finite numbers");
+    }
+
+    if (!Array.isArray(data.deviation) || data.deviation.length !== data.mean.length || data.deviation.some((value) => !(value >= 0))) {
+      throw new TypeError("invalid Gaussian model: the deviation has to be a non-negative vector of the size of the mean");
+    }
+
+    this._mean = data.mean.slice();
+    this._deviation = data.deviation.slice();
+  }
+
+  /**
+   *
+   */
+  public get dimension(): number {
+    return this._mean.length;
+  }
+
+  /**
+   *
+   */
+  public mean(): number[] {
+    return this._mean.slice();
+  }
+
+  /**
+   *
+   */
+  public deviation(): number[] {
+    return this._deviation.slice();
+  }
+
+  /**
+   *
+   * @param random
+   */
+  public sample(random: Random = getRandom()): number[] {
+    return this._mean.map((mean, i) => randomGauss(mean, this._deviation[i], random));
+  }
+
+  /**
+   *
+   * @param selected
+   */
+  public update(selected: number[][]): void {
+    assertSelected(this.dimension, selected);
+
+    const mean = columnMeans(selected);
+    const variance = columnMeans(selected.map((values) => values.map((value, i) => (value - mean[i]) ** 2)));
+
+    this._mean = mean;
+    this._deviation = variance.map(Math.sqrt);
+  }
+
+  /**
+   *
+   */
+  public serialize(): SerializedGaussianModel {
+    return serialize({ mean: this.mean(), deviation: this.deviation() });
+  }
+
+  /**
+   *
+   */
+  public toJSON(): string {
+    return JSON.stringify(this.serialize());
+  }
+}
+
+/**
+ * The genes are sampled in the given `order`, every gene depends on the gene
+ * at its index in `parents` (-1 for roots). `probabilities` holds the
+ * probabilities of every bit being set given its parent is not set and set,
+ * both are equal for the roots.
+ */
+export interface DependencyTreeModelData {
+  order: number[];
+  parents: number[];
+  probabilities: number[][];
+}
+
+/**
+ *
+ */
+export type SerializedDependencyTreeModel = DependencyTreeModelData;
+
+/**
+ * A bivariate model of bit strings, the dependency tree maximizing the mutual
+ * information between the connected bits (Chow-Liu tree) is learned from the
+ * selected individuals. The frequencies are smoothed with a pseudo-count of
+ * 1/4 for every combination of a pair of bits.
+ */
+export class DependencyTreeModel implements DistributionModel {
+  /**
+   * Independent bits set with the probability of 0.5.
+   *
+   * @param dimension
+   */
+  public static create(dimension: number): DependencyTreeModel {
+    return new DependencyTreeModel({
+      order: Array.from({ length: dimension }, (_, i) => i),
+      parents: new Array(dimension).fill(-1),
+      probabilities: Array.from({ length: dimension }, () => [0.5, 0.5]),
+    });
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static deserialize(serialized: SerializedDependencyTreeModel): DependencyTreeModel {
+    return new DependencyTreeModel(deserialize(serialized));
+  }
+
+  /**
+   *
+   * @param serialized
+   */
+  public static fromJSON(serialized: string): DependencyTreeModel {
+    return DependencyTreeModel.deserialize(JSON.parse(serialized));
+  }
+
+  private _order: number[];
+  private _parents: number[];
+  private _probabilities: number[][];
+
+  /**
+   *
+   * @param data
+   */
+  public constructor(data: DependencyTreeModelData) {
+    const n = Array.isArray(data.order) ? data.order.length : 0;
+
+    if (n === 0 || !Array.isArray(data.parents) || data.parents.length !== n || !Array.isArray(data.probabilities) || data.probabilities.length !== n) {
+      throw new TypeError("invalid dependency tree model: the order, the parents and the probabilities have to be non-empty and of equal size");
+    }
+
+    const position = new Array(n).fill(-1);
+    data.order.forEach((gene, i) => position[gene] = i);
+
+    if (position.some((i) => i === -1) || data.order.some((gene) => !Number.isInteger(gene))) {
+      throw new TypeError("invalid dependency tree model: the order has to be a permutation of the genes");
+    }
+
+    if (data.parents.some((parent, i) => parent !== -1 && !(position[parent] < position[i]))) {
+      throw new TypeError("invalid dependency tree model: every parent has to precede its children in the order");
+    }
+
+    if (data.probabilities.some((pair) => !Array.isArray(pair) || pair.length !== 2 || !pair.every(isProbability))) {
+      throw new TypeError("invalid dependency tree model: every gene needs a pair of probabilities");
+    }
+
+    this._order = data.order.slice();
+    this._parents = data.parents.slice();
+    this._probabilities = data.probabilities.map((pair) => pair.slice());
+  }
+
+  /**
+   *
+   */
+  public get dimension(): number {
+    return this._order.length;
+  }
+
+  /**
+   *
+   */
+  public order(): number[] {
+    return this._order.slice();
+  }
+
+  /**
+   *
+   */
+  public parents(): number[] {
+    return this._parents.slice();
+  }
+
+  /**
+   *
+   */
+  public probabilities(): number[][] {
+    return this._probabilities.map((pair) => pair.slice());
+  }
+
+  /**
+   *
+   * @param random
+   */
+  public sample(random: Random = getRandom()): number[] {
+    const values = new Array(this.dimension).fill(0);
+
+    for (const gene of this._order) {
+      const parent = this._parents[gene];
+      const probability = this._probabilities[gene][parent === -1 ? 0 : values[parent]];
+
+      values[gene] = probability > random.next() ? 1 : 0;
+    }
+
+    return values;
+  }
+
+  /**
+   *
+   * @param selected
+   */
+  public update(selected: number[][]): void {
+    assertSelected(this.dimension, selected);
+
+    const n = this.dimension;
+    const total = selected.length + 1;
+
+    const ones = columnMeans(selected).map((frequency) => (frequency * selected.length + 0.5) / total);
+    const joint = (i: number, j: number, a: number, b: number) => {
+      const count = selected.reduce((acc, values) => acc + (values[i] === a && values[j] === b ? 1 : 0), 0);
+      return (count + 0.25) / total;
+    };
+
+    const marginal = (i: number, a: number) => a === 1 ? ones[i] : 1 - ones[i];
+    const information = (i: number, j: number) => [0, 1].reduce((acc, a) => acc + [0, 1].reduce((sum, b) => {
+      const p = joint(i, j, a, b);
+      return sum + p * Math.log(p / (marginal(i, a) * marginal(j, b)));
+    }, 0), 0);
+
+    const order = [0];
+    const parents = new Array(n).fill(-1);
+    const gain = Array.from({ length: n }, (_, i) => i === 0 ? -Infinity : information(0, i));
+    const link = new Array(n).fill(0);
+
+    while (order.length < n) {
+      const next = gain.reduce((acc, value, i) => value > gain[acc] ? i : acc, gain.findIndex((value) => value !== -Infinity));
+
+      order.push(next);
+      parents[next] = link[next];
+      gain[next] = -Infinity;
+
+      for (let i = 0; i < n; i++) {
+        if (gain[i] !== -Infinity) {
+          const value = information(next, i);
+
+          if (value > gain[i]) {
+            gain[i] = value;
+            link[i] = next;
+          }
+        }
+      }
+    }
+
+    this._order = order;
+    this._parents = parents;
+    this._probabilities = parents.map((parent, i) => {
+      if (parent === -1) {
+        return [ones[i], ones[i]];
+      }
+
+      return [0, 1].map((b) => joint(i, parent, 1, b) / marginal(parent, b));
+    });
+  }
+
+  /**
+   *
+   */
+  public serialize(): SerializedDependencyTreeModel {
+    return serialize({ order: this.order(), parents: this.parents(), probabilities: this.probabilities() });
+  }
+
+  /**
+   *
+   */
+  public toJSON(): string {
+    return JSON.stringify(this.serialize());
+  }
+}
+
+/**
+ * Univariate marginal distribution algorithm for bit strings.
+ *
+ * @category estimation of distribution
+ */
+export function umda(): EdaStrategy {
+  return strategy("binary", (dimension) => MarginalModel.create(dimension, "umda"));
+}
+
+/**
+ *
+ */
+export interface PbilSettings {
+  learningRate: number;
+}
+
+/**
+ * Population-based incremental learning for bit strings, the learning rate
+ * defaults to 0.1.
+ *
+ * @param settings
+ * @category estimation of distribution
+ */
+export function pbil(settings: Partial<PbilSettings> = {}): EdaStrategy {
+  const learningRate = settings.learningRate ?? 0.1;
+
+  if (!isProbability(learningRate) || learningRate === 0) {
+    throw new TypeError();
+  }
+
+  return strategy("binary", (dimension) => MarginalModel.create(dimension, "pbil", learningRate));
+}
+
+/**
+ *
+ */
+export interface CompactSettings {
+  size: number;
+}
+
+/**
+ * The compact genetic algorithm for bit strings, which simulates a
+ * population of `size` individuals (100 by default) with the learning rate
+ * of `1 / size`. It compares two individuals every generation, so the engine
+ * selects 2 individuals.
+ *
+ * @param settings
+ * @category estimation of distribution
+ */
+export function cga(settings: Partial<CompactSettings> = {}): EdaStrategy {
+  const size = settings.size ?? 100;
+
+  if (typeof size !== "number" || !(size >= 1)) {
+    throw new TypeError();
+  }
+
+  return strategy("binary", (dimension) => MarginalModel.create(dimension, "cga", 1 / size), 2);
+}
+
+/**
+ * Univariate marginal distribution algorithm for real genes.
+ *
+ * @category estimation of distribution
+ */
+export function gaussian(): EdaStrategy {
+  return strategy("real", (dimension) => GaussianModel.create(dimension));
+}
+
+/**
+ * Bivariate dependency tree model for bit strings.
+ *
+ * @category estimation of distribution
+ */
+export function dependencyTree(): EdaStrategy {
+  return strategy("binary", (dimension) => DependencyTreeModel.create(dimension));
+}
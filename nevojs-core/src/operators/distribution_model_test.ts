@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { DependencyTreeModel, GaussianModel, MarginalModel, cga, dependencyTree, gaussian, pbil, umda } from "./distribution_model";
+import { Xoshiro128 } from "../random";
+
+describe("MarginalModel", () => {
+  it("starts with the probability of 0.5", () => {
+    expect(umda()(3)).toEqual(MarginalModel.create(3, "umda"));
+    expect((umda()(3) as MarginalModel).probabilities()).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it("replaces the probabilities with the frequencies with UMDA", () => {
+    const model = umda()(3) as MarginalModel;
+    model.update([[1, 0, 1], [1, 1, 0]]);
+
+    expect(model.probabilities()).toEqual([1, 0.5, 0.5]);
+  });
+
+  it("moves the probabilities towards the frequencies with PBIL", () => {
+    const model = pbil({ learningRate: 0.5 })(2) as MarginalModel;
+    model.update([[1, 0]]);
+
+    expect(model.probabilities()).toEqual([0.75, 0.25]);
+  });
+
+  it("moves the probabilities of the differing bits towards the winner with cGA", () => {
+    const model = cga({ size: 10 })(3) as MarginalModel;
+    model.update([[1, 0, 1], [0, 0, 1]]);
+
+    expect(model.probabilities()).toEqual([0.6, 0.5, 0.5]);
+    expect(() => model.update([[1, 0, 1]])).toThrow(RangeError);
+  });
+
+  it("samples the bits with the probabilities", () => {
+    const model = new MarginalModel({ probabilities: [0, 1, 0.5], rule: "umda", learningRate: 1 });
+    const random = new Xoshiro128(1);
+    const samples = Array.from({ length: 1000 }, () => model.sample(random));
+
+    expect(samples.every(([a, b]) => a === 0 && b === 1)).toBe(true);
+    expect(samples.filter((values) => values[2] === 1).length / 1000).toBeCloseTo(0.5, 1);
+  });
+
+  it("is serializable", () => {
+    const model = pbil()(4) as MarginalModel;
+    model.update([[1, 1, 0, 0]]);
+
+    expect(MarginalModel.fromJSON(model.toJSON())).toEqual(model);
+  });
+
+  it("throws if the data or the selected individuals are invalid", () => {
+    expect(() => new MarginalModel({ probabilities: [2], rule: "umda", learningRate: 1 })).toThrow(TypeError);
+    expect(() => new MarginalModel({ probabilities: [0.5], rule: "foo" as any, learningRate: 1 })).toThrow(TypeError);
+    expect(() => pbil({ learningRate: 0 })).toThrow(TypeError);
+    expect(() => cga({ size: 0 })).toThrow(TypeError);
+    expect(() => umda()(2).update([[1]])).toThrow(RangeError);
+    expect(() => umda()(2).update([])).toThrow(RangeError);
+  });
+});
+
+describe("GaussianModel", () => {
+  it("fits the mean and the standard deviation of the selected individuals", () => {
+    const model = gaussian()(2) as GaussianModel;
+    model.update([[1, 2], [3, 2]]);
+
+    expect(model.mean()).toEqual([2, 2]);
+    expect(model.deviation()).toEqual([1, 0]);
+  });
+
+  it("samples from the fitted distribution", () => {
+    const model = new GaussianModel({ mean: [5, -5], deviation: [2, 0] });
+    const random = new Xoshiro128(2);
+    const samples = Array.from({ length: 2000 }, () => model.sample(random));
+
+    const refitted = GaussianModel.create(2);
+    refitted.update(samples);
+
+    expect(refitted.mean()[0]).toBeCloseTo(5, 0);
+    expect(refitted.deviation()[0]).toBeCloseTo(2, 0);
+    expect(samples.every((values) => values[1] === -5)).toBe(true);
+  });
+
+  it("is serializable", () => {
+    const model = new GaussianModel({ mean: [1, 2], deviation: [0.5, 3] });
+    expect(GaussianModel.fromJSON(model.toJSON())).toEqual(model);
+  });
+
+  it("throws if the data is invalid", () => {
+    expect(() => new GaussianModel({ mean: [], deviation: [] })).toThrow(TypeError);
+    expect(() => new GaussianModel({ mean: [0], deviation: [-1] })).toThrow(TypeError);
+  });
+});
+
+describe("DependencyTreeModel", () => {
+  const correlated = (random: Xoshiro128) => {
+    const a = random.next() > 0.5 ? 1 : 0;
+    const noise = random.next() > 0.5 ? 1 : 0;
+
+    return [a, noise, 1 - a, a];
+  };
+
+  it("starts with independent bits", () => {
+    const model = dependencyTree()(3) as DependencyTreeModel;
+
+    expect(model.parents()).toEqual([-1, -1, -1]);
+    expect(model.probabilities()).toEqual([[0.5, 0.5], [0.5, 0.5], [0.5, 0.5]]);
+  });
+
+  it("learns the dependencies between the bits", () => {
+    const random = new Xoshiro128(3);
+    const model = dependencyTree()(4) as DependencyTreeModel;
+
+    model.update(Array.from({ length: 200 }, () => correlated(random)));
+
+    const parents = model.parents();
+    const linked = (i: number, j: number) => parents[i] === j || parents[j] === i;
+
+    expect(parents.filter((parent) => parent === -1).length).toBe(1);
+    expect(linked(0, 2) || linked(2, 3)).toBe(true);
+    expect(linked(0, 3) || linked(2, 3)).toBe(true);
+
+    const samples = Array.from({ length: 500 }, () => model.sample(random));
+    const agreeing = samples.filter((values) => values[0] === values[3] && values[0] !== values[2]).length;
+
+    expect(agreeing / 500).toBeGreaterThan(0.95);
+  });
+
+  it("keeps the parents before their children in the order", () => {
+    fc.assert(fc.property(fc.array(fc.array(fc.integer(0, 1), 6, 6), 1, 30), (selected) => {
+      const model = dependencyTree()(6) as DependencyTreeModel;
+      model.update(selected);
+
+      const order = model.order();
+      model.parents().forEach((parent, i) => {
+        if (parent !== -1) {
+          expect(order.indexOf(parent)).toBeLessThan(order.indexOf(i));
+        }
+      });
+
+      expect(() => DependencyTreeModel.fromJSON(model.toJSON())).not.toThrow();
+    }));
+  });
+
+  it("is serializable", () => {
+    const model = dependencyTree()(4) as DependencyTreeModel;
+    model.update([[1, 0, 0, 1], [0, 1, 1, 0]]);
+
+    expect(DependencyTreeModel.fromJSON(model.toJSON())).toEqual(model);
+  });
+
+  it("throws if the data is invalid", () => {
+    expect(() => new DependencyTreeModel({ order: [0, 0], parents: [-1, -1], probabilities: [[0.5, 0.5], [0.5, 0.5]] })).toThrow(TypeError);
+    expect(() => new DependencyTreeModel({ order: [0, 1], parents: [1, -1], probabilities: [[0.5, 0.5], [0.5, 0.5]] })).toThrow(TypeError);
+    expect(() => new DependencyTreeModel({ order: [0], parents: [-1], probabilities: [[0.5]] })).toThrow(TypeError);
+  });
+});
@@ -15,12 +15,26 @@
  * =============================================================================
  */
 
-import { randomGauss, shuffle } from "../util";
+import { Random, RandomSettings, getRandom } from "../random";
+import { Scheduled, isScheduled, resolveSchedule } from "./schedule";
+import { choose, isFinite, randomGauss, range, shuffle } from "../util";
+import { AnyIndividual } from "../individual/individual";
+import { OperatorContext } from "./context";
+import { State } from "../individual/state";
+
+/**
+ * Passed by {@link Individual.mutate}, so that mutation methods can read and
+ * write the state of the mutated individual.
+ */
+export interface MutationContext extends OperatorContext {
+  individual: AnyIndividual;
+  state: State<any>;
+}
 
 /**
  *
  */
-export type MutationMethod<D> = (data: D) => D;
+export type MutationMethod<D> = (data: D, context?: MutationContext) => D;
 
 /**
  *
@@ -30,8 +44,8 @@ export type IterativeMutationCallback<T, U = T> = (value: T, i: number, arr: T[]
 /**
  *
  */
-export interface IterativeMutationSettings<T> {
-  rate?: number | IterativeMutationCallback<T, number>;
+export interface IterativeMutationSettings<T> extends RandomSettings {
+  rate?: Scheduled | IterativeMutationCallback<T, number>;
 }
 
 /**
@@ -50,7 +64,7 @@ export function map<T>(
     throw new TypeError();
   }
 
-  if (typeof rate !== "number" && typeof rate !== "function") {
+  if (!isScheduled(rate) && typeof rate !== "function") {
     throw new TypeError();
   }
 
@@ -58,15 +72,24 @@ export function map<T>(
     throw new TypeError();
   }
 
-  return (genes) => genes.map((gene, i) => {
-    const probability = typeof rate === "function"
-      ? rate(gene, i, genes)
-      : rate;
+  return (genes, context) => {
+    const random = settings.random ?? getRandom();
+    const current = typeof rate === "function" ? 0 : resolveSchedule(rate, context);
+
+    if (0 > current || current > 1) {
+      throw new TypeError(`scheduled mutation rate ${current} is not in the [0, 1] range`);
+    }
+
+    return genes.map((gene, i) => {
+      const probability = typeof rate === "function"
+        ? rate(gene, i, genes)
+        : current;
 
-    return probability > Math.random()
-      ? func(gene, i, genes)
-      : gene;
-  });
+      return probability > random.next()
+        ? func(gene, i, genes)
+        : gene;
+    });
+  };
 }
 
 /**
@@ -133,7 +156,7 @@ export function bound(
 /**
  *
  */
-export interface AlternateGeneSettings<T> {
+export interface AlternateGeneSettings<T> extends RandomSettings {
   index?: number | ((genes: T[]) => number);
 }
 
@@ -148,7 +171,8 @@ export function alternateGene<T>(
   settings: AlternateGeneSettings<T> = {},
 ): MutationMethod<T[]> {
   return (genes) => {
-    const unresolvedIndex = settings.index ?? Math.floor(Math.random() * genes.length);
+    const random = settings.random ?? getRandom();
+    const unresolvedIndex = settings.index ?? Math.floor(random.next() * genes.length);
     const index = typeof unresolvedIndex === "function"
       ? unresolvedIndex(genes)
       : unresolvedIndex;
@@ -165,7 +189,7 @@ export function alternateGene<T>(
 /**
  *
  */
-export interface AlternatePartSettings<T> {
+export interface AlternatePartSettings<T> extends RandomSettings {
   start?: number | ((genes: T[]) => number);
   end?: number | ((genes: T[], start: number) => number);
 }
@@ -181,12 +205,13 @@ export function alternatePart<T>(
   settings: AlternatePartSettings<T> = {},
 ): MutationMethod<T[]> {
   return (genes) => {
-    const unresolvedStart = settings.start ?? Math.floor(Math.random() * (genes.length - 1));
+    const random = settings.random ?? getRandom();
+    const unresolvedStart = settings.start ?? Math.floor(random.next() * (genes.length - 1));
     const start = typeof unresolvedStart === "function"
       ? unresolvedStart(genes)
       : unresolvedStart;
 
-    const unresolvedEnd = settings.end ?? Math.floor(Math.random() * (genes.length - start - 1) + start + 1);
+    const unresolvedEnd = settings.end ?? Math.floor(random.next() * (genes.length - start - 1) + start + 1);
     const end = typeof unresolvedEnd === "function"
       ? unresolvedEnd(genes, start)
       : unresolvedEnd;
@@ -237,13 +262,350 @@ export function swap<T = any>(settings?: AlternatePartSettings<T>): MutationMeth
  * @param settings
  * @category mutation
  */
-export function scramble<T = any>(settings?: AlternatePartSettings<T>): MutationMethod<T[]> {
-  return alternatePart(shuffle, settings);
+export function scramble<T = any>(settings: AlternatePartSettings<T> = {}): MutationMethod<T[]> {
+  return alternatePart((genes) => shuffle(genes, settings.random), settings);
 }
 
 /**
+ * @param settings
  * @category mutation
  */
-export function gauss(): MutationMethod<number> {
-  return (gene) => gene + randomGauss();
+export function gauss(settings: RandomSettings = {}): MutationMethod<number> {
+  return (gene) => gene + randomGauss(0, 1, settings.random);
+}
+
+function boundAt(bound: number | ArrayLike<number>, i: number): number {
+  return typeof bound === "number" ? bound : bound[i];
+}
+
+function randomIndex(length: number, random: Random): number {
+  return Math.floor(random.next() * length);
+}
+
+/**
+ * Moves a single gene to another position.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function insertion<T = any>(settings: RandomSettings = {}): MutationMethod<T[]> {
+  return (genes) => {
+    if (2 > genes.length) {
+      return genes;
+    }
+
+    const random = settings.random ?? getRandom();
+    const from = randomIndex(genes.length, random);
+    let to = randomIndex(genes.length - 1, random);
+
+    if (to >= from) {
+      to += 1;
+    }
+
+    const [gene] = genes.splice(from, 1);
+    genes.splice(to, 0, gene);
+
+    return genes;
+  };
+}
+
+/**
+ * Moves a random segment of genes to another position.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function displacement<T = any>(settings: RandomSettings = {}): MutationMethod<T[]> {
+  return (genes) => {
+    if (2 > genes.length) {
+      return genes;
+    }
+
+    const random = settings.random ?? getRandom();
+    const size = 1 + randomIndex(genes.length - 1, random);
+    const start = randomIndex(genes.length - size + 1, random);
+    const segment = genes.splice(start, size);
+
+    let to = randomIndex(genes.length, random);
+
+    if (to >= start) {
+      to += 1;
+    }
+
+    genes.splice(to, 0, ...segment);
+    return genes;
+  };
+}
+
+/**
+ * Reverses the genes between two random positions, which for a cyclic tour
+ * replaces two of its edges.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function twoOpt<T = any>(settings: RandomSettings = {}): MutationMethod<T[]> {
+  return (genes) => {
+    if (2 > genes.length) {
+      return genes;
+    }
+
+    const [start, end] = choose(range(0, genes.length - 1), 2, settings.random).sort((a, b) => a - b);
+    const segment = genes.slice(start, end + 1).reverse();
+
+    genes.splice(start, segment.length, ...segment);
+    return genes;
+  };
+}
+
+/**
+ * Cuts the genes into four segments `A B C D` and reconnects them using one
+ * of the pure 3-opt moves, `A B' C' D`, `A C B D`, `A C B' D` or `A C' B D`,
+ * which replace three edges of a cyclic tour.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function threeOpt<T = any>(settings: RandomSettings = {}): MutationMethod<T[]> {
+  return (genes) => {
+    if (4 > genes.length) {
+      return genes;
+    }
+
+    const random = settings.random ?? getRandom();
+    const [a, b, c] = choose(range(1, genes.length - 1), 3, random).sort((x, y) => x - y);
+
+    const first = genes.slice(a, b);
+    const second = genes.slice(b, c);
+    const reversed = (segment: T[]) => segment.slice().reverse();
+
+    const moves = [
+      () => reversed(first).concat(reversed(second)),
+      () => second.concat(first),
+      () => second.concat(reversed(first)),
+      () => reversed(second).concat(first),
+    ];
+
+    genes.splice(a, c - a, ...moves[randomIndex(moves.length, random)]());
+    return genes;
+  };
+}
+
+/**
+ *
+ */
+export interface VariableLengthMutationSettings extends RandomSettings {
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * Inserts a new gene at a random position, unless the genes have reached the
+ * maximum length.
+ *
+ * @param generate
+ * @param settings
+ * @category mutation
+ */
+export function insertGene<T>(
+  generate: (genes: T[]) => T,
+  settings: VariableLengthMutationSettings = {},
+): MutationMethod<T[]> {
+  const maxLength = settings.maxLength ?? Infinity;
+
+  if (typeof generate !== "function" || typeof maxLength !== "number" || isNaN(maxLength)) {
+    throw new TypeError();
+  }
+
+  return (genes) => {
+    if (genes.length >= maxLength) {
+      return genes;
+    }
+
+    const random = settings.random ?? getRandom();
+    genes.splice(randomIndex(genes.length + 1, random), 0, generate(genes));
+
+    return genes;
+  };
+}
+
+/**
+ * Removes a random gene, unless the genes have reached the minimum length.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function deleteGene<T = any>(settings: VariableLengthMutationSettings = {}): MutationMethod<T[]> {
+  const minLength = settings.minLength ?? 0;
+
+  if (typeof minLength !== "number" || isNaN(minLength)) {
+    throw new TypeError();
+  }
+
+  return (genes) => {
+    if (genes.length === 0 || minLength >= genes.length) {
+      return genes;
+    }
+
+    const random = settings.random ?? getRandom();
+    genes.splice(randomIndex(genes.length, random), 1);
+
+    return genes;
+  };
+}
+
+/**
+ * Inserts a copy of a random segment right after it. The segment is
+ * shortened so that the genes do not exceed the maximum length.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function duplicate<T = any>(settings: VariableLengthMutationSettings = {}): MutationMethod<T[]> {
+  const maxLength = settings.maxLength ?? Infinity;
+
+  if (typeof maxLength !== "number" || isNaN(maxLength)) {
+    throw new TypeError();
+  }
+
+  return (genes) => {
+    const space = Math.min(genes.length, maxLength - genes.length);
+
+    if (1 > space) {
+      return genes;
+    }
+
+    const random = settings.random ?? getRandom();
+    const size = 1 + randomIndex(space, random);
+    const start = randomIndex(genes.length - size + 1, random);
+
+    genes.splice(start + size, 0, ...genes.slice(start, start + size));
+    return genes;
+  };
+}
+
+/**
+ * Bounds are either a single number applying to every gene or an array of
+ * bounds per gene, both have to be finite.
+ */
+export interface PolynomialMutationSettings extends RandomSettings {
+  lower: number | ArrayLike<number>;
+  upper: number | ArrayLike<number>;
+  distributionIndex?: number;
+  rate?: Scheduled;
+}
+
+/**
+ * Mutates a single gene, the perturbation shrinks near the bounds so that
+ * the gene stays within them.
+ *
+ * @hidden
+ */
+export function polynomialGene(gene: number, lower: number, upper: number, distributionIndex: number, random: Random): number {
+  if (!isFinite(lower) || !isFinite(upper) || lower > upper) {
+    throw new TypeError("polynomial mutation requires finite bounds");
+  }
+
+  const width = upper - lower;
+
+  if (width === 0) {
+    return lower;
+  }
+
+  const u = random.next();
+  const power = 1 / (distributionIndex + 1);
+
+  const delta = 0.5 >= u
+    ? (2 * u + (1 - 2 * u) * ((upper - gene) / width) ** (distributionIndex + 1)) ** power - 1
+    : 1 - (2 * (1 - u) + 2 * (u - 0.5) * ((gene - lower) / width) ** (distributionIndex + 1)) ** power;
+
+  return Math.min(Math.max(gene + delta * width, lower), upper);
+}
+
+/**
+ * Polynomial mutation of Deb and Goyal, as used by NSGA-II. Every gene is
+ * mutated with the given `rate`, which defaults to one over the number of
+ * genes, the distribution index defaults to 20.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function polynomial(settings: PolynomialMutationSettings): MutationMethod<number[]> {
+  const { lower, upper, rate } = settings;
+  const distributionIndex = settings.distributionIndex ?? 20;
+
+  if (typeof distributionIndex !== "number" || !(distributionIndex >= 0)) {
+    throw new TypeError();
+  }
+
+  if (rate !== undefined && (!isScheduled(rate) || (typeof rate === "number" && !(rate >= 0 && 1 >= rate)))) {
+    throw new TypeError();
+  }
+
+  return (genes, context) => {
+    const random = settings.random ?? getRandom();
+    const probability = rate === undefined ? 1 / genes.length : resolveSchedule(rate, context);
+
+    if (!(probability >= 0 && 1 >= probability)) {
+      throw new TypeError(`scheduled mutation rate ${probability} is not in the [0, 1] range`);
+    }
+
+    return genes.map((gene, i) => probability >= random.next()
+      ? polynomialGene(gene, boundAt(lower, i), boundAt(upper, i), distributionIndex, random)
+      : gene);
+  };
+}
+
+/**
+ *
+ */
+export interface NonUniformMutationSettings extends RandomSettings {
+  lower: number | ArrayLike<number>;
+  upper: number | ArrayLike<number>;
+  generations: number;
+  shape?: number;
+  rate?: number;
+}
+
+/**
+ * Non-uniform mutation of Michalewicz, the perturbations shrink as the
+ * generation from the operator context approaches `generations`. Every gene
+ * is mutated with the given `rate`, which defaults to one over the number of
+ * genes.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function nonUniform(settings: NonUniformMutationSettings): MutationMethod<number[]> {
+  const { lower, upper, generations, rate } = settings;
+  const shape = settings.shape ?? 5;
+
+  if (!(generations > 0) || typeof shape !== "number" || !(shape >= 0)) {
+    throw new TypeError();
+  }
+
+  if (rate !== undefined && (typeof rate !== "number" || !(rate >= 0 && 1 >= rate))) {
+    throw new TypeError();
+  }
+
+  return (genes, context) => {
+    if (context?.generation === undefined) {
+      throw new TypeError("non-uniform mutation requires the generation in the operator context");
+    }
+
+    const random = settings.random ?? context.random;
+    const probability = rate ?? 1 / genes.length;
+    const progress = Math.min(context.generation / generations, 1);
+    const delta = (distance: number) => distance * (1 - random.next() ** ((1 - progress) ** shape));
+
+    return genes.map((gene, i) => {
+      if (probability < random.next()) {
+        return gene;
+      }
+
+      return 0.5 > random.next()
+        ? gene + delta(boundAt(upper, i) - gene)
+        : gene - delta(gene - boundAt(lower, i));
+    });
+  };
 }
@@ -15,7 +15,28 @@
  * =============================================================================
  */
 
-import { MutationMethod, alternateGene, inversion, map, scramble, swap } from "./mutation";
+import * as fc from "fast-check";
+import {
+  MutationMethod,
+  alternateGene,
+  deleteGene,
+  displacement,
+  duplicate,
+  insertGene,
+  insertion,
+  inversion,
+  map,
+  nonUniform,
+  polynomial,
+  scramble,
+  swap,
+  threeOpt,
+  twoOpt,
+} from "./mutation";
+import { Permutation } from "../genotype/permutation";
+import { Xoshiro128 } from "../random";
+import { linear } from "./schedule";
+import { range } from "../util";
 
 function returnsFunction(method: MutationMethod<any>): void {
   it("returns a function", () => {
@@ -43,6 +64,21 @@ describe("map", () => {
 
     expect(method(genes)).toEqual([2, 3, 4]);
   });
+
+  it("resolves a scheduled rate against the context", () => {
+    const genes = [1, 2, 3];
+    const method = map(increment, { rate: linear(1, 0, 10) });
+    const random = new Xoshiro128(1);
+
+    expect(method(genes, { generation: 0, random } as any)).toEqual([2, 3, 4]);
+    expect(method(genes, { generation: 10, random } as any)).toEqual(genes);
+  });
+
+  it("throws a TypeError if the scheduled rate leaves the [0, 1] range", () => {
+    const method = map(increment, { rate: linear(1, 2, 10) });
+
+    expect(() => method([1], { generation: 5, random: new Xoshiro128(1) } as any)).toThrow(TypeError);
+  });
 });
 
 describe("alternateGene", () => {
@@ -116,3 +152,196 @@ describe("swap", () => {
 describe("scramble", () => {
   returnsFunction(scramble);
 });
+
+function preservesPermutation(factory: (random: Xoshiro128) => MutationMethod<number[]>): void {
+  it("preserves the permutation", () => {
+    fc.assert(fc.property(fc.integer(1, 30), fc.integer(), (length, seed) => {
+      const permutation = Permutation.random(length, { random: new Xoshiro128(seed) });
+
+      expect(() => permutation.mutate(factory(new Xoshiro128(seed)))).not.toThrow();
+    }));
+  });
+}
+
+describe("insertion", () => {
+  preservesPermutation((random) => insertion({ random }));
+
+  it("moves a single gene to a different position", () => {
+    fc.assert(fc.property(fc.integer(2, 30), fc.integer(), (length, seed) => {
+      const mutated = insertion({ random: new Xoshiro128(seed) })(range(0, length - 1));
+      const moved = mutated.filter((gene, i) => gene !== i);
+
+      expect(moved.length).toBeGreaterThanOrEqual(2);
+    }));
+  });
+});
+
+describe("displacement", () => {
+  preservesPermutation((random) => displacement({ random }));
+
+  it("keeps the displaced segment contiguous", () => {
+    const mutated = displacement({ random: new Xoshiro128(3) })(range(0, 9));
+    const breaks = mutated.filter((gene, i) => i > 0 && gene !== mutated[i - 1] + 1).length;
+
+    expect(mutated).not.toEqual(range(0, 9));
+    expect(breaks).toBeLessThanOrEqual(3);
+  });
+});
+
+describe("twoOpt", () => {
+  preservesPermutation((random) => twoOpt({ random }));
+
+  it("reverses a contiguous segment", () => {
+    const mutated = twoOpt({ random: new Xoshiro128(5) })(range(0, 9));
+    const start = mutated.findIndex((gene, i) => gene !== i);
+    const end = 9 - mutated.slice().reverse().findIndex((gene, i) => gene !== 9 - i);
+
+    expect(mutated.slice(start, end + 1)).toEqual(range(0, 9).slice(start, end + 1).reverse());
+  });
+});
+
+describe("threeOpt", () => {
+  preservesPermutation((random) => threeOpt({ random }));
+
+  it("replaces at most three edges of the tour", () => {
+    fc.assert(fc.property(fc.integer(4, 30), fc.integer(), (length, seed) => {
+      const mutated = threeOpt({ random: new Xoshiro128(seed) })(range(0, length - 1));
+      const kept = mutated.slice(1).filter((gene, i) => Math.abs(gene - mutated[i]) === 1);
+
+      expect(length - 1 - kept.length).toBeLessThanOrEqual(3);
+    }));
+  });
+});
+
+describe("insertGene", () => {
+  it("inserts a generated gene", () => {
+    fc.assert(fc.property(fc.array(fc.integer(0, 9), 20), fc.integer(), (genes, seed) => {
+      const mutated = insertGene(() => 10, { random: new Xoshiro128(seed) })(genes.slice());
+
+      expect(mutated.length).toBe(genes.length + 1);
+      expect(mutated.filter((gene) => gene !== 10)).toEqual(genes);
+    }));
+  });
+
+  it("does not exceed the maximum length", () => {
+    expect(insertGene(() => 0, { maxLength: 3 })([1, 2, 3])).toEqual([1, 2, 3]);
+  });
+});
+
+describe("deleteGene", () => {
+  it("removes a single gene", () => {
+    fc.assert(fc.property(fc.array(fc.integer(), 1, 20), fc.integer(), (genes, seed) => {
+      const mutated = deleteGene({ random: new Xoshiro128(seed) })(genes.slice());
+
+      expect(mutated.length).toBe(genes.length - 1);
+    }));
+  });
+
+  it("does not go below the minimum length", () => {
+    expect(deleteGene({ minLength: 2 })([1, 2])).toEqual([1, 2]);
+    expect(deleteGene()([])).toEqual([]);
+  });
+});
+
+describe("duplicate", () => {
+  it("inserts a copy of a segment right after it", () => {
+    fc.assert(fc.property(fc.array(fc.integer(), 1, 20), fc.integer(), (genes, seed) => {
+      const mutated = duplicate({ random: new Xoshiro128(seed) })(genes.slice());
+      const size = mutated.length - genes.length;
+      const start = mutated.findIndex((gene, i) => gene !== genes[i]);
+      const position = start === -1 ? genes.length : start;
+
+      expect(size).toBeGreaterThanOrEqual(1);
+      expect(mutated.slice(0, position)).toEqual(genes.slice(0, position));
+      expect(mutated.slice(position + size)).toEqual(genes.slice(position));
+    }));
+  });
+
+  it("does not exceed the maximum length", () => {
+    fc.assert(fc.property(fc.array(fc.integer(), 1, 20), fc.integer(), (genes, seed) => {
+      const mutated = duplicate({ maxLength: 20, random: new Xoshiro128(seed) })(genes.slice());
+
+      expect(mutated.length).toBeLessThanOrEqual(20);
+    }));
+  });
+});
+
+describe("polynomial", () => {
+  const sequence = (...values: number[]) => {
+    const next = jest.fn();
+    values.forEach((value) => next.mockReturnValueOnce(value));
+
+    return { next };
+  };
+
+  // reference values computed with the mutation of Deb's NSGA-II implementation
+  it("matches the reference implementation", () => {
+    const method = (distributionIndex: number, lower: number, upper: number, u: number) => polynomial({
+      distributionIndex,
+      lower,
+      upper,
+      rate: 1,
+      random: sequence(0, u),
+    });
+
+    expect(method(20, 0, 1, 0.25)([0.5])[0]).toBeCloseTo(0.46753180049317733, 12);
+    expect(method(20, 0, 1, 0.75)([0.5])[0]).toBeCloseTo(0.5324681995068227, 12);
+    expect(method(5, 0, 1, 0.99)([0.9])[0]).toBeCloseTo(0.997374197724415, 12);
+    expect(method(20, -5, 5, 0.1)([-3])[0]).toBeCloseTo(-3.721773737762652, 12);
+  });
+
+  it("mutates a single gene on average by default", () => {
+    const genes = new Array(1000).fill(0.5);
+    const mutated = polynomial({ lower: 0, upper: 1, random: new Xoshiro128(7) })(genes.slice());
+    const changed = mutated.filter((gene) => gene !== 0.5).length;
+
+    expect(changed).toBeLessThan(6);
+  });
+
+  it("keeps the genes within the bounds", () => {
+    fc.assert(fc.property(fc.array(fc.double(0, 1), 1, 10), fc.integer(), (genes, seed) => {
+      const mutated = polynomial({ distributionIndex: 0, lower: 0, upper: 1, rate: 1, random: new Xoshiro128(seed) })(genes);
+
+      expect(mutated.every((gene) => gene >= 0 && 1 >= gene)).toBe(true);
+    }));
+  });
+
+  it("throws a TypeError if the bounds are not finite", () => {
+    expect(() => polynomial({ lower: 0, upper: Infinity, rate: 1 })([1])).toThrow(TypeError);
+    expect(() => polynomial({ lower: 0, upper: 1, rate: 2 })).toThrow(TypeError);
+  });
+
+  it("resolves a scheduled rate against the context", () => {
+    const genes = [0.5, 0.5, 0.5];
+    const method = polynomial({ lower: 0, upper: 1, rate: linear(0, 1, 10) });
+
+    expect(method(genes, { generation: 0, random: new Xoshiro128(1) } as any)).toEqual(genes);
+    expect(method(genes, { generation: 10, random: new Xoshiro128(1) } as any)).not.toEqual(genes);
+    expect(() => polynomial({ lower: 0, upper: 1, rate: linear(1, 2, 10) })(genes, { generation: 5 } as any))
+      .toThrow(TypeError);
+  });
+});
+
+describe("nonUniform", () => {
+  const mutate = (generation: number, seed: number) => {
+    const method = nonUniform({ lower: -10, upper: 10, generations: 100, rate: 1 });
+    return method(new Array(50).fill(0), { generation, random: new Xoshiro128(seed) } as any);
+  };
+
+  it("shrinks the perturbations as the generation approaches the limit", () => {
+    const spread = (genes: number[]) => Math.max(...genes.map(Math.abs));
+
+    expect(spread(mutate(95, 1))).toBeLessThan(spread(mutate(0, 1)));
+    expect(mutate(100, 2)).toEqual(new Array(50).fill(0));
+  });
+
+  it("keeps the genes within the bounds", () => {
+    fc.assert(fc.property(fc.integer(0, 100), fc.integer(), (generation, seed) => {
+      expect(mutate(generation, seed).every((gene) => gene >= -10 && 10 >= gene)).toBe(true);
+    }));
+  });
+
+  it("throws a TypeError without the generation", () => {
+    expect(() => nonUniform({ lower: 0, upper: 1, generations: 10 })([0.5])).toThrow(TypeError);
+  });
+});
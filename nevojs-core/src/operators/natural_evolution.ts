@@ -0,0 +1,295 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { GradientOptimizer, adam, sgd } from "./optimizer";
+import { Matrix, exponential, identity, multiply, multiplyMatrices } from "../linear_algebra";
+import { OperatorContextSettings } from "./context";
+
+/**
+ * Maps the fitness of the sampled individuals to the utilities weighting
+ * their perturbations in the search gradient, in the same order.
+ */
+export type FitnessShaping = (fitness: number[]) => number[];
+
+/**
+ * Assigns the weights (best first) by rank, individuals with equal fitness
+ * share the mean of their weights.
+ */
+function shape(fitness: number[], weights: number[]): number[] {
+  const order = fitness.map((_, i) => i).sort((a, b) => fitness[b] - fitness[a]);
+  const utilities = new Array(fitness.length).fill(0);
+
+  for (let start = 0; start < order.length;) {
+    let end = start + 1;
+
+    while (end < order.length && fitness[order[end]] === fitness[order[start]]) {
+      end += 1;
+    }
+
+    const mean = weights.slice(start, end).reduce((acc, weight) => acc + weight, 0) / (end - start);
+    order.slice(start, end).forEach((index) => utilities[index] = mean);
+
+    start = end;
+  }
+
+  return utilities;
+}
+
+/**
+ * The rank-based utilities of NES, `max(0, ln(λ / 2 + 1) - ln k)`
+ * normalized to sum up to 1 and shifted by `-1 / λ`, so that only the better
+ * half of the population attracts the distribution.
+ *
+ * @category natural evolution strategies
+ */
+export function utilities(): FitnessShaping {
+  return (fitness) => {
+    const n = fitness.length;
+    const raw = fitness.map((_, k) => Math.max(0, Math.log(n / 2 + 1) - Math.log(k + 1)));
+    const total = raw.reduce((acc, value) => acc + value, 0);
+
+    return shape(fitness, raw.map((value) => value / total - 1 / n));
+  };
+}
+
+/**
+ * The centered ranks of OpenAI-ES, spread evenly over `[-0.5, 0.5]`.
+ *
+ * @category natural evolution strategies
+ */
+export function centeredRanks(): FitnessShaping {
+  return (fitness) => {
+    const n = fitness.length;
+    return shape(fitness, fitness.map((_, k) => n > 1 ? 0.5 - k / (n - 1) : 0));
+  };
+}
+
+/**
+ * A search distribution, which maps standard normal perturbations to points
+ * of the search space and follows the search gradient estimated from the
+ * perturbations and their utilities.
+ */
+export interface NesDistribution {
+  readonly dimension: number;
+  mean(): number[];
+  deviation(): number[];
+  transform(noise: number[]): number[];
+  update(noises: number[][], utilities: number[], context?: OperatorContextSettings): void;
+}
+
+/**
+ * Creates the search distribution centered at the initial mean, the engine
+ * creates a new distribution at the start of every run.
+ */
+export type NesStrategy = (mean: number[]) => NesDistribution;
+
+function assertSigma(sigma: unknown): void {
+  if (typeof sigma !== "number" || !isFinite(sigma) || 0 >= sigma) {
+    throw new TypeError();
+  }
+}
+
+function assertLearningRate(learningRate: unknown): void {
+  if (learningRate !== undefined && (typeof learningRate !== "number" || !isFinite(learningRate) || 0 >= learningRate)) {
+    throw new TypeError();
+  }
+}
+
+function assertSamples(dimension: number, noises: number[][], utilities: number[]): void {
+  if (noises.length !== utilities.length || noises.some((noise) => noise.length !== dimension)) {
+    throw new RangeError("the utilities do not match the perturbations");
+  }
+}
+
+function weightedNoise(dimension: number, noises: number[][], utilities: number[]): number[] {
+  const sum = new Array(dimension).fill(0);
+  noises.forEach((noise, k) => noise.forEach((value, i) => sum[i] += utilities[k] * value));
+
+  return sum;
+}
+
+/**
+ *
+ */
+export interface OpenAiEsSettings {
+  sigma: number;
+  optimizer: GradientOptimizer;
+  weightDecay: number;
+}
+
+/**
+ * OpenAI-ES keeps the standard deviation `sigma` fixed and passes the search
+ * gradient of the mean, `Σ u_k z_k / (λ σ)`, to the `optimizer` (Adam with a
+ * learning rate of 0.01 by default). The `weightDecay` pulls the mean towards
+ * the origin.
+ *
+ * @param settings
+ * @category natural evolution strategies
+ */
+export function openai(settings: Partial<OpenAiEsSettings> = {}): NesStrategy {
+  const sigma = settings.sigma ?? 0.1;
+  const optimizer = settings.optimizer;
+  const weightDecay = settings.weightDecay ?? 0;
+
+  assertSigma(sigma);
+
+  if (typeof weightDecay !== "number" || 0 > weightDecay) {
+    throw new TypeError();
+  }
+
+  return (initial) => {
+    const dimension = initial.length;
+    const method = optimizer ?? adam({ learningRate: 0.01 });
+
+    let mean = initial.slice();
+    method.reset();
+
+    return {
+      dimension,
+      mean: () => mean.slice(),
+      deviation: () => new Array(dimension).fill(sigma),
+      transform: (noise) => mean.map((value, i) => value + sigma * noise[i]),
+      update: (noises, utilities, context) => {
+        assertSamples(dimension, noises, utilities);
+
+        const gradient = weightedNoise(dimension, noises, utilities)
+          .map((value, i) => value / (noises.length * sigma) - weightDecay * mean[i]);
+
+        mean = method.step(mean, gradient, context);
+      },
+    };
+  };
+}
+
+/**
+ *
+ */
+export interface SnesSettings {
+  sigma: number;
+  optimizer: GradientOptimizer;
+  scaleLearningRate: number;
+}
+
+/**
+ * Separable NES adapts a standard deviation per dimension. The natural
+ * gradient of the mean is passed to the `optimizer` (plain gradient ascent
+ * with a learning rate of 1 by default), the `scaleLearningRate` defaults to
+ * `(3 + ln d) / (5 √d)`.
+ *
+ * @param settings
+ * @category natural evolution strategies
+ */
+export function snes(settings: Partial<SnesSettings> = {}): NesStrategy {
+  const sigma = settings.sigma ?? 1;
+  const optimizer = settings.optimizer;
+
+  assertSigma(sigma);
+  assertLearningRate(settings.scaleLearningRate);
+
+  return (initial) => {
+    const dimension = initial.length;
+    const method = optimizer ?? sgd({ learningRate: 1 });
+    const scaleLearningRate = settings.scaleLearningRate ?? (3 + Math.log(dimension)) / (5 * Math.sqrt(dimension));
+
+    let mean = initial.slice();
+    let deviation = new Array(dimension).fill(sigma);
+    method.reset();
+
+    return {
+      dimension,
+      mean: () => mean.slice(),
+      deviation: () => deviation.slice(),
+      transform: (noise) => mean.map((value, i) => value + deviation[i] * noise[i]),
+      update: (noises, utilities, context) => {
+        assertSamples(dimension, noises, utilities);
+
+        const meanGradient = weightedNoise(dimension, noises, utilities);
+        const scaleGradient = weightedNoise(dimension, noises.map((noise) => noise.map((value) => value * value - 1)), utilities);
+
+        mean = method.step(mean, meanGradient.map((value, i) => deviation[i] * value), context);
+        deviation = deviation.map((value, i) => value * Math.exp(scaleLearningRate / 2 * scaleGradient[i]));
+      },
+    };
+  };
+}
+
+/**
+ *
+ */
+export interface XnesSettings {
+  sigma: number;
+  optimizer: GradientOptimizer;
+  scaleLearningRate: number;
+  shapeLearningRate: number;
+}
+
+/**
+ * Exponential NES adapts the full covariance matrix `σ² B Bᵀ`, where the
+ * shape matrix `B` keeps a unit determinant. The natural gradient of the mean
+ * is passed to the `optimizer` (plain gradient ascent with a learning rate of
+ * 1 by default), both the `scaleLearningRate` and the `shapeLearningRate`
+ * default to `3 (3 + ln d) / (5 d √d)`. Every update costs `O(d³)`, prefer
+ * {@link snes} or {@link openai} for many dimensions.
+ *
+ * @param settings
+ * @category natural evolution strategies
+ */
+export function xnes(settings: Partial<XnesSettings> = {}): NesStrategy {
+  const sigma = settings.sigma ?? 1;
+  const optimizer = settings.optimizer;
+
+  assertSigma(sigma);
+  assertLearningRate(settings.scaleLearningRate);
+  assertLearningRate(settings.shapeLearningRate);
+
+  return (initial) => {
+    const dimension = initial.length;
+    const method = optimizer ?? sgd({ learningRate: 1 });
+    const defaultLearningRate = 3 * (3 + Math.log(dimension)) / (5 * dimension * Math.sqrt(dimension));
+    const scaleLearningRate = settings.scaleLearningRate ?? defaultLearningRate;
+    const shapeLearningRate = settings.shapeLearningRate ?? defaultLearningRate;
+
+    let mean = initial.slice();
+    let scale = sigma;
+    let matrix: Matrix = identity(dimension);
+    method.reset();
+
+    return {
+      dimension,
+      mean: () => mean.slice(),
+      deviation: () => matrix.map((row) => scale * Math.sqrt(row.reduce((acc, value) => acc + value * value, 0))),
+      transform: (noise) => multiply(matrix, noise).map((value, i) => mean[i] + scale * value),
+      update: (noises, utilities, context) => {
+        assertSamples(dimension, noises, utilities);
+
+        const meanGradient = weightedNoise(dimension, noises, utilities);
+        const matrixGradient = identity(dimension).map((row, i) => row.map((_, j) => {
+          return noises.reduce((acc, noise, k) => acc + utilities[k] * (noise[i] * noise[j] - (i === j ? 1 : 0)), 0);
+        }));
+
+        const scaleGradient = matrixGradient.reduce((acc, row, i) => acc + row[i], 0) / dimension;
+        const shapeGradient = matrixGradient.map((row, i) => row.map((value, j) => {
+          return shapeLearningRate / 2 * (i === j ? value - scaleGradient : value);
+        }));
+
+        mean = method.step(mean, multiply(matrix, meanGradient).map((value) => scale * value), context);
+        scale *= Math.exp(scaleLearningRate / 2 * scaleGradient);
+        matrix = multiplyMatrices(matrix, exponential(shapeGradient));
+      },
+    };
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { NesStrategy, centeredRanks, openai, snes, utilities, xnes } from "./natural_evolution";
+import { Xoshiro128 } from "../random";
+import { randomGauss } from "../util";
+import { sgd } from "./optimizer";
+
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+describe("utilities", () => {
+  it("sum up to zero and decrease with the rank", () => {
+    fc.assert(fc.property(fc.array(fc.double(-100, 100), 2, 50), (fitness) => {
+      const shaped = utilities()(fitness);
+
+      expect(sum(shaped)).toBeCloseTo(0, 10);
+      fitness.forEach((a, i) => fitness.forEach((b, j) => {
+        if (a > b) {
+          expect(shaped[i]).toBeGreaterThanOrEqual(shaped[j]);
+        }
+      }));
+    }));
+  });
+
+  it("matches the utilities of NES", () => {
+    const shaped = utilities()([1, 4, 2, 3]);
+    const raw = [Math.log(3), Math.log(3) - Math.log(2)];
+    const total = raw[0] + raw[1];
+
+    expect(shaped[1]).toBeCloseTo(raw[0] / total - 0.25, 12);
+    expect(shaped[3]).toBeCloseTo(raw[1] / total - 0.25, 12);
+    expect(shaped[2]).toBeCloseTo(-0.25, 12);
+    expect(shaped[0]).toBeCloseTo(-0.25, 12);
+  });
+
+  it("gives individuals with equal fitness the same utility", () => {
+    const shaped = utilities()([5, 5, 1, 0]);
+    expect(shaped[0]).toBe(shaped[1]);
+  });
+});
+
+describe("centeredRanks", () => {
+  it("spreads the ranks evenly over [-0.5, 0.5]", () => {
+    expect(centeredRanks()([3, 1, 2])).toEqual([0.5, -0.5, 0]);
+    expect(centeredRanks()([1])).toEqual([0]);
+  });
+});
+
+describe("strategies", () => {
+  const random = new Xoshiro128(7);
+  const noise = (n: number) => Array.from({ length: n }, () => randomGauss(0, 1, random));
+
+  const optimize = (strategy: NesStrategy, generations: number) => {
+    const distribution = strategy([3, -2, 1]);
+
+    for (let i = 0; i < generations; i++) {
+      const noises = Array.from({ length: 10 }, () => noise(3));
+      const fitness = noises.map((z) => -sum(distribution.transform(z).map((value) => value * value)));
+
+      distribution.update(noises, utilities()(fitness));
+    }
+
+    return distribution;
+  };
+
+  it("start at the given mean with the given standard deviation", () => {
+    [openai({ sigma: 0.5 }), snes({ sigma: 0.5 }), xnes({ sigma: 0.5 })].forEach((strategy) => {
+      const distribution = strategy([1, 2]);
+
+      expect(distribution.dimension).toBe(2);
+      expect(distribution.mean()).toEqual([1, 2]);
+      expect(distribution.deviation()).toEqual([0.5, 0.5]);
+      expect(distribution.transform([1, -2])).toEqual([1.5, 1]);
+    });
+  });
+
+  it("converge on the sphere function", () => {
+    [snes(), xnes()].forEach((strategy) => {
+      const distribution = optimize(strategy, 300);
+
+      distribution.mean().forEach((value) => expect(Math.abs(value)).toBeLessThan(1e-4));
+      distribution.deviation().forEach((value) => expect(value).toBeLessThan(1e-3));
+    });
+  });
+
+  it("moves the mean of OpenAI-ES with the optimizer while keeping sigma", () => {
+    const distribution = optimize(openai({ sigma: 0.1, optimizer: sgd({ learningRate: 0.05 }) }), 300);
+
+    distribution.mean().forEach((value) => expect(Math.abs(value)).toBeLessThan(0.1));
+    expect(distribution.deviation()).toEqual([0.1, 0.1, 0.1]);
+  });
+
+  it("pulls the mean of OpenAI-ES towards the origin with weight decay", () => {
+    const distribution = openai({ optimizer: sgd({ learningRate: 1 }), weightDecay: 0.5 })([2]);
+    distribution.update([[1], [-1]], [0, 0]);
+
+    expect(distribution.mean()).toEqual([1]);
+  });
+
+  it("keeps the unit determinant of the xNES shape matrix", () => {
+    const distribution = xnes({ sigma: 1, scaleLearningRate: 1e-12 })([0, 0]);
+    distribution.update([[2, 0], [-2, 0], [0, 0.5], [0, -0.5]], [0.5, 0.5, -0.5, -0.5]);
+
+    const [a, b] = distribution.deviation();
+
+    expect(a).toBeGreaterThan(1);
+    expect(b).toBeLessThan(1);
+    expect(a * b).toBeCloseTo(1, 6);
+  });
+
+  it("throws if the settings or the samples are invalid", () => {
+    expect(() => openai({ sigma: 0 })).toThrow(TypeError);
+    expect(() => openai({ weightDecay: -1 })).toThrow(TypeError);
+    expect(() => snes({ scaleLearningRate: -1 })).toThrow(TypeError);
+    expect(() => xnes({ shapeLearningRate: 0 })).toThrow(TypeError);
+    expect(() => xnes()([0, 0]).update([[1, 1]], [1, 2])).toThrow(RangeError);
+    expect(() => snes()([0, 0]).update([[1]], [1])).toThrow(RangeError);
+  });
+});
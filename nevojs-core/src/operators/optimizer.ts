@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Scheduled, isScheduled, resolveSchedule } from "./schedule";
+import { OperatorContextSettings } from "./context";
+
+/**
+ * Moves the parameters along a gradient, towards higher values of the
+ * objective. Optimizers keep their own state (e.g. the momentum) between the
+ * steps until they are reset.
+ */
+export interface GradientOptimizer {
+  step(parameters: number[], gradient: number[], context?: OperatorContextSettings): number[];
+  reset(): void;
+}
+
+function learningRateOf(learningRate: Scheduled, context?: OperatorContextSettings): number {
+  const current = resolveSchedule(learningRate, context);
+
+  if (!isFinite(current) || 0 >= current) {
+    throw new TypeError(`scheduled learning rate ${current} is not positive`);
+  }
+
+  return current;
+}
+
+function assertGradient(parameters: number[], gradient: number[], state: number[]): void {
+  if (parameters.length !== gradient.length || (state.length !== 0 && state.length !== gradient.length)) {
+    throw new RangeError("the gradient does not match the parameters");
+  }
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && 1 > value;
+}
+
+/**
+ *
+ */
+export interface SgdSettings {
+  learningRate: Scheduled;
+  momentum: number;
+}
+
+/**
+ * Stochastic gradient ascent with optional momentum.
+ *
+ * @param settings
+ * @category gradient optimizer
+ */
+export function sgd(settings: Partial<SgdSettings> = {}): GradientOptimizer {
+  const learningRate = settings.learningRate ?? 0.01;
+  const momentum = settings.momentum ?? 0;
+
+  if (!isScheduled(learningRate) || !isFraction(momentum)) {
+    throw new TypeError();
+  }
+
+  let velocity: number[] = [];
+
+  return {
+    step: (parameters, gradient, context) => {
+      assertGradient(parameters, gradient, velocity);
+
+      const rate = learningRateOf(learningRate, context);
+      velocity = gradient.map((value, i) => momentum * (velocity[i] ?? 0) + value);
+
+      return parameters.map((value, i) => value + rate * velocity[i]);
+    },
+    reset: () => {
+      velocity = [];
+    },
+  };
+}
+
+/**
+ *
+ */
+export interface AdamSettings {
+  learningRate: Scheduled;
+  beta1: number;
+  beta2: number;
+  epsilon: number;
+}
+
+/**
+ * Adam with bias-corrected estimates of the first and second moments of the
+ * gradient.
+ *
+ * @param settings
+ * @category gradient optimizer
+ */
+export function adam(settings: Partial<AdamSettings> = {}): GradientOptimizer {
+  const learningRate = settings.learningRate ?? 0.001;
+  const beta1 = settings.beta1 ?? 0.9;
+  const beta2 = settings.beta2 ?? 0.999;
+  const epsilon = settings.epsilon ?? 1e-8;
+
+  if (!isScheduled(learningRate) || !isFraction(beta1) || !isFraction(beta2) || typeof epsilon !== "number" || 0 >= epsilon) {
+    throw new TypeError();
+  }
+
+  let first: number[] = [];
+  let second: number[] = [];
+  let t = 0;
+
+  return {
+    step: (parameters, gradient, context) => {
+      assertGradient(parameters, gradient, first);
+
+      const rate = learningRateOf(learningRate, context);
+      t += 1;
+
+      first = gradient.map((value, i) => beta1 * (first[i] ?? 0) + (1 - beta1) * value);
+      second = gradient.map((value, i) => beta2 * (second[i] ?? 0) + (1 - beta2) * value * value);
+
+      const correction = rate * Math.sqrt(1 - beta2 ** t) / (1 - beta1 ** t);
+      return parameters.map((value, i) => value + correction * first[i] / (Math.sqrt(second[i]) + epsilon));
+    },
+    reset: () => {
+      first = [];
+      second = [];
+      t = 0;
+    },
+  };
+}
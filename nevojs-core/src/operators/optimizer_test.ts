@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { adam, sgd } from "./optimizer";
+import { linear } from "./schedule";
+
+describe("sgd", () => {
+  it("moves the parameters along the gradient", () => {
+    expect(sgd({ learningRate: 0.5 }).step([1, 2], [2, -4])).toEqual([2, 0]);
+  });
+
+  it("accumulates the momentum until it is reset", () => {
+    const optimizer = sgd({ learningRate: 1, momentum: 0.5 });
+
+    expect(optimizer.step([0], [1])).toEqual([1]);
+    expect(optimizer.step([1], [1])).toEqual([2.5]);
+
+    optimizer.reset();
+    expect(optimizer.step([0], [1])).toEqual([1]);
+  });
+
+  it("resolves a scheduled learning rate against the context", () => {
+    const optimizer = sgd({ learningRate: linear(1, 0.5, 10) });
+
+    expect(optimizer.step([0], [1], { generation: 10 })).toEqual([0.5]);
+    expect(() => sgd({ learningRate: linear(1, -1, 10) }).step([0], [1], { generation: 10 })).toThrow(TypeError);
+  });
+
+  it("throws if the settings or the gradient are invalid", () => {
+    expect(() => sgd({ momentum: 1 })).toThrow(TypeError);
+    expect(() => sgd({ learningRate: "foo" as any })).toThrow(TypeError);
+    expect(() => sgd().step([0, 1], [1])).toThrow(RangeError);
+  });
+});
+
+describe("adam", () => {
+  it("takes steps of the size of the learning rate at first", () => {
+    const optimizer = adam({ learningRate: 0.1 });
+
+    const [a, b] = optimizer.step([0, 0], [10, -0.001]);
+
+    expect(a).toBeCloseTo(0.1, 6);
+    expect(b).toBeCloseTo(-0.1, 4);
+  });
+
+  it("maximizes a concave function", () => {
+    const optimizer = adam({ learningRate: 0.05 });
+    let parameters = [3, -2];
+
+    for (let i = 0; i < 2000; i++) {
+      parameters = optimizer.step(parameters, parameters.map((value) => -2 * (value - 1)));
+    }
+
+    parameters.forEach((value) => expect(value).toBeCloseTo(1, 3));
+  });
+
+  it("throws if the settings or the gradient are invalid", () => {
+    expect(() => adam({ beta1: 1 })).toThrow(TypeError);
+    expect(() => adam({ epsilon: 0 })).toThrow(TypeError);
+
+    const optimizer = adam();
+    optimizer.step([0], [1]);
+
+    expect(() => optimizer.step([0, 0], [1, 1])).toThrow(RangeError);
+  });
+});
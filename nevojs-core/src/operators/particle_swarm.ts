@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Random, getRandom } from "../random";
+import { Scheduled, isScheduled, resolveSchedule } from "./schedule";
+import { OperatorContextSettings } from "./context";
+import { isPositiveInt } from "../util";
+
+/**
+ * The entries kept in the `State` of every particle: its velocity, the best
+ * position it visited and the target value of that position.
+ */
+export interface ParticleState {
+  velocity: number[];
+  best: number[];
+  bestValue: number;
+}
+
+/**
+ * Returns the neighbourhood of every particle as the indices of the particles
+ * it learns from, including itself. The engine asks for the neighbourhoods
+ * before every generation.
+ */
+export type Topology = (size: number, random: Random) => number[][];
+
+/**
+ * The vectors a particle is moved with: its current position and velocity,
+ * its personal best and the best position found in its neighbourhood.
+ */
+export interface Particle {
+  position: number[];
+  velocity: number[];
+  best: number[];
+  leader: number[];
+}
+
+/**
+ * Returns the new velocity of the particle.
+ */
+export type VelocityUpdate = (particle: Particle, context?: OperatorContextSettings) => number[];
+
+/**
+ * Every particle learns from the whole swarm.
+ *
+ * @category particle swarm
+ */
+export function globalBest(): Topology {
+  return (size) => {
+    const everyone = Array.from({ length: size }, (_, i) => i);
+    return everyone.map(() => everyone);
+  };
+}
+
+/**
+ *
+ */
+export interface RingTopologySettings {
+  neighbours: number;
+}
+
+/**
+ * Every particle learns from the `neighbours` particles (1 by default) on
+ * each of its sides.
+ *
+ * @param settings
+ * @category particle swarm
+ */
+export function ring(settings: Partial<RingTopologySettings> = {}): Topology {
+  const neighbours = settings.neighbours ?? 1;
+
+  if (!isPositiveInt(neighbours)) {
+    throw new TypeError();
+  }
+
+  return (size) => Array.from({ length: size }, (_, i) => {
+    const indices = [i];
+
+    for (let offset = 1; offset <= neighbours; offset++) {
+      indices.push((i + offset) % size, ((i - offset) % size + size) % size);
+    }
+
+    return Array.from(new Set(indices));
+  });
+}
+
+/**
+ * The particles are laid out row by row on a toroidal grid with
+ * `ceil(√size)` columns, every particle learns from the particles above,
+ * below, left and right of it. Rows and columns wrap around separately, the
+ * last row may be shorter than the others.
+ *
+ * @category particle swarm
+ */
+export function vonNeumann(): Topology {
+  return (size) => {
+    const columns = Math.ceil(Math.sqrt(size));
+    const rows = Math.ceil(size / columns);
+
+    return Array.from({ length: size }, (_, i) => {
+      const row = Math.floor(i / columns);
+      const column = i % columns;
+
+      const width = Math.min(columns, size - row * columns);
+      const height = size - (rows - 1) * columns > column ? rows : rows - 1;
+
+      const indices = [
+        i,
+        row * columns + (column + 1) % width,
+        row * columns + (column - 1 + width) % width,
+        ((row + 1) % height) * columns + column,
+        ((row - 1 + height) % height) * columns + column,
+      ];
+
+      return Array.from(new Set(indices));
+    });
+  };
+}
+
+/**
+ *
+ */
+export interface RandomTopologySettings {
+  informants: number;
+}
+
+/**
+ * Every particle informs itself and `informants` random particles (3 by
+ * default), the links are drawn anew before every generation.
+ *
+ * @param settings
+ * @category particle swarm
+ */
+export function randomInformants(settings: Partial<RandomTopologySettings> = {}): Topology {
+  const informants = settings.informants ?? 3;
+
+  if (!isPositiveInt(informants)) {
+    throw new TypeError();
+  }
+
+  return (size, random) => {
+    const neighbourhoods = Array.from({ length: size }, (_, i) => new Set([i]));
+
+    for (let i = 0; i < size; i++) {
+      for (let k = 0; k < informants; k++) {
+        neighbourhoods[Math.floor(random.next() * size)].add(i);
+      }
+    }
+
+    return neighbourhoods.map((neighbourhood) => Array.from(neighbourhood));
+  };
+}
+
+function assertCoefficients(...coefficients: number[]): void {
+  if (coefficients.some((coefficient) => typeof coefficient !== "number" || !isFinite(coefficient) || 0 > coefficient)) {
+    throw new TypeError();
+  }
+}
+
+function attraction(particle: Particle, cognitive: number, social: number, random: Random): number[] {
+  const { position, best, leader } = particle;
+
+  return position.map((value, i) => {
+    return cognitive * random.next() * (best[i] - value) + social * random.next() * (leader[i] - value);
+  });
+}
+
+/**
+ *
+ */
+export interface InertiaSettings {
+  inertia: Scheduled;
+  cognitive: number;
+  social: number;
+}
+
+/**
+ * The velocity update with an inertia weight, which can be scheduled (e.g.
+ * linearly decreasing). The defaults `0.7298` and `1.49618` are equivalent to
+ * the constriction coefficients.
+ *
+ * @param settings
+ * @category particle swarm
+ */
+export function inertia(settings: Partial<InertiaSettings> = {}): VelocityUpdate {
+  const weight = settings.inertia ?? 0.7298;
+  const cognitive = settings.cognitive ?? 1.49618;
+  const social = settings.social ?? 1.49618;
+
+  assertCoefficients(cognitive, social);
+
+  if (!isScheduled(weight)) {
+    throw new TypeError();
+  }
+
+  return (particle, context = {}) => {
+    const random = context.random ?? getRandom();
+    const current = resolveSchedule(weight, context);
+
+    if (!isFinite(current) || 0 > current) {
+      throw new TypeError(`scheduled inertia weight ${current} is negative`);
+    }
+
+    const pull = attraction(particle, cognitive, social, random);
+    return particle.velocity.map((value, i) => current * value + pull[i]);
+  };
+}
+
+/**
+ *
+ */
+export interface ConstrictionSettings {
+  cognitive: number;
+  social: number;
+}
+
+/**
+ * Clerc's constriction, which scales the whole velocity by
+ * `χ = 2 / |2 - φ - √(φ² - 4φ)|` where `φ = cognitive + social` has to exceed
+ * 4 (both 2.05 by default).
+ *
+ * @param settings
+ * @category particle swarm
+ */
+export function constriction(settings: Partial<ConstrictionSettings> = {}): VelocityUpdate {
+  const cognitive = settings.cognitive ?? 2.05;
+  const social = settings.social ?? 2.05;
+
+  assertCoefficients(cognitive, social);
+
+  const phi = cognitive + social;
+
+  if (4 >= phi) {
+    throw new TypeError("constriction requires the sum of the coefficients to exceed 4");
+  }
+
+  const chi = 2 / Math.abs(2 - phi - Math.sqrt(phi * phi - 4 * phi));
+
+  return (particle, context = {}) => {
+    const random = context.random ?? getRandom();
+    const pull = attraction(particle, cognitive, social, random);
+
+    return particle.velocity.map((value, i) => chi * (value + pull[i]));
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { constriction, globalBest, inertia, randomInformants, ring, vonNeumann } from "./particle_swarm";
+import { Xoshiro128 } from "../random";
+import { linear } from "./schedule";
+
+const particle = { position: [0, 0], velocity: [1, -1], best: [1, 1], leader: [2, 2] };
+
+describe("topologies", () => {
+  const random = new Xoshiro128(1);
+
+  it("includes every particle in its own neighbourhood", () => {
+    fc.assert(fc.property(fc.integer(1, 40), (size) => {
+      [globalBest(), ring(), ring({ neighbours: 3 }), vonNeumann(), randomInformants()].forEach((topology) => {
+        const neighbourhoods = topology(size, random);
+
+        expect(neighbourhoods.length).toBe(size);
+        neighbourhoods.forEach((neighbourhood, i) => {
+          expect(neighbourhood).toContain(i);
+          expect(neighbourhood.every((index) => index >= 0 && size > index)).toBe(true);
+          expect(new Set(neighbourhood).size).toBe(neighbourhood.length);
+        });
+      });
+    }));
+  });
+
+  it("connects every particle to the whole swarm with the global best topology", () => {
+    expect(globalBest()(3, random)).toEqual([[0, 1, 2], [0, 1, 2], [0, 1, 2]]);
+  });
+
+  it("connects the neighbours on a ring", () => {
+    expect(ring()(5, random)[0].sort()).toEqual([0, 1, 4]);
+    expect(ring({ neighbours: 2 })(6, random)[0].sort()).toEqual([0, 1, 2, 4, 5]);
+  });
+
+  it("connects the neighbours on a toroidal grid", () => {
+    const grid = vonNeumann()(9, random).map((neighbourhood) => neighbourhood.sort((a, b) => a - b));
+
+    expect(grid).toEqual([
+      [0, 1, 2, 3, 6],
+      [0, 1, 2, 4, 7],
+      [0, 1, 2, 5, 8],
+      [0, 3, 4, 5, 6],
+      [1, 3, 4, 5, 7],
+      [2, 3, 4, 5, 8],
+      [0, 3, 6, 7, 8],
+      [1, 4, 6, 7, 8],
+      [2, 5, 6, 7, 8],
+    ]);
+  });
+
+  it("wraps the columns around the shorter last row", () => {
+    const grid = vonNeumann()(7, random).map((neighbourhood) => neighbourhood.sort((a, b) => a - b));
+
+    expect(grid[2]).toEqual([0, 1, 2, 5]);
+    expect(grid[5]).toEqual([2, 3, 4, 5]);
+    expect(grid[6]).toEqual([0, 3, 6]);
+  });
+
+  it("links at most the given number of random informants", () => {
+    const neighbourhoods = randomInformants({ informants: 2 })(20, random);
+    const links = neighbourhoods.reduce((acc, neighbourhood) => acc + neighbourhood.length - 1, 0);
+
+    expect(links).toBeLessThanOrEqual(40);
+    expect(links).toBeGreaterThan(0);
+  });
+
+  it("throws if the settings are invalid", () => {
+    expect(() => ring({ neighbours: 0 })).toThrow(TypeError);
+    expect(() => randomInformants({ informants: 1.5 })).toThrow(TypeError);
+  });
+});
+
+describe("inertia", () => {
+  it("keeps the weighted velocity without attraction", () => {
+    const method = inertia({ inertia: 0.5, cognitive: 0, social: 0 });
+    expect(method(particle, { random: new Xoshiro128(1) })).toEqual([0.5, -0.5]);
+  });
+
+  it("moves towards the personal and the neighbourhood best", () => {
+    const random = { next: () => 1 };
+    const method = inertia({ inertia: 0, cognitive: 1, social: 2 });
+
+    expect(method(particle, { random })).toEqual([5, 5]);
+  });
+
+  it("resolves a scheduled inertia weight against the context", () => {
+    const method = inertia({ inertia: linear(0.9, 0.4, 10), cognitive: 0, social: 0 });
+
+    expect(method(particle, { generation: 10, random: new Xoshiro128(1) })[0]).toBeCloseTo(0.4, 12);
+    expect(() => inertia({ inertia: linear(0, -1, 1) })(particle, { generation: 1 })).toThrow(TypeError);
+  });
+
+  it("throws if the coefficients are invalid", () => {
+    expect(() => inertia({ cognitive: -1 })).toThrow(TypeError);
+    expect(() => inertia({ inertia: "foo" as any })).toThrow(TypeError);
+  });
+});
+
+describe("constriction", () => {
+  it("scales the velocity by the constriction coefficient", () => {
+    const random = { next: () => 0 };
+    const [value] = constriction()(particle, { random });
+
+    expect(value).toBeCloseTo(0.7298, 4);
+  });
+
+  it("throws if the sum of the coefficients does not exceed 4", () => {
+    expect(() => constriction({ cognitive: 2, social: 2 })).toThrow(TypeError);
+  });
+});
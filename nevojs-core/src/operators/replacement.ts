@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { ScalarizationMethod, weightedSum } from "../individual/multiobjective_optimization/scalarization";
+import { choose, isPositiveInt } from "../util";
+import { AnyIndividual } from "../individual/individual";
+import { RandomSettings } from "../random";
+import { best } from "./selection";
+
+/**
+ * Decides which `amount` individuals survive, given the current population
+ * (ordered from the oldest member) and the newly created offspring.
+ */
+export type ReplacementMethod<I extends AnyIndividual = any> = (
+  amount: number,
+  population: I[],
+  offspring: I[],
+) => I[];
+
+/**
+ *
+ * @category replacement
+ */
+export function oldest<I extends AnyIndividual>(): ReplacementMethod<I> {
+  return (amount, population, offspring) => {
+    const members = population.concat(offspring);
+    return members.slice(Math.max(members.length - amount, 0));
+  };
+}
+
+/**
+ *
+ * @category replacement
+ */
+export function generational<I extends AnyIndividual>(): ReplacementMethod<I> {
+  return oldest();
+}
+
+/**
+ *
+ * @param target
+ * @category replacement
+ */
+export function worst<I extends AnyIndividual>(target: ScalarizationMethod<I> = weightedSum): ReplacementMethod<I> {
+  return (amount, population, offspring) => {
+    const excess = population.length + offspring.length - amount;
+
+    if (excess >= population.length) {
+      return oldest<I>()(amount, [], offspring);
+    }
+
+    const removed = best<I>((individual) => -target(individual))(excess, population.slice());
+    return population.filter((member) => !removed.includes(member)).concat(offspring);
+  };
+}
+
+/**
+ *
+ */
+export interface TournamentReplacementSettings<I extends AnyIndividual> extends RandomSettings {
+  size?: number;
+  target?: ScalarizationMethod<I>;
+}
+
+/**
+ *
+ * @param settings
+ * @category replacement
+ */
+export function tournament<I extends AnyIndividual>(
+  settings: TournamentReplacementSettings<I> = {},
+): ReplacementMethod<I> {
+  const size = settings.size ?? 2;
+  const target = settings.target ?? weightedSum;
+
+  if (!isPositiveInt(size)) {
+    throw new TypeError();
+  }
+
+  return (amount, population, offspring) => {
+    const excess = population.length + offspring.length - amount;
+
+    if (excess >= population.length) {
+      return oldest<I>()(amount, [], offspring);
+    }
+
+    const members = population.slice();
+
+    for (let i = 0; i < excess; i++) {
+      const sample = choose(members, size, settings.random);
+      const loser = sample.reduce((a, b) => target(b) < target(a) ? b : a);
+
+      members.splice(members.indexOf(loser), 1);
+    }
+
+    return members.concat(offspring);
+  };
+}
+
+/**
+ *
+ * @param target
+ * @category replacement
+ */
+export function plus<I extends AnyIndividual>(target: ScalarizationMethod<I> = weightedSum): ReplacementMethod<I> {
+  const selection = best(target);
+
+  return (amount, population, offspring) => selection(amount, population.concat(offspring));
+}
+
+/**
+ * Compares every offspring with the member of the population at the same
+ * index and keeps the offspring if it is at least as good.
+ *
+ * @param target
+ * @category replacement
+ */
+export function oneToOne<I extends AnyIndividual>(target: ScalarizationMethod<I> = weightedSum): ReplacementMethod<I> {
+  return (amount, population, offspring) => {
+    if (population.length !== offspring.length || amount !== population.length) {
+      throw new RangeError("one-to-one replacement requires a single offspring for every member of the population");
+    }
+
+    return population.map((member, i) => target(offspring[i]) >= target(member) ? offspring[i] : member);
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { generational, oldest, oneToOne, plus, tournament, worst } from "./replacement";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { maximize } from "../creation";
+
+function individualFixture(fitness: number) {
+  const individual = new Individual({
+    genotype: new List([]),
+  });
+
+  individual.evaluate(() => maximize(fitness));
+  return individual;
+}
+
+const population = [3, 1, 4].map(individualFixture);
+const offspring = [2, 5].map(individualFixture);
+
+describe("generational", () => {
+  it("replaces the oldest members with the offspring", () => {
+    const survivors = generational()(3, population, offspring);
+
+    expect(survivors).toEqual([population[2], offspring[0], offspring[1]]);
+  });
+
+  it("takes the youngest offspring if there are more of them than needed", () => {
+    const survivors = generational()(1, population, offspring);
+
+    expect(survivors).toEqual([offspring[1]]);
+  });
+});
+
+describe("plus", () => {
+  it("keeps the best of both the population and the offspring", () => {
+    const survivors = plus()(3, population, offspring);
+
+    expect(survivors.map((survivor) => survivor.fitness()[0])).toEqual([5, 4, 3]);
+  });
+});
+
+describe("oldest", () => {
+  it("removes the members that were added first", () => {
+    const survivors = oldest()(3, population, offspring.slice(0, 1));
+
+    expect(survivors).toEqual([population[1], population[2], offspring[0]]);
+  });
+});
+
+describe("worst", () => {
+  it("replaces the worst members of the population", () => {
+    const survivors = worst()(3, population, offspring.slice(0, 1));
+
+    expect(survivors).toEqual([population[0], population[2], offspring[0]]);
+  });
+
+  it("inserts the offspring even if they are worse than the population", () => {
+    const survivors = worst()(3, population, [individualFixture(-1)]);
+
+    expect(survivors.map((survivor) => survivor.fitness()[0])).toEqual([3, 4, -1]);
+  });
+});
+
+describe("tournament", () => {
+  it("replaces the worst member if the tournament size is equal to the population size", () => {
+    const survivors = tournament({ size: 3 })(3, population, offspring.slice(0, 1));
+
+    expect(survivors).toEqual([population[0], population[2], offspring[0]]);
+  });
+
+  it("returns correct amount of individuals", () => {
+    expect(tournament()(3, population, offspring).length).toBe(3);
+  });
+
+  it("throws a TypeError if the size is not a positive integer", () => {
+    expect(() => tournament({ size: 0 })).toThrow(TypeError);
+  });
+});
+
+describe("oneToOne", () => {
+  it("keeps the offspring which are at least as good as their counterparts", () => {
+    const rivals = [2, 1, 5].map(individualFixture);
+    const survivors = oneToOne()(3, population, rivals);
+
+    expect(survivors).toEqual([population[0], rivals[1], rivals[2]]);
+  });
+
+  it("throws a RangeError if there is not a single offspring for every member", () => {
+    expect(() => oneToOne()(3, population, offspring)).toThrow(RangeError);
+  });
+});
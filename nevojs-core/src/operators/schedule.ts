@@ -0,0 +1,266 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { OperatorContextSettings } from "./context";
+import { isFinite } from "../util";
+
+/**
+ *
+ */
+export interface ScheduleProgress {
+  generation: number;
+  evaluations: number;
+}
+
+/**
+ *
+ */
+export type ScheduleFunction = (progress: ScheduleProgress) => number;
+
+/**
+ * A number changing over the course of a run. Operator settings accepting a
+ * `Scheduled` value resolve it against the generation and the number of
+ * evaluations of the operator context every time the operator is called.
+ */
+export class Schedule {
+  private readonly func: ScheduleFunction;
+
+  /**
+   *
+   * @param func
+   */
+  public constructor(func: ScheduleFunction) {
+    if (typeof func !== "function") {
+      throw new TypeError();
+    }
+
+    this.func = func;
+  }
+
+  /**
+   * Missing progress counts as the start of the run.
+   *
+   * @param context
+   */
+  public value(context: OperatorContextSettings = {}): number {
+    const generation = context.generation ?? 0;
+    const evaluations = context.evaluations ?? 0;
+
+    return this.func({ generation, evaluations });
+  }
+}
+
+/**
+ *
+ */
+export type Scheduled = number | Schedule;
+
+/**
+ *
+ * @param value
+ * @param context
+ * @hidden
+ */
+export function resolveSchedule(value: Scheduled, context?: OperatorContextSettings): number {
+  return value instanceof Schedule ? value.value(context) : value;
+}
+
+/**
+ *
+ * @param value
+ * @hidden
+ */
+export function isScheduled(value: any): value is Scheduled {
+  return typeof value === "number" || value instanceof Schedule;
+}
+
+/**
+ * `"generation"` or `"evaluations"`, the progress the schedule is a function
+ * of.
+ */
+export type ScheduleUnit = keyof ScheduleProgress;
+
+/**
+ *
+ */
+export interface ScheduleSettings {
+  unit: ScheduleUnit;
+}
+
+function position(settings: Partial<ScheduleSettings>): (progress: ScheduleProgress) => number {
+  const unit = settings.unit ?? "generation";
+
+  if (unit !== "generation" && unit !== "evaluations") {
+    throw new TypeError(`invalid schedule unit ${unit}`);
+  }
+
+  return (progress) => progress[unit];
+}
+
+function assertFinite(...values: number[]): void {
+  if (!values.every((value) => isFinite(value))) {
+    throw new TypeError("schedule values have to be finite numbers");
+  }
+}
+
+function assertDuration(duration: number): void {
+  if (!isFinite(duration) || 0 >= duration) {
+    throw new TypeError(`invalid schedule duration ${duration}`);
+  }
+}
+
+/**
+ * Goes linearly from `from` to `to` over `duration` generations or
+ * evaluations and stays at `to` afterwards.
+ *
+ * @param from
+ * @param to
+ * @param duration
+ * @param settings
+ * @category schedule
+ */
+export function linear(from: number, to: number, duration: number, settings: Partial<ScheduleSettings> = {}): Schedule {
+  assertFinite(from, to);
+  assertDuration(duration);
+
+  const at = position(settings);
+
+  return new Schedule((progress) => {
+    const t = Math.min(at(progress) / duration, 1);
+    return from + (to - from) * t;
+  });
+}
+
+/**
+ * Multiplies the initial value by `decay` every generation or evaluation.
+ *
+ * @param initial
+ * @param decay
+ * @param settings
+ * @category schedule
+ */
+export function exponential(initial: number, decay: number, settings: Partial<ScheduleSettings> = {}): Schedule {
+  assertFinite(initial, decay);
+
+  if (0 >= decay) {
+    throw new TypeError(`invalid schedule decay ${decay}`);
+  }
+
+  const at = position(settings);
+
+  return new Schedule((progress) => initial * decay ** at(progress));
+}
+
+/**
+ * Cosine annealing from `from` to `to` over `duration` generations or
+ * evaluations, stays at `to` afterwards.
+ *
+ * @param from
+ * @param to
+ * @param duration
+ * @param settings
+ * @category schedule
+ */
+export function cosine(from: number, to: number, duration: number, settings: Partial<ScheduleSettings> = {}): Schedule {
+  assertFinite(from, to);
+  assertDuration(duration);
+
+  const at = position(settings);
+
+  return new Schedule((progress) => {
+    const t = Math.min(at(progress) / duration, 1);
+    return to + (from - to) * (1 + Math.cos(Math.PI * t)) / 2;
+  });
+}
+
+/**
+ * Multiplies the initial value by `factor` every `every` generations or
+ * evaluations.
+ *
+ * @param initial
+ * @param factor
+ * @param every
+ * @param settings
+ * @category schedule
+ */
+export function step(initial: number, factor: number, every: number, settings: Partial<ScheduleSettings> = {}): Schedule {
+  assertFinite(initial, factor);
+  assertDuration(every);
+
+  const at = position(settings);
+
+  return new Schedule((progress) => initial * factor ** Math.floor(at(progress) / every));
+}
+
+/**
+ *
+ */
+export interface SchedulePoint {
+  at: number;
+  value: number;
+}
+
+/**
+ * Interpolates linearly between the points, before the first and after the
+ * last point the value of the nearest point is used.
+ *
+ * @param points
+ * @param settings
+ * @category schedule
+ */
+export function piecewise(points: SchedulePoint[], settings: Partial<ScheduleSettings> = {}): Schedule {
+  if (!Array.isArray(points) || points.length === 0) {
+    throw new TypeError("piecewise schedule requires at least one point");
+  }
+
+  points.forEach(({ at, value }) => assertFinite(at, value));
+
+  const sorted = points.slice().sort((a, b) => a.at - b.at);
+
+  if (sorted.some((point, i) => i > 0 && point.at === sorted[i - 1].at)) {
+    throw new TypeError("piecewise schedule points have to be at different positions");
+  }
+
+  const at = position(settings);
+
+  return new Schedule((progress) => {
+    const x = at(progress);
+    const next = sorted.findIndex((point) => point.at > x);
+
+    if (next === -1) {
+      return sorted[sorted.length - 1].value;
+    }
+
+    if (next === 0) {
+      return sorted[0].value;
+    }
+
+    const a = sorted[next - 1];
+    const b = sorted[next];
+
+    return a.value + (b.value - a.value) * (x - a.at) / (b.at - a.at);
+  });
+}
+
+/**
+ *
+ * @param func
+ * @category schedule
+ */
+export function custom(func: ScheduleFunction): Schedule {
+  return new Schedule(func);
+}
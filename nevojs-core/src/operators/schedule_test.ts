@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { Schedule, cosine, custom, exponential, linear, piecewise, resolveSchedule, step } from "./schedule";
+
+describe("Schedule", () => {
+  it("resolves against the generation by default", () => {
+    const schedule = linear(1, 0, 10);
+
+    expect(schedule.value()).toBe(1);
+    expect(schedule.value({ generation: 5, evaluations: 500 })).toBe(0.5);
+    expect(schedule.value({ generation: 20 })).toBe(0);
+  });
+
+  it("resolves against the evaluations if requested", () => {
+    const schedule = linear(1, 0, 1000, { unit: "evaluations" });
+
+    expect(schedule.value({ generation: 5, evaluations: 250 })).toBe(0.75);
+  });
+
+  it("leaves plain numbers unchanged", () => {
+    expect(resolveSchedule(0.3, { generation: 10 })).toBe(0.3);
+    expect(resolveSchedule(custom(({ generation }) => generation * 2), { generation: 10 })).toBe(20);
+  });
+
+  it("throws a TypeError if the function is missing", () => {
+    expect(() => new Schedule(undefined as any)).toThrow(TypeError);
+  });
+});
+
+describe("exponential", () => {
+  it("multiplies the value by the decay every generation", () => {
+    const schedule = exponential(8, 0.5);
+
+    expect([0, 1, 2, 3].map((generation) => schedule.value({ generation }))).toEqual([8, 4, 2, 1]);
+  });
+
+  it("throws a TypeError if the decay is not positive", () => {
+    expect(() => exponential(1, 0)).toThrow(TypeError);
+  });
+});
+
+describe("cosine", () => {
+  it("anneals from the first value to the second", () => {
+    const schedule = cosine(1, 0, 100);
+
+    expect(schedule.value({ generation: 0 })).toBe(1);
+    expect(schedule.value({ generation: 50 })).toBeCloseTo(0.5, 12);
+    expect(schedule.value({ generation: 100 })).toBe(0);
+    expect(schedule.value({ generation: 200 })).toBe(0);
+  });
+
+  it("changes monotonically", () => {
+    const schedule = cosine(0.2, 0.9, 50);
+
+    fc.assert(fc.property(fc.nat(100), (generation) => {
+      expect(schedule.value({ generation: generation + 1 })).toBeGreaterThanOrEqual(schedule.value({ generation }));
+    }));
+  });
+});
+
+describe("step", () => {
+  it("multiplies the value by the factor every few generations", () => {
+    const schedule = step(1, 0.1, 10);
+
+    expect(schedule.value({ generation: 9 })).toBe(1);
+    expect(schedule.value({ generation: 10 })).toBeCloseTo(0.1, 12);
+    expect(schedule.value({ generation: 25 })).toBeCloseTo(0.01, 12);
+  });
+
+  it("throws a TypeError if the interval is invalid", () => {
+    expect(() => step(1, 0.5, 0)).toThrow(TypeError);
+  });
+});
+
+describe("piecewise", () => {
+  const schedule = piecewise([{ at: 10, value: 1 }, { at: 0, value: 0 }, { at: 20, value: 3 }]);
+
+  it("interpolates between the points", () => {
+    expect(schedule.value({ generation: 5 })).toBe(0.5);
+    expect(schedule.value({ generation: 15 })).toBe(2);
+  });
+
+  it("uses the nearest point outside of the range", () => {
+    expect(schedule.value({ generation: -5 })).toBe(0);
+    expect(schedule.value({ generation: 30 })).toBe(3);
+  });
+
+  it("throws a TypeError if the points are invalid", () => {
+    expect(() => piecewise([])).toThrow(TypeError);
+    expect(() => piecewise([{ at: 1, value: 0 }, { at: 1, value: 2 }])).toThrow(TypeError);
+    expect(() => piecewise([{ at: 1, value: NaN }])).toThrow(TypeError);
+  });
+});
@@ -16,20 +16,25 @@
  */
 
 import { ScalarizationMethod, weightedSum } from "../individual/multiobjective_optimization/scalarization";
+import { Scheduled, isScheduled, resolveSchedule } from "./schedule";
 import { choose, isNumber, isPositiveInt } from "../util";
 import { pick } from "../helpers";
 import { AnyIndividual } from "../individual/individual";
+import { OperatorContext } from "./context";
+import { RandomSettings } from "../random";
 import {
   crowdingDistance,
   nonDominatedSort
 } from "../individual/multiobjective_optimization/multiobjective_optimization";
 
 /**
- *
+ * The context is passed by {@link Group.select}, the engines fill in the
+ * progress of the run.
  */
 export type SelectionMethod<I extends AnyIndividual = any> = (
   amount: number,
   individuals: I[],
+  context?: OperatorContext,
 ) => I[];
 
 /**
@@ -52,17 +57,18 @@ export function worst<I extends AnyIndividual>(target: ScalarizationMethod<I> =
 
 /**
  *
+ * @param settings
  * @category selection
  */
-export function random<I extends AnyIndividual>(): SelectionMethod<I> {
-  return (amount, individuals) => choose(individuals, amount);
+export function random<I extends AnyIndividual>(settings: RandomSettings = {}): SelectionMethod<I> {
+  return (amount, individuals) => choose(individuals, amount, settings.random);
 }
 
 /**
  *
  */
-export interface TournamentSelectionSettings<I extends AnyIndividual> {
-  size?: number;
+export interface TournamentSelectionSettings<I extends AnyIndividual> extends RandomSettings {
+  size?: Scheduled;
   duplicates?: boolean;
   winner?: SelectionMethod<I>;
 }
@@ -79,7 +85,7 @@ export function tournament<I extends AnyIndividual>(
   const winner = settings.winner ?? best() as SelectionMethod<I>;
   const size = settings.size ?? 2;
 
-  if (!isNumber(size)|| !isPositiveInt(size)) {
+  if (!isScheduled(size) || (typeof size === "number" && (!isNumber(size) || !isPositiveInt(size)))) {
     throw new TypeError("");
   }
 
@@ -91,12 +97,19 @@ export function tournament<I extends AnyIndividual>(
     throw new TypeError("");
   }
 
-  return (amount, individuals) => {
+  return (amount, individuals, context) => {
+    // scheduled sizes are rounded to the nearest tournament size
+    const current = Math.round(resolveSchedule(size, context));
+
+    if (!isPositiveInt(current)) {
+      throw new TypeError(`scheduled tournament size ${current} is not a positive integer`);
+    }
+
     if (!duplicates && amount > individuals.length) {
       throw new RangeError("");
     }
 
-    if (size > individuals.length) {
+    if (current > individuals.length) {
       throw new RangeError("");
     }
 
@@ -104,8 +117,8 @@ export function tournament<I extends AnyIndividual>(
     const clone = individuals.slice();
 
     for (let i = 0; i < amount; i++) {
-      const sample = choose(clone, size);
-      const [selected] = winner(1, sample);
+      const sample = choose(clone, current, settings.random);
+      const [selected] = winner(1, sample, context);
 
       picked[i] = selected;
 
@@ -121,27 +134,35 @@ export function tournament<I extends AnyIndividual>(
 /**
  * @category selection
  * @param target
+ * @param settings
  */
-export function roulette<I extends AnyIndividual>(target: ScalarizationMethod<I> = weightedSum): SelectionMethod<I> {
+export function roulette<I extends AnyIndividual>(
+  target: ScalarizationMethod<I> = weightedSum,
+  settings: RandomSettings = {},
+): SelectionMethod<I> {
   return (amount, individuals) => {
     const items = individuals.map((item) => {
       const probability = target(item);
       return { probability, item };
     });
 
-    return Array.from(new Array(amount)).map(() => pick(items));
+    return Array.from(new Array(amount)).map(() => pick(items, settings.random));
   };
 }
 
 /**
  *
  * @param target
+ * @param settings
  * @category selection
  */
-export function rank<I extends AnyIndividual>(target: ScalarizationMethod<I> = weightedSum): SelectionMethod<I> {
+export function rank<I extends AnyIndividual>(
+  target: ScalarizationMethod<I> = weightedSum,
+  settings: RandomSettings = {},
+): SelectionMethod<I> {
   return (amount, individuals) => {
     individuals.sort((a, b) => target(a) - target(b));
-    const method = roulette<I>((ind) => individuals.indexOf(ind) + 1);
+    const method = roulette<I>((ind) => individuals.indexOf(ind) + 1, settings);
 
     return method(amount, individuals);
   };
@@ -17,8 +17,11 @@
 
 import * as selection from "./selection";
 import { AnyIndividual, Individual } from "../individual/individual";
+import { Group } from "../individual/group";
 import { List } from "../genotype/list";
 import { SelectionMethod } from "./selection";
+import { Xoshiro128 } from "../random";
+import { linear } from "./schedule";
 import { maximize } from "../creation";
 
 function individualFixture(fitness: number) {
@@ -100,6 +103,20 @@ describe("tournament", () => {
     const [result] = select({ method: selection.tournament({ size: individuals.length, winner: selection.worst() }), individuals });
     expect(result.objective(0).value).toBe(1);
   });
+
+  it("resolves a scheduled size against the context", () => {
+    const method = selection.tournament({ size: linear(1, individuals.length, 10) });
+    const random = new Xoshiro128(1);
+
+    expect(method(1, individuals, { generation: 10, random })[0].objective(0).value).toBe(5);
+    expect(new Group({ members: individuals }).select(1, method, { generation: 20 }).members()[0].objective(0).value).toBe(5);
+  });
+
+  it("throws a TypeError if the scheduled size is not positive", () => {
+    const method = selection.tournament({ size: linear(2, 0, 10) });
+
+    expect(() => method(1, individuals, { generation: 10, random: new Xoshiro128(1) })).toThrow(TypeError);
+  });
 });
 
 describe("roulette", () => {
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { MutationContext, MutationMethod } from "./mutation";
+import { RandomSettings, getRandom } from "../random";
+import { Individual } from "../individual/individual";
+import { randomGauss } from "../util";
+
+/**
+ * Strategy parameters kept in the `State` of an individual. There is either
+ * one step size or one per gene, correlated mutations also keep a rotation
+ * angle for every pair of genes.
+ */
+export interface EvolutionStrategyState {
+  sigma: number | number[];
+  angles?: number[];
+}
+
+/**
+ * `"one"` step size, a step size per gene (`"individual"`) or step sizes and
+ * rotation angles (`"correlated"`).
+ */
+export type StepSizeAdaptation = "one" | "individual" | "correlated";
+
+/**
+ *
+ */
+export interface SelfAdaptiveMutationSettings extends RandomSettings {
+  adaptation?: StepSizeAdaptation;
+  sigma?: number;
+  minSigma?: number;
+  beta?: number;
+}
+
+function wrapAngle(angle: number): number {
+  return angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+}
+
+function rotate(steps: number[], angles: number[]): number[] {
+  const rotated = steps.slice();
+  let k = 0;
+
+  for (let i = 0; i < rotated.length - 1; i++) {
+    for (let j = i + 1; j < rotated.length; j++) {
+      const [a, b] = [rotated[i], rotated[j]];
+      const angle = angles[k++];
+
+      rotated[i] = a * Math.cos(angle) - b * Math.sin(angle);
+      rotated[j] = a * Math.sin(angle) + b * Math.cos(angle);
+    }
+  }
+
+  return rotated;
+}
+
+/**
+ * Self-adaptive mutation of evolution strategies. The strategy parameters
+ * kept in the `sigma` and `angles` entries of the state of the individual are
+ * mutated first with the log-normal rule, then the genes are perturbed with
+ * the new step sizes, rotated by the angles for correlated mutations.
+ * Individuals without strategy parameters start with the `sigma` step size
+ * (1 by default) and zero angles.
+ *
+ * @param settings
+ * @category mutation
+ */
+export function selfAdaptive(settings: SelfAdaptiveMutationSettings = {}): MutationMethod<number[]> {
+  const adaptation = settings.adaptation ?? "individual";
+  const initial = settings.sigma ?? 1;
+  const minSigma = settings.minSigma ?? 1e-10;
+  const beta = settings.beta ?? 0.0873;
+
+  if (!["one", "individual", "correlated"].includes(adaptation)) {
+    throw new TypeError();
+  }
+
+  if ([initial, minSigma, beta].some((value) => typeof value !== "number" || !(value >= 0))) {
+    throw new TypeError();
+  }
+
+  return (genes, context?: MutationContext) => {
+    if (context === undefined) {
+      throw new TypeError("self-adaptive mutation requires the state of the mutated individual");
+    }
+
+    const random = settings.random ?? getRandom();
+    const n = genes.length;
+    const gauss = () => randomGauss(0, 1, random);
+
+    const { state } = context;
+    const strategy: Partial<EvolutionStrategyState> = state.computeAll();
+    const previous = strategy.sigma ?? initial;
+
+    if (adaptation === "one") {
+      if (typeof previous !== "number") {
+        throw new TypeError("expected a single step size");
+      }
+
+      const sigma = Math.max(previous * Math.exp(gauss() / Math.sqrt(n)), minSigma);
+      state.bind({ sigma: () => sigma });
+
+      return genes.map((gene) => gene + sigma * gauss());
+    }
+
+    const steps = typeof previous === "number" ? new Array(n).fill(previous) : previous;
+
+    if (steps.length !== n) {
+      throw new TypeError(`expected ${n} step sizes, got ${steps.length}`);
+    }
+
+    const shared = gauss() / Math.sqrt(2 * n);
+    const sigma = steps.map((step) => Math.max(step * Math.exp(shared + gauss() / Math.sqrt(2 * Math.sqrt(n))), minSigma));
+    const perturbation = sigma.map((step) => step * gauss());
+
+    state.bind({ sigma: () => sigma.slice() });
+
+    if (adaptation === "individual") {
+      return genes.map((gene, i) => gene + perturbation[i]);
+    }
+
+    const count = n * (n - 1) / 2;
+    const angles = (strategy.angles ?? new Array(count).fill(0)).map((angle) => wrapAngle(angle + beta * gauss()));
+
+    if (angles.length !== count) {
+      throw new TypeError(`expected ${count} rotation angles, got ${angles.length}`);
+    }
+
+    state.bind({ angles: () => angles.slice() });
+
+    const rotated = rotate(perturbation, angles);
+    return genes.map((gene, i) => gene + rotated[i]);
+  };
+}
+
+/**
+ * Returns an offspring `state` function, which recombines the step sizes and
+ * the rotation angles of the parents intermediately. The other entries of the
+ * state are copied from the first parent.
+ *
+ * @category mutation
+ */
+export function inheritStrategy(): (parents: Individual<any, any>[]) => Record<string, unknown> {
+  const mean = (values: (number | number[])[]) => {
+    if (values.every((value) => typeof value === "number")) {
+      return (values as number[]).reduce((acc, value) => acc + value, 0) / values.length;
+    }
+
+    const arrays = values.filter(Array.isArray) as number[][];
+
+    if (arrays.length !== values.length || arrays.some((array) => array.length !== arrays[0].length)) {
+      return values[0];
+    }
+
+    return arrays[0].map((_, i) => arrays.reduce((acc, array) => acc + array[i], 0) / arrays.length);
+  };
+
+  return (parents) => {
+    const states = parents.map((parent) => parent.state.computeAll());
+    const data = { ...states[0] };
+
+    for (const key of ["sigma", "angles"]) {
+      if (states.every((state) => state[key] !== undefined)) {
+        data[key] = mean(states.map((state) => state[key]));
+      }
+    }
+
+    return data;
+  };
+}
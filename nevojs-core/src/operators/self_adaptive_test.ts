@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { blueprint, minimize } from "../creation";
+import { inheritStrategy, selfAdaptive } from "./self_adaptive";
+import { Engine } from "../algorithms/engine";
+import { Individual } from "../individual/individual";
+import { List } from "../genotype/list";
+import { State } from "../individual/state";
+import { Xoshiro128 } from "../random";
+import { generations } from "../algorithms/termination";
+import { plus } from "./replacement";
+import { tournament } from "./selection";
+
+function individualFixture(genes: number[], state: Record<string, any> = {}): Individual<List<number>, undefined> {
+  return new Individual({ genotype: new List(genes), state: new State(state) });
+}
+
+describe("selfAdaptive", () => {
+  it("initializes a step size per gene", () => {
+    const individual = individualFixture([0, 0, 0]);
+    individual.mutate(selfAdaptive({ sigma: 0.5, random: new Xoshiro128(1) }));
+
+    const sigma = individual.state.compute("sigma");
+
+    expect(sigma.length).toBe(3);
+    expect(individual.genotype.data()).not.toEqual([0, 0, 0]);
+  });
+
+  it("mutates the step sizes with the log-normal rule", () => {
+    fc.assert(fc.property(fc.integer(), (seed) => {
+      const individual = individualFixture([0, 0], { sigma: [1, 2] });
+      individual.mutate(selfAdaptive({ random: new Xoshiro128(seed) }));
+
+      const [a, b] = individual.state.compute("sigma");
+
+      expect(a).toBeGreaterThan(0);
+      expect(b).toBeGreaterThan(0);
+      expect(a).not.toBe(1);
+    }));
+  });
+
+  it("keeps a single step size", () => {
+    const individual = individualFixture([0, 0, 0, 0], { sigma: 0.1 });
+    individual.mutate(selfAdaptive({ adaptation: "one", random: new Xoshiro128(2) }));
+
+    expect(typeof individual.state.compute("sigma")).toBe("number");
+  });
+
+  it("bounds the step sizes from below", () => {
+    const individual = individualFixture([0, 0], { sigma: [0, 0] });
+    individual.mutate(selfAdaptive({ minSigma: 0.01 }));
+
+    expect(individual.state.compute("sigma")).toEqual([0.01, 0.01]);
+  });
+
+  it("keeps a rotation angle for every pair of genes", () => {
+    fc.assert(fc.property(fc.integer(2, 8), fc.integer(), (length, seed) => {
+      const individual = individualFixture(new Array(length).fill(0));
+      individual.mutate(selfAdaptive({ adaptation: "correlated", beta: 4, random: new Xoshiro128(seed) }));
+
+      const angles: number[] = individual.state.compute("angles");
+
+      expect(angles.length).toBe(length * (length - 1) / 2);
+      expect(angles.every((angle) => angle >= -Math.PI && Math.PI >= angle)).toBe(true);
+    }));
+  });
+
+  it("does not change the length of the perturbation when rotating", () => {
+    const individual = individualFixture([0, 0, 0], { sigma: [1, 1, 1], angles: [0, 0, 0] });
+    const unrotated = individualFixture([0, 0, 0], { sigma: [1, 1, 1] });
+
+    individual.mutate(selfAdaptive({ adaptation: "correlated", beta: 1, random: new Xoshiro128(3) }));
+    unrotated.mutate(selfAdaptive({ random: new Xoshiro128(3) }));
+
+    const norm = (genes: number[]) => Math.hypot(...genes);
+
+    expect(norm(individual.genotype.data())).toBeCloseTo(norm(unrotated.genotype.data()), 10);
+  });
+
+  it("throws a TypeError without the state of the individual", () => {
+    expect(() => selfAdaptive()([1, 2])).toThrow(TypeError);
+    expect(() => individualFixture([0, 0], { sigma: [1] }).mutate(selfAdaptive())).toThrow(TypeError);
+  });
+});
+
+describe("inheritStrategy", () => {
+  it("recombines the strategy parameters intermediately", () => {
+    const parentA = individualFixture([0, 0], { sigma: [1, 2], angles: [0.5], label: "a" });
+    const parentB = individualFixture([1, 1], { sigma: [3, 4], angles: [-0.5], label: "b" });
+
+    const [child] = parentA.offspring([parentB], (parents) => parents, { state: inheritStrategy() });
+
+    expect(child.state.computeAll()).toEqual({ sigma: [2, 3], angles: [0], label: "a" });
+  });
+
+  it("lets the strategy parameters evolve with the individuals", () => {
+    const random = new Xoshiro128(4);
+    const sphere = (individual: Individual<List<number>, unknown>) => minimize(individual.genotype.data().reduce((acc, gene) => acc + gene ** 2, 0));
+
+    const result = new Engine({
+      blueprint: blueprint({ genotype: () => List.generate(5, () => 10 * (random.next() - 0.5)) }),
+      evaluation: sphere,
+      selection: tournament({ size: 2 }),
+      crossover: (parents) => parents,
+      mutation: selfAdaptive({ random }),
+      crossoverSettings: { state: inheritStrategy() },
+      replacement: plus(),
+      termination: generations(100),
+      size: 20,
+      random,
+    }).run();
+
+    expect(result.best[0].values()[0]).toBeLessThan(0.01);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Source of uniformly distributed numbers in the [0, 1) range.
+ */
+export interface Random {
+  next(): number;
+}
+
+/**
+ *
+ */
+export interface RandomSettings {
+  random?: Random;
+}
+
+/**
+ *
+ */
+export class NativeRandom implements Random {
+  /**
+   *
+   */
+  public next(): number {
+    return Math.random();
+  }
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * Seedable xoshiro128** generator.
+ */
+export class Xoshiro128 implements Random {
+  /**
+   *
+   * @param state
+   */
+  public static fromState(state: number[]): Xoshiro128 {
+    if (!Array.isArray(state) || state.length !== 4 || state.some((word) => typeof word !== "number")) {
+      throw new TypeError();
+    }
+
+    if (state.every((word) => word === 0)) {
+      throw new RangeError("xoshiro128** state cannot consist of zeros only");
+    }
+
+    const random = new Xoshiro128(0);
+    random._state = state.map((word) => word >>> 0);
+
+    return random;
+  }
+
+  /**
+   *
+   */
+  private _state: number[];
+
+  /**
+   *
+   * @param seed
+   */
+  public constructor(seed: number) {
+    if (typeof seed !== "number" || !Number.isInteger(seed)) {
+      throw new TypeError();
+    }
+
+    let x = seed >>> 0;
+
+    // splitmix32 expands the seed, so that similar seeds give unrelated streams
+    const splitmix = () => {
+      x = (x + 0x9e3779b9) >>> 0;
+
+      let z = x;
+      z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+      z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+
+      return (z ^ (z >>> 15)) >>> 0;
+    };
+
+    this._state = [splitmix(), splitmix(), splitmix(), splitmix()];
+  }
+
+  /**
+   *
+   */
+  public next(): number {
+    const s = this._state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result / 4294967296;
+  }
+
+  /**
+   *
+   */
+  public state(): number[] {
+    return this._state.map((word) => word >>> 0);
+  }
+
+  /**
+   *
+   */
+  public clone(): Xoshiro128 {
+    return Xoshiro128.fromState(this.state());
+  }
+}
+
+let current: Random = new NativeRandom();
+
+/**
+ *
+ * @category random
+ */
+export function getRandom(): Random {
+  return current;
+}
+
+/**
+ *
+ * @param random
+ * @category random
+ */
+export function setRandom(random: Random): void {
+  if (random === null || typeof random !== "object" || typeof random.next !== "function") {
+    throw new TypeError();
+  }
+
+  current = random;
+}
+
+/**
+ *
+ * @param value
+ * @category random
+ */
+export function seed(value: number): Xoshiro128 {
+  const random = new Xoshiro128(value);
+  setRandom(random);
+
+  return random;
+}
+
+/**
+ * Makes the given generator the default one for everything called
+ * synchronously inside of the function.
+ *
+ * @param random
+ * @param func
+ * @category random
+ */
+export function withRandom<T>(random: Random, func: () => T): T {
+  const previous = current;
+  setRandom(random);
+
+  try {
+    return func();
+  } finally {
+    current = previous;
+  }
+}
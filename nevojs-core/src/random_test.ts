@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright 2020 Aleksander Ciesielski. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as fc from "fast-check";
+import { NativeRandom, Xoshiro128, getRandom, setRandom, withRandom } from "./random";
+import { blueprint, group, maximize } from "./creation";
+import { map, scramble } from "./operators/mutation";
+import { List } from "./genotype/list";
+import { tournament } from "./operators/selection";
+import { uniform } from "./operators/crossover";
+
+function run(seed: number): string {
+  const random = new Xoshiro128(seed);
+  const bp = blueprint({
+    genotype: () => List.generate(10, () => Math.round(getRandom().next())),
+    random,
+  });
+
+  const population = group({ members: bp.create(20), random });
+
+  for (let i = 0; i < 5; i++) {
+    population.evaluate((individual) => maximize(individual.genotype.data().reduce((a, b) => a + b, 0)));
+
+    const parents = population.select(2, tournament({ size: 3 }));
+    const children = parents.crossover(20, uniform());
+
+    population.set(children);
+    population.mutate(map((gene: number) => Number(!gene), { rate: 0.1 }));
+  }
+
+  return JSON.stringify(population.members().map((member) => member.serialize()));
+}
+
+describe("Xoshiro128", () => {
+  describe("next", () => {
+    it("returns numbers in the [0, 1) range", () => {
+      fc.assert(fc.property(fc.integer(), (seed) => {
+        const random = new Xoshiro128(seed);
+
+        for (let i = 0; i < 100; i++) {
+          const value = random.next();
+
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(1);
+        }
+      }));
+    });
+
+    it("returns the same sequence for the same seed", () => {
+      fc.assert(fc.property(fc.integer(), (seed) => {
+        const a = new Xoshiro128(seed);
+        const b = new Xoshiro128(seed);
+
+        for (let i = 0; i < 20; i++) {
+          expect(a.next()).toBe(b.next());
+        }
+      }));
+    });
+
+    it("returns different sequences for different seeds", () => {
+      const a = new Xoshiro128(1);
+      const b = new Xoshiro128(2);
+
+      expect([a.next(), a.next(), a.next()]).not.toEqual([b.next(), b.next(), b.next()]);
+    });
+  });
+
+  describe("constructor", () => {
+    it("throws a TypeError if the seed is not an integer", () => {
+      fc.assert(fc.property(fc.anything(), (seed) => {
+        fc.pre(!Number.isInteger(seed));
+
+        expect(() => new Xoshiro128(seed as number)).toThrow(TypeError);
+      }));
+    });
+  });
+
+  describe("fromState", () => {
+    it("continues the sequence of the generator the state was taken from", () => {
+      const random = new Xoshiro128(42);
+      random.next();
+
+      const copy = Xoshiro128.fromState(random.state());
+
+      expect(copy.next()).toBe(random.next());
+      expect(copy.next()).toBe(random.next());
+    });
+
+    it("throws a RangeError if the state consists of zeros only", () => {
+      expect(() => Xoshiro128.fromState([0, 0, 0, 0])).toThrow(RangeError);
+    });
+  });
+
+  describe("clone", () => {
+    it("does not share the state with the original generator", () => {
+      const random = new Xoshiro128(7);
+      const copy = random.clone();
+
+      const value = copy.next();
+      copy.next();
+
+      expect(random.next()).toBe(value);
+    });
+  });
+});
+
+describe("withRandom", () => {
+  it("sets the default generator for the duration of the function", () => {
+    const random = new Xoshiro128(1);
+
+    withRandom(random, () => {
+      expect(getRandom()).toBe(random);
+    });
+
+    expect(getRandom()).not.toBe(random);
+  });
+
+  it("restores the previous generator if the function throws", () => {
+    const previous = getRandom();
+
+    expect(() => withRandom(new Xoshiro128(1), () => {
+      throw new Error();
+    })).toThrow(Error);
+
+    expect(getRandom()).toBe(previous);
+  });
+
+  it("returns the value returned by the function", () => {
+    expect(withRandom(new NativeRandom(), () => 5)).toBe(5);
+  });
+});
+
+describe("setRandom", () => {
+  it("throws a TypeError if the generator does not have a next method", () => {
+    [undefined, null, 1, {}, { next: 1 }].forEach((random: any) => {
+      expect(() => setRandom(random)).toThrow(TypeError);
+    });
+  });
+});
+
+describe("reproducibility", () => {
+  it("produces identical populations for the same seed", () => {
+    expect(run(123)).toBe(run(123));
+  });
+
+  it("produces different populations for different seeds", () => {
+    expect(run(123)).not.toBe(run(321));
+  });
+
+  it("uses the generator passed to the operator instead of the default one", () => {
+    const spy = jest.spyOn(Math, "random");
+    const method = scramble({ random: new Xoshiro128(5), start: 0, end: 4 });
+
+    method([1, 2, 3, 4, 5]);
+
+    expect(spy).not.toBeCalled();
+    spy.mockRestore();
+  });
+});
@@ -15,14 +15,16 @@
  * =============================================================================
  */
 
+import { Random, getRandom } from "./random";
+
 /**
  * @hidden
  */
-export function shuffle<T>(arr: T[]): T[] {
+export function shuffle<T>(arr: T[], random: Random = getRandom()): T[] {
   let m = arr.length;
 
   while (m) {
-    const i = Math.floor(Math.random() * m--);
+    const i = Math.floor(random.next() * m--);
     const t = arr[m];
 
     arr[m] = arr[i];
@@ -35,14 +37,14 @@ export function shuffle<T>(arr: T[]): T[] {
 /**
  * @hidden
  */
-export function choose<T>(arr: T[], n: number): T[] {
+export function choose<T>(arr: T[], n: number, random: Random = getRandom()): T[] {
   n = Math.min(n, arr.length);
 
   const picked: T[] = new Array(n);
   const clone = arr.slice();
 
   for (let i = 0; i < n; i++) {
-    const index = Math.floor(Math.random() * clone.length);
+    const index = Math.floor(random.next() * clone.length);
 
     picked[i] = clone[index];
     clone.splice(index, 1);
@@ -125,14 +127,29 @@ export function isObjectLiteral(data: any): boolean {
 /**
  * @hidden
  */
-export function randomGauss(mean: number = 0, standardDeviation: number = 1): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
+export function randomGauss(
+  mean: number = 0,
+  standardDeviation: number = 1,
+  random: Random = getRandom(),
+): number {
+  const u1 = random.next();
+  const u2 = random.next();
 
   const value = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
   return standardDeviation * value + mean;
 }
 
+/**
+ * @hidden
+ */
+export function randomCauchy(
+  location: number = 0,
+  scale: number = 1,
+  random: Random = getRandom(),
+): number {
+  return location + scale * Math.tan(Math.PI * (random.next() - 0.5));
+}
+
 /**
  * @hidden
  */
@@ -18,6 +18,7 @@
 import { AnyBlueprint, AsyncBlueprint, SyncBlueprint } from "./individual/blueprint/blueprint_aliases";
 import { AnyIndividual, Individual } from "./individual/individual";
 import { Genotype } from "./individual/data";
+import { Composite } from "./genotype/composite/composite";
 import { CrossoverMethod } from "./operators/crossover";
 import { EvaluationFunction } from "./individual/evaluation/evaluation_function";
 import { Group } from "./individual/group";
@@ -88,3 +89,8 @@ export type $Group<X> = Group<$Individual<X>>;
  *
  */
 export type $Data<X> = $Genotype<X> extends Genotype<infer D> ? D : never;
+
+/**
+ * Record of the chromosomes of a {@link Composite} genotype.
+ */
+export type $Chromosomes<X> = $Genotype<X> extends Composite<infer C> ? C : never;